@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "ImportBatchStatus" AS ENUM ('STAGED', 'COMMITTED', 'FAILED', 'DISCARDED');
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'IMPORT_BATCH';
+
+-- CreateTable
+CREATE TABLE "ImportBatch" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contractCode" TEXT,
+    "status" "ImportBatchStatus" NOT NULL DEFAULT 'STAGED',
+    "uploadedBy" TEXT NOT NULL,
+    "totalRows" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "warningCount" INTEGER NOT NULL DEFAULT 0,
+    "result" JSONB,
+    "committedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImportBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ImportStagingRow" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "sheet" TEXT NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "data" JSONB NOT NULL,
+    "errors" JSONB,
+    "warnings" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ImportStagingRow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportBatch_status_idx" ON "ImportBatch"("status");
+
+-- CreateIndex
+CREATE INDEX "ImportBatch_uploadedBy_idx" ON "ImportBatch"("uploadedBy");
+
+-- CreateIndex
+CREATE INDEX "ImportStagingRow_batchId_sheet_idx" ON "ImportStagingRow"("batchId", "sheet");
+
+-- AddForeignKey
+ALTER TABLE "ImportBatch" ADD CONSTRAINT "ImportBatch_uploadedBy_fkey" FOREIGN KEY ("uploadedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImportStagingRow" ADD CONSTRAINT "ImportStagingRow_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ImportBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "ImportBatchKind" AS ENUM ('LEGACY_WORKBOOK', 'PROJECT_WORKBOOK');
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'PROJECT_REQUIREMENT';
+
+-- AlterTable
+ALTER TABLE "CostEntry" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "ProjectRequirement" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "ImportBatch" ADD COLUMN     "kind" "ImportBatchKind" NOT NULL DEFAULT 'LEGACY_WORKBOOK',
+ADD COLUMN     "projectId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ImportBatch_kind_projectId_idx" ON "ImportBatch"("kind", "projectId");
@@ -0,0 +1,48 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'TASK_TEMPLATE';
+
+-- CreateTable
+CREATE TABLE "TaskTemplateSet" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "TaskTemplateSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskTemplate" (
+    "id" TEXT NOT NULL,
+    "setId" TEXT NOT NULL,
+    "phaseName" "PhaseName" NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "defaultDuration" INTEGER NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "TaskTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskTemplateSet_name_key" ON "TaskTemplateSet"("name");
+
+-- CreateIndex
+CREATE INDEX "TaskTemplateSet_isActive_idx" ON "TaskTemplateSet"("isActive");
+
+-- CreateIndex
+CREATE INDEX "TaskTemplate_setId_phaseName_idx" ON "TaskTemplate"("setId", "phaseName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskTemplate_setId_code_key" ON "TaskTemplate"("setId", "code");
+
+-- AddForeignKey
+ALTER TABLE "TaskTemplate" ADD CONSTRAINT "TaskTemplate_setId_fkey" FOREIGN KEY ("setId") REFERENCES "TaskTemplateSet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "ConfigurationCategory" ADD VALUE 'KPI_WEIGHT';
+ALTER TYPE "ConfigurationCategory" ADD VALUE 'KPI_GRADE_BAND';
+
+-- AlterTable
+ALTER TABLE "KPIEntry" ADD COLUMN     "delayedReduction" DECIMAL(6,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "exceptionalClientModifications" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "gcModifications" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "gradeBand" TEXT,
+ADD COLUMN     "replyReasonReduction" DECIMAL(6,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "teamLeadersGrade" DECIMAL(5,2);
+
+-- AlterTable
+ALTER TABLE "ConfigurationItem" ADD COLUMN     "allowance" INTEGER,
+ADD COLUMN     "value" DECIMAL(10,4);
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "KPIRuleSetStatus" AS ENUM ('DRAFT', 'ACTIVE', 'ARCHIVED');
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'KPI_RULE_SET';
+
+-- AlterTable
+ALTER TABLE "KPIEntry" ADD COLUMN     "ruleSetId" TEXT;
+
+-- CreateTable
+CREATE TABLE "KPIRuleSet" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL DEFAULT 1,
+    "description" TEXT,
+    "status" "KPIRuleSetStatus" NOT NULL DEFAULT 'DRAFT',
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "floor" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "ceiling" DECIMAL(5,2) NOT NULL DEFAULT 100,
+    "factors" JSONB NOT NULL,
+    "roleVariants" JSONB,
+    "gradeBands" JSONB,
+    "createdBy" TEXT NOT NULL,
+    "activatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "KPIRuleSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "KPIRuleSet_status_effectiveFrom_idx" ON "KPIRuleSet"("status", "effectiveFrom");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KPIRuleSet_name_revision_key" ON "KPIRuleSet"("name", "revision");
+
+-- CreateIndex
+CREATE INDEX "KPIEntry_ruleSetId_idx" ON "KPIEntry"("ruleSetId");
+
+-- AddForeignKey
+ALTER TABLE "KPIEntry" ADD CONSTRAINT "KPIEntry_ruleSetId_fkey" FOREIGN KEY ("ruleSetId") REFERENCES "KPIRuleSet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "ClientModificationStatus" AS ENUM ('REQUESTED', 'APPROVED', 'IN_PROGRESS', 'DONE', 'REJECTED');
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'CLIENT_MODIFICATION';
+
+-- CreateTable
+CREATE TABLE "ClientModification" (
+    "id" TEXT NOT NULL,
+    "phaseId" TEXT NOT NULL,
+    "modificationNumber" INTEGER NOT NULL,
+    "requestDate" TIMESTAMP(3) NOT NULL,
+    "requestedBy" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "daysGranted" INTEGER NOT NULL DEFAULT 0,
+    "daysConsumed" INTEGER NOT NULL DEFAULT 0,
+    "status" "ClientModificationStatus" NOT NULL DEFAULT 'REQUESTED',
+    "isExceptional" BOOLEAN NOT NULL DEFAULT false,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "ClientModification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClientModification_phaseId_status_idx" ON "ClientModification"("phaseId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClientModification_phaseId_modificationNumber_key" ON "ClientModification"("phaseId", "modificationNumber");
+
+-- AddForeignKey
+ALTER TABLE "ClientModification" ADD CONSTRAINT "ClientModification_phaseId_fkey" FOREIGN KEY ("phaseId") REFERENCES "Phase"("id") ON DELETE CASCADE ON UPDATE CASCADE;
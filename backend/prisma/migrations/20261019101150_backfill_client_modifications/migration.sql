@@ -0,0 +1,52 @@
+-- Backfill client modifications recorded as project audit log entries
+-- Each entry goes to the phase that was running on its date, or the project's first phase
+WITH "legacy" AS (
+    SELECT "a"."id",
+           "a"."entityId" AS "projectId",
+           "a"."changedBy",
+           "a"."timestamp",
+           CASE jsonb_typeof("a"."changes")
+               WHEN 'string' THEN ("a"."changes" #>> '{}')::jsonb
+               ELSE "a"."changes"
+           END AS "details"
+    FROM "AuditLog" "a"
+    WHERE "a"."entityType" = 'PROJECT'
+      AND "a"."action" = 'UPDATE'
+      AND "a"."changes" IS NOT NULL
+),
+"placed" AS (
+    SELECT "l".*,
+           "p"."id" AS "phaseId"
+    FROM "legacy" "l"
+    CROSS JOIN LATERAL (
+        SELECT "ph"."id"
+        FROM "Phase" "ph"
+        WHERE "ph"."projectId" = "l"."projectId"
+        ORDER BY ("ph"."startDate" <= "l"."timestamp") DESC,
+                 CASE WHEN "ph"."startDate" <= "l"."timestamp" THEN "ph"."startDate" END DESC,
+                 "ph"."startDate" ASC
+        LIMIT 1
+    ) "p"
+    WHERE jsonb_typeof("l"."details") = 'object'
+      AND "l"."details" ? 'modificationNumber'
+)
+INSERT INTO "ClientModification" (
+    "id", "phaseId", "modificationNumber", "requestDate", "requestedBy", "description",
+    "daysGranted", "daysConsumed", "status", "isExceptional", "createdBy", "createdAt", "updatedAt"
+)
+SELECT "placed"."id",
+       "placed"."phaseId",
+       COALESCE((SELECT MAX("m"."modificationNumber") FROM "ClientModification" "m" WHERE "m"."phaseId" = "placed"."phaseId"), 0)
+           + ROW_NUMBER() OVER (PARTITION BY "placed"."phaseId" ORDER BY "placed"."timestamp", "placed"."id"),
+       "placed"."timestamp",
+       'Client',
+       COALESCE(NULLIF("placed"."details"->>'description', ''), 'Modification'),
+       COALESCE(("placed"."details"->>'daysUsed')::INTEGER, 0),
+       COALESCE(("placed"."details"->>'daysUsed')::INTEGER, 0),
+       'DONE',
+       false,
+       "placed"."changedBy",
+       "placed"."timestamp",
+       CURRENT_TIMESTAMP
+FROM "placed"
+WHERE NOT EXISTS (SELECT 1 FROM "ClientModification" "c" WHERE "c"."id" = "placed"."id");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Phase" ADD COLUMN     "modificationAllowedTimes" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "modificationDaysPerTime" INTEGER NOT NULL DEFAULT 5;
+
+-- Carry each project's allowance over to its existing phases
+UPDATE "Phase" SET "modificationAllowedTimes" = "Project"."modificationAllowedTimes",
+"modificationDaysPerTime" = "Project"."modificationDaysPerTime"
+FROM "Project"
+WHERE "Phase"."projectId" = "Project"."id";
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "ChangeOrderStatus" AS ENUM ('DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED');
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'CHANGE_ORDER';
+
+-- CreateTable
+CREATE TABLE "ChangeOrder" (
+    "id" TEXT NOT NULL,
+    "phaseId" TEXT NOT NULL,
+    "orderNumber" INTEGER NOT NULL,
+    "requestDate" TIMESTAMP(3) NOT NULL,
+    "requestedBy" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "estimatedDays" INTEGER NOT NULL,
+    "estimatedCost" DECIMAL(10,2) NOT NULL,
+    "status" "ChangeOrderStatus" NOT NULL DEFAULT 'DRAFT',
+    "submittedAt" TIMESTAMP(3),
+    "decidedBy" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "decisionNote" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "ChangeOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChangeOrder_phaseId_status_idx" ON "ChangeOrder"("phaseId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChangeOrder_phaseId_orderNumber_key" ON "ChangeOrder"("phaseId", "orderNumber");
+
+-- AddForeignKey
+ALTER TABLE "ChangeOrder" ADD CONSTRAINT "ChangeOrder_phaseId_fkey" FOREIGN KEY ("phaseId") REFERENCES "Phase"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'PHASE_DEFINITION';
+
+-- AlterEnum
+ALTER TYPE "PhaseName" ADD VALUE 'TECHNICAL';
+
+-- AlterTable
+ALTER TABLE "Phase" ADD COLUMN     "sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "PhaseDefinition" (
+    "id" TEXT NOT NULL,
+    "projectType" TEXT,
+    "name" "PhaseName" NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "defaultDuration" INTEGER,
+    "autoStart" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "PhaseDefinition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PhaseTransition" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "fromPhaseId" TEXT NOT NULL,
+    "fromPhase" "PhaseName" NOT NULL,
+    "toPhaseId" TEXT,
+    "toPhase" "PhaseName",
+    "autoStarted" BOOLEAN NOT NULL DEFAULT false,
+    "shiftDays" INTEGER NOT NULL DEFAULT 0,
+    "triggeredBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PhaseTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PhaseDefinition_projectType_sequence_idx" ON "PhaseDefinition"("projectType", "sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PhaseDefinition_projectType_name_key" ON "PhaseDefinition"("projectType", "name");
+
+-- CreateIndex
+CREATE INDEX "PhaseTransition_projectId_createdAt_idx" ON "PhaseTransition"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PhaseTransition" ADD CONSTRAINT "PhaseTransition_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
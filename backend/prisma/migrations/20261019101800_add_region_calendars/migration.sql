@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'REGION_CALENDAR';
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "region" TEXT;
+
+-- AlterTable
+ALTER TABLE "Holiday" ADD COLUMN     "region" TEXT;
+
+-- CreateTable
+CREATE TABLE "RegionCalendar" (
+    "id" TEXT NOT NULL,
+    "region" TEXT NOT NULL,
+    "weekendDays" INTEGER[],
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "RegionCalendar_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RegionCalendar_region_key" ON "RegionCalendar"("region");
+
+-- CreateIndex
+CREATE INDEX "Holiday_region_idx" ON "Holiday"("region");
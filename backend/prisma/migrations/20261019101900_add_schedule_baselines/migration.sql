@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "BaselineKind" AS ENUM ('CONTRACT', 'CHANGE_ORDER', 'MANUAL');
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'SCHEDULE_BASELINE';
+
+-- CreateTable
+CREATE TABLE "ScheduleBaseline" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" "BaselineKind" NOT NULL DEFAULT 'MANUAL',
+    "changeOrderId" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "estimatedEndDate" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScheduleBaseline_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BaselinePhase" (
+    "id" TEXT NOT NULL,
+    "baselineId" TEXT NOT NULL,
+    "phaseId" TEXT NOT NULL,
+    "name" "PhaseName" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "estimatedEndDate" TIMESTAMP(3) NOT NULL,
+    "duration" INTEGER NOT NULL,
+
+    CONSTRAINT "BaselinePhase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BaselineTask" (
+    "id" TEXT NOT NULL,
+    "baselineId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "phaseId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "duration" INTEGER NOT NULL,
+
+    CONSTRAINT "BaselineTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduleBaseline_projectId_createdAt_idx" ON "ScheduleBaseline"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "BaselinePhase_baselineId_idx" ON "BaselinePhase"("baselineId");
+
+-- CreateIndex
+CREATE INDEX "BaselinePhase_phaseId_idx" ON "BaselinePhase"("phaseId");
+
+-- CreateIndex
+CREATE INDEX "BaselineTask_baselineId_idx" ON "BaselineTask"("baselineId");
+
+-- AddForeignKey
+ALTER TABLE "ScheduleBaseline" ADD CONSTRAINT "ScheduleBaseline_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BaselinePhase" ADD CONSTRAINT "BaselinePhase_baselineId_fkey" FOREIGN KEY ("baselineId") REFERENCES "ScheduleBaseline"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BaselineTask" ADD CONSTRAINT "BaselineTask_baselineId_fkey" FOREIGN KEY ("baselineId") REFERENCES "ScheduleBaseline"("id") ON DELETE CASCADE ON UPDATE CASCADE;
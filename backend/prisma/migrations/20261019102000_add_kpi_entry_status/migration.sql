@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "KPIEntryStatus" AS ENUM ('DRAFT', 'CONFIRMED');
+
+-- AlterTable
+ALTER TABLE "KPIEntry" ADD COLUMN     "confirmedAt" TIMESTAMP(3),
+ADD COLUMN     "confirmedBy" TEXT,
+ADD COLUMN     "status" "KPIEntryStatus" NOT NULL DEFAULT 'CONFIRMED';
+
+-- CreateIndex
+CREATE INDEX "KPIEntry_status_idx" ON "KPIEntry"("status");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "overAllocationOverride" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "overriddenAt" TIMESTAMP(3),
+ADD COLUMN     "overriddenBy" TEXT,
+ADD COLUMN     "overrideJustification" TEXT,
+ADD COLUMN     "overridePeakAllocation" DECIMAL(6,2);
+
+-- CreateIndex
+CREATE INDEX "Assignment_overAllocationOverride_idx" ON "Assignment"("overAllocationOverride");
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "LeaveType" AS ENUM ('ANNUAL', 'SICK', 'TRAINING', 'PUBLIC_HOLIDAY');
+
+-- CreateEnum
+CREATE TYPE "LeaveStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'LEAVE';
+
+-- CreateTable
+CREATE TABLE "Leave" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "LeaveType" NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "reason" TEXT,
+    "status" "LeaveStatus" NOT NULL DEFAULT 'PENDING',
+    "requestedBy" TEXT NOT NULL,
+    "decidedBy" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "decisionNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "Leave_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Leave_userId_status_idx" ON "Leave"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "Leave_startDate_endDate_idx" ON "Leave"("startDate", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "Leave" ADD CONSTRAINT "Leave_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "QualificationKind" AS ENUM ('LICENSE_TYPE', 'PROJECT_TYPE', 'SKILL');
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'QUALIFICATION';
+
+-- CreateTable
+CREATE TABLE "Qualification" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "kind" "QualificationKind" NOT NULL,
+    "name" TEXT NOT NULL,
+    "certificateNumber" TEXT,
+    "issuedAt" DATE,
+    "expiresAt" DATE,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "Qualification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Qualification_kind_name_idx" ON "Qualification"("kind", "name");
+
+-- CreateIndex
+CREATE INDEX "Qualification_expiresAt_idx" ON "Qualification"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Qualification_userId_kind_name_key" ON "Qualification"("userId", "kind", "name");
+
+-- AddForeignKey
+ALTER TABLE "Qualification" ADD CONSTRAINT "Qualification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- Pipeline steps keep their rows and refer to a phase definition by key
+ALTER TABLE "PhaseDefinition" RENAME TO "PhasePipelineStep";
+ALTER TABLE "PhasePipelineStep" RENAME CONSTRAINT "PhaseDefinition_pkey" TO "PhasePipelineStep_pkey";
+ALTER TABLE "PhasePipelineStep" RENAME COLUMN "name" TO "phaseKey";
+ALTER INDEX "PhaseDefinition_projectType_name_key" RENAME TO "PhasePipelineStep_projectType_phaseKey_key";
+ALTER INDEX "PhaseDefinition_projectType_sequence_idx" RENAME TO "PhasePipelineStep_projectType_sequence_idx";
+
+-- AlterTable
+ALTER TABLE "PhasePipelineStep" ALTER COLUMN "phaseKey" SET DATA TYPE TEXT USING "phaseKey"::TEXT;
+
+-- AlterTable
+ALTER TABLE "Phase" ALTER COLUMN "name" SET DATA TYPE TEXT USING "name"::TEXT;
+
+-- AlterTable
+ALTER TABLE "PhaseTransition" ALTER COLUMN "fromPhase" SET DATA TYPE TEXT USING "fromPhase"::TEXT,
+ALTER COLUMN "toPhase" SET DATA TYPE TEXT USING "toPhase"::TEXT;
+
+-- AlterTable
+ALTER TABLE "BaselinePhase" ALTER COLUMN "name" SET DATA TYPE TEXT USING "name"::TEXT;
+
+-- AlterTable
+ALTER TABLE "TaskTemplate" ALTER COLUMN "phaseName" SET DATA TYPE TEXT USING "phaseName"::TEXT;
+
+-- DropEnum
+DROP TYPE "PhaseName";
+
+-- CreateTable
+CREATE TABLE "PhaseDefinition" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "PhaseDefinition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PhaseDefinition_key_key" ON "PhaseDefinition"("key");
+
+-- The phases that used to be built in
+INSERT INTO "PhaseDefinition" ("id", "key", "label", "updatedAt") VALUES
+    (gen_random_uuid()::TEXT, 'STUDIES', 'Studies', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'DESIGN', 'Design', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'TECHNICAL', 'Technical', CURRENT_TIMESTAMP);
+
+-- AddForeignKey
+ALTER TABLE "Phase" ADD CONSTRAINT "Phase_name_fkey" FOREIGN KEY ("name") REFERENCES "PhaseDefinition"("key") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PhasePipelineStep" ADD CONSTRAINT "PhasePipelineStep_phaseKey_fkey" FOREIGN KEY ("phaseKey") REFERENCES "PhaseDefinition"("key") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskTemplate" ADD CONSTRAINT "TaskTemplate_phaseName_fkey" FOREIGN KEY ("phaseName") REFERENCES "PhaseDefinition"("key") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "KPIEntry" ADD COLUMN     "detected" BOOLEAN NOT NULL DEFAULT false;
+
+-- Only delay detection raises drafts, and only drafts are confirmed by a reviewer
+UPDATE "KPIEntry" SET "detected" = true WHERE "status" = 'DRAFT' OR "confirmedBy" IS NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "KPIEntry" ADD COLUMN     "teamMembersGrade" DECIMAL(5,2);
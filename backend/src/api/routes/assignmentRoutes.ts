@@ -2,6 +2,7 @@ import { Router, Response } from 'express';
 import { authenticate, AuthRequest } from '../../middleware/auth';
 import { authorize, UserRole } from '../../middleware/authz';
 import TeamService from '../../services/teamService';
+import CandidateRankingService from '../../services/candidateRankingService';
 import logger from '../../utils/logger';
 import { AppError } from '../../middleware/errorHandler';
 
@@ -22,7 +23,16 @@ router.post(
         return;
       }
 
-      const { phaseId, teamMemberId, role, workingPercentage, startDate, endDate } = req.body;
+      const {
+        phaseId,
+        teamMemberId,
+        role,
+        workingPercentage,
+        startDate,
+        endDate,
+        overrideAllocation,
+        overrideJustification,
+      } = req.body;
       const userId = req.user!.id as string;
       const userRole = req.user!.role;
 
@@ -40,6 +50,16 @@ router.post(
         return;
       }
 
+      if (overrideAllocation !== undefined && typeof overrideAllocation !== 'boolean') {
+        res.status(400).json({ error: 'overrideAllocation must be a boolean' });
+        return;
+      }
+
+      if (overrideJustification !== undefined && typeof overrideJustification !== 'string') {
+        res.status(400).json({ error: 'overrideJustification must be text' });
+        return;
+      }
+
       // Validate dates
       const parsedStartDate = new Date(startDate);
       const parsedEndDate = endDate ? new Date(endDate) : null;
@@ -59,14 +79,24 @@ router.post(
         return;
       }
 
-      // Check allocation
-      const allocationCheck = await TeamService.checkAllocation(teamMemberId, workingPercentage);
+      // Check allocation over the assignment's dates
+      const allocationCheck = await TeamService.checkAllocation(
+        teamMemberId,
+        workingPercentage,
+        parsedStartDate,
+        parsedEndDate
+      );
 
-      if (allocationCheck.isOverallocated) {
+      // Managers may go beyond 100% by acknowledging it with a justification (FR-032)
+      if (allocationCheck.isOverallocated && !overrideAllocation) {
         res.status(400).json({
           error: allocationCheck.warning,
           currentAllocation: allocationCheck.currentAllocation,
           proposedAllocation: allocationCheck.proposedAllocation,
+          peakDate: allocationCheck.peakDate,
+          leaveDays: allocationCheck.leaveDays,
+          conflicts: allocationCheck.conflicts,
+          canOverride: userRole === 'MANAGER',
         });
         return;
       }
@@ -80,6 +110,8 @@ router.post(
           workingPercentage,
           startDate: parsedStartDate,
           endDate: parsedEndDate || undefined,
+          overrideAllocation,
+          overrideJustification,
         },
         userId,
         userRole
@@ -91,6 +123,8 @@ router.post(
 
       if (error instanceof AppError) {
         res.status(error.statusCode).json({ error: error.message });
+      } else if (error instanceof Error && error.message.startsWith('Only managers')) {
+        res.status(403).json({ error: error.message });
       } else if (error instanceof Error && error.message.includes('already assigned')) {
         res.status(409).json({ error: 'Team member is already assigned to this phase' });
       } else if (error instanceof Error && error.message.includes('not found')) {
@@ -169,6 +203,77 @@ router.get(
   }
 );
 
+/**
+ * GET /assignments/overrides
+ * Active assignments made beyond 100% by a manager's override, per team member
+ */
+router.get(
+  '/overrides',
+  authenticate,
+  authorize(['MANAGER'] as UserRole[]),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const report = await TeamService.getOverAllocationOverrides();
+
+      res.json(report);
+    } catch (error) {
+      logger.error('Failed to get over-allocation overrides', { error, userId: req.user?.id });
+
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Failed to get over-allocation overrides' });
+      }
+    }
+  }
+);
+
+/**
+ * GET /assignments/candidates/:phaseId?workingPercentage=&startDate=&endDate=
+ * Team members ranked for staffing a phase by qualification, free time over
+ * the dates, region and KPI history
+ */
+router.get(
+  '/candidates/:phaseId',
+  authenticate,
+  authorize(['MANAGER', 'TEAM_LEADER'] as UserRole[]),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { workingPercentage, startDate, endDate } = req.query;
+
+      const parsedStartDate = startDate ? new Date(startDate as string) : undefined;
+      const parsedEndDate = endDate ? new Date(endDate as string) : undefined;
+      if (
+        (parsedStartDate && isNaN(parsedStartDate.getTime())) ||
+        (parsedEndDate && isNaN(parsedEndDate.getTime()))
+      ) {
+        res.status(400).json({ error: 'Invalid date format' });
+        return;
+      }
+
+      const ranking = await CandidateRankingService.rankCandidates(req.params.phaseId as string, {
+        workingPercentage: workingPercentage ? Number(workingPercentage) : undefined,
+        startDate: parsedStartDate,
+        endDate: parsedEndDate,
+      });
+
+      res.json(ranking);
+    } catch (error) {
+      logger.error('Failed to rank assignment candidates', { error, userId: req.user?.id });
+
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({ error: error.message });
+      } else if (error instanceof Error && error.message.includes('must be')) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Failed to rank assignment candidates' });
+      }
+    }
+  }
+);
+
 /**
  * PUT /assignments/:id
  * Update an existing assignment
@@ -185,13 +290,24 @@ router.put(
       }
 
       const id = req.params.id as string;
-      const { role, workingPercentage, startDate, endDate } = req.body;
+      const { role, workingPercentage, startDate, endDate, overrideAllocation, overrideJustification } =
+        req.body;
       const userId = req.user!.id as string;
       const userRole = req.user!.role;
 
-      // Parse dates if provided
+      if (overrideAllocation !== undefined && typeof overrideAllocation !== 'boolean') {
+        res.status(400).json({ error: 'overrideAllocation must be a boolean' });
+        return;
+      }
+
+      if (overrideJustification !== undefined && typeof overrideJustification !== 'string') {
+        res.status(400).json({ error: 'overrideJustification must be text' });
+        return;
+      }
+
+      // Parse dates if provided; a null end date makes the assignment open-ended
       const parsedStartDate = startDate ? new Date(startDate) : undefined;
-      const parsedEndDate = endDate ? new Date(endDate) : undefined;
+      const parsedEndDate = endDate === null ? null : endDate ? new Date(endDate) : undefined;
 
       if (parsedStartDate && isNaN(parsedStartDate.getTime())) {
         res.status(400).json({ error: 'Invalid startDate format' });
@@ -215,6 +331,8 @@ router.put(
           workingPercentage,
           startDate: parsedStartDate,
           endDate: parsedEndDate,
+          overrideAllocation,
+          overrideJustification,
         },
         userId,
         userRole
@@ -228,6 +346,8 @@ router.put(
         res.status(error.statusCode).json({ error: error.message });
       } else if (error instanceof Error && error.message === 'Assignment not found') {
         res.status(404).json({ error: 'Assignment not found' });
+      } else if (error instanceof Error && error.message.startsWith('Only managers')) {
+        res.status(403).json({ error: error.message });
       } else if (error instanceof Error) {
         res.status(400).json({ error: error.message });
       } else {
@@ -63,17 +63,23 @@ router.post('/phases/:phaseId/assignments',
 
       const overallocationCheck = await assignmentService.checkOverAllocation(
         input.userId,
-        input.workingPercent
+        input.workingPercent,
+        new Date(input.startDate),
+        input.endDate ? new Date(input.endDate) : null
       );
 
       if (overallocationCheck.isOverallocated) {
-        const warning = `Warning: Team member will be over-allocated (${overallocationCheck.currentAllocation + input.workingPercent}%).`;
+        const warning = `Warning: Team member will be over-allocated (${overallocationCheck.peakAllocation}%) from ${overallocationCheck.peakDate.toISOString().split('T')[0]}.`;
         logger.warn(warning, { userId: input.userId });
 
         res.status(200).json({
           assignment: null,
           overallocationWarning: warning,
           currentAllocation: overallocationCheck.currentAllocation,
+          peakAllocation: overallocationCheck.peakAllocation,
+          peakDate: overallocationCheck.peakDate,
+          leaveDays: overallocationCheck.leaveDays,
+          conflicts: overallocationCheck.conflicts,
         });
         return;
       }
@@ -0,0 +1,97 @@
+import { Router, Response } from 'express';
+import scheduleBaselineService from '../../services/scheduleBaselineService';
+import { kpiService } from '../../services/kpiService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { createSendError } from '../../utils/sendError';
+
+const router = Router();
+
+router.use(authenticate);
+
+const sendError = createSendError();
+
+/**
+ * @route   GET /api/v1/baselines/project/:projectId
+ * @desc    List a project's schedule baselines, oldest first
+ * @access  Private
+ */
+router.get(
+  '/project/:projectId',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const baselines = await scheduleBaselineService.listForProject(req.params.projectId as string);
+    res.json(baselines);
+  })
+);
+
+/**
+ * @route   POST /api/v1/baselines/project/:projectId
+ * @desc    Snapshot the project's current dates as a new baseline and measure
+ *          KPI delays against it
+ * @access  Private (Manager)
+ */
+router.post(
+  '/project/:projectId',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { name } = req.body;
+    if (!name) {
+      res.status(400).json({ error: 'name is required' });
+      return;
+    }
+
+    try {
+      const baseline = await scheduleBaselineService.capture(
+        req.params.projectId as string,
+        { name },
+        req.user!.id,
+        req.user!.role
+      );
+      await kpiService.syncDelayedDays(baseline.projectId);
+      res.status(201).json(baseline);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/baselines/project/:projectId/variance?baselineId=
+ * @desc    Planned against actual start and end per phase, in working days,
+ *          against the given baseline or else the latest one
+ * @access  Private
+ */
+router.get(
+  '/project/:projectId/variance',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const report = await scheduleBaselineService.getVariance(
+        req.params.projectId as string,
+        req.query.baselineId as string | undefined
+      );
+      res.json(report);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/baselines/:id
+ * @desc    A baseline with its phase and task dates
+ * @access  Private
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const baseline = await scheduleBaselineService.get(req.params.id as string);
+      res.json(baseline);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+export default router;
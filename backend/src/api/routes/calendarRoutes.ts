@@ -0,0 +1,145 @@
+import { Router, Response } from 'express';
+import workingCalendarService from '../../services/workingCalendarService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/calendar/regions
+ * @desc    List the regions with their own weekly pattern
+ * @access  Private
+ */
+router.get(
+  '/regions',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const calendars = await workingCalendarService.listRegionCalendars();
+    res.json(calendars);
+  })
+);
+
+/**
+ * @route   PUT /api/v1/calendar/regions/:region
+ * @desc    Set a region's weekend days (0 = Sunday ... 6 = Saturday)
+ * @access  Private (Manager)
+ */
+router.put(
+  '/regions/:region',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const calendar = await workingCalendarService.setRegionCalendar(
+        req.params.region as string,
+        req.body.weekendDays,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(calendar);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!message.includes('must be')) throw error;
+      res.status(400).json({ error: message });
+    }
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/calendar/regions/:region
+ * @desc    Put a region back on the default weekend
+ * @access  Private (Manager)
+ */
+router.delete(
+  '/regions/:region',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      await workingCalendarService.deleteRegionCalendar(
+        req.params.region as string,
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(204).send();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!message.includes('not found')) throw error;
+      res.status(404).json({ error: message });
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/calendar/holidays?year=&region=
+ * @desc    List the holidays the scheduler skips, optionally for one year and region
+ * @access  Private
+ */
+router.get(
+  '/holidays',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const year = req.query.year ? parseInt(req.query.year as string, 10) : undefined;
+    const holidays = await workingCalendarService.listHolidays(
+      year,
+      req.query.region as string | undefined
+    );
+    res.json(holidays);
+  })
+);
+
+/**
+ * @route   POST /api/v1/calendar/holidays
+ * @desc    Add a holiday for one region, or every region when none is given;
+ *          endDate defaults to startDate for one-day holidays
+ * @access  Private (Manager)
+ */
+router.post(
+  '/holidays',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { name, region, startDate, endDate } = req.body;
+    if (!name || !startDate) {
+      res.status(400).json({ error: 'name and startDate are required' });
+      return;
+    }
+
+    try {
+      const holiday = await workingCalendarService.createHoliday(
+        { name, region, startDate, endDate },
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(201).json(holiday);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!message.includes('must be')) throw error;
+      res.status(400).json({ error: message });
+    }
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/calendar/holidays/:id
+ * @desc    Remove a holiday
+ * @access  Private (Manager)
+ */
+router.delete(
+  '/holidays/:id',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      await workingCalendarService.deleteHoliday(
+        req.params.id as string,
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(204).send();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!message.includes('not found')) throw error;
+      res.status(404).json({ error: message });
+    }
+  })
+);
+
+export default router;
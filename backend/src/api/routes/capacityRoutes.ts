@@ -0,0 +1,43 @@
+import { Router, Response } from 'express';
+import capacityPlanningService from '../../services/capacityPlanningService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/capacity?startDate=&months=&position=&region=
+ * @desc    Planned load against headcount per month by position and region,
+ *          with tentative demand from planned projects and forecast shortfalls
+ * @access  Private (Manager, Team Leader)
+ */
+router.get(
+  '/',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+    if (startDate && isNaN(startDate.getTime())) {
+      res.status(400).json({ error: 'Invalid startDate format' });
+      return;
+    }
+
+    try {
+      const plan = await capacityPlanningService.getCapacityPlan({
+        startDate,
+        months: req.query.months ? Number(req.query.months) : undefined,
+        position: req.query.position as string | undefined,
+        region: req.query.region as string | undefined,
+      });
+      res.json(plan);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!message.includes('must be')) throw error;
+      res.status(400).json({ error: message });
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,246 @@
+import { Router, Response } from 'express';
+import { ChangeOrderStatus } from '@prisma/client';
+import changeOrderService from '../../services/changeOrderService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { createSendError } from '../../utils/sendError';
+
+const router = Router();
+
+router.use(authenticate);
+
+const sendError = createSendError({ conflict: ['Only '] });
+
+/**
+ * @route   GET /api/v1/change-orders/project/:projectId
+ * @desc    List a project's change orders, optionally by status
+ * @access  Private
+ */
+router.get(
+  '/project/:projectId',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const changeOrders = await changeOrderService.listForProject(
+      req.params.projectId as string,
+      req.query.status as ChangeOrderStatus | undefined
+    );
+    res.json(changeOrders);
+  })
+);
+
+/**
+ * @route   GET /api/v1/change-orders/phase/:phaseId
+ * @desc    List a phase's change orders
+ * @access  Private
+ */
+router.get(
+  '/phase/:phaseId',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const changeOrders = await changeOrderService.listForPhase(req.params.phaseId as string);
+    res.json(changeOrders);
+  })
+);
+
+/**
+ * @route   GET /api/v1/change-orders/phase/:phaseId/estimate?days=
+ * @desc    Price extra days on a phase from its assigned staff's monthly cost
+ * @access  Private (Manager, Team Leader)
+ */
+router.get(
+  '/phase/:phaseId/estimate',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const estimate = await changeOrderService.estimate(
+        req.params.phaseId as string,
+        Number(req.query.days)
+      );
+      res.json(estimate);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/change-orders/phase/:phaseId
+ * @desc    Draft a change order on a phase
+ * @access  Private (Manager, Team Leader)
+ */
+router.post(
+  '/phase/:phaseId',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { requestDate, requestedBy, description, estimatedDays, estimatedCost } = req.body;
+    if (!requestDate || !requestedBy || !description || estimatedDays === undefined) {
+      res.status(400).json({
+        error: 'requestDate, requestedBy, description and estimatedDays are required',
+      });
+      return;
+    }
+
+    try {
+      const changeOrder = await changeOrderService.createDraft(
+        req.params.phaseId as string,
+        { requestDate, requestedBy, description, estimatedDays, estimatedCost },
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(201).json(changeOrder);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/change-orders/:id
+ * @desc    Get a change order
+ * @access  Private
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await changeOrderService.get(req.params.id as string));
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   PUT /api/v1/change-orders/:id
+ * @desc    Update a draft change order
+ * @access  Private (Manager, Team Leader)
+ */
+router.put(
+  '/:id',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { requestDate, requestedBy, description, estimatedDays, estimatedCost, version } =
+      req.body;
+    if (version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const changeOrder = await changeOrderService.updateDraft(
+        req.params.id as string,
+        { requestDate, requestedBy, description, estimatedDays, estimatedCost, version },
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(changeOrder);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/change-orders/:id
+ * @desc    Delete a draft change order
+ * @access  Private (Manager, Team Leader)
+ */
+router.delete(
+  '/:id',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      await changeOrderService.deleteDraft(req.params.id as string, req.user!.id, req.user!.role);
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/change-orders/:id/submit
+ * @desc    Send a draft change order for manager approval
+ * @access  Private (Manager, Team Leader)
+ */
+router.post(
+  '/:id/submit',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (req.body.version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const changeOrder = await changeOrderService.submit(
+        req.params.id as string,
+        req.body.version,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(changeOrder);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/change-orders/:id/approve
+ * @desc    Approve a submitted change order, extending the phase and the project cost
+ * @access  Private (Manager)
+ */
+router.post(
+  '/:id/approve',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (req.body.version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const approval = await changeOrderService.approve(
+        req.params.id as string,
+        req.body.version,
+        req.body.note,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(approval);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/change-orders/:id/reject
+ * @desc    Reject a submitted change order
+ * @access  Private (Manager)
+ */
+router.post(
+  '/:id/reject',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (req.body.version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const changeOrder = await changeOrderService.reject(
+        req.params.id as string,
+        req.body.version,
+        req.body.note,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(changeOrder);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,166 @@
+import { Router, Response } from 'express';
+import modificationTrackingService from '../../services/modificationTrackingService';
+import changeOrderService from '../../services/changeOrderService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { createSendError } from '../../utils/sendError';
+
+const router = Router();
+
+router.use(authenticate);
+
+const sendError = createSendError({
+  conflict: ['Modification limit reached', 'Cannot move'],
+});
+
+/**
+ * @route   GET /api/v1/modifications/phase/:phaseId
+ * @desc    Get a phase's client modifications and how much of its allowance is used
+ * @access  Private
+ */
+router.get(
+  '/phase/:phaseId',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const stats = await modificationTrackingService.getPhaseModificationStats(
+        req.params.phaseId as string
+      );
+      res.json(stats);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/modifications/phase/:phaseId
+ * @desc    Record a client modification request on a phase. A regular request
+ *          the phase allowance can't cover is drafted as a billable change
+ *          order instead, returned with the 409.
+ * @access  Private (Manager, Team Leader)
+ */
+router.post(
+  '/phase/:phaseId',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const {
+      requestDate,
+      requestedBy,
+      description,
+      daysGranted,
+      daysConsumed,
+      status,
+      isExceptional,
+    } = req.body;
+    if (!requestDate || !requestedBy || !description) {
+      res.status(400).json({ error: 'requestDate, requestedBy and description are required' });
+      return;
+    }
+
+    const input = {
+      requestDate,
+      requestedBy,
+      description,
+      daysGranted,
+      daysConsumed,
+      status,
+      isExceptional,
+    };
+
+    try {
+      const modification = await modificationTrackingService.createModification(
+        req.params.phaseId as string,
+        input,
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(201).json(modification);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (!message.startsWith('Modification limit reached')) {
+        sendError(res, error);
+        return;
+      }
+
+      const changeOrder = await changeOrderService.createFromModificationRequest(
+        req.params.phaseId as string,
+        input,
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(409).json({ error: message, changeOrder });
+    }
+  })
+);
+
+/**
+ * @route   PUT /api/v1/modifications/:id
+ * @desc    Update a client modification, e.g. approve it or record the days consumed
+ * @access  Private (Manager, Team Leader)
+ */
+router.put(
+  '/:id',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const {
+      requestDate,
+      requestedBy,
+      description,
+      daysGranted,
+      daysConsumed,
+      status,
+      isExceptional,
+      version,
+    } = req.body;
+    if (version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const modification = await modificationTrackingService.updateModification(
+        req.params.id as string,
+        {
+          requestDate,
+          requestedBy,
+          description,
+          daysGranted,
+          daysConsumed,
+          status,
+          isExceptional,
+          version,
+        },
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(modification);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/modifications/:id
+ * @desc    Delete a client modification recorded in error
+ * @access  Private (Manager)
+ */
+router.delete(
+  '/:id',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      await modificationTrackingService.deleteModification(
+        req.params.id as string,
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+export default router;
@@ -24,7 +24,7 @@ router.post(
   authorize(['MANAGER'] as UserRole[]),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { category, name, code, description, sortOrder } = req.body;
+      const { category, name, code, description, value, allowance, sortOrder } = req.body;
 
       if (!category || !name) {
         res.status(400).json({ error: 'category and name are required' });
@@ -36,6 +36,8 @@ router.post(
         name,
         code,
         description,
+        value,
+        allowance,
         sortOrder,
       });
 
@@ -55,12 +57,14 @@ router.put(
     try {
       const category = req.params.category as ConfigurationCategory;
       const name = req.params.key as string;
-      const { code, description, isActive, sortOrder } = req.body;
+      const { code, description, value, allowance, isActive, sortOrder } = req.body;
 
       const item = await configurationService.updateConfiguration(category, name, {
         name,
         code,
         description,
+        value,
+        allowance,
         isActive,
         sortOrder,
       });
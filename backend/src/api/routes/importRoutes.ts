@@ -0,0 +1,161 @@
+import { Router, Response } from 'express';
+import multer from 'multer';
+import { ExcelImportService } from '../../services/excelImportService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { createSendError } from '../../utils/sendError';
+import { attachmentDisposition } from '../../utils/contentDisposition';
+import logger from '../../utils/logger';
+
+const router = Router();
+
+const acceptedMimeTypes = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+  'application/vnd.ms-excel.sheet.macroEnabled.12',
+];
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024 },
+});
+
+const excelImportService = new ExcelImportService();
+
+router.use(authenticate);
+router.use(authorize(['MANAGER']));
+
+const sendError = createSendError({ conflict: ['cannot be'] });
+
+/**
+ * @route   POST /api/v1/imports/excel
+ * @desc    Upload a follow-up workbook, stage its rows and return a dry-run preview
+ * @access  Private (Manager)
+ */
+router.post(
+  '/excel',
+  upload.single('file'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    if (!acceptedMimeTypes.includes(req.file.mimetype)) {
+      res.status(400).json({
+        error: 'Invalid file type. Please upload an Excel file (.xlsx, .xlsm, .xls)',
+      });
+      return;
+    }
+
+    logger.info('Excel import upload received', {
+      fileName: req.file.originalname,
+      fileSize: req.file.size,
+      mimeType: req.file.mimetype,
+    });
+
+    const contractCode =
+      typeof req.body?.contractCode === 'string' && req.body.contractCode.trim()
+        ? req.body.contractCode.trim()
+        : undefined;
+
+    const preview = await excelImportService.stageWorkbook(
+      req.file.originalname,
+      req.file.buffer,
+      req.user!.id,
+      contractCode
+    );
+    res.status(201).json(preview);
+  })
+);
+
+/**
+ * @route   GET /api/v1/imports
+ * @desc    List recent import batches
+ * @access  Private (Manager)
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const limit = req.query.limit ? Math.min(Number(req.query.limit) || 20, 100) : 20;
+    const batches = await excelImportService.listBatches(limit);
+    res.json(batches);
+  })
+);
+
+/**
+ * @route   GET /api/v1/imports/:batchId
+ * @desc    Get the dry-run preview of a staged import batch
+ * @access  Private (Manager)
+ */
+router.get(
+  '/:batchId',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const preview = await excelImportService.getBatchPreview(req.params.batchId as string);
+      res.json(preview);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/imports/:batchId/commit
+ * @desc    Apply a staged import batch in a single transaction
+ * @access  Private (Manager)
+ */
+router.post(
+  '/:batchId/commit',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await excelImportService.commitBatch(
+        req.params.batchId as string,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(result);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/imports/:batchId/report
+ * @desc    Download the per-row error/warning report of an import batch
+ * @access  Private (Manager)
+ */
+router.get(
+  '/:batchId/report',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const report = await excelImportService.generateImportReport(req.params.batchId as string);
+      res.setHeader('Content-Type', report.mimeType);
+      res.setHeader('Content-Disposition', attachmentDisposition(report.filename));
+      res.send(report.buffer);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/imports/:batchId
+ * @desc    Discard a staged import batch
+ * @access  Private (Manager)
+ */
+router.delete(
+  '/:batchId',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      await excelImportService.discardBatch(req.params.batchId as string);
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+export default router;
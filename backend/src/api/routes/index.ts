@@ -24,10 +24,23 @@ router.get('/', (req, res) => {
       assignments: '/assignments',
       costs: '/costs',
       kpis: '/kpis',
+      kpiRuleSets: '/kpis/rule-sets',
       reports: '/reports',
       configuration: '/configuration',
       users: '/users',
       team: '/team',
+      imports: '/imports',
+      taskTemplates: '/task-templates',
+      modifications: '/modifications',
+      changeOrders: '/change-orders',
+      phasePipelines: '/phase-pipelines',
+      taskDependencies: '/task-dependencies',
+      calendar: '/calendar',
+      timeline: '/timeline',
+      baselines: '/baselines',
+      capacity: '/capacity',
+      leave: '/leave',
+      qualifications: '/qualifications',
     },
   });
 });
@@ -41,19 +54,46 @@ import taskRoutes from './taskRoutes';
 import assignmentRoutes from './assignmentRoutes';
 import reportRoutes from './reportRoutes';
 import kpiRoutes from './kpiRoutes';
+import kpiRuleSetRoutes from './kpiRuleSetRoutes';
 import timelineRoutes from './timelineRoutes';
 import userRoutes from './userRoutes';
+import importRoutes from './importRoutes';
+import projectWorkbookRoutes from './projectWorkbookRoutes';
+import taskTemplateRoutes from './taskTemplateRoutes';
+import clientModificationRoutes from './clientModificationRoutes';
+import changeOrderRoutes from './changeOrderRoutes';
+import phasePipelineRoutes from './phasePipelineRoutes';
+import taskDependencyRoutes from './taskDependencyRoutes';
+import calendarRoutes from './calendarRoutes';
+import baselineRoutes from './baselineRoutes';
+import capacityRoutes from './capacityRoutes';
+import leaveRoutes from './leaveRoutes';
+import qualificationRoutes from './qualificationRoutes';
 
 // Mount routes - each only once!
 router.use('/projects', projectRoutes);
+router.use('/projects', projectWorkbookRoutes);
 router.use('/phases', phaseRoutes);
 router.use('/phases/:phaseId/tasks', taskRoutes);
 router.use('/phases/:phaseId/assignments', assignmentRoutes);
 router.use('/assignments', assignmentRoutes);
+router.use('/kpis/rule-sets', kpiRuleSetRoutes);
 router.use('/kpis', kpiRoutes);
 router.use('/reports', reportRoutes);
 router.use('/configuration', configurationRoutes);
 router.use('/requirements', requirementRoutes);
 router.use('/users', userRoutes);
+router.use('/imports', importRoutes);
+router.use('/task-templates', taskTemplateRoutes);
+router.use('/modifications', clientModificationRoutes);
+router.use('/change-orders', changeOrderRoutes);
+router.use('/phase-pipelines', phasePipelineRoutes);
+router.use('/task-dependencies', taskDependencyRoutes);
+router.use('/calendar', calendarRoutes);
+router.use('/timeline', timelineRoutes);
+router.use('/baselines', baselineRoutes);
+router.use('/capacity', capacityRoutes);
+router.use('/leave', leaveRoutes);
+router.use('/qualifications', qualificationRoutes);
 
 export default router;
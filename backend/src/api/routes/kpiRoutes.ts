@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { kpiService } from '../../services/kpiService';
+import delayDetectionService from '../../services/delayDetectionService';
 import { authenticate, AuthRequest } from '../../middleware/auth';
 import { requireManager } from '../../middleware/authz';
 import { asyncHandler } from '../../utils/asyncHandler';
@@ -18,7 +19,17 @@ router.post(
   '/',
   requireManager,
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { employeeId, projectId, phaseId, delayedDays, clientModifications, technicalMistakes, period } = req.body;
+    const {
+      employeeId,
+      projectId,
+      phaseId,
+      delayedDays,
+      clientModifications,
+      technicalMistakes,
+      exceptionalClientModifications,
+      gcModifications,
+      period,
+    } = req.body;
 
     // Validate required fields
     if (!employeeId || !projectId || !phaseId) {
@@ -35,6 +46,12 @@ router.post(
     if (technicalMistakes !== undefined && technicalMistakes < 0) {
       return res.status(400).json({ error: 'technicalMistakes cannot be negative' });
     }
+    if (exceptionalClientModifications !== undefined && exceptionalClientModifications < 0) {
+      return res.status(400).json({ error: 'exceptionalClientModifications cannot be negative' });
+    }
+    if (gcModifications !== undefined && gcModifications < 0) {
+      return res.status(400).json({ error: 'gcModifications cannot be negative' });
+    }
 
     // Validate period format if provided
     if (period) {
@@ -52,6 +69,8 @@ router.post(
         delayedDays,
         clientModifications,
         technicalMistakes,
+        exceptionalClientModifications,
+        gcModifications,
         period: period ? new Date(period) : undefined,
       },
       req.user!.id,
@@ -108,7 +127,14 @@ router.put(
   requireManager,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
-    const { delayedDays, clientModifications, technicalMistakes, period } = req.body;
+    const {
+      delayedDays,
+      clientModifications,
+      technicalMistakes,
+      exceptionalClientModifications,
+      gcModifications,
+      period,
+    } = req.body;
 
     // Validate non-negative values
     if (delayedDays !== undefined && delayedDays < 0) {
@@ -120,6 +146,12 @@ router.put(
     if (technicalMistakes !== undefined && technicalMistakes < 0) {
       return res.status(400).json({ error: 'technicalMistakes cannot be negative' });
     }
+    if (exceptionalClientModifications !== undefined && exceptionalClientModifications < 0) {
+      return res.status(400).json({ error: 'exceptionalClientModifications cannot be negative' });
+    }
+    if (gcModifications !== undefined && gcModifications < 0) {
+      return res.status(400).json({ error: 'gcModifications cannot be negative' });
+    }
 
     // Validate period format if provided
     if (period) {
@@ -135,6 +167,8 @@ router.put(
         delayedDays,
         clientModifications,
         technicalMistakes,
+        exceptionalClientModifications,
+        gcModifications,
         period: period ? new Date(period) : undefined,
       },
       req.user!.id,
@@ -208,4 +242,158 @@ router.get(
   })
 );
 
+/**
+ * @route   GET /api/v1/kpis/leaderboard
+ * @desc    Rank employees by average score for a period, with quartiles and changes from the previous period
+ * @access  Private (Manager only)
+ */
+router.get(
+  '/leaderboard',
+  requireManager,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { startDate, endDate, previousStartDate, previousEndDate, region, position, phaseType } =
+      req.query;
+
+    if (!startDate || !endDate) {
+      return res.status(400).json({ error: 'startDate and endDate are required' });
+    }
+
+    try {
+      const leaderboard = await kpiService.getLeaderboard({
+        startDate: startDate as string,
+        endDate: endDate as string,
+        previousStartDate: previousStartDate as string,
+        previousEndDate: previousEndDate as string,
+        region: region as string,
+        position: position as string,
+        phaseType: phaseType as string,
+      });
+
+      res.json(leaderboard);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.startsWith('Invalid') || message.includes('must be')) {
+        return res.status(400).json({ error: message });
+      }
+      throw error;
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/kpis/scoring-rules
+ * @desc    Get the reduction weights and grade bands currently used for scoring
+ * @access  Private
+ */
+router.get(
+  '/scoring-rules',
+  asyncHandler(async (_req: AuthRequest, res: Response) => {
+    const rules = await kpiService.getScoringRules();
+    res.json(rules);
+  })
+);
+
+/**
+ * @route   POST /api/v1/kpis/recompute
+ * @desc    Recompute all stored scores with the current weights and grade bands
+ * @access  Private (Manager only)
+ */
+router.post(
+  '/recompute',
+  requireManager,
+  asyncHandler(async (_req: AuthRequest, res: Response) => {
+    const updated = await kpiService.recomputeScores();
+    res.json({ updated });
+  })
+);
+
+/**
+ * @route   GET /api/v1/kpis/drafts
+ * @desc    Draft entries raised by delay detection, waiting for review
+ * @access  Private (Manager only)
+ */
+router.get(
+  '/drafts',
+  requireManager,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { projectId, phaseId } = req.query;
+
+    const drafts = await kpiService.getDraftKPIs({
+      projectId: projectId as string,
+      phaseId: phaseId as string,
+    });
+
+    res.json(drafts);
+  })
+);
+
+/**
+ * @route   POST /api/v1/kpis/detect-delays
+ * @desc    Scan for overdue tasks and phases now instead of waiting for the scheduled run
+ * @access  Private (Manager only)
+ */
+router.post(
+  '/detect-delays',
+  requireManager,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const asOf = req.body.asOf ? new Date(req.body.asOf) : new Date();
+    if (isNaN(asOf.getTime())) {
+      return res.status(400).json({ error: 'Invalid asOf format' });
+    }
+
+    const result = await delayDetectionService.detect(asOf);
+
+    res.json(result);
+  })
+);
+
+/**
+ * @route   POST /api/v1/kpis/:id/confirm
+ * @desc    Confirm a draft entry, optionally correcting its counts
+ * @access  Private (Manager only)
+ */
+router.post(
+  '/:id/confirm',
+  requireManager,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const {
+      delayedDays,
+      clientModifications,
+      technicalMistakes,
+      exceptionalClientModifications,
+      gcModifications,
+    } = req.body;
+
+    try {
+      const kpiEntry = await kpiService.confirmKPIEntry(
+        id as string,
+        {
+          delayedDays,
+          clientModifications,
+          technicalMistakes,
+          exceptionalClientModifications,
+          gcModifications,
+        },
+        req.user!.id,
+        req.user!.role
+      );
+
+      res.json(kpiEntry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('already confirmed') || message === 'Version conflict') {
+        return res.status(409).json({ error: message });
+      }
+      if (message.includes('cannot be negative')) {
+        return res.status(400).json({ error: message });
+      }
+      throw error;
+    }
+  })
+);
+
 export default router;
@@ -0,0 +1,211 @@
+import { Router, Response } from 'express';
+import { KPIRuleSetStatus } from '@prisma/client';
+import kpiRuleSetService from '../../services/kpiRuleSetService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { createSendError } from '../../utils/sendError';
+
+const router = Router();
+
+router.use(authenticate);
+
+const sendError = createSendError({ conflict: ['Only draft', 'already archived'] });
+
+/**
+ * @route   GET /api/v1/kpis/rule-sets
+ * @desc    List KPI rule sets, optionally by name or status
+ * @access  Private
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const ruleSets = await kpiRuleSetService.list({
+      name: req.query.name as string | undefined,
+      status: req.query.status as KPIRuleSetStatus | undefined,
+    });
+    res.json(ruleSets);
+  })
+);
+
+/**
+ * @route   POST /api/v1/kpis/rule-sets
+ * @desc    Create a draft rule set, or the next revision of an existing name
+ * @access  Private (Manager)
+ */
+router.post(
+  '/',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { name, description, effectiveFrom, floor, ceiling, factors, roleVariants, gradeBands } =
+      req.body;
+    if (!name || !effectiveFrom || !factors) {
+      res.status(400).json({ error: 'name, effectiveFrom and factors are required' });
+      return;
+    }
+
+    try {
+      const ruleSet = await kpiRuleSetService.createDraft(
+        { name, description, effectiveFrom, floor, ceiling, factors, roleVariants, gradeBands },
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(201).json(ruleSet);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/kpis/rule-sets/:id
+ * @desc    Get a KPI rule set
+ * @access  Private
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const ruleSet = await kpiRuleSetService.get(req.params.id as string);
+      res.json(ruleSet);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/kpis/rule-sets/:id/preview
+ * @desc    Score the current entries under a rule set without saving anything
+ * @access  Private (Manager)
+ */
+router.get(
+  '/:id/preview',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const preview = await kpiRuleSetService.preview(req.params.id as string, {
+        projectId: req.query.projectId as string | undefined,
+        phaseId: req.query.phaseId as string | undefined,
+        employeeId: req.query.employeeId as string | undefined,
+      });
+      res.json(preview);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   PUT /api/v1/kpis/rule-sets/:id
+ * @desc    Update a draft rule set
+ * @access  Private (Manager)
+ */
+router.put(
+  '/:id',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const {
+      description,
+      effectiveFrom,
+      floor,
+      ceiling,
+      factors,
+      roleVariants,
+      gradeBands,
+      version,
+    } = req.body;
+    if (version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const ruleSet = await kpiRuleSetService.updateDraft(
+        req.params.id as string,
+        { description, effectiveFrom, floor, ceiling, factors, roleVariants, gradeBands, version },
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(ruleSet);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/kpis/rule-sets/:id
+ * @desc    Delete a draft rule set
+ * @access  Private (Manager)
+ */
+router.delete(
+  '/:id',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      await kpiRuleSetService.deleteDraft(req.params.id as string, req.user!.id, req.user!.role);
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/kpis/rule-sets/:id/activate
+ * @desc    Put a draft rule set into effect and rescore the entries it covers
+ * @access  Private (Manager)
+ */
+router.post(
+  '/:id/activate',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (req.body.version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const result = await kpiRuleSetService.activate(
+        req.params.id as string,
+        req.body.version,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(result);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/kpis/rule-sets/:id/archive
+ * @desc    Take a rule set out of effect and rescore the entries it covered
+ * @access  Private (Manager)
+ */
+router.post(
+  '/:id/archive',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (req.body.version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const result = await kpiRuleSetService.archive(
+        req.params.id as string,
+        req.body.version,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(result);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,175 @@
+import { Router, Response } from 'express';
+import { LeaveStatus } from '@prisma/client';
+import leaveService from '../../services/leaveService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { createSendError } from '../../utils/sendError';
+
+const router = Router();
+
+router.use(authenticate);
+
+const sendError = createSendError({ forbidden: ['You can only'], conflict: ['Only '] });
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * @route   GET /api/v1/leave?userId=&status=&from=&to=
+ * @desc    List leave, optionally for one person, by status or touching a date range.
+ *          Team members only see their own.
+ * @access  Private
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      res.status(400).json({ error: 'Invalid from or to date format' });
+      return;
+    }
+
+    const leave = await leaveService.list({
+      userId: req.user?.role === 'TEAM_MEMBER' ? req.user.id : (req.query.userId as string),
+      status: req.query.status as LeaveStatus | undefined,
+      from,
+      to,
+    });
+    res.json(leave);
+  })
+);
+
+/**
+ * @route   POST /api/v1/leave
+ * @desc    Record leave for approval; only managers can record someone else's
+ * @access  Private
+ */
+router.post(
+  '/',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { userId, type, startDate, endDate, reason } = req.body;
+    if (!type || !startDate) {
+      res.status(400).json({ error: 'type and startDate are required' });
+      return;
+    }
+
+    try {
+      const leave = await leaveService.create(
+        { userId, type, startDate, endDate, reason },
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(201).json(leave);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/leave/:id
+ * @desc    Get leave
+ * @access  Private
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await leaveService.get(req.params.id as string));
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/leave/:id/approve
+ * @desc    Approve pending leave, moving the person's tasks around it
+ * @access  Private (Manager)
+ */
+router.post(
+  '/:id/approve',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (req.body.version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const approval = await leaveService.approve(
+        req.params.id as string,
+        req.body.version,
+        req.body.note,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(approval);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/leave/:id/reject
+ * @desc    Reject pending leave
+ * @access  Private (Manager)
+ */
+router.post(
+  '/:id/reject',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (req.body.version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const leave = await leaveService.reject(
+        req.params.id as string,
+        req.body.version,
+        req.body.note,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(leave);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/leave/:id/cancel
+ * @desc    Withdraw pending leave
+ * @access  Private (the person, whoever recorded it, or a manager)
+ */
+router.post(
+  '/:id/cancel',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (req.body.version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const leave = await leaveService.cancel(
+        req.params.id as string,
+        req.body.version,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(leave);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,121 @@
+import { Router, Response } from 'express';
+import phasePipelineService from '../../services/phasePipelineService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+
+const router = Router();
+
+router.use(authenticate);
+
+// The default pipeline has no project type; clients name it 'default'
+const projectTypeParam = (value: unknown): string | null =>
+  !value || value === 'default' ? null : String(value);
+
+/**
+ * @route   GET /api/v1/phase-pipelines
+ * @desc    List the configured pipeline steps, optionally for one project type
+ * @access  Private
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const steps = await phasePipelineService.listSteps(
+      req.query.projectType === undefined ? undefined : projectTypeParam(req.query.projectType)
+    );
+    res.json(steps);
+  })
+);
+
+/**
+ * @route   GET /api/v1/phase-pipelines/phases
+ * @desc    List the kinds of phase pipelines can be built from
+ * @access  Private
+ */
+router.get(
+  '/phases',
+  asyncHandler(async (_req: AuthRequest, res: Response) => {
+    const definitions = await phasePipelineService.listDefinitions();
+    res.json(definitions);
+  })
+);
+
+/**
+ * @route   PUT /api/v1/phase-pipelines/phases/:key
+ * @desc    Add a kind of phase or relabel an existing one
+ * @access  Private (Manager)
+ */
+router.put(
+  '/phases/:key',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const definition = await phasePipelineService.saveDefinition(
+        req.params.key as string,
+        { label: req.body.label },
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(definition);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!message.includes('must be')) throw error;
+      res.status(400).json({ error: message });
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/phase-pipelines/resolve?projectType=
+ * @desc    Get the ordered phases new projects of a type are created with
+ * @access  Private
+ */
+router.get(
+  '/resolve',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const pipeline = await phasePipelineService.getPipeline(
+      projectTypeParam(req.query.projectType)
+    );
+    res.json(pipeline);
+  })
+);
+
+/**
+ * @route   PUT /api/v1/phase-pipelines/:projectType
+ * @desc    Replace a project type's pipeline ('default' for the fallback pipeline)
+ * @access  Private (Manager)
+ */
+router.put(
+  '/:projectType',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const steps = await phasePipelineService.setPipeline(
+        projectTypeParam(req.params.projectType),
+        req.body.phases,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(steps);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!message.includes('must be')) throw error;
+      res.status(400).json({ error: message });
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/phase-pipelines/projects/:projectId/transitions
+ * @desc    List a project's phase transitions, oldest first
+ * @access  Private
+ */
+router.get(
+  '/projects/:projectId/transitions',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const transitions = await phasePipelineService.listTransitions(req.params.projectId as string);
+    res.json(transitions);
+  })
+);
+
+export default router;
@@ -1,7 +1,7 @@
 import { Router, Response } from 'express';
 import { authenticate, AuthRequest } from '../../middleware/auth';
 import { authorize, UserRole } from '../../middleware/authz';
-import ProjectService from '../../services/projectService';
+import ProjectService, { OPEN_TASK_ACTIONS } from '../../services/projectService';
 import logger from '../../utils/logger';
 import { AppError } from '../../middleware/errorHandler';
 
@@ -34,7 +34,14 @@ router.put('/:phaseId',
 
       const phase = await projectService.updatePhase(
         phaseId,
-        { name: input.name, status: input.status, teamLeaderId: input.teamLeaderId },
+        {
+          name: input.name,
+          status: input.status,
+          teamLeaderId: input.teamLeaderId,
+          modificationAllowedTimes: input.modificationAllowedTimes,
+          modificationDaysPerTime: input.modificationDaysPerTime,
+          version: input.version,
+        },
         userId,
         userRole
       );
@@ -46,6 +53,68 @@ router.put('/:phaseId',
   }
 );
 
+/**
+ * POST /:phaseId/complete
+ * Completes a phase whose tasks are all done and starts the next pipeline phase
+ */
+router.post('/:phaseId/complete',
+  authenticate,
+  authorize(['MANAGER', 'TEAM_LEADER'] as UserRole[]),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const phaseId = req.params.phaseId as string;
+      const userId = req.user!.id as string;
+      const userRole = req.user!.role;
+
+      const transition = await projectService.completePhase(phaseId, userId, userRole);
+      res.json(transition);
+    } catch (error) {
+      handleRouteError(res, error, 'Failed to complete phase');
+    }
+  }
+);
+
+/**
+ * POST /:phaseId/force-complete
+ * Completes a phase with unfinished tasks (FR-035). Needs a reason and what to
+ * do with the open tasks: CARRY_OVER to the next phase, CANCEL or LEAVE_OPEN.
+ */
+router.post('/:phaseId/force-complete',
+  authenticate,
+  authorize(['MANAGER'] as UserRole[]),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const phaseId = req.params.phaseId as string;
+      const { reason, openTasks, version } = req.body;
+      const userId = req.user!.id as string;
+      const userRole = req.user!.role;
+
+      if (!reason || !String(reason).trim()) {
+        res.status(400).json({ error: 'reason is required' });
+        return;
+      }
+      if (!OPEN_TASK_ACTIONS.includes(openTasks)) {
+        res.status(400).json({ error: `openTasks must be one of ${OPEN_TASK_ACTIONS.join(', ')}` });
+        return;
+      }
+      if (version === undefined) {
+        res.status(400).json({ error: 'version is required' });
+        return;
+      }
+
+      const result = await projectService.forceCompletePhase(
+        phaseId,
+        { reason, openTasks, version },
+        userId,
+        userRole
+      );
+      res.json(result);
+    } catch (error) {
+      handleRouteError(res, error, 'Failed to force-complete phase');
+    }
+  }
+);
+
 /**
  * POST /:phaseId/team-leader
  * Assigns a team leader to a phase
@@ -0,0 +1,138 @@
+import { Router, Response } from 'express';
+import multer from 'multer';
+import projectWorkbookService from '../../services/projectWorkbookService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { createSendError } from '../../utils/sendError';
+import { attachmentDisposition } from '../../utils/contentDisposition';
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024 },
+});
+
+router.use(authenticate);
+
+const sendError = createSendError({ conflict: ['cannot be'], badRequest: ['Invalid workbook'] });
+
+/**
+ * @route   GET /api/v1/projects/:id/workbook
+ * @desc    Export phases, tasks, assignments, costs and requirements for offline editing
+ * @access  Private (Manager, Team Leader)
+ */
+router.get(
+  '/:id/workbook',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const { filename, workbook, mimeType } = await projectWorkbookService.exportWorkbook(
+        req.params.id as string
+      );
+      res.setHeader('Content-Type', mimeType);
+      res.setHeader('Content-Disposition', attachmentDisposition(filename));
+      await workbook.xlsx.write(res);
+      res.end();
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/projects/:id/workbook
+ * @desc    Upload an edited project workbook and preview the changes it would make
+ * @access  Private (Manager)
+ */
+router.post(
+  '/:id/workbook',
+  authorize(['MANAGER']),
+  upload.single('file'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    try {
+      const preview = await projectWorkbookService.stageWorkbook(
+        req.params.id as string,
+        req.file.originalname,
+        req.file.buffer,
+        req.user!.id
+      );
+      res.status(201).json(preview);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/projects/:id/workbook/:batchId
+ * @desc    Get the change preview of an uploaded project workbook
+ * @access  Private (Manager)
+ */
+router.get(
+  '/:id/workbook/:batchId',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const preview = await projectWorkbookService.getPreview(
+        req.params.id as string,
+        req.params.batchId as string
+      );
+      res.json(preview);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/projects/:id/workbook/:batchId/apply
+ * @desc    Apply the previewed changes, skipping rows that are stale or invalid
+ * @access  Private (Manager)
+ */
+router.post(
+  '/:id/workbook/:batchId/apply',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await projectWorkbookService.applyBatch(
+        req.params.id as string,
+        req.params.batchId as string,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(result);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/projects/:id/workbook/:batchId
+ * @desc    Discard an uploaded project workbook without applying it
+ * @access  Private (Manager)
+ */
+router.delete(
+  '/:id/workbook/:batchId',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      await projectWorkbookService.discardBatch(
+        req.params.id as string,
+        req.params.batchId as string
+      );
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,129 @@
+import { Router, Response } from 'express';
+import qualificationService from '../../services/qualificationService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { createSendError } from '../../utils/sendError';
+
+const router = Router();
+
+router.use(authenticate);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sendError = createSendError({ conflict: ['already has'] });
+
+/**
+ * @route   GET /api/v1/qualifications/expiring?days=
+ * @desc    Qualifications of active team members lapsing in the coming days (30 by default)
+ * @access  Private (Manager, Team Leader)
+ */
+router.get(
+  '/expiring',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const days = req.query.days ? Number(req.query.days) : 30;
+    if (!Number.isInteger(days) || days < 0) {
+      res.status(400).json({ error: 'days must be a whole number of zero or more' });
+      return;
+    }
+
+    const from = new Date();
+    const qualifications = await qualificationService.listExpiring(
+      from,
+      new Date(from.getTime() + days * DAY_MS)
+    );
+    res.json(qualifications);
+  })
+);
+
+/**
+ * @route   GET /api/v1/qualifications/user/:userId
+ * @desc    List a team member's skills and certifications
+ * @access  Private
+ */
+router.get(
+  '/user/:userId',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const qualifications = await qualificationService.listForUser(req.params.userId as string);
+    res.json(qualifications);
+  })
+);
+
+/**
+ * @route   POST /api/v1/qualifications/user/:userId
+ * @desc    Add a skill or certification to a team member
+ * @access  Private (Manager)
+ */
+router.post(
+  '/user/:userId',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { kind, name, certificateNumber, issuedAt, expiresAt } = req.body;
+    if (!kind || !name) {
+      res.status(400).json({ error: 'kind and name are required' });
+      return;
+    }
+
+    try {
+      const qualification = await qualificationService.create(
+        req.params.userId as string,
+        { kind, name, certificateNumber, issuedAt, expiresAt },
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(201).json(qualification);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   PUT /api/v1/qualifications/:id
+ * @desc    Update a skill or certification, such as its renewed expiry date
+ * @access  Private (Manager)
+ */
+router.put(
+  '/:id',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { kind, name, certificateNumber, issuedAt, expiresAt, version } = req.body;
+    if (version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const qualification = await qualificationService.update(
+        req.params.id as string,
+        { kind, name, certificateNumber, issuedAt, expiresAt, version },
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(qualification);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/qualifications/:id
+ * @desc    Remove a skill or certification
+ * @access  Private (Manager)
+ */
+router.delete(
+  '/:id',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      await qualificationService.remove(req.params.id as string, req.user!.id, req.user!.role);
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+export default router;
@@ -1,12 +1,33 @@
 import { Router, Response } from 'express';
 import reportService from '../../services/reportService';
+import { KPILeaderboardFilter } from '../../services/kpiService';
 import { authenticate, AuthRequest } from '../../middleware/auth';
 import { authorize } from '../../middleware/authz';
 import { auditMiddleware } from '../../middleware/auditMiddleware';
 import { asyncHandler } from '../../utils/asyncHandler';
+import { attachmentDisposition } from '../../utils/contentDisposition';
 
 const router = Router();
 
+const leaderboardFilter = (query: AuthRequest['query']): KPILeaderboardFilter => ({
+  startDate: query.startDate as string,
+  endDate: query.endDate as string,
+  previousStartDate: query.previousStartDate as string,
+  previousEndDate: query.previousEndDate as string,
+  region: query.region as string,
+  position: query.position as string,
+  phaseType: query.phaseType as string,
+});
+
+const sendFilterError = (res: Response, error: unknown): void => {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.startsWith('Invalid') || message.includes('must be')) {
+    res.status(400).json({ error: message });
+  } else {
+    throw error;
+  }
+};
+
 router.use(authenticate);
 router.use(auditMiddleware);
 
@@ -39,8 +60,34 @@ router.get(
     const id = req.params.id as string;
     const userId = req.user?.id || '';
 
-    const report = await reportService.exportProjectFollowUpReportPDF(id, userId);
-    res.json(report);
+    const { filename, workbook, mimeType } = await reportService.exportProjectFollowUpReportExcel(
+      id,
+      userId
+    );
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader('Content-Disposition', attachmentDisposition(filename));
+    await workbook.xlsx.write(res);
+    res.end();
+  })
+);
+
+/**
+ * @route   GET /api/v1/reports/project/:id/follow-up/pdf
+ * @desc    Export project follow-up report as PDF file
+ * @access  Private (Manager)
+ */
+router.get(
+  '/project/:id/follow-up/pdf',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = req.params.id as string;
+    const userId = req.user?.id || '';
+
+    const { filename, document, mimeType } =
+      await reportService.exportProjectFollowUpReportPdfDocument(id, userId);
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader('Content-Disposition', attachmentDisposition(filename));
+    document.pipe(res);
   })
 );
 
@@ -76,4 +123,58 @@ router.get(
   })
 );
 
+/**
+ * @route   GET /api/v1/reports/kpi/leaderboard
+ * @desc    Get the KPI leaderboard report for a period
+ * @access  Private (Manager)
+ */
+router.get(
+  '/kpi/leaderboard',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (!req.query.startDate || !req.query.endDate) {
+      res.status(400).json({ error: 'startDate and endDate are required' });
+      return;
+    }
+
+    try {
+      const report = await reportService.getKPILeaderboardReport(
+        leaderboardFilter(req.query),
+        req.user?.id || ''
+      );
+      res.json(report);
+    } catch (error) {
+      sendFilterError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/reports/kpi/leaderboard/excel
+ * @desc    Export the KPI leaderboard report as Excel file
+ * @access  Private (Manager)
+ */
+router.get(
+  '/kpi/leaderboard/excel',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (!req.query.startDate || !req.query.endDate) {
+      res.status(400).json({ error: 'startDate and endDate are required' });
+      return;
+    }
+
+    try {
+      const { filename, buffer, mimeType } = await reportService.exportKPILeaderboardExcel(
+        leaderboardFilter(req.query),
+        req.user?.id || ''
+      );
+      res.setHeader('Content-Type', mimeType);
+      res.setHeader('Content-Disposition', attachmentDisposition(filename));
+      res.send(buffer);
+    } catch (error) {
+      sendFilterError(res, error);
+    }
+  })
+);
+
 export default router;
@@ -0,0 +1,144 @@
+import { Router, Response } from 'express';
+import taskDependencyService from '../../services/taskDependencyService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { createSendError } from '../../utils/sendError';
+
+const router = Router();
+
+router.use(authenticate);
+
+const sendError = createSendError({
+  conflict: ['Dependency already exists', 'cycle'],
+  badRequest: ['cannot depend'],
+});
+
+/**
+ * @route   GET /api/v1/task-dependencies/project/:projectId
+ * @desc    List the dependencies between a project's tasks
+ * @access  Private
+ */
+router.get(
+  '/project/:projectId',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const dependencies = await taskDependencyService.listForProject(req.params.projectId as string);
+    res.json(dependencies);
+  })
+);
+
+/**
+ * @route   GET /api/v1/task-dependencies/task/:taskId
+ * @desc    List a task's predecessors and successors
+ * @access  Private
+ */
+router.get(
+  '/task/:taskId',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const dependencies = await taskDependencyService.listForTask(req.params.taskId as string);
+    res.json(dependencies);
+  })
+);
+
+/**
+ * @route   POST /api/v1/task-dependencies
+ * @desc    Make a task depend on another (FS, SS or FF with lag) and reschedule
+ * @access  Private (Manager, Team Leader)
+ */
+router.post(
+  '/',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { predecessorId, successorId, type, lagDays } = req.body;
+    if (!predecessorId || !successorId) {
+      res.status(400).json({ error: 'predecessorId and successorId are required' });
+      return;
+    }
+
+    try {
+      const dependency = await taskDependencyService.addDependency(
+        { predecessorId, successorId, type, lagDays },
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(201).json(dependency);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   PUT /api/v1/task-dependencies/:id
+ * @desc    Change a dependency's type or lag and reschedule
+ * @access  Private (Manager, Team Leader)
+ */
+router.put(
+  '/:id',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { type, lagDays, version } = req.body;
+    if (version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const dependency = await taskDependencyService.updateDependency(
+        req.params.id as string,
+        { type, lagDays, version },
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(dependency);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/task-dependencies/:id
+ * @desc    Remove a dependency and reschedule
+ * @access  Private (Manager, Team Leader)
+ */
+router.delete(
+  '/:id',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      await taskDependencyService.removeDependency(
+        req.params.id as string,
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/task-dependencies/project/:projectId/reschedule
+ * @desc    Recompute task, phase and project dates from the dependencies
+ * @access  Private (Manager, Team Leader)
+ */
+router.post(
+  '/project/:projectId/reschedule',
+  authorize(['MANAGER', 'TEAM_LEADER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await taskDependencyService.reschedule(
+        req.params.projectId as string,
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(result);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,241 @@
+import { Router, Response } from 'express';
+import multer from 'multer';
+import taskTemplateService from '../../services/taskTemplateService';
+import { authenticate, AuthRequest } from '../../middleware/auth';
+import { authorize } from '../../middleware/authz';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { createSendError } from '../../utils/sendError';
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024 },
+});
+
+// Name of the set the legacy "Tasks" sheet is seeded into when none is given
+const DEFAULT_SEED_SET_NAME = 'Legacy workbook';
+
+router.use(authenticate);
+
+const sendError = createSendError({
+  conflict: ['already exists'],
+  badRequest: ['Invalid workbook'],
+});
+
+/**
+ * @route   GET /api/v1/task-templates
+ * @desc    List task template sets
+ * @access  Private
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const sets = await taskTemplateService.listSets(req.query.includeInactive === 'true');
+    res.json(sets);
+  })
+);
+
+/**
+ * @route   POST /api/v1/task-templates
+ * @desc    Create an empty task template set
+ * @access  Private (Manager)
+ */
+router.post(
+  '/',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { name, description, isDefault } = req.body;
+    if (!name) {
+      res.status(400).json({ error: 'name is required' });
+      return;
+    }
+
+    try {
+      const set = await taskTemplateService.createSet(
+        { name, description, isDefault },
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(201).json(set);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/task-templates/import
+ * @desc    Create or refresh a template set from the "Tasks" sheet of a legacy workbook
+ * @access  Private (Manager)
+ */
+router.post(
+  '/import',
+  authorize(['MANAGER']),
+  upload.single('file'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    try {
+      const result = await taskTemplateService.seedFromWorkbook(
+        req.file.buffer,
+        (req.body.name as string) || DEFAULT_SEED_SET_NAME,
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(201).json(result);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   GET /api/v1/task-templates/:setId
+ * @desc    Get a template set with its templates grouped by phase
+ * @access  Private
+ */
+router.get(
+  '/:setId',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const set = await taskTemplateService.getSet(req.params.setId as string);
+      res.json(set);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   PUT /api/v1/task-templates/:setId
+ * @desc    Rename, describe, activate or make a template set the default
+ * @access  Private (Manager)
+ */
+router.put(
+  '/:setId',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { name, description, isDefault, isActive, version } = req.body;
+    if (version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const set = await taskTemplateService.updateSet(
+        req.params.setId as string,
+        { name, description, isDefault, isActive, version },
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(set);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/task-templates/:setId
+ * @desc    Delete a template set and its templates
+ * @access  Private (Manager)
+ */
+router.delete(
+  '/:setId',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      await taskTemplateService.deleteSet(req.params.setId as string, req.user!.id, req.user!.role);
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/task-templates/:setId/templates
+ * @desc    Add a task template to a set
+ * @access  Private (Manager)
+ */
+router.post(
+  '/:setId/templates',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { phaseName, code, description, defaultDuration, sortOrder } = req.body;
+    if (!phaseName || !code || !description) {
+      res.status(400).json({ error: 'phaseName, code and description are required' });
+      return;
+    }
+
+    try {
+      const template = await taskTemplateService.createTemplate(
+        req.params.setId as string,
+        { phaseName, code, description, defaultDuration, sortOrder },
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(201).json(template);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   PUT /api/v1/task-templates/templates/:id
+ * @desc    Update a task template
+ * @access  Private (Manager)
+ */
+router.put(
+  '/templates/:id',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { phaseName, code, description, defaultDuration, sortOrder, isActive, version } =
+      req.body;
+    if (version === undefined) {
+      res.status(400).json({ error: 'version is required' });
+      return;
+    }
+
+    try {
+      const template = await taskTemplateService.updateTemplate(
+        req.params.id as string,
+        { phaseName, code, description, defaultDuration, sortOrder, isActive, version },
+        req.user!.id,
+        req.user!.role
+      );
+      res.json(template);
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/task-templates/templates/:id
+ * @desc    Delete a task template
+ * @access  Private (Manager)
+ */
+router.delete(
+  '/templates/:id',
+  authorize(['MANAGER']),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      await taskTemplateService.deleteTemplate(
+        req.params.id as string,
+        req.user!.id,
+        req.user!.role
+      );
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error);
+    }
+  })
+);
+
+export default router;
@@ -136,4 +136,39 @@ router.get(
   }
 );
 
+/**
+ * GET /timeline/projects/:id/critical-path
+ * Get each task's early/late dates and total float, and the project's critical chain
+ */
+router.get(
+  '/projects/:id/critical-path',
+  authenticate,
+  authorize(['MANAGER', 'TEAM_LEADER', 'TEAM_MEMBER'] as UserRole[]),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const criticalPath = await TimelineService.getCriticalPath(req.params.id as string);
+
+      res.json(criticalPath);
+
+    } catch (error) {
+      logger.error('Failed to compute critical path', { error, projectId: req.params.id });
+
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({ error: error.message });
+      } else if (error instanceof Error && error.message.includes('cycle')) {
+        res.status(409).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Failed to compute critical path' });
+      }
+    }
+  }
+);
+
 export default router;
@@ -2,6 +2,22 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// At least one day of the week stays a working day, as for region calendars
+const parseWeekendDays = (value: string): number[] => {
+  const days = [
+    ...new Set(
+      value
+        .split(',')
+        .map(day => parseInt(day, 10))
+        .filter(day => day >= 0 && day <= 6)
+    ),
+  ];
+  if (days.length > 6) {
+    throw new Error('WEEKEND_DAYS must be up to six days of the week from 0 (Sunday) to 6');
+  }
+  return days;
+};
+
 export const config = {
   port: parseInt(process.env.PORT || '3000', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -28,6 +44,14 @@ export const config = {
     region: process.env.AWS_REGION || 'us-east-1',
     s3Bucket: process.env.AWS_S3_BUCKET,
   },
+  calendar: {
+    // Weekend days as 0 (Sunday) to 6 (Saturday); Friday and Saturday by default
+    weekendDays: parseWeekendDays(process.env.WEEKEND_DAYS || '5,6'),
+  },
+  delayDetection: {
+    // Minutes between runs of the overdue task and phase scan; 0 turns it off
+    intervalMinutes: parseInt(process.env.DELAY_DETECTION_INTERVAL_MINUTES || '1440', 10),
+  },
   cors: {
     // Multiple origins can be specified separated by commas
     // e.g., CORS_ORIGIN=http://localhost:5173,https://frontend-production-c4335.up.railway.app
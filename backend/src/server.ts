@@ -4,6 +4,7 @@ dotenv.config();
 import app from './app';
 import { setupRoutes } from './app';
 import config from './config';
+import delayDetectionService from './services/delayDetectionService';
 import logger from './utils/logger';
 
 const PORT = config.port || 3000;
@@ -14,10 +15,12 @@ const server = app.listen(PORT, () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`Environment: ${config.nodeEnv || 'development'}`);
   logger.info(`API available at http://localhost:${PORT}/api/v1`);
+  delayDetectionService.start();
 });
 
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server');
+  delayDetectionService.stop();
   server.close(() => {
     logger.info('HTTP server closed');
     process.exit(0);
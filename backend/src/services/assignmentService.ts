@@ -2,6 +2,7 @@ import { UserRole, AssignmentRole, Assignment, PrismaClient } from '@prisma/clie
 import logger from '../utils/logger';
 import AuditLogService from './auditLogService';
 import { prisma } from './prismaClient';
+import TeamService, { AllocationConflict } from './teamService';
 
 export interface CreateAssignmentInput {
   phaseId: string;
@@ -321,27 +322,38 @@ class AssignmentService {
     }
   }
 
+  /**
+   * Whether the new allocation would take the user over 100% on any day of
+   * its date range, with the peak load and the assignments behind it
+   */
   async checkOverAllocation(
     userId: string,
-    newWorkingPercent: number
-  ): Promise<{ isOverallocated: boolean; currentAllocation: number }> {
+    newWorkingPercent: number,
+    startDate: Date,
+    endDate?: Date | null
+  ): Promise<{
+    isOverallocated: boolean;
+    currentAllocation: number;
+    peakAllocation: number;
+    peakDate: Date;
+    leaveDays: number;
+    conflicts: AllocationConflict[];
+  }> {
     try {
-      const currentAssignments = await this.prisma.assignment.findMany({
-        where: {
-          userId,
-        },
-      });
-
-      const currentAllocation = currentAssignments.reduce(
-        (sum, assignment) => sum + assignment.workingPercent,
-        0
+      const check = await TeamService.checkAllocation(
+        userId,
+        newWorkingPercent,
+        startDate,
+        endDate
       );
 
-      const isOverallocated = (currentAllocation + newWorkingPercent) > 100;
-
       return {
-        isOverallocated,
-        currentAllocation,
+        isOverallocated: check.isOverallocated,
+        currentAllocation: check.currentAllocation,
+        peakAllocation: check.proposedAllocation,
+        peakDate: check.peakDate,
+        leaveDays: check.leaveDays,
+        conflicts: check.conflicts,
       };
     } catch (error) {
       logger.error('Failed to check over-allocation', { error, userId });
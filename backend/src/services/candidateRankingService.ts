@@ -0,0 +1,234 @@
+import { KPIEntryStatus, PrismaClient, QualificationKind, UserRole } from '@prisma/client';
+import logger from '../utils/logger';
+import { prisma } from './prismaClient';
+import teamService from './teamService';
+
+export interface CandidateRankingOptions {
+  /** Share of time the assignment would take; 100 when not given */
+  workingPercentage?: number;
+  /** The phase's own dates when not given */
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * How a candidate stands against one of the project's requirements:
+ * EXPIRING covers the start of the assignment but lapses before its end
+ */
+export type QualificationMatch = 'NOT_REQUIRED' | 'QUALIFIED' | 'EXPIRING' | 'EXPIRED' | 'MISSING';
+
+export interface RankedCandidate {
+  rank: number;
+  teamMemberId: string;
+  name: string;
+  position: string | null;
+  region: string | null;
+  /** Weighted total out of 100 */
+  score: number;
+  licenseType: QualificationMatch;
+  projectType: QualificationMatch;
+  /** Holds every qualification the project asks for at the assignment's start */
+  qualified: boolean;
+  currentAllocation: number;
+  /** Days of approved leave over the assignment's dates */
+  leaveDays: number;
+  isOverallocated: boolean;
+  /** Null when the project has no region */
+  regionMatch: boolean | null;
+  /** Average of the candidate's confirmed KPI scores; null without history */
+  kpiScore: number | null;
+  kpiEntries: number;
+}
+
+export interface CandidateRanking {
+  phaseId: string;
+  projectId: string;
+  licenseType: string | null;
+  projectType: string | null;
+  region: string | null;
+  startDate: Date;
+  endDate: Date;
+  workingPercentage: number;
+  candidates: RankedCandidate[];
+}
+
+// Points each criterion can add to a candidate's score
+const WEIGHTS = { qualification: 40, allocation: 30, kpi: 20, region: 10 };
+
+// Share of a qualification's points by how it matches
+const MATCH_SHARE: Record<QualificationMatch, number> = {
+  NOT_REQUIRED: 1,
+  QUALIFIED: 1,
+  EXPIRING: 0.5,
+  EXPIRED: 0,
+  MISSING: 0,
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const normalize = (name: string | null | undefined): string => (name || '').trim().toLowerCase();
+
+class CandidateRankingService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Rank the active team members and team leaders not yet on a phase for
+   * staffing it, on their license and project type qualifications, their
+   * free time over the assignment's dates, their region against the
+   * project's and their KPI history.
+   */
+  async rankCandidates(
+    phaseId: string,
+    options: CandidateRankingOptions = {}
+  ): Promise<CandidateRanking> {
+    try {
+      const workingPercentage = options.workingPercentage ?? 100;
+      if (!(workingPercentage > 0) || workingPercentage > 100) {
+        throw new Error('workingPercentage must be more than 0 and at most 100');
+      }
+
+      const phase = await this.prisma.phase.findUnique({
+        where: { id: phaseId },
+        include: {
+          project: true,
+          assignments: { where: { isActive: true }, select: { teamMemberId: true } },
+        },
+      });
+
+      if (!phase) {
+        throw new Error('Phase not found');
+      }
+
+      const startDate = options.startDate ? new Date(options.startDate) : phase.startDate;
+      const endDate = options.endDate ? new Date(options.endDate) : phase.estimatedEndDate;
+      if (endDate < startDate) {
+        throw new Error('endDate must be after startDate');
+      }
+
+      const { licenseType, projectType, region } = phase.project;
+      const assigned = phase.assignments.map(assignment => assignment.teamMemberId);
+
+      const users = await this.prisma.user.findMany({
+        where: {
+          isActive: true,
+          role: { in: [UserRole.TEAM_MEMBER, UserRole.TEAM_LEADER] },
+          id: { notIn: assigned },
+        },
+        select: {
+          id: true,
+          name: true,
+          position: true,
+          region: true,
+          qualifications: {
+            where: {
+              kind: { in: [QualificationKind.LICENSE_TYPE, QualificationKind.PROJECT_TYPE] },
+            },
+            select: { kind: true, name: true, expiresAt: true },
+          },
+        },
+      });
+
+      const kpiHistory = await this.prisma.kPIEntry.groupBy({
+        by: ['employeeId'],
+        where: {
+          employeeId: { in: users.map(user => user.id) },
+          status: KPIEntryStatus.CONFIRMED,
+          score: { not: null },
+        },
+        _avg: { score: true },
+        _count: { score: true },
+      });
+
+      const match = (
+        qualifications: (typeof users)[number]['qualifications'],
+        kind: QualificationKind,
+        required: string | null
+      ): QualificationMatch => {
+        if (!normalize(required)) return 'NOT_REQUIRED';
+        const held = qualifications.filter(
+          q => q.kind === kind && normalize(q.name) === normalize(required)
+        );
+        if (!held.length) return 'MISSING';
+        if (held.some(q => !q.expiresAt || q.expiresAt >= endDate)) return 'QUALIFIED';
+        if (held.some(q => q.expiresAt >= startDate)) return 'EXPIRING';
+        return 'EXPIRED';
+      };
+
+      const candidates: Omit<RankedCandidate, 'rank'>[] = [];
+      for (const user of users) {
+        const allocation = await teamService.checkAllocation(
+          user.id,
+          workingPercentage,
+          startDate,
+          endDate
+        );
+        const history = kpiHistory.find(entry => entry.employeeId === user.id);
+        const kpiScore =
+          history?._avg.score !== null && history?._avg.score !== undefined
+            ? round2(Number(history._avg.score))
+            : null;
+
+        const licenseMatch = match(
+          user.qualifications,
+          QualificationKind.LICENSE_TYPE,
+          licenseType
+        );
+        const projectMatch = match(
+          user.qualifications,
+          QualificationKind.PROJECT_TYPE,
+          projectType
+        );
+        const regionMatch = region ? normalize(user.region) === normalize(region) : null;
+
+        // Free time at the busiest point of the range, as a share of what is asked
+        const headroom = Math.max(0, 100 - allocation.currentAllocation);
+        const score =
+          (WEIGHTS.qualification / 2) * (MATCH_SHARE[licenseMatch] + MATCH_SHARE[projectMatch]) +
+          WEIGHTS.allocation * Math.min(1, headroom / workingPercentage) +
+          // No KPI history earns half the points
+          WEIGHTS.kpi * (kpiScore !== null ? Math.min(kpiScore, 100) / 100 : 0.5) +
+          (regionMatch === false ? 0 : WEIGHTS.region);
+
+        candidates.push({
+          teamMemberId: user.id,
+          name: user.name,
+          position: user.position,
+          region: user.region,
+          score: round2(score),
+          licenseType: licenseMatch,
+          projectType: projectMatch,
+          qualified: [licenseMatch, projectMatch].every(m => MATCH_SHARE[m] > 0),
+          currentAllocation: allocation.currentAllocation,
+          leaveDays: allocation.leaveDays,
+          isOverallocated: allocation.isOverallocated,
+          regionMatch,
+          kpiScore,
+          kpiEntries: history?._count.score || 0,
+        });
+      }
+
+      candidates.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+
+      return {
+        phaseId,
+        projectId: phase.projectId,
+        licenseType,
+        projectType,
+        region,
+        startDate,
+        endDate,
+        workingPercentage,
+        candidates: candidates.map((candidate, i) => ({ rank: i + 1, ...candidate })),
+      };
+    } catch (error) {
+      logger.error('Failed to rank candidates', { error, phaseId, options });
+      throw error;
+    }
+  }
+}
+
+export default new CandidateRankingService();
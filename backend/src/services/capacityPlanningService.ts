@@ -0,0 +1,269 @@
+import { PrismaClient, ProjectStatus } from '@prisma/client';
+import logger from '../utils/logger';
+import { prisma } from './prismaClient';
+import workingCalendarService from './workingCalendarService';
+
+export interface CapacityPlanFilter {
+  /** Any day in the first month; the current month when not given */
+  startDate?: Date;
+  months?: number;
+  position?: string;
+  region?: string;
+}
+
+/** Load and supply of one month, in full-time equivalents */
+export interface CapacityMonth {
+  month: string;
+  /** Headcount less the time away on approved leave */
+  availableFte: number;
+  leaveFte: number;
+  committedFte: number;
+  /** Load from assignments on projects still PLANNED */
+  tentativeFte: number;
+  demandFte: number;
+  shortfallFte: number;
+  utilization: number | null;
+}
+
+export interface CapacityGroup {
+  position: string | null;
+  region: string | null;
+  headcount: number;
+  months: CapacityMonth[];
+}
+
+export interface CapacityShortfall {
+  month: string;
+  position: string | null;
+  region: string | null;
+  shortfallFte: number;
+}
+
+export interface CapacityPlan {
+  months: string[];
+  groups: CapacityGroup[];
+  totals: CapacityMonth[];
+  shortfalls: CapacityShortfall[];
+}
+
+export const MAX_PLAN_MONTHS = 36;
+
+// Projects whose assignments no longer take anyone's time
+const CLOSED_STATUSES: ProjectStatus[] = [ProjectStatus.CANCELLED, ProjectStatus.COMPLETED];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const monthKey = (date: Date): string => date.toISOString().slice(0, 7);
+
+const groupKey = (position: string | null, region: string | null): string =>
+  JSON.stringify([position, region]);
+
+const toMonth = (counts: {
+  month: string;
+  availableFte: number;
+  leaveFte: number;
+  committedFte: number;
+  tentativeFte: number;
+}): CapacityMonth => {
+  const demandFte = counts.committedFte + counts.tentativeFte;
+  return {
+    month: counts.month,
+    availableFte: round2(counts.availableFte),
+    leaveFte: round2(counts.leaveFte),
+    committedFte: round2(counts.committedFte),
+    tentativeFte: round2(counts.tentativeFte),
+    demandFte: round2(demandFte),
+    shortfallFte: round2(Math.max(0, demandFte - counts.availableFte)),
+    utilization: counts.availableFte > 0 ? round2((demandFte / counts.availableFte) * 100) : null,
+  };
+};
+
+class CapacityPlanningService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Planned assignment load per month by position and region against the
+   * active headcount, as in the workbook's "Team Members Over Time" sheet.
+   * An assignment counts for the share of the month's working days it runs,
+   * in its team member's regional calendar; approved leave takes its share
+   * of those days off the member's availability.
+   */
+  async getCapacityPlan(filter: CapacityPlanFilter = {}): Promise<CapacityPlan> {
+    try {
+      const months = filter.months ?? 12;
+      if (!Number.isInteger(months) || months < 1 || months > MAX_PLAN_MONTHS) {
+        throw new Error(`months must be a whole number from 1 to ${MAX_PLAN_MONTHS}`);
+      }
+
+      const start = filter.startDate ? new Date(filter.startDate) : new Date();
+      const monthStarts = Array.from(
+        { length: months },
+        (_, i) => new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + i, 1))
+      );
+      const monthEnds = monthStarts.map(
+        first => new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0))
+      );
+      const from = monthStarts[0];
+      const to = monthEnds[monthEnds.length - 1];
+
+      const memberFilter = {
+        position: filter.position || undefined,
+        region: filter.region || undefined,
+      };
+
+      const [users, assignments] = await Promise.all([
+        this.prisma.user.findMany({
+          where: { isActive: true, ...memberFilter },
+          select: { id: true, position: true, region: true },
+        }),
+        this.prisma.assignment.findMany({
+          where: {
+            isActive: true,
+            startDate: { lte: to },
+            OR: [{ endDate: null }, { endDate: { gte: from } }],
+            teamMember: memberFilter,
+            phase: { project: { status: { notIn: CLOSED_STATUSES } } },
+          },
+          include: {
+            teamMember: { select: { position: true, region: true } },
+            phase: { select: { project: { select: { status: true } } } },
+          },
+        }),
+      ]);
+
+      const [calendars, leave] = await Promise.all([
+        workingCalendarService.getCalendars([
+          ...users.map(user => user.region),
+          ...assignments.map(a => a.teamMember.region),
+        ]),
+        workingCalendarService.getApprovedLeave(
+          users.map(user => user.id),
+          from,
+          to
+        ),
+      ]);
+
+      type Counts = {
+        availableFte: number;
+        leaveFte: number;
+        committedFte: number;
+        tentativeFte: number;
+      };
+      const groups = new Map<
+        string,
+        { position: string | null; region: string | null; headcount: number; months: Counts[] }
+      >();
+      const groupFor = (position: string | null, region: string | null) => {
+        const key = groupKey(position, region);
+        if (!groups.has(key)) {
+          groups.set(key, {
+            position,
+            region,
+            headcount: 0,
+            months: monthStarts.map(() => ({
+              availableFte: 0,
+              leaveFte: 0,
+              committedFte: 0,
+              tentativeFte: 0,
+            })),
+          });
+        }
+        return groups.get(key);
+      };
+
+      for (const user of users) {
+        const group = groupFor(user.position, user.region);
+        const calendar = calendars.get(user.region || null);
+        const away = calendar.withDaysOff(leave.get(user.id));
+        group.headcount++;
+        group.months.forEach((month, i) => {
+          const workingDays = calendar.workingDaysBetween(monthStarts[i], monthEnds[i]);
+          const leaveShare = workingDays
+            ? 1 - away.workingDaysBetween(monthStarts[i], monthEnds[i]) / workingDays
+            : 0;
+          month.availableFte += 1 - leaveShare;
+          month.leaveFte += leaveShare;
+        });
+      }
+
+      for (const assignment of assignments) {
+        const { position, region } = assignment.teamMember;
+        const calendar = calendars.get(region || null);
+        const group = groupFor(position, region);
+        const share = Number(assignment.workingPercentage) / 100;
+        const tentative = assignment.phase.project.status === ProjectStatus.PLANNED;
+
+        monthStarts.forEach((first, i) => {
+          const last = monthEnds[i];
+          const runFrom = assignment.startDate > first ? assignment.startDate : first;
+          const runTo = assignment.endDate && assignment.endDate < last ? assignment.endDate : last;
+          if (runFrom > runTo) return;
+
+          const workingDays = calendar.workingDaysBetween(first, last);
+          const fte = workingDays
+            ? (share * calendar.workingDaysBetween(runFrom, runTo)) / workingDays
+            : 0;
+          if (tentative) {
+            group.months[i].tentativeFte += fte;
+          } else {
+            group.months[i].committedFte += fte;
+          }
+        });
+      }
+
+      const monthKeys = monthStarts.map(monthKey);
+      const planGroups: CapacityGroup[] = Array.from(groups.values())
+        .map(group => ({
+          position: group.position,
+          region: group.region,
+          headcount: group.headcount,
+          months: group.months.map((counts, i) => toMonth({ month: monthKeys[i], ...counts })),
+        }))
+        .sort(
+          (a, b) =>
+            (a.position || '').localeCompare(b.position || '') ||
+            (a.region || '').localeCompare(b.region || '')
+        );
+
+      // Shortfalls are per group: spare people elsewhere do not cover another position
+      const totals = monthKeys.map((month, i) => {
+        const sum = (field: keyof Counts) =>
+          planGroups.reduce((total, group) => total + group.months[i][field], 0);
+        return {
+          ...toMonth({
+            month,
+            availableFte: sum('availableFte'),
+            leaveFte: sum('leaveFte'),
+            committedFte: sum('committedFte'),
+            tentativeFte: sum('tentativeFte'),
+          }),
+          shortfallFte: round2(
+            planGroups.reduce((total, group) => total + group.months[i].shortfallFte, 0)
+          ),
+        };
+      });
+
+      const shortfalls = monthKeys.flatMap((month, i) =>
+        planGroups
+          .filter(group => group.months[i].shortfallFte > 0)
+          .map(group => ({
+            month,
+            position: group.position,
+            region: group.region,
+            shortfallFte: group.months[i].shortfallFte,
+          }))
+      );
+
+      return { months: monthKeys, groups: planGroups, totals, shortfalls };
+    } catch (error) {
+      logger.error('Failed to build capacity plan', { error, filter });
+      throw error;
+    }
+  }
+}
+
+export default new CapacityPlanningService();
@@ -0,0 +1,512 @@
+import {
+  BaselineKind,
+  ChangeOrder,
+  ChangeOrderStatus,
+  Prisma,
+  PrismaClient,
+  UserRole,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import AuditLogService from './auditLogService';
+import { kpiService } from './kpiService';
+import { CreateClientModificationInput } from './modificationTrackingService';
+import { prisma } from './prismaClient';
+import scheduleBaselineService from './scheduleBaselineService';
+import workingCalendarService from './workingCalendarService';
+
+export interface ChangeOrderInput {
+  requestDate: Date;
+  requestedBy: string;
+  description: string;
+  estimatedDays: number;
+  /** Defaults to the cost of the phase's active staff over the estimated days */
+  estimatedCost?: number;
+}
+
+export interface UpdateChangeOrderInput extends Partial<ChangeOrderInput> {
+  version: number;
+}
+
+export interface ChangeOrderStaffCost {
+  teamMemberId: string;
+  name: string;
+  workingPercentage: number;
+  monthlyCost: number;
+  cost: number;
+}
+
+export interface ChangeOrderEstimate {
+  phaseId: string;
+  estimatedDays: number;
+  estimatedCost: number;
+  staff: ChangeOrderStaffCost[];
+}
+
+export interface ChangeOrderApproval {
+  changeOrder: ChangeOrder;
+  phaseEndDate: Date;
+  projectTotalCost: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+class ChangeOrderService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  async listForPhase(phaseId: string): Promise<ChangeOrder[]> {
+    try {
+      return await this.prisma.changeOrder.findMany({
+        where: { phaseId },
+        orderBy: { orderNumber: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Failed to list change orders', { error, phaseId });
+      throw error;
+    }
+  }
+
+  async listForProject(projectId: string, status?: ChangeOrderStatus): Promise<ChangeOrder[]> {
+    try {
+      return await this.prisma.changeOrder.findMany({
+        where: { phase: { projectId }, status },
+        include: { phase: { select: { name: true } } },
+        orderBy: [{ requestDate: 'asc' }, { orderNumber: 'asc' }],
+      });
+    } catch (error) {
+      logger.error('Failed to list project change orders', { error, projectId });
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<ChangeOrder> {
+    const changeOrder = await this.prisma.changeOrder.findUnique({ where: { id } });
+
+    if (!changeOrder) {
+      throw new Error('Change order not found');
+    }
+
+    return changeOrder;
+  }
+
+  /**
+   * Cost of the phase's active staff working their usual share for the given
+   * number of working days. A monthly cost is spread over the net working days
+   * of the member's region in the month the phase is due to end. Staff without
+   * a monthly cost add nothing.
+   */
+  async estimate(phaseId: string, estimatedDays: number): Promise<ChangeOrderEstimate> {
+    this.assertDays(estimatedDays);
+
+    const phase = await this.prisma.phase.findUnique({
+      where: { id: phaseId },
+      include: {
+        assignments: {
+          where: { isActive: true },
+          include: {
+            teamMember: { select: { id: true, name: true, region: true, monthlyCost: true } },
+          },
+        },
+      },
+    });
+
+    if (!phase) {
+      throw new Error('Phase not found');
+    }
+
+    const calendars = await workingCalendarService.getCalendars(
+      phase.assignments.map(assignment => assignment.teamMember.region)
+    );
+
+    const staff = phase.assignments.map(assignment => {
+      const workingPercentage = Number(assignment.workingPercentage);
+      const monthlyCost = Number(assignment.teamMember.monthlyCost || 0);
+      const workingDays = calendars
+        .get(assignment.teamMember.region || null)
+        .workingDaysInMonth(phase.estimatedEndDate);
+      return {
+        teamMemberId: assignment.teamMember.id,
+        name: assignment.teamMember.name,
+        workingPercentage,
+        monthlyCost,
+        cost: round2(
+          ((monthlyCost / Math.max(workingDays, 1)) * estimatedDays * workingPercentage) / 100
+        ),
+      };
+    });
+
+    return {
+      phaseId,
+      estimatedDays,
+      estimatedCost: round2(staff.reduce((sum, member) => sum + member.cost, 0)),
+      staff,
+    };
+  }
+
+  async createDraft(
+    phaseId: string,
+    input: ChangeOrderInput,
+    userId: string,
+    role: UserRole
+  ): Promise<ChangeOrder> {
+    try {
+      this.assertDays(input.estimatedDays);
+      const estimatedCost =
+        input.estimatedCost ?? (await this.estimate(phaseId, input.estimatedDays)).estimatedCost;
+      this.assertCost(estimatedCost);
+
+      const changeOrder = await this.prisma.$transaction(async tx => {
+        const last = await tx.changeOrder.findFirst({
+          where: { phaseId },
+          orderBy: { orderNumber: 'desc' },
+        });
+
+        return tx.changeOrder.create({
+          data: {
+            phaseId,
+            orderNumber: (last?.orderNumber || 0) + 1,
+            requestDate: new Date(input.requestDate),
+            requestedBy: input.requestedBy,
+            description: input.description,
+            estimatedDays: input.estimatedDays,
+            estimatedCost,
+            createdBy: userId,
+          },
+        });
+      });
+
+      await AuditLogService.logCreate('CHANGE_ORDER', changeOrder.id, userId, role, changeOrder);
+
+      logger.info('Change order drafted', {
+        changeOrderId: changeOrder.id,
+        phaseId,
+        orderNumber: changeOrder.orderNumber,
+      });
+
+      return changeOrder;
+    } catch (error) {
+      logger.error('Failed to draft change order', { error, phaseId, input });
+      throw error;
+    }
+  }
+
+  /**
+   * Turn a modification request the phase allowance can't cover into a draft
+   * change order, priced for the days asked for (or one regular modification)
+   */
+  async createFromModificationRequest(
+    phaseId: string,
+    input: CreateClientModificationInput,
+    userId: string,
+    role: UserRole
+  ): Promise<ChangeOrder> {
+    const phase = await this.prisma.phase.findUnique({
+      where: { id: phaseId },
+      select: { modificationDaysPerTime: true },
+    });
+
+    if (!phase) {
+      throw new Error('Phase not found');
+    }
+
+    return this.createDraft(
+      phaseId,
+      {
+        requestDate: input.requestDate,
+        requestedBy: input.requestedBy,
+        description: input.description,
+        estimatedDays: input.daysGranted || phase.modificationDaysPerTime,
+      },
+      userId,
+      role
+    );
+  }
+
+  /**
+   * Change a draft. New days are re-priced unless a cost is given with them.
+   */
+  async updateDraft(
+    id: string,
+    input: UpdateChangeOrderInput,
+    userId: string,
+    role: UserRole
+  ): Promise<ChangeOrder> {
+    try {
+      const existing = await this.get(id);
+
+      const { version, ...changes } = input;
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      this.assertStatus(existing, ChangeOrderStatus.DRAFT);
+
+      if (changes.estimatedDays !== undefined) this.assertDays(changes.estimatedDays);
+      let estimatedCost = changes.estimatedCost;
+      if (
+        estimatedCost === undefined &&
+        changes.estimatedDays !== undefined &&
+        changes.estimatedDays !== existing.estimatedDays
+      ) {
+        estimatedCost = (await this.estimate(existing.phaseId, changes.estimatedDays))
+          .estimatedCost;
+      }
+      if (estimatedCost !== undefined) this.assertCost(estimatedCost);
+
+      const changeOrder = await this.prisma.changeOrder.update({
+        where: { id },
+        data: {
+          requestDate: changes.requestDate ? new Date(changes.requestDate) : undefined,
+          requestedBy: changes.requestedBy,
+          description: changes.description,
+          estimatedDays: changes.estimatedDays,
+          estimatedCost,
+          version: { increment: 1 },
+        },
+      });
+
+      await AuditLogService.logUpdate('CHANGE_ORDER', id, userId, role, existing, changeOrder);
+
+      logger.info('Change order updated', { changeOrderId: id });
+
+      return changeOrder;
+    } catch (error) {
+      logger.error('Failed to update change order', { error, id, input });
+      throw error;
+    }
+  }
+
+  async deleteDraft(id: string, userId: string, role: UserRole): Promise<void> {
+    try {
+      const changeOrder = await this.get(id);
+      this.assertStatus(changeOrder, ChangeOrderStatus.DRAFT);
+
+      await this.prisma.changeOrder.delete({ where: { id } });
+
+      await AuditLogService.logDelete('CHANGE_ORDER', id, userId, role, changeOrder);
+
+      logger.info('Change order deleted', { changeOrderId: id });
+    } catch (error) {
+      logger.error('Failed to delete change order', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a draft to the managers for approval
+   */
+  async submit(id: string, version: number, userId: string, role: UserRole): Promise<ChangeOrder> {
+    try {
+      const existing = await this.get(id);
+
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      this.assertStatus(existing, ChangeOrderStatus.DRAFT);
+
+      const changeOrder = await this.prisma.changeOrder.update({
+        where: { id },
+        data: {
+          status: ChangeOrderStatus.SUBMITTED,
+          submittedAt: new Date(),
+          version: { increment: 1 },
+        },
+      });
+
+      await AuditLogService.logUpdate('CHANGE_ORDER', id, userId, role, existing, changeOrder);
+
+      logger.info('Change order submitted', { changeOrderId: id });
+
+      return changeOrder;
+    } catch (error) {
+      logger.error('Failed to submit change order', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve a submitted order. The phase is extended by the order's working days
+   * (pushing the project end date out if the phase now ends later) and the
+   * order's cost is added to the project's total cost. The extended schedule
+   * becomes the new baseline that delays are measured against.
+   */
+  async approve(
+    id: string,
+    version: number,
+    note: string | undefined,
+    userId: string,
+    role: UserRole
+  ): Promise<ChangeOrderApproval> {
+    try {
+      const existing = await this.get(id);
+
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      this.assertStatus(existing, ChangeOrderStatus.SUBMITTED);
+
+      const { changeOrder, phaseBefore, phase, project } = await this.prisma.$transaction(
+        async tx => {
+          const changeOrder = await this.decide(tx, id, version, {
+            status: ChangeOrderStatus.APPROVED,
+            decidedBy: userId,
+            decidedAt: new Date(),
+            decisionNote: note,
+          });
+
+          const phaseBefore = await tx.phase.findUnique({ where: { id: existing.phaseId } });
+
+          if (!phaseBefore) {
+            throw new Error('Phase not found');
+          }
+
+          const projectBefore = await tx.project.findUniqueOrThrow({
+            where: { id: phaseBefore.projectId },
+            select: { estimatedEndDate: true },
+          });
+
+          const calendar = await workingCalendarService.getProjectCalendar(phaseBefore.projectId);
+          const phaseEndDate = calendar.addWorkingDays(
+            phaseBefore.estimatedEndDate,
+            existing.estimatedDays
+          );
+
+          const phase = await tx.phase.update({
+            where: { id: phaseBefore.id },
+            data: {
+              duration: { increment: existing.estimatedDays },
+              estimatedEndDate: phaseEndDate,
+              version: { increment: 1 },
+            },
+          });
+
+          const project = await tx.project.update({
+            where: { id: phaseBefore.projectId },
+            data: {
+              totalCost: { increment: existing.estimatedCost },
+              estimatedEndDate:
+                phaseEndDate > projectBefore.estimatedEndDate ? phaseEndDate : undefined,
+              version: { increment: 1 },
+            },
+          });
+
+          return { changeOrder, phaseBefore, phase, project };
+        }
+      );
+
+      await AuditLogService.logUpdate('CHANGE_ORDER', id, userId, role, existing, changeOrder);
+      await AuditLogService.logUpdate('PHASE', phase.id, userId, role, phaseBefore, phase);
+
+      await scheduleBaselineService.capture(
+        phase.projectId,
+        {
+          name: `Re-baseline after change order #${changeOrder.orderNumber}`,
+          kind: BaselineKind.CHANGE_ORDER,
+          changeOrderId: id,
+        },
+        userId,
+        role
+      );
+      await kpiService.syncDelayedDays(phase.projectId);
+
+      logger.info('Change order approved', {
+        changeOrderId: id,
+        phaseId: phase.id,
+        estimatedDays: existing.estimatedDays,
+        estimatedCost: Number(existing.estimatedCost),
+      });
+
+      return {
+        changeOrder,
+        phaseEndDate: phase.estimatedEndDate,
+        projectTotalCost: Number(project.totalCost),
+      };
+    } catch (error) {
+      logger.error('Failed to approve change order', { error, id });
+      throw error;
+    }
+  }
+
+  async reject(
+    id: string,
+    version: number,
+    note: string | undefined,
+    userId: string,
+    role: UserRole
+  ): Promise<ChangeOrder> {
+    try {
+      const existing = await this.get(id);
+
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      this.assertStatus(existing, ChangeOrderStatus.SUBMITTED);
+
+      const changeOrder = await this.prisma.$transaction(tx =>
+        this.decide(tx, id, version, {
+          status: ChangeOrderStatus.REJECTED,
+          decidedBy: userId,
+          decidedAt: new Date(),
+          decisionNote: note,
+        })
+      );
+
+      await AuditLogService.logUpdate('CHANGE_ORDER', id, userId, role, existing, changeOrder);
+
+      logger.info('Change order rejected', { changeOrderId: id });
+
+      return changeOrder;
+    } catch (error) {
+      logger.error('Failed to reject change order', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Record the decision on a submitted order, claiming it at the version the
+   * caller saw so two concurrent decisions cannot both go through
+   */
+  private async decide(
+    tx: Prisma.TransactionClient,
+    id: string,
+    version: number,
+    data: Prisma.ChangeOrderUpdateManyMutationInput
+  ): Promise<ChangeOrder> {
+    const claimed = await tx.changeOrder.updateMany({
+      where: { id, version, status: ChangeOrderStatus.SUBMITTED },
+      data: { ...data, version: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Version conflict');
+    }
+
+    return tx.changeOrder.findUniqueOrThrow({ where: { id } });
+  }
+
+  private assertStatus(changeOrder: ChangeOrder, status: ChangeOrderStatus): void {
+    if (changeOrder.status !== status) {
+      throw new Error(`Only ${status.toLowerCase()} change orders can be changed this way`);
+    }
+  }
+
+  private assertDays(days: number): void {
+    if (!Number.isInteger(days) || days <= 0) {
+      throw new Error('Estimated days must be a positive whole number');
+    }
+  }
+
+  private assertCost(cost: number): void {
+    if (!(cost >= 0)) {
+      throw new Error('Estimated cost must be zero or more');
+    }
+  }
+}
+
+export default new ChangeOrderService();
@@ -1,5 +1,6 @@
 import prisma from '../utils/prisma';
-import { ConfigurationCategory } from '@prisma/client';
+import { ConfigurationCategory, Prisma } from '@prisma/client';
+import { kpiService, KPI_CONFIGURATION_CATEGORIES } from './kpiService';
 
 interface ConfigurationItem {
   id: string;
@@ -7,6 +8,8 @@ interface ConfigurationItem {
   name: string;
   code: string | null;
   description: string | null;
+  value: Prisma.Decimal | null;
+  allowance: number | null;
   isActive: boolean;
   sortOrder: number;
   createdAt: Date;
@@ -18,6 +21,8 @@ interface CreateConfigInput {
   name: string;
   code?: string;
   description?: string;
+  value?: number;
+  allowance?: number;
   sortOrder?: number;
 }
 
@@ -25,10 +30,19 @@ interface UpdateConfigInput {
   name?: string;
   code?: string;
   description?: string;
+  value?: number | null;
+  allowance?: number | null;
   isActive?: boolean;
   sortOrder?: number;
 }
 
+/** KPI weights and grade bands drive stored scores, so changing them rescores every entry */
+async function recomputeKPIScoresIfNeeded(category: ConfigurationCategory): Promise<void> {
+  if (KPI_CONFIGURATION_CATEGORIES.includes(category)) {
+    await kpiService.recomputeScores();
+  }
+}
+
 export class ConfigurationService {
   async getConfigurationByCategory(category: string): Promise<ConfigurationItem[]> {
     return prisma.configurationItem.findMany({
@@ -53,9 +67,11 @@ export class ConfigurationService {
   }
 
   async createConfiguration(input: CreateConfigInput): Promise<ConfigurationItem> {
-    return prisma.configurationItem.create({
+    const item = await prisma.configurationItem.create({
       data: input,
     });
+    await recomputeKPIScoresIfNeeded(item.category);
+    return item;
   }
 
   async updateConfiguration(
@@ -63,7 +79,7 @@ export class ConfigurationService {
     name: string,
     updates: UpdateConfigInput
   ): Promise<ConfigurationItem> {
-    return prisma.configurationItem.update({
+    const item = await prisma.configurationItem.update({
       where: {
         category_name: {
           category: category,
@@ -75,13 +91,15 @@ export class ConfigurationService {
         name: name,
       },
     });
+    await recomputeKPIScoresIfNeeded(category);
+    return item;
   }
 
   async deleteConfiguration(
     category: ConfigurationCategory,
     name: string
   ): Promise<ConfigurationItem> {
-    return prisma.configurationItem.delete({
+    const item = await prisma.configurationItem.delete({
       where: {
         category_name: {
           category: category,
@@ -89,6 +107,8 @@ export class ConfigurationService {
         },
       },
     });
+    await recomputeKPIScoresIfNeeded(category);
+    return item;
   }
 
   async bulkCreateConfiguration(items: CreateConfigInput[]): Promise<{ count: number }> {
@@ -96,6 +116,9 @@ export class ConfigurationService {
       data: items as any,
       skipDuplicates: true,
     });
+    for (const category of new Set(items.map(item => item.category))) {
+      await recomputeKPIScoresIfNeeded(category);
+    }
     return { count: result.count };
   }
 }
@@ -17,6 +17,7 @@ export interface UpdateCostEntryInput {
   costAmount?: number;
   costType?: CostType;
   description?: string;
+  version?: number;
 }
 
 export interface CostCategoryBreakdown {
@@ -111,9 +112,17 @@ class CostService {
         throw new Error('Cost entry not found');
       }
 
+      const { version, ...changes } = input;
+      if (version !== undefined && existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
       const costEntry = await this.prisma.costEntry.update({
         where: { id },
-        data: input,
+        data: {
+          ...changes,
+          version: { increment: 1 },
+        },
         include: {
           project: true,
           phase: true,
@@ -0,0 +1,178 @@
+import { AssignmentRole, PhaseStatus, PrismaClient, TaskStatus } from '@prisma/client';
+import config from '../config';
+import logger from '../utils/logger';
+import { DelayDraftInput, DelayDraftOutcome, kpiService } from './kpiService';
+import { prisma } from './prismaClient';
+import workingCalendarService, { WorkingCalendar } from './workingCalendarService';
+
+export interface DelayDetectionResult {
+  asOf: Date;
+  period: Date;
+  overdueTasks: number;
+  overduePhases: number;
+  drafts: Record<DelayDraftOutcome, number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const startOfMonth = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+/**
+ * Working days late from the start of the period through today: a due date
+ * off the calendar counts from the next working day, as workingDayOffset does
+ */
+const lateDaysIn = (calendar: WorkingCalendar, dueDate: Date, period: Date, today: Date) => {
+  const firstLate = new Date(calendar.nextWorkingDay(dueDate).getTime() + DAY_MS);
+  return calendar.workingDaysBetween(firstLate > period ? firstLate : period, today);
+};
+
+/**
+ * Finds tasks and phases running past their end dates and raises draft KPI
+ * entries for the month: an overdue task counts against its assignee, and a
+ * phase's delay (its own or its latest task's) against the phase's team
+ * leaders. Each month's draft only counts that month's late working days, so
+ * a delay running over several months is not counted again in each. Working
+ * days an assignee spent on approved leave are left out of their own delay.
+ * Managers confirm the drafts before they count.
+ */
+class DelayDetectionService {
+  private prisma: PrismaClient;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  async detect(asOf: Date = new Date()): Promise<DelayDetectionResult> {
+    try {
+      const today = startOfDay(asOf);
+      const period = startOfMonth(asOf);
+
+      const [tasks, latePhases] = await Promise.all([
+        this.prisma.task.findMany({
+          where: {
+            status: { in: [TaskStatus.PLANNED, TaskStatus.IN_PROGRESS] },
+            endDate: { lt: today },
+          },
+          include: { phase: { select: { projectId: true } } },
+        }),
+        this.prisma.phase.findMany({
+          where: { status: { not: PhaseStatus.COMPLETED }, estimatedEndDate: { lt: today } },
+          select: { id: true },
+        }),
+      ]);
+
+      const phaseIds = [...new Set([...latePhases.map(p => p.id), ...tasks.map(t => t.phaseId)])];
+      const phases = await this.prisma.phase.findMany({
+        where: { id: { in: phaseIds } },
+        include: {
+          project: { select: { region: true } },
+          assignments: {
+            where: { role: AssignmentRole.TEAM_LEADER, isActive: true },
+            select: { teamMemberId: true },
+          },
+        },
+      });
+      const [calendars, leave] = await Promise.all([
+        workingCalendarService.getCalendars(phases.map(phase => phase.project.region)),
+        workingCalendarService.getApprovedLeave(
+          tasks.map(task => task.assignedTeamMemberId),
+          undefined,
+          today
+        ),
+      ]);
+      const calendarOf = (phase: (typeof phases)[number]) =>
+        calendars.get(phase.project.region || null);
+
+      const delays = new Map<string, DelayDraftInput>();
+      const record = (employeeId: string, projectId: string, phaseId: string, days: number) => {
+        const key = `${employeeId}:${phaseId}`;
+        if (days <= 0 || (delays.get(key)?.delayedDays || 0) >= days) return;
+        delays.set(key, { employeeId, projectId, phaseId, period, delayedDays: days });
+      };
+
+      const phaseDelays = new Map<string, number>();
+      for (const task of tasks) {
+        const phase = phases.find(p => p.id === task.phaseId);
+        const days = lateDaysIn(calendarOf(phase), task.endDate, period, today);
+        phaseDelays.set(task.phaseId, Math.max(phaseDelays.get(task.phaseId) || 0, days));
+        if (task.assignedTeamMemberId) {
+          // Days the assignee has been on approved leave since are not held against them
+          const assigneeDays = lateDaysIn(
+            calendarOf(phase).withDaysOff(leave.get(task.assignedTeamMemberId)),
+            task.endDate,
+            period,
+            today
+          );
+          record(task.assignedTeamMemberId, task.phase.projectId, task.phaseId, assigneeDays);
+        }
+      }
+
+      for (const phase of phases) {
+        const ownDelay =
+          phase.status !== PhaseStatus.COMPLETED && phase.estimatedEndDate < today
+            ? lateDaysIn(calendarOf(phase), phase.estimatedEndDate, period, today)
+            : 0;
+        const days = Math.max(ownDelay, phaseDelays.get(phase.id) || 0);
+        for (const leader of phase.assignments) {
+          record(leader.teamMemberId, phase.projectId, phase.id, days);
+        }
+      }
+
+      const drafts: Record<DelayDraftOutcome, number> = { created: 0, updated: 0, unchanged: 0 };
+      for (const delay of delays.values()) {
+        drafts[await kpiService.saveDelayDraft(delay)]++;
+      }
+
+      const result = {
+        asOf,
+        period,
+        overdueTasks: tasks.length,
+        overduePhases: latePhases.length,
+        drafts,
+      };
+
+      logger.info('Delay detection finished', result);
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to detect delays', { error, asOf });
+      throw error;
+    }
+  }
+
+  /** Run detection every configured interval until stopped */
+  start(): void {
+    const minutes = config.delayDetection.intervalMinutes;
+    if (this.timer || !(minutes > 0)) return;
+
+    this.timer = setInterval(() => void this.runScheduled(), minutes * 60 * 1000);
+    logger.info('Delay detection scheduled', { intervalMinutes: minutes });
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async runScheduled(): Promise<void> {
+    // A slow run is not overlapped by the next tick
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.detect();
+    } catch {
+      // Already logged; the next run tries again
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export default new DelayDetectionService();
@@ -0,0 +1,1580 @@
+import * as XLSX from 'xlsx';
+import {
+  PrismaClient,
+  Prisma,
+  $Enums,
+  ConfigurationCategory,
+  ImportBatchKind,
+  ImportBatchStatus,
+} from '@prisma/client';
+import MigrationValidator, { ValidationError } from './migrationValidator';
+import AuditLogService from './auditLogService';
+import { kpiService } from './kpiService';
+import logger from '../utils/logger';
+import { NameCandidate, normalizeName, resolveName } from '../utils/nameMatcher';
+import { prisma } from './prismaClient';
+import workingCalendarService, { WorkingCalendar } from './workingCalendarService';
+
+/**
+ * Sheets of the legacy follow-up workbook that the importer understands,
+ * keyed by the staging bucket they are parsed into.
+ */
+export const IMPORT_SHEETS = {
+  projects: 'Projects List',
+  teamMembers: 'Team members Data',
+  tasks: 'Tasks',
+  costs: 'Project Costs',
+  kpis: 'Employees KPIs',
+  configuration: 'List',
+} as const;
+
+export type ImportSheetKey = keyof typeof IMPORT_SHEETS;
+
+export interface ParsedRow {
+  rowNumber: number;
+  data: Record<string, unknown>;
+}
+
+export type ParsedExcelData = Record<ImportSheetKey, ParsedRow[]>;
+
+export interface ImportSheetSummary {
+  sheet: string;
+  rows: number;
+  errorRows: number;
+  warningRows: number;
+}
+
+export interface ImportPlan {
+  clientsToCreate: number;
+  projectsToCreate: number;
+  projectsToUpdate: number;
+  phasesToCreate: number;
+  teamLeaderAssignments: number;
+  tasksToImport: number;
+  costTotalsToUpdate: number;
+  kpiEntriesToImport: number;
+  configurationItemsToCreate: number;
+  allocationSegmentsToImport: number;
+}
+
+export interface ImportPreview {
+  batchId: string;
+  fileName: string;
+  contractCode: string | null;
+  status: ImportBatchStatus;
+  totalRows: number;
+  errorCount: number;
+  warningCount: number;
+  canCommit: boolean;
+  sheets: ImportSheetSummary[];
+  plan: ImportPlan;
+  issues: ValidationError[];
+  createdAt: Date;
+  committedAt: Date | null;
+}
+
+export interface ImportResult {
+  batchId: string;
+  imported: {
+    clients: number;
+    projects: number;
+    phases: number;
+    assignments: number;
+    allocations: number;
+    tasks: number;
+    costs: number;
+    kpis: number;
+    configuration: number;
+  };
+  skipped: {
+    allocations: number;
+    teamLeaders: number;
+    tasks: number;
+    kpis: number;
+  };
+}
+
+interface StagedRow {
+  sheet: string;
+  rowNumber: number;
+  data: Record<string, unknown>;
+  errors: ValidationError[];
+  warnings: ValidationError[];
+}
+
+interface StagedPhase {
+  phase: string;
+  /** Key of the phase definition the workbook's phase stands for */
+  name?: string;
+  teamLeaderName: string;
+  workingPercentage: number;
+  startDate?: string;
+  duration?: number;
+  modificationAllowedTimes?: number;
+  modificationDaysPerTime?: number;
+}
+
+interface StagedAllocationMonth {
+  month: string;
+  workingDays: number;
+  netWorkDays?: number;
+  workingPercentage?: number;
+}
+
+interface StagedAllocationSegment {
+  startDate: string;
+  endDate: string;
+  months: string[];
+  workingPercentage: number;
+}
+
+interface ImportContext {
+  users: NameCandidate[];
+  projectIdsByName: Map<string, string>;
+  projectIdsByCode: Map<string, string>;
+  workbookProjectNames: Map<string, string>;
+}
+
+// Interactive transactions default to a 5s timeout, far too short for a full workbook
+const IMPORT_TRANSACTION_TIMEOUT_MS = 120000;
+
+// Excel serial number of 2000-01-01, used to tell month header cells from working-day counts
+const EXCEL_SERIAL_2000 = 36526;
+
+// Sheet holding the "Net Work Days in the Month" row the allocation percentages are based on
+const NET_WORK_DAYS_SHEET = 'Team Members Over Time';
+
+// Phase definition keys of the phases the workbook has columns for
+const PHASE_LABELS: Record<string, string> = {
+  Studies: 'STUDIES',
+  Design: 'DESIGN',
+};
+
+const PROJECTS_LIST_COLUMNS = {
+  name: 0,
+  clientName: 1,
+  contractCode: 2,
+  contractSigningDate: 3,
+  builtUpArea: 4,
+  licenseType: 5,
+  projectType: 6,
+  requirements: 7,
+  startDate: 8,
+  estimatedEndDate: 9,
+} as const;
+
+// Each phase repeats six columns: team leader, working %, start date, duration,
+// allowed modification times and days per modification
+const PROJECTS_LIST_PHASE_COLUMNS = [
+  { phase: 'Studies', firstColumn: 10 },
+  { phase: 'Design', firstColumn: 16 },
+  { phase: 'Technical', firstColumn: 22 },
+] as const;
+
+const LIST_CATEGORY_HEADERS: Record<string, ConfigurationCategory> = {
+  Position: ConfigurationCategory.POSITION,
+  Region: ConfigurationCategory.REGION,
+  'Lisence Type': ConfigurationCategory.LICENSE_TYPE,
+  'Project Types': ConfigurationCategory.PROJECT_TYPE,
+  'Reply Reason': ConfigurationCategory.REPLY_REASON,
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/** Normalise a text cell; formula cells that evaluate to 0 are treated as empty */
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return value === 0 ? '' : String(value);
+  const text = String(value).replace(/\s+/g, ' ').trim();
+  return text === '0' ? '' : text;
+}
+
+function cellNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const parsed = Number(value.replace(/[^\d.-]/g, ''));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/** Percent cells hold fractions (0.25); plain numbers above 1 are already percentages */
+function cellPercent(value: unknown): number {
+  const parsed = cellNumber(value) ?? 0;
+  return parsed <= 1 ? Math.round(parsed * 10000) / 100 : parsed;
+}
+
+/** Convert an Excel serial or date string to an ISO date (YYYY-MM-DD) */
+function cellDate(value: unknown): string | undefined {
+  if (typeof value === 'number' && value > 1) {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    return parsed ? `${parsed.y}-${pad(parsed.m)}-${pad(parsed.d)}` : undefined;
+  }
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+  }
+  return undefined;
+}
+
+/** Month (YYYY-MM) immediately after the given one */
+function nextMonth(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return monthNumber === 12 ? `${year + 1}-01` : `${year}-${pad(monthNumber + 1)}`;
+}
+
+/** Last calendar day of a month (YYYY-MM) as an ISO date */
+function monthEnd(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return `${month}-${pad(new Date(Date.UTC(year, monthNumber, 0)).getUTCDate())}`;
+}
+
+/**
+ * Collapse monthly allocations into dated segments: consecutive months at the
+ * same percentage share one segment, any gap or change in percentage starts a new one
+ */
+function allocationSegments(allocations: StagedAllocationMonth[]): StagedAllocationSegment[] {
+  const segments: StagedAllocationSegment[] = [];
+  for (const { month, workingPercentage } of allocations) {
+    if (!workingPercentage) continue;
+    const last = segments[segments.length - 1];
+    if (
+      last &&
+      last.workingPercentage === workingPercentage &&
+      nextMonth(last.months[last.months.length - 1]) === month
+    ) {
+      last.months.push(month);
+      last.endDate = monthEnd(month);
+    } else {
+      segments.push({
+        startDate: `${month}-01`,
+        endDate: monthEnd(month),
+        months: [month],
+        workingPercentage,
+      });
+    }
+  }
+  return segments;
+}
+
+export class ExcelImportService {
+  private prisma: PrismaClient;
+  private validator: MigrationValidator;
+
+  constructor() {
+    this.prisma = prisma;
+    this.validator = new MigrationValidator();
+  }
+
+  /**
+   * Parse the supported sheets of a follow-up workbook into row buckets
+   */
+  parseExcelFile(buffer: Buffer): ParsedExcelData {
+    try {
+      const workbook = XLSX.read(buffer, { type: 'buffer' });
+
+      const data: ParsedExcelData = {
+        projects: this.parseProjectsSheet(this.readSheet(workbook, IMPORT_SHEETS.projects)),
+        teamMembers: this.parseTeamMembersSheet(
+          this.readSheet(workbook, IMPORT_SHEETS.teamMembers),
+          this.parseNetWorkDays(this.readSheet(workbook, NET_WORK_DAYS_SHEET))
+        ),
+        tasks: this.parseTasksSheet(this.readSheet(workbook, IMPORT_SHEETS.tasks)),
+        costs: this.parseCostsSheet(this.readSheet(workbook, IMPORT_SHEETS.costs)),
+        kpis: this.parseKPIsSheet(this.readSheet(workbook, IMPORT_SHEETS.kpis)),
+        configuration: this.parseListSheet(this.readSheet(workbook, IMPORT_SHEETS.configuration)),
+      };
+
+      logger.info('Excel file parsed successfully', {
+        sheets: workbook.SheetNames,
+        projectCount: data.projects.length,
+        allocationCount: data.teamMembers.length,
+        taskCount: data.tasks.length,
+      });
+
+      return data;
+    } catch (error) {
+      logger.error('Failed to parse Excel file', { error });
+      throw new Error(
+        `Failed to parse Excel file: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Parse and validate a workbook into a staging batch without touching live data
+   */
+  async stageWorkbook(
+    fileName: string,
+    buffer: Buffer,
+    userId: string,
+    contractCode?: string
+  ): Promise<ImportPreview> {
+    try {
+      const parsed = this.parseExcelFile(buffer);
+      const context = await this.loadContext(parsed.projects.map(row => row.data));
+      const batchContractCode = contractCode || fileName.match(/REF\.\d+\.\d+/i)?.[0] || null;
+
+      const staged: StagedRow[] = [];
+      for (const key of Object.keys(IMPORT_SHEETS) as ImportSheetKey[]) {
+        const seen = new Set<string>();
+        for (const row of parsed[key]) {
+          const issues = this.validateRow(key, row, context, batchContractCode, seen);
+          const sheet = IMPORT_SHEETS[key];
+          const tag = (issue: ValidationError): ValidationError => ({
+            ...issue,
+            sheet,
+            row: row.rowNumber,
+            severity: issue.severity || 'error',
+          });
+          staged.push({
+            sheet,
+            rowNumber: row.rowNumber,
+            data: row.data,
+            errors: issues.filter(issue => issue.severity !== 'warning').map(tag),
+            warnings: issues.filter(issue => issue.severity === 'warning').map(tag),
+          });
+        }
+      }
+
+      const batch = await this.prisma.importBatch.create({
+        data: {
+          fileName,
+          contractCode: batchContractCode,
+          uploadedBy: userId,
+          totalRows: staged.length,
+          errorCount: staged.reduce((sum, row) => sum + row.errors.length, 0),
+          warningCount: staged.reduce((sum, row) => sum + row.warnings.length, 0),
+          rows: {
+            create: staged.map(row => ({
+              sheet: row.sheet,
+              rowNumber: row.rowNumber,
+              data: row.data as Prisma.InputJsonValue,
+              errors: row.errors.length
+                ? (row.errors as unknown as Prisma.InputJsonValue)
+                : undefined,
+              warnings: row.warnings.length
+                ? (row.warnings as unknown as Prisma.InputJsonValue)
+                : undefined,
+            })),
+          },
+        },
+      });
+
+      logger.info('Excel workbook staged', {
+        batchId: batch.id,
+        fileName,
+        totalRows: batch.totalRows,
+        errorCount: batch.errorCount,
+        warningCount: batch.warningCount,
+      });
+
+      return this.getBatchPreview(batch.id);
+    } catch (error) {
+      logger.error('Failed to stage Excel workbook', { error, fileName });
+      throw error;
+    }
+  }
+
+  /**
+   * List recent import batches
+   */
+  async listBatches(limit = 20) {
+    try {
+      return await this.prisma.importBatch.findMany({
+        where: { kind: ImportBatchKind.LEGACY_WORKBOOK },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        include: { uploadedByUser: { select: { id: true, name: true } } },
+      });
+    } catch (error) {
+      logger.error('Failed to list import batches', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Dry-run preview of a staged batch: issues per sheet and what a commit would change
+   */
+  async getBatchPreview(batchId: string): Promise<ImportPreview> {
+    try {
+      const batch = await this.prisma.importBatch.findFirst({
+        where: { id: batchId, kind: ImportBatchKind.LEGACY_WORKBOOK },
+        include: { rows: { orderBy: [{ sheet: 'asc' }, { rowNumber: 'asc' }] } },
+      });
+
+      if (!batch) {
+        throw new Error('Import batch not found');
+      }
+
+      const rows = batch.rows.map(row => this.toStagedRow(row));
+      const sheets = Object.values(IMPORT_SHEETS).map(sheet => {
+        const sheetRows = rows.filter(row => row.sheet === sheet);
+        return {
+          sheet,
+          rows: sheetRows.length,
+          errorRows: sheetRows.filter(row => row.errors.length > 0).length,
+          warningRows: sheetRows.filter(row => row.warnings.length > 0).length,
+        };
+      });
+
+      return {
+        batchId: batch.id,
+        fileName: batch.fileName,
+        contractCode: batch.contractCode,
+        status: batch.status,
+        totalRows: batch.totalRows,
+        errorCount: batch.errorCount,
+        warningCount: batch.warningCount,
+        canCommit: batch.status === ImportBatchStatus.STAGED && batch.errorCount === 0,
+        sheets,
+        plan: await this.buildPlan(rows, batch.contractCode),
+        issues: rows.flatMap(row => [...row.errors, ...row.warnings]),
+        createdAt: batch.createdAt,
+        committedAt: batch.committedAt,
+      };
+    } catch (error) {
+      logger.error('Failed to build import preview', { error, batchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a staged batch to live data in a single transaction
+   */
+  async commitBatch(batchId: string, userId: string, role: string): Promise<ImportResult> {
+    const startTime = Date.now();
+
+    const batch = await this.prisma.importBatch.findFirst({
+      where: { id: batchId, kind: ImportBatchKind.LEGACY_WORKBOOK },
+      include: { rows: { orderBy: { rowNumber: 'asc' } } },
+    });
+
+    if (!batch) {
+      throw new Error('Import batch not found');
+    }
+    if (batch.status !== ImportBatchStatus.STAGED) {
+      throw new Error(`Import batch cannot be committed from status ${batch.status}`);
+    }
+    if (batch.errorCount > 0) {
+      throw new Error(
+        `Import batch cannot be committed with ${batch.errorCount} validation error(s)`
+      );
+    }
+
+    const rows = batch.rows.map(row => this.toStagedRow(row));
+    const bySheet = (key: ImportSheetKey) => rows.filter(row => row.sheet === IMPORT_SHEETS[key]);
+
+    const kpiPhaseIds = new Set<string>();
+    let result: ImportResult;
+
+    try {
+      const users = await this.prisma.user.findMany({
+        where: { isActive: true },
+        select: { id: true, name: true },
+      });
+      const kpiContext = await kpiService.loadScoringContext();
+
+      result = await this.prisma.$transaction(
+        async tx => {
+          // Claim the batch so a second commit running alongside finds nothing to apply
+          const claimed = await tx.importBatch.updateMany({
+            where: { id: batchId, status: ImportBatchStatus.STAGED },
+            data: { status: ImportBatchStatus.COMMITTED, committedAt: new Date() },
+          });
+          if (claimed.count === 0) {
+            throw new Error('Import batch cannot be committed as it is no longer staged');
+          }
+
+          const imported = {
+            clients: 0,
+            projects: 0,
+            phases: 0,
+            assignments: 0,
+            allocations: 0,
+            tasks: 0,
+            costs: 0,
+            kpis: 0,
+            configuration: 0,
+          };
+          const skipped = {
+            allocations: 0,
+            teamLeaders: 0,
+            tasks: 0,
+            kpis: 0,
+          };
+          const projectIdsByName = new Map<string, string>();
+          const projectIdsByCode = new Map<string, string>();
+          const calendars = new Map<string | null, WorkingCalendar>();
+          const calendarOf = async (region: string | null): Promise<WorkingCalendar> => {
+            if (!calendars.has(region)) {
+              calendars.set(region, await workingCalendarService.getCalendar(region));
+            }
+            return calendars.get(region);
+          };
+
+          for (const { data } of bySheet('configuration')) {
+            await tx.configurationItem.upsert({
+              where: {
+                category_name: {
+                  category: data.category as ConfigurationCategory,
+                  name: data.name as string,
+                },
+              },
+              create: {
+                category: data.category as ConfigurationCategory,
+                name: data.name as string,
+                sortOrder: Number(data.sortOrder) || 0,
+              },
+              update: {},
+            });
+            imported.configuration++;
+          }
+
+          for (const { data } of bySheet('projects')) {
+            const clientName = data.clientName as string;
+            const existingClient = await tx.client.findUnique({ where: { name: clientName } });
+            const client =
+              existingClient || (await tx.client.create({ data: { name: clientName } }));
+            if (!existingClient) imported.clients++;
+
+            const phases = (data.phases as StagedPhase[]) || [];
+            const fields = {
+              name: (data.name as string) || (data.contractCode as string),
+              contractSigningDate: new Date(data.contractSigningDate as string),
+              builtUpArea: Number(data.builtUpArea),
+              licenseType: (data.licenseType as string) || null,
+              projectType: (data.projectType as string) || null,
+              requirements: (data.requirements as string) || '',
+              startDate: new Date(data.startDate as string),
+              estimatedEndDate: new Date(data.estimatedEndDate as string),
+            };
+
+            const project = await tx.project.upsert({
+              where: { contractCode: data.contractCode as string },
+              create: {
+                ...fields,
+                clientId: client.id,
+                contractCode: data.contractCode as string,
+                currentPhase: PHASE_LABELS.Studies,
+                status: $Enums.ProjectStatus.PLANNED,
+              },
+              update: { ...fields, clientId: client.id, version: { increment: 1 } },
+            });
+            imported.projects++;
+            projectIdsByName.set(normalizeName(project.name), project.id);
+            projectIdsByCode.set(project.contractCode, project.id);
+
+            // Durations are working days of the project's region, as for phases made in the app
+            const calendar = await calendarOf(project.region);
+            for (const phaseName of Object.values(PHASE_LABELS)) {
+              const staged = phases.find(phase => phase.name === phaseName);
+              const startDate = staged?.startDate ? new Date(staged.startDate) : project.startDate;
+              const duration = staged?.duration || 0;
+              const schedule = {
+                startDate,
+                duration,
+                estimatedEndDate:
+                  staged?.startDate && duration
+                    ? calendar.addWorkingDays(startDate, duration - 1)
+                    : project.estimatedEndDate,
+              };
+              // Blank allowance cells keep what the phase (or the contract default) has
+              const allowances = {
+                ...(staged?.modificationAllowedTimes !== undefined && {
+                  modificationAllowedTimes: staged.modificationAllowedTimes,
+                }),
+                ...(staged?.modificationDaysPerTime !== undefined && {
+                  modificationDaysPerTime: staged.modificationDaysPerTime,
+                }),
+              };
+
+              const existingPhase = await tx.phase.findUnique({
+                where: { projectId_name: { projectId: project.id, name: phaseName } },
+              });
+              const phase = existingPhase
+                ? await tx.phase.update({
+                    where: { id: existingPhase.id },
+                    data: { ...schedule, ...allowances, version: { increment: 1 } },
+                  })
+                : await tx.phase.create({
+                    data: {
+                      ...schedule,
+                      modificationAllowedTimes: project.modificationAllowedTimes,
+                      modificationDaysPerTime: project.modificationDaysPerTime,
+                      ...allowances,
+                      projectId: project.id,
+                      name: phaseName,
+                      status: $Enums.PhaseStatus.PLANNED,
+                    },
+                  });
+              if (!existingPhase) imported.phases++;
+
+              if (!staged?.teamLeaderName) continue;
+              const leader = resolveName(staged.teamLeaderName, users);
+              if (!leader) {
+                skipped.teamLeaders++;
+                continue;
+              }
+
+              const assignment = {
+                workingPercentage: staged.workingPercentage,
+                startDate: phase.startDate,
+                endDate: phase.estimatedEndDate,
+                isActive: true,
+              };
+              const existingAssignment = await tx.assignment.findFirst({
+                where: {
+                  phaseId: phase.id,
+                  teamMemberId: leader.id,
+                  role: $Enums.AssignmentRole.TEAM_LEADER,
+                },
+                orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+              });
+              if (existingAssignment) {
+                await tx.assignment.update({
+                  where: { id: existingAssignment.id },
+                  data: { ...assignment, version: { increment: 1 } },
+                });
+              } else {
+                await tx.assignment.create({
+                  data: {
+                    ...assignment,
+                    phaseId: phase.id,
+                    teamMemberId: leader.id,
+                    role: $Enums.AssignmentRole.TEAM_LEADER,
+                  },
+                });
+              }
+              imported.assignments++;
+            }
+          }
+
+          const findProjectId = async (name: string): Promise<string | undefined> => {
+            const key = normalizeName(name);
+            if (!projectIdsByName.has(key)) {
+              const project = await tx.project.findFirst({
+                where: { name: { equals: name, mode: 'insensitive' } },
+                select: { id: true },
+              });
+              if (project) projectIdsByName.set(key, project.id);
+            }
+            return projectIdsByName.get(key);
+          };
+
+          for (const { data } of bySheet('costs')) {
+            const projectId = await findProjectId(data.projectName as string);
+            if (!projectId) continue;
+
+            await tx.project.update({
+              where: { id: projectId },
+              data: { totalCost: Number(data.totalActualCost), version: { increment: 1 } },
+            });
+            imported.costs++;
+          }
+
+          for (const { data } of bySheet('tasks')) {
+            const phaseName = PHASE_LABELS[data.phase as string];
+            const durations =
+              (data.durations as Array<{ projectName: string; duration: number }>) || [];
+            if (!phaseName) {
+              skipped.tasks += durations.length;
+              continue;
+            }
+
+            for (const { projectName, duration } of durations) {
+              const projectId = await findProjectId(projectName);
+              const phase = projectId
+                ? await tx.phase.findUnique({
+                    where: { projectId_name: { projectId, name: phaseName } },
+                  })
+                : null;
+              if (!phase) {
+                skipped.tasks++;
+                continue;
+              }
+
+              const existingTask = await tx.task.findFirst({
+                where: { phaseId: phase.id, code: data.taskCode as string },
+              });
+              if (existingTask) {
+                await tx.task.update({
+                  where: { id: existingTask.id },
+                  data: {
+                    description: data.description as string,
+                    duration,
+                    version: { increment: 1 },
+                  },
+                });
+              } else {
+                await tx.task.create({
+                  data: {
+                    phaseId: phase.id,
+                    code: data.taskCode as string,
+                    description: data.description as string,
+                    duration,
+                    status: $Enums.TaskStatus.PLANNED,
+                  },
+                });
+              }
+              imported.tasks++;
+            }
+          }
+
+          const batchProjectId = batch.contractCode
+            ? projectIdsByCode.get(batch.contractCode) ||
+              (
+                await tx.project.findUnique({
+                  where: { contractCode: batch.contractCode },
+                  select: { id: true },
+                })
+              )?.id
+            : undefined;
+
+          for (const { data } of bySheet('kpis')) {
+            const phaseName = PHASE_LABELS[data.phase as string];
+            const employeeId = resolveName(data.employeeName as string, users)?.id;
+            const phase =
+              batchProjectId && phaseName
+                ? await tx.phase.findUnique({
+                    where: { projectId_name: { projectId: batchProjectId, name: phaseName } },
+                  })
+                : null;
+            if (!phase || !employeeId) {
+              skipped.kpis++;
+              continue;
+            }
+
+            const counts = {
+              delayedDays: Number(data.delayedDays) || 0,
+              clientModifications: Number(data.clientModifications) || 0,
+              exceptionalClientModifications: Number(data.exceptionalClientModifications) || 0,
+              technicalMistakes: Number(data.technicalMistakes) || 0,
+              gcModifications: Number(data.gcModifications) || 0,
+            };
+            // The sheet's team leaders grade is not kept: leaders are graded on their team's
+            // scores, which are recomputed once the batch commits
+            const kpiData = {
+              ...counts,
+              ...kpiService.scoreEntry(counts, { employeeId, phaseId: phase.id }, kpiContext),
+              teamMembersGrade:
+                data.teamMembersGrade === undefined ? undefined : Number(data.teamMembersGrade),
+            };
+
+            const existingEntry = await tx.kPIEntry.findFirst({
+              where: { projectId: phase.projectId, phaseId: phase.id, employeeId },
+            });
+            if (existingEntry) {
+              await tx.kPIEntry.update({ where: { id: existingEntry.id }, data: kpiData });
+            } else {
+              await tx.kPIEntry.create({
+                data: { ...kpiData, projectId: phase.projectId, phaseId: phase.id, employeeId },
+              });
+            }
+            kpiPhaseIds.add(phase.id);
+            imported.kpis++;
+          }
+
+          // The allocation matrix has no project column; it belongs to the workbook's contract
+          for (const { data } of bySheet('teamMembers')) {
+            const segments = (data.segments as StagedAllocationSegment[]) || [];
+            const phaseName = PHASE_LABELS[data.phase as string];
+            const employeeId = resolveName(data.employeeName as string, users)?.id;
+            const phase =
+              batchProjectId && phaseName
+                ? await tx.phase.findUnique({
+                    where: { projectId_name: { projectId: batchProjectId, name: phaseName } },
+                  })
+                : null;
+            if (!phase || !employeeId) {
+              skipped.allocations += segments.length;
+              continue;
+            }
+
+            // A team leader's time is their phase-long assignment from the projects sheet;
+            // their matrix months would count them twice
+            const isLeader = await tx.assignment.findFirst({
+              where: {
+                phaseId: phase.id,
+                teamMemberId: employeeId,
+                role: $Enums.AssignmentRole.TEAM_LEADER,
+              },
+              select: { id: true },
+            });
+            if (isLeader) {
+              skipped.allocations += segments.length;
+              continue;
+            }
+
+            for (const segment of segments) {
+              const startDate = new Date(segment.startDate);
+              const assignment = {
+                workingPercentage: segment.workingPercentage,
+                endDate: new Date(segment.endDate),
+                isActive: true,
+              };
+              const existingSegment = await tx.assignment.findFirst({
+                where: {
+                  phaseId: phase.id,
+                  teamMemberId: employeeId,
+                  role: $Enums.AssignmentRole.TEAM_MEMBER,
+                  startDate,
+                },
+                orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+              });
+              if (existingSegment) {
+                await tx.assignment.update({
+                  where: { id: existingSegment.id },
+                  data: { ...assignment, version: { increment: 1 } },
+                });
+              } else {
+                await tx.assignment.create({
+                  data: {
+                    ...assignment,
+                    phaseId: phase.id,
+                    teamMemberId: employeeId,
+                    role: $Enums.AssignmentRole.TEAM_MEMBER,
+                    startDate,
+                  },
+                });
+              }
+              imported.allocations++;
+            }
+          }
+
+          const result = { batchId, imported, skipped };
+
+          await tx.importBatch.update({
+            where: { id: batchId },
+            data: { result: result as unknown as Prisma.InputJsonValue },
+          });
+
+          return result;
+        },
+        { timeout: IMPORT_TRANSACTION_TIMEOUT_MS }
+      );
+    } catch (error) {
+      logger.error('Failed to commit import batch', {
+        error,
+        batchId,
+        duration: Date.now() - startTime,
+      });
+
+      // Only a batch still staged failed here; one claimed by another commit keeps its status
+      await this.prisma.importBatch.updateMany({
+        where: { id: batchId, status: ImportBatchStatus.STAGED },
+        data: {
+          status: ImportBatchStatus.FAILED,
+          result: { error: error instanceof Error ? error.message : String(error) },
+        },
+      });
+
+      throw error;
+    }
+
+    // The rows are committed by now, so what follows must not mark the batch as failed
+    try {
+      // Leader roles may have come in with the projects sheet, so score again once committed
+      if (kpiPhaseIds.size > 0) {
+        await kpiService.recomputeScores({ phaseIds: Array.from(kpiPhaseIds) });
+      }
+
+      await AuditLogService.logCreate('IMPORT_BATCH', batchId, userId, role, {
+        fileName: batch.fileName,
+        contractCode: batch.contractCode,
+        ...result,
+      });
+    } catch (error) {
+      logger.error('Import batch committed but its follow-up steps failed', { error, batchId });
+    }
+
+    logger.info('Import batch committed', { batchId, result, duration: Date.now() - startTime });
+
+    return result;
+  }
+
+  /**
+   * Discard a staged batch and drop its staging rows
+   */
+  async discardBatch(batchId: string): Promise<void> {
+    try {
+      const batch = await this.prisma.importBatch.findFirst({
+        where: { id: batchId, kind: ImportBatchKind.LEGACY_WORKBOOK },
+      });
+
+      if (!batch) {
+        throw new Error('Import batch not found');
+      }
+      if (batch.status === ImportBatchStatus.COMMITTED) {
+        throw new Error('Committed import batch cannot be discarded');
+      }
+
+      await this.prisma.$transaction([
+        this.prisma.importStagingRow.deleteMany({ where: { batchId } }),
+        this.prisma.importBatch.update({
+          where: { id: batchId },
+          data: { status: ImportBatchStatus.DISCARDED },
+        }),
+      ]);
+    } catch (error) {
+      logger.error('Failed to discard import batch', { error, batchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Build a downloadable per-row error/warning report for a batch
+   */
+  async generateImportReport(
+    batchId: string
+  ): Promise<{ filename: string; buffer: Buffer; mimeType: string }> {
+    try {
+      const preview = await this.getBatchPreview(batchId);
+
+      const workbook = XLSX.utils.book_new();
+
+      const summarySheet = XLSX.utils.aoa_to_sheet([
+        ['File Name', preview.fileName],
+        ['Contract Code', preview.contractCode || ''],
+        ['Status', preview.status],
+        ['Total Rows', preview.totalRows],
+        ['Errors', preview.errorCount],
+        ['Warnings', preview.warningCount],
+        ['Staged At', preview.createdAt.toISOString()],
+        [],
+        ['Sheet', 'Rows', 'Rows With Errors', 'Rows With Warnings'],
+        ...preview.sheets.map(sheet => [
+          sheet.sheet,
+          sheet.rows,
+          sheet.errorRows,
+          sheet.warningRows,
+        ]),
+      ]);
+
+      const issuesSheet = XLSX.utils.aoa_to_sheet([
+        ['Sheet', 'Row', 'Severity', 'Field', 'Message'],
+        ...preview.issues.map(issue => [
+          issue.sheet || '',
+          issue.row ?? '',
+          issue.severity || 'error',
+          issue.field,
+          issue.message,
+        ]),
+      ]);
+
+      XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+      XLSX.utils.book_append_sheet(workbook, issuesSheet, 'Import Report');
+
+      const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+      const baseName = preview.fileName.replace(/\.[^.]+$/, '');
+
+      return {
+        filename: `import-report-${baseName}.xlsx`,
+        buffer,
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      };
+    } catch (error) {
+      logger.error('Failed to generate import report', { error, batchId });
+      throw error;
+    }
+  }
+
+  private readSheet(workbook: XLSX.WorkBook, sheetName: string): ParsedRow[] {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet || !sheet['!ref']) return [];
+
+    const firstRow = XLSX.utils.decode_range(sheet['!ref']).s.r;
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      defval: '',
+      raw: true,
+      blankrows: true,
+    });
+
+    return rows.map((cells, index) => ({
+      rowNumber: firstRow + index + 1,
+      data: { cells },
+    }));
+  }
+
+  private parseProjectsSheet(rows: ParsedRow[]): ParsedRow[] {
+    const columns = PROJECTS_LIST_COLUMNS;
+
+    return rows
+      .map(({ rowNumber, data }) => ({ rowNumber, cells: data.cells as unknown[] }))
+      .filter(({ cells }) => {
+        const contractCode = cellText(cells[columns.contractCode]);
+        return (
+          contractCode !== '' && contractCode !== 'Contract Code' && !/^\d+$/.test(contractCode)
+        );
+      })
+      .map(({ rowNumber, cells }) => ({
+        rowNumber,
+        data: {
+          name: cellText(cells[columns.name]),
+          clientName: cellText(cells[columns.clientName]),
+          contractCode: cellText(cells[columns.contractCode]),
+          contractSigningDate: cellDate(cells[columns.contractSigningDate]),
+          builtUpArea: cellNumber(cells[columns.builtUpArea]),
+          licenseType: cellText(cells[columns.licenseType]),
+          projectType: cellText(cells[columns.projectType]),
+          requirements: cellText(cells[columns.requirements]),
+          startDate: cellDate(cells[columns.startDate]),
+          estimatedEndDate: cellDate(cells[columns.estimatedEndDate]),
+          ...this.parseProjectPhases(cells),
+        },
+      }));
+  }
+
+  private parseProjectPhases(cells: unknown[]): {
+    phases: StagedPhase[];
+    technicalPhase?: StagedPhase;
+  } {
+    const phases: StagedPhase[] = PROJECTS_LIST_PHASE_COLUMNS.map(({ phase, firstColumn }) => ({
+      phase,
+      name: PHASE_LABELS[phase],
+      teamLeaderName: cellText(cells[firstColumn]),
+      workingPercentage: cellPercent(cells[firstColumn + 1]),
+      startDate: cellDate(cells[firstColumn + 2]),
+      duration: cellNumber(cells[firstColumn + 3]),
+      modificationAllowedTimes: cellNumber(cells[firstColumn + 4]),
+      modificationDaysPerTime: cellNumber(cells[firstColumn + 5]),
+    }));
+
+    const technicalPhase = phases.find(phase => !phase.name);
+    return {
+      phases: phases.filter(phase => !!phase.name),
+      technicalPhase:
+        technicalPhase && (technicalPhase.teamLeaderName || technicalPhase.startDate)
+          ? technicalPhase
+          : undefined,
+    };
+  }
+
+  /**
+   * Read the "Net Work Days in the Month" row, keyed by the month (YYYY-MM) in
+   * the header row below it
+   */
+  private parseNetWorkDays(rows: ParsedRow[]): Map<string, number> {
+    const cellsOf = (row: ParsedRow) => row.data.cells as unknown[];
+    const netWorkDays = new Map<string, number>();
+    const index = rows.findIndex(row => cellText(cellsOf(row)[1]).startsWith('Net Work Days'));
+    if (index === -1 || !rows[index + 1]) return netWorkDays;
+
+    const days = cellsOf(rows[index]);
+    cellsOf(rows[index + 1]).forEach((value, column) => {
+      const date =
+        typeof value === 'number' && value > EXCEL_SERIAL_2000 ? cellDate(value) : undefined;
+      const net = cellNumber(days[column]);
+      if (date && net && net > 0) netWorkDays.set(date.slice(0, 7), net);
+    });
+    return netWorkDays;
+  }
+
+  /**
+   * The matrix lists one row per task an employee worked on, so rows are summed
+   * per phase and employee before working days are turned into percentages
+   */
+  private parseTeamMembersSheet(rows: ParsedRow[], netWorkDays: Map<string, number>): ParsedRow[] {
+    const cellsOf = (row: ParsedRow) => row.data.cells as unknown[];
+    const headerIndex = rows.findIndex(row =>
+      cellsOf(row)
+        .slice(2)
+        .some(value => typeof value === 'number' && value > EXCEL_SERIAL_2000)
+    );
+    if (headerIndex === -1) return [];
+
+    const monthColumns = cellsOf(rows[headerIndex])
+      .map((value, index) => ({
+        index,
+        date: typeof value === 'number' && value > EXCEL_SERIAL_2000 ? cellDate(value) : undefined,
+      }))
+      .filter(
+        (column): column is { index: number; date: string } => column.index >= 2 && !!column.date
+      )
+      .map(column => ({ index: column.index, month: column.date.slice(0, 7) }));
+
+    const groups = new Map<
+      string,
+      {
+        rowNumber: number;
+        phase: string;
+        employeeName: string;
+        sourceRows: number[];
+        days: Map<string, number>;
+      }
+    >();
+    for (const row of rows.slice(headerIndex + 1)) {
+      const cells = cellsOf(row);
+      const phase = cellText(cells[0]);
+      const employeeName = cellText(cells[1]);
+      const worked = monthColumns
+        .map(column => ({ month: column.month, workingDays: cellNumber(cells[column.index]) ?? 0 }))
+        .filter(entry => entry.workingDays !== 0);
+      if (employeeName === '' || worked.length === 0) continue;
+
+      const key = `${phase}:${normalizeName(employeeName)}`;
+      const group = groups.get(key) || {
+        rowNumber: row.rowNumber,
+        phase,
+        employeeName,
+        sourceRows: [],
+        days: new Map<string, number>(),
+      };
+      group.sourceRows.push(row.rowNumber);
+      for (const { month, workingDays } of worked) {
+        group.days.set(month, (group.days.get(month) || 0) + workingDays);
+      }
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values()).map(group => {
+      const allocations: StagedAllocationMonth[] = monthColumns
+        .filter(column => group.days.has(column.month))
+        .map(({ month }) => {
+          const workingDays = group.days.get(month) as number;
+          const net = netWorkDays.get(month);
+          return {
+            month,
+            workingDays,
+            netWorkDays: net,
+            workingPercentage: net
+              ? Math.min(100, Math.round((workingDays / net) * 10000) / 100)
+              : undefined,
+          };
+        });
+
+      return {
+        rowNumber: group.rowNumber,
+        data: {
+          phase: group.phase,
+          employeeName: group.employeeName,
+          sourceRows: group.sourceRows,
+          allocations,
+          segments: allocationSegments(allocations),
+        },
+      };
+    });
+  }
+
+  private parseTasksSheet(rows: ParsedRow[]): ParsedRow[] {
+    const cellsOf = (row: ParsedRow) => row.data.cells as unknown[];
+    const headerIndex = rows.findIndex(row => cellText(cellsOf(row)[0]) === 'Code');
+    if (headerIndex === -1) return [];
+
+    const projectColumns = cellsOf(rows[headerIndex])
+      .map((value, index) => ({ index, projectName: cellText(value) }))
+      .filter(column => column.index > 2 && column.projectName !== '');
+
+    return (
+      rows
+        .slice(headerIndex + 1)
+        .map(row => {
+          const cells = cellsOf(row);
+          return {
+            rowNumber: row.rowNumber,
+            data: {
+              taskCode: cellText(cells[0]),
+              phase: cellText(cells[1]),
+              description: cellText(cells[2]),
+              durations: projectColumns
+                .map(column => ({
+                  projectName: column.projectName,
+                  duration: cellNumber(cells[column.index]) ?? 0,
+                }))
+                .filter(entry => entry.duration !== 0),
+            },
+          };
+        })
+        // Unused template rows concatenate to a code like "0 0" with no phase or description
+        .filter(
+          row => row.data.taskCode !== '' && (row.data.phase !== '' || row.data.description !== '')
+        )
+    );
+  }
+
+  private parseCostsSheet(rows: ParsedRow[]): ParsedRow[] {
+    const cellsOf = (row: ParsedRow) => row.data.cells as unknown[];
+    const headerIndex = rows.findIndex(row => cellText(cellsOf(row)[1]) === 'Contract Value');
+    if (headerIndex === -1) return [];
+
+    // Region subtotal rows carry no contract value, project rows do
+    return rows
+      .slice(headerIndex + 1)
+      .filter(row => cellText(cellsOf(row)[0]) !== '' && (cellNumber(cellsOf(row)[1]) ?? 0) !== 0)
+      .map(row => {
+        const cells = cellsOf(row);
+        return {
+          rowNumber: row.rowNumber,
+          data: {
+            projectName: cellText(cells[0]),
+            contractValue: cellNumber(cells[1]),
+            actualCosts: cellNumber(cells[2]) ?? 0,
+            headDepCost: cellNumber(cells[3]) ?? 0,
+            teamLeaderCost: cellNumber(cells[4]) ?? 0,
+            totalActualCost: cellNumber(cells[5]) ?? 0,
+          },
+        };
+      });
+  }
+
+  private parseKPIsSheet(rows: ParsedRow[]): ParsedRow[] {
+    const cellsOf = (row: ParsedRow) => row.data.cells as unknown[];
+    const headerIndex = rows.findIndex(row => cellText(cellsOf(row)[2]) === 'Employee');
+    if (headerIndex === -1) return [];
+
+    const headers = cellsOf(rows[headerIndex]).map(cellText);
+    const columnsStartingWith = (prefix: string) =>
+      headers
+        .map((header, index) => (header.startsWith(prefix) ? index : -1))
+        .filter(index => index !== -1);
+    const columnsNamed = (name: string) =>
+      headers.map((header, index) => (header === name ? index : -1)).filter(index => index !== -1);
+    // Each phase repeats its reply reason columns; a non-zero reduction marks an occurrence
+    const clientModificationColumns = columnsNamed('Client Modification');
+    const exceptionalModificationColumns = columnsNamed('Client Modification (Exceptional)');
+    const technicalMistakeColumns = columnsStartingWith('Technical Mistake');
+    const gcModificationColumns = columnsNamed('G.C Modification (Problems)');
+
+    const countRecorded = (cells: unknown[], columns: number[]) =>
+      columns.filter(index => (cellNumber(cells[index]) ?? 0) !== 0).length;
+
+    return rows
+      .slice(headerIndex + 1)
+      .map(row => {
+        const cells = cellsOf(row);
+        return {
+          rowNumber: row.rowNumber,
+          data: {
+            phase: cellText(cells[1]),
+            employeeName: cellText(cells[2]),
+            teamMembersGrade: cellNumber(cells[3]),
+            teamLeadersGrade: cellNumber(cells[4]),
+            delayedDays: cellNumber(cells[5]) ?? 0,
+            clientModifications: countRecorded(cells, clientModificationColumns),
+            exceptionalClientModifications: countRecorded(cells, exceptionalModificationColumns),
+            technicalMistakes: countRecorded(cells, technicalMistakeColumns),
+            gcModifications: countRecorded(cells, gcModificationColumns),
+          },
+        };
+      })
+      .filter(
+        ({ data }) =>
+          data.employeeName !== '' &&
+          (data.delayedDays !== 0 ||
+            data.clientModifications !== 0 ||
+            data.exceptionalClientModifications !== 0 ||
+            data.technicalMistakes !== 0 ||
+            data.gcModifications !== 0 ||
+            data.teamMembersGrade !== undefined ||
+            data.teamLeadersGrade !== undefined)
+      );
+  }
+
+  private parseListSheet(rows: ParsedRow[]): ParsedRow[] {
+    const cellsOf = (row: ParsedRow) => row.data.cells as unknown[];
+    const headerIndex = rows.findIndex(row => cellText(cellsOf(row)[0]) === 'Phases');
+    if (headerIndex === -1) return [];
+
+    const categoryColumns = cellsOf(rows[headerIndex])
+      .map((value, index) => ({ index, category: LIST_CATEGORY_HEADERS[cellText(value)] }))
+      .filter(column => !!column.category);
+
+    const seen = new Set<string>();
+    const sortOrders = new Map<ConfigurationCategory, number>();
+    const items: ParsedRow[] = [];
+
+    for (const row of rows.slice(headerIndex + 1)) {
+      for (const { index, category } of categoryColumns) {
+        const name = cellText(cellsOf(row)[index]);
+        const key = `${category}:${normalizeName(name)}`;
+        if (name === '' || name === '...' || seen.has(key)) continue;
+
+        seen.add(key);
+        const sortOrder = (sortOrders.get(category) || 0) + 1;
+        sortOrders.set(category, sortOrder);
+        items.push({ rowNumber: row.rowNumber, data: { category, name, sortOrder } });
+      }
+    }
+
+    return items;
+  }
+
+  private async loadContext(projectRows: Array<Record<string, unknown>>): Promise<ImportContext> {
+    const [users, projects] = await Promise.all([
+      this.prisma.user.findMany({ where: { isActive: true }, select: { id: true, name: true } }),
+      this.prisma.project.findMany({ select: { id: true, name: true, contractCode: true } }),
+    ]);
+
+    return {
+      users,
+      projectIdsByName: new Map(projects.map(project => [normalizeName(project.name), project.id])),
+      projectIdsByCode: new Map(projects.map(project => [project.contractCode, project.id])),
+      workbookProjectNames: new Map(
+        projectRows
+          .filter(row => row.name)
+          .map(row => [normalizeName(row.name as string), row.contractCode as string])
+      ),
+    };
+  }
+
+  private validateRow(
+    key: ImportSheetKey,
+    row: ParsedRow,
+    context: ImportContext,
+    contractCode: string | null,
+    seen: Set<string>
+  ): ValidationError[] {
+    const { data, rowNumber } = row;
+    const warn = (field: string, message: string): ValidationError => ({
+      field,
+      message,
+      row: rowNumber,
+      severity: 'warning',
+    });
+    const knownProject = (name: string) =>
+      context.workbookProjectNames.has(normalizeName(name)) ||
+      context.projectIdsByName.has(normalizeName(name));
+    const knownEmployee = (name: string) => !!resolveName(name, context.users);
+
+    switch (key) {
+      case 'projects': {
+        const issues = this.validator.validateProjectData(data, rowNumber).errors;
+        for (const phase of (data.phases as StagedPhase[]) || []) {
+          if (!phase.teamLeaderName) continue;
+          const match = resolveName(phase.teamLeaderName, context.users);
+          if (!match) {
+            issues.push(
+              warn(
+                `${phase.name}.teamLeaderName`,
+                `No active user matches team leader "${phase.teamLeaderName}"; the assignment will be skipped`
+              )
+            );
+          } else if (!match.exact) {
+            issues.push(
+              warn(
+                `${phase.name}.teamLeaderName`,
+                `Team leader "${phase.teamLeaderName}" matched to user "${match.name}" (${Math.round(match.score * 100)}%)`
+              )
+            );
+          }
+        }
+        if (data.technicalPhase) {
+          issues.push(warn('technicalPhase', 'Technical phase columns are not imported'));
+        }
+        const code = data.contractCode as string;
+        if (seen.has(code)) {
+          issues.push({
+            field: 'contractCode',
+            message: `Contract code ${code} appears more than once`,
+            row: rowNumber,
+          });
+        }
+        seen.add(code);
+        return issues;
+      }
+      case 'teamMembers': {
+        const issues = this.validator.validateAllocationData(data, rowNumber).errors;
+        if (data.employeeName && !knownEmployee(data.employeeName as string)) {
+          issues.push(warn('employeeName', `No active user named "${data.employeeName}"`));
+        }
+        if (!contractCode) {
+          issues.push(
+            warn(
+              'contractCode',
+              'No contract code given for this workbook; allocation rows will be skipped'
+            )
+          );
+        }
+        if (!PHASE_LABELS[data.phase as string]) {
+          issues.push(warn('phase', `Allocations for phase "${data.phase}" are not imported`));
+        }
+        for (const entry of (data.allocations as StagedAllocationMonth[]) || []) {
+          if (!entry.netWorkDays) {
+            issues.push(
+              warn(
+                'netWorkDays',
+                `No net work days for ${entry.month} in "${NET_WORK_DAYS_SHEET}"; the month is not imported`
+              )
+            );
+          } else if (entry.workingDays > entry.netWorkDays) {
+            issues.push(
+              warn(
+                'workingDays',
+                `${entry.workingDays} working days in ${entry.month} exceed the ${entry.netWorkDays} net work days; capped at 100%`
+              )
+            );
+          }
+        }
+        return issues;
+      }
+      case 'tasks': {
+        const durations =
+          (data.durations as Array<{ projectName: string; duration: number }>) || [];
+        const issues = this.validator.validateTaskData(
+          { ...data, duration: durations[0]?.duration ?? 1 },
+          rowNumber
+        ).errors;
+        if (!PHASE_LABELS[data.phase as string]) {
+          issues.push(warn('phase', `Tasks for phase "${data.phase}" are not imported`));
+        }
+        for (const entry of durations) {
+          if (!this.validator.validatePositiveNumber(entry.duration)) {
+            issues.push({
+              field: 'duration',
+              message: `Duration for ${entry.projectName} must be a positive number`,
+              row: rowNumber,
+            });
+          }
+          if (!knownProject(entry.projectName)) {
+            issues.push(
+              warn(
+                'projectName',
+                `Project "${entry.projectName}" is not in the workbook or database`
+              )
+            );
+          }
+        }
+        return issues;
+      }
+      case 'costs': {
+        const issues = this.validator.validateProjectCostData(data, rowNumber).errors;
+        if (data.projectName && !knownProject(data.projectName as string)) {
+          issues.push(
+            warn('projectName', `Project "${data.projectName}" is not in the workbook or database`)
+          );
+        }
+        return issues;
+      }
+      case 'kpis': {
+        const issues = this.validator.validateKPIData(data, rowNumber).errors;
+        if (!contractCode) {
+          issues.push(
+            warn(
+              'contractCode',
+              'No contract code given for this workbook; KPI rows will be skipped'
+            )
+          );
+        }
+        if (!PHASE_LABELS[data.phase as string]) {
+          issues.push(warn('phase', `KPIs for phase "${data.phase}" are not imported`));
+        }
+        if (!knownEmployee(data.employeeName as string)) {
+          issues.push(warn('employeeName', `No active user named "${data.employeeName}"`));
+        }
+        if (data.teamLeadersGrade !== undefined) {
+          issues.push(
+            warn(
+              'teamLeadersGrade',
+              "The Team Leaders Grade is not imported; it is worked out from the team's scores"
+            )
+          );
+        }
+        return issues;
+      }
+      case 'configuration':
+        return this.validator.validateConfigurationData(data, rowNumber).errors;
+      default:
+        return [];
+    }
+  }
+
+  private async buildPlan(rows: StagedRow[], contractCode: string | null): Promise<ImportPlan> {
+    const bySheet = (key: ImportSheetKey) =>
+      rows.filter(row => row.sheet === IMPORT_SHEETS[key]).map(row => row.data);
+    const projectRows = bySheet('projects');
+    const context = await this.loadContext(projectRows);
+
+    const contractCodes = projectRows.map(row => row.contractCode as string);
+    const clientNames = Array.from(new Set(projectRows.map(row => row.clientName as string)));
+    const [existingClients, existingProjects, existingConfiguration] = await Promise.all([
+      this.prisma.client.findMany({ where: { name: { in: clientNames } }, select: { name: true } }),
+      this.prisma.project.findMany({
+        where: { contractCode: { in: contractCodes } },
+        select: { contractCode: true, _count: { select: { phases: true } } },
+      }),
+      this.prisma.configurationItem.findMany({ select: { category: true, name: true } }),
+    ]);
+
+    const existingCodes = new Map(
+      existingProjects.map(project => [project.contractCode, project._count.phases])
+    );
+    const configurationKeys = new Set(
+      existingConfiguration.map(item => `${item.category}:${item.name}`)
+    );
+    const knownProject = (name: string) =>
+      context.workbookProjectNames.has(normalizeName(name)) ||
+      context.projectIdsByName.has(normalizeName(name));
+    const resolvedLeaders = projectRows
+      .flatMap(row => (row.phases as StagedPhase[]) || [])
+      .filter(phase => phase.teamLeaderName && resolveName(phase.teamLeaderName, context.users));
+    const batchProjectKnown =
+      !!contractCode &&
+      (contractCodes.includes(contractCode) || context.projectIdsByCode.has(contractCode));
+
+    return {
+      clientsToCreate: clientNames.length - existingClients.length,
+      projectsToCreate: contractCodes.filter(code => !existingCodes.has(code)).length,
+      projectsToUpdate: contractCodes.filter(code => existingCodes.has(code)).length,
+      phasesToCreate: contractCodes.reduce(
+        (sum, code) =>
+          sum + Math.max(0, Object.keys(PHASE_LABELS).length - (existingCodes.get(code) || 0)),
+        0
+      ),
+      teamLeaderAssignments: resolvedLeaders.length,
+      tasksToImport: bySheet('tasks')
+        .filter(task => PHASE_LABELS[task.phase as string])
+        .reduce(
+          (sum, task) =>
+            sum +
+            ((task.durations as Array<{ projectName: string }>) || []).filter(entry =>
+              knownProject(entry.projectName)
+            ).length,
+          0
+        ),
+      costTotalsToUpdate: bySheet('costs').filter(cost => knownProject(cost.projectName as string))
+        .length,
+      kpiEntriesToImport: batchProjectKnown
+        ? bySheet('kpis').filter(
+            kpi =>
+              PHASE_LABELS[kpi.phase as string] &&
+              resolveName(kpi.employeeName as string, context.users)
+          ).length
+        : 0,
+      configurationItemsToCreate: bySheet('configuration').filter(
+        item => !configurationKeys.has(`${item.category}:${item.name}`)
+      ).length,
+      allocationSegmentsToImport: batchProjectKnown
+        ? bySheet('teamMembers')
+            .filter(
+              row =>
+                PHASE_LABELS[row.phase as string] &&
+                resolveName(row.employeeName as string, context.users)
+            )
+            .reduce(
+              (sum, row) => sum + ((row.segments as StagedAllocationSegment[]) || []).length,
+              0
+            )
+        : 0,
+    };
+  }
+
+  private toStagedRow(row: {
+    sheet: string;
+    rowNumber: number;
+    data: Prisma.JsonValue;
+    errors: Prisma.JsonValue;
+    warnings: Prisma.JsonValue;
+  }): StagedRow {
+    return {
+      sheet: row.sheet,
+      rowNumber: row.rowNumber,
+      data: (row.data || {}) as Record<string, unknown>,
+      errors: (row.errors || []) as unknown as ValidationError[],
+      warnings: (row.warnings || []) as unknown as ValidationError[],
+    };
+  }
+}
+
+export default ExcelImportService;
@@ -0,0 +1,321 @@
+import ExcelJS from 'exceljs';
+import type { ProjectFollowUpReport } from './reportService';
+
+const BRAND_COLOR = 'FF1F4E78';
+const LABEL_FILL = 'FFD9E1F2';
+const HEADER_FONT_COLOR = 'FFFFFFFF';
+const DATE_FORMAT = 'dd/mm/yyyy';
+const MONEY_FORMAT = '#,##0.00';
+
+// Gantt bar colours per task status
+const STATUS_FILLS: Record<string, string> = {
+  COMPLETED: 'FF70AD47',
+  IN_PROGRESS: 'FF4472C4',
+  PLANNED: 'FFBFBFBF',
+};
+
+// Keep very long projects readable: two years of weekly columns at most
+const MAX_GANTT_WEEKS = 104;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const thinBorder: Partial<ExcelJS.Borders> = {
+  top: { style: 'thin', color: { argb: 'FFBFBFBF' } },
+  left: { style: 'thin', color: { argb: 'FFBFBFBF' } },
+  bottom: { style: 'thin', color: { argb: 'FFBFBFBF' } },
+  right: { style: 'thin', color: { argb: 'FFBFBFBF' } },
+};
+
+const humanize = (value: string | null | undefined): string =>
+  (value || '')
+    .toLowerCase()
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const toDate = (value: Date | string | null | undefined): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/** Monday of the week containing the given date, at UTC midnight */
+const startOfWeek = (date: Date): Date => {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const offset = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - offset * DAY_MS);
+};
+
+function styleHeaderRow(row: ExcelJS.Row): void {
+  row.eachCell(cell => {
+    cell.font = { bold: true, color: { argb: HEADER_FONT_COLOR } };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: BRAND_COLOR } };
+    cell.alignment = { vertical: 'middle', horizontal: 'center', wrapText: true };
+    cell.border = thinBorder;
+  });
+  row.height = 30;
+}
+
+function addSectionTitle(sheet: ExcelJS.Worksheet, title: string, width: number): void {
+  sheet.addRow([]);
+  const row = sheet.addRow([title]);
+  sheet.mergeCells(row.number, 1, row.number, width);
+  row.getCell(1).font = { bold: true, size: 13, color: { argb: BRAND_COLOR } };
+}
+
+function addReportSheet(workbook: ExcelJS.Workbook, report: ProjectFollowUpReport): void {
+  const sheet = workbook.addWorksheet('Follow up Report', {
+    views: [{ state: 'frozen', ySplit: 2 }],
+    pageSetup: { orientation: 'landscape', fitToPage: true, fitToWidth: 1, fitToHeight: 0 },
+  });
+  sheet.columns = [
+    { width: 24 },
+    { width: 26 },
+    { width: 14 },
+    { width: 14 },
+    { width: 12 },
+    { width: 14 },
+    { width: 12 },
+    { width: 10 },
+    { width: 12 },
+  ];
+  const width = sheet.columns.length;
+
+  const title = sheet.addRow(['Project Follow up - Client Report']);
+  sheet.mergeCells(title.number, 1, title.number, width);
+  title.getCell(1).font = { bold: true, size: 16, color: { argb: HEADER_FONT_COLOR } };
+  title.getCell(1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: BRAND_COLOR } };
+  title.getCell(1).alignment = { vertical: 'middle', horizontal: 'center' };
+  title.height = 28;
+
+  const subtitle = sheet.addRow([`${report.projectName} (${report.contractCode})`]);
+  sheet.mergeCells(subtitle.number, 1, subtitle.number, width);
+  subtitle.getCell(1).font = { italic: true };
+  subtitle.getCell(1).alignment = { horizontal: 'center' };
+
+  addSectionTitle(sheet, 'Project Information', width);
+  const headerFields: Array<[string, ExcelJS.CellValue, string?]> = [
+    ['Client', report.clientName],
+    ['Project', report.projectName],
+    ['Contract Code', report.contractCode],
+    ['Signing Contract Date', toDate(report.contractSigningDate), DATE_FORMAT],
+    ['BUA | M2', report.builtUpArea, '#,##0'],
+    ['License Type', report.licenseType || ''],
+    ['Project Type', report.projectType || ''],
+    ['Start Date', toDate(report.startDate), DATE_FORMAT],
+    ['Estimated End Date', toDate(report.estimatedEndDate), DATE_FORMAT],
+    ['Status', humanize(report.status)],
+  ];
+  for (const [label, value, numFmt] of headerFields) {
+    const row = sheet.addRow([label, value]);
+    const labelCell = row.getCell(1);
+    labelCell.font = { bold: true };
+    labelCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: LABEL_FILL } };
+    labelCell.border = thinBorder;
+    const valueCell = row.getCell(2);
+    valueCell.border = thinBorder;
+    valueCell.alignment = { horizontal: 'left' };
+    if (numFmt) valueCell.numFmt = numFmt;
+  }
+
+  addSectionTitle(sheet, 'Phases', width);
+  styleHeaderRow(
+    sheet.addRow([
+      'Phase',
+      'Team Leader',
+      'Start Date',
+      'End Date',
+      'Duration (Days)',
+      'Status',
+      'Progress',
+      'Tasks',
+      'Completed',
+    ])
+  );
+  for (const phase of report.phases) {
+    const teamLeaders = phase.teamAssignments
+      .filter(assignment => assignment.role === 'TEAM_LEADER')
+      .map(assignment => assignment.teamMember)
+      .join(', ');
+    const row = sheet.addRow([
+      humanize(phase.phaseName),
+      teamLeaders,
+      toDate(phase.actualStartDate || phase.startDate),
+      toDate(phase.actualEndDate || phase.endDate),
+      phase.duration,
+      humanize(phase.status),
+      phase.progress / 100,
+      phase.taskCount,
+      phase.completedTasks,
+    ]);
+    row.getCell(3).numFmt = DATE_FORMAT;
+    row.getCell(4).numFmt = DATE_FORMAT;
+    row.getCell(7).numFmt = '0%';
+    row.eachCell({ includeEmpty: true }, cell => (cell.border = thinBorder));
+  }
+
+  addSectionTitle(sheet, 'Modification Allowances', width);
+  styleHeaderRow(
+    sheet.addRow([
+      'Phase',
+      'Allowed Times',
+      'Used',
+      'Remaining',
+      'Exceptional',
+      'Days per Time',
+      'Days Granted',
+      'Days Used',
+    ])
+  );
+  for (const allowance of report.modificationAllowances) {
+    const row = sheet.addRow([
+      humanize(allowance.phase),
+      allowance.allowedTimes,
+      allowance.used,
+      allowance.remaining,
+      allowance.exceptional,
+      allowance.daysPerTime,
+      allowance.daysGranted,
+      allowance.daysUsed,
+    ]);
+    row.eachCell({ includeEmpty: true }, cell => (cell.border = thinBorder));
+  }
+
+  addSectionTitle(sheet, 'Cost Summary', width);
+  const costFields: Array<[string, number, string]> = [
+    ['Total Cost', report.costSummary.totalCost, MONEY_FORMAT],
+    ['Employee Cost', report.costSummary.employeeCostTotal, MONEY_FORMAT],
+    ['Material Cost', report.costSummary.materialCostTotal, MONEY_FORMAT],
+    ['Cost Entries', report.costSummary.totalEntries, '0'],
+  ];
+  for (const [label, value, numFmt] of costFields) {
+    const row = sheet.addRow([label, value]);
+    row.getCell(1).font = { bold: true };
+    row.getCell(1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: LABEL_FILL } };
+    row.getCell(1).border = thinBorder;
+    row.getCell(2).numFmt = numFmt;
+    row.getCell(2).border = thinBorder;
+  }
+}
+
+function addGanttSheet(workbook: ExcelJS.Workbook, report: ProjectFollowUpReport): void {
+  const taskColumns = [
+    { header: '#', width: 5 },
+    { header: 'Phase', width: 10 },
+    { header: 'Task', width: 36 },
+    { header: 'Assigned To', width: 20 },
+    { header: 'Status', width: 12 },
+    { header: 'Start', width: 12 },
+    { header: 'End', width: 12 },
+    { header: 'Days', width: 7 },
+  ];
+
+  const sheet = workbook.addWorksheet('Task Gantt', {
+    views: [{ state: 'frozen', xSplit: taskColumns.length, ySplit: 2 }],
+    pageSetup: { orientation: 'landscape', fitToPage: true, fitToWidth: 1, fitToHeight: 0 },
+  });
+
+  const tasks = report.tasks.map(task => ({
+    ...task,
+    start: toDate(task.startDate),
+    end: toDate(task.endDate),
+  }));
+  const scheduled = tasks.filter(task => task.start && task.end);
+  const rangeStart = startOfWeek(
+    new Date(Math.min(toDate(report.startDate).getTime(), ...scheduled.map(t => t.start.getTime())))
+  );
+  const rangeEnd = new Date(
+    Math.max(toDate(report.estimatedEndDate).getTime(), ...scheduled.map(t => t.end.getTime()))
+  );
+  const weekCount = Math.min(
+    MAX_GANTT_WEEKS,
+    Math.max(1, Math.ceil((rangeEnd.getTime() - rangeStart.getTime() + DAY_MS) / (7 * DAY_MS)))
+  );
+  const weeks = Array.from(
+    { length: weekCount },
+    (_, index) => new Date(rangeStart.getTime() + index * 7 * DAY_MS)
+  );
+
+  sheet.columns = [
+    ...taskColumns.map(column => ({ width: column.width })),
+    ...weeks.map(() => ({ width: 4 })),
+  ];
+
+  // Row 1 groups the week columns by month, row 2 holds the week start day
+  const monthRow = sheet.getRow(1);
+  const headerRow = sheet.getRow(2);
+  taskColumns.forEach((column, index) => {
+    monthRow.getCell(index + 1).value = column.header;
+    sheet.mergeCells(1, index + 1, 2, index + 1);
+  });
+  let monthStart = 0;
+  weeks.forEach((week, index) => {
+    const column = taskColumns.length + index + 1;
+    headerRow.getCell(column).value = week.getUTCDate();
+    const isLastOfMonth =
+      index === weeks.length - 1 || weeks[index + 1].getUTCMonth() !== week.getUTCMonth();
+    if (isLastOfMonth) {
+      const firstColumn = taskColumns.length + monthStart + 1;
+      monthRow.getCell(firstColumn).value = week.toLocaleDateString('en-GB', {
+        month: 'short',
+        year: 'numeric',
+        timeZone: 'UTC',
+      });
+      if (column > firstColumn) sheet.mergeCells(1, firstColumn, 1, column);
+      monthStart = index + 1;
+    }
+  });
+  styleHeaderRow(monthRow);
+  styleHeaderRow(headerRow);
+
+  tasks.forEach((task, index) => {
+    const row = sheet.addRow([
+      index + 1,
+      humanize(task.phase),
+      task.description,
+      task.assignedTo,
+      humanize(task.status),
+      task.start,
+      task.end,
+      task.duration,
+    ]);
+    row.getCell(3).alignment = { wrapText: true, vertical: 'top' };
+    row.getCell(6).numFmt = DATE_FORMAT;
+    row.getCell(7).numFmt = DATE_FORMAT;
+    for (let column = 1; column <= taskColumns.length + weeks.length; column++) {
+      row.getCell(column).border = thinBorder;
+    }
+
+    if (!task.start || !task.end) return;
+    const fill = STATUS_FILLS[task.status] || STATUS_FILLS.PLANNED;
+    weeks.forEach((week, weekIndex) => {
+      const weekEnd = new Date(week.getTime() + 7 * DAY_MS);
+      if (task.start < weekEnd && task.end >= week) {
+        row.getCell(taskColumns.length + weekIndex + 1).fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: fill },
+        };
+      }
+    });
+  });
+
+  if (tasks.length === 0) {
+    sheet.addRow(['', '', 'No tasks recorded for this project']);
+  }
+}
+
+/**
+ * Build the client follow-up workbook: a report sheet with the project header,
+ * phase table and cost summary, and a weekly Gantt sheet of the tasks
+ */
+export function buildFollowUpReportWorkbook(report: ProjectFollowUpReport): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Fllowup';
+  workbook.created = new Date();
+
+  addReportSheet(workbook, report);
+  addGanttSheet(workbook, report);
+
+  return workbook;
+}
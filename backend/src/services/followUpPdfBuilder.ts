@@ -0,0 +1,525 @@
+import PDFDocument from 'pdfkit';
+import type { ProjectFollowUpReport } from './reportService';
+
+// DejaVu Sans ships Arabic glyphs and shaping tables, so client and staff names render correctly
+const FONT_REGULAR = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf');
+const FONT_BOLD = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf');
+
+const BRAND_COLOR = '#1F4E78';
+const MUTED_COLOR = '#595959';
+const ROW_FILL = '#F2F5FA';
+const BORDER_COLOR = '#BFBFBF';
+const PROGRESS_FILL = '#70AD47';
+
+const PAGE_MARGIN = 40;
+const FOOTER_HEIGHT = 24;
+const HEADER_ROW_HEIGHT = 20;
+const ROW_HEIGHT = 18;
+const CELL_PADDING = 4;
+
+const RTL_CHARS = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufeff]/;
+const LTR_CHARS = /[A-Za-z\u00c0-\u024f]/;
+
+type Align = 'left' | 'right' | 'center';
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: Align;
+  progress?: boolean;
+}
+
+type TableRow = Array<string | number>;
+
+const humanize = (value: string | null | undefined): string =>
+  (value || '')
+    .toLowerCase()
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const formatDate = (value: Date | string | null | undefined): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? '' : date.toLocaleDateString('en-GB', { timeZone: 'UTC' });
+};
+
+const formatMoney = (value: number): string =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Reorder the words of a mixed Arabic/Latin string into visual left-to-right
+ * order. Shaping of each Arabic word is left to the font engine; this only
+ * handles word and run ordering, which pdfkit does not do on its own.
+ */
+function toVisualWords(text: string): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const directionOf = (word: string): 'rtl' | 'ltr' | null =>
+    RTL_CHARS.test(word) ? 'rtl' : LTR_CHARS.test(word) ? 'ltr' : null;
+  const paragraphDirection = words.map(directionOf).find(Boolean) || 'ltr';
+
+  const runs: Array<{ direction: 'rtl' | 'ltr'; words: string[] }> = [];
+  for (const word of words) {
+    const direction = directionOf(word) || runs[runs.length - 1]?.direction || paragraphDirection;
+    const current = runs[runs.length - 1];
+    if (current && current.direction === direction) {
+      current.words.push(word);
+    } else {
+      runs.push({ direction, words: [word] });
+    }
+  }
+
+  const ordered = paragraphDirection === 'rtl' ? runs.reverse() : runs;
+  return ordered.flatMap(run => (run.direction === 'rtl' ? [...run.words].reverse() : run.words));
+}
+
+/**
+ * Draw a single line of text inside a box, truncating with an ellipsis and
+ * laying out Arabic text right-to-left
+ */
+function drawText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  x: number,
+  y: number,
+  width: number,
+  align?: Align
+): void {
+  if (!text) return;
+
+  if (!RTL_CHARS.test(text)) {
+    doc.text(text, x, y, {
+      width,
+      align: align || 'left',
+      lineBreak: false,
+      ellipsis: true,
+      height: doc.currentLineHeight(),
+    });
+    return;
+  }
+
+  const spaceWidth = doc.widthOfString(' ');
+  let logicalWords = text.split(/\s+/).filter(Boolean);
+  let visualWords = toVisualWords(logicalWords.join(' '));
+  const measure = (words: string[]) =>
+    words.reduce((sum, word) => sum + doc.widthOfString(word), 0) +
+    Math.max(0, words.length - 1) * spaceWidth;
+
+  while (logicalWords.length > 1 && measure(visualWords) > width) {
+    logicalWords = logicalWords.slice(0, -1);
+    visualWords = toVisualWords(`${logicalWords.join(' ')} …`);
+  }
+
+  const lineWidth = measure(visualWords);
+  // Without an explicit alignment, Arabic text sits against the right edge of its box
+  let cursor =
+    align === 'center' ? x + (width - lineWidth) / 2 : align === 'left' ? x : x + width - lineWidth;
+  for (const word of visualWords) {
+    doc.text(word, cursor, y, { lineBreak: false });
+    cursor += doc.widthOfString(word) + spaceWidth;
+  }
+}
+
+class FollowUpPdfWriter {
+  private doc: PDFKit.PDFDocument;
+  private report: ProjectFollowUpReport;
+
+  constructor(report: ProjectFollowUpReport) {
+    this.report = report;
+    this.doc = new PDFDocument({
+      size: 'A4',
+      layout: 'landscape',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: `Project Follow-up Report - ${report.contractCode}`,
+        Author: 'Fllowup',
+      },
+    });
+    this.doc.registerFont('regular', FONT_REGULAR);
+    this.doc.registerFont('bold', FONT_BOLD);
+    this.doc.font('regular');
+  }
+
+  build(): PDFKit.PDFDocument {
+    this.addCover();
+    this.addPhaseProgress();
+    this.addTaskList();
+    this.addTeamAllocation();
+    this.addCostBreakdown();
+    this.addModificationAllowances();
+    this.addModificationHistory();
+    this.addPageNumbers();
+    this.doc.end();
+    return this.doc;
+  }
+
+  private get contentWidth(): number {
+    return this.doc.page.width - PAGE_MARGIN * 2;
+  }
+
+  private get bottom(): number {
+    return this.doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT;
+  }
+
+  private addCover(): void {
+    const { doc, report } = this;
+    const completedTasks = report.tasks.filter(task => task.status === 'COMPLETED').length;
+    const progress = report.tasks.length
+      ? Math.round((completedTasks / report.tasks.length) * 100)
+      : 0;
+
+    doc.rect(0, 0, doc.page.width, 150).fill(BRAND_COLOR);
+    doc.fillColor('#FFFFFF').font('bold').fontSize(26);
+    drawText(doc, 'Project Follow-up Report', PAGE_MARGIN, 50, this.contentWidth);
+    doc.font('regular').fontSize(14);
+    drawText(
+      doc,
+      `${report.projectName}  |  ${report.contractCode}`,
+      PAGE_MARGIN,
+      95,
+      this.contentWidth,
+      'left'
+    );
+
+    const details: Array<[string, string]> = [
+      ['Client', report.clientName],
+      ['Contract Code', report.contractCode],
+      ['Signing Contract Date', formatDate(report.contractSigningDate)],
+      ['BUA | M2', report.builtUpArea ? report.builtUpArea.toLocaleString('en-US') : ''],
+      ['License Type', report.licenseType || ''],
+      ['Project Type', report.projectType || ''],
+      ['Start Date', formatDate(report.startDate)],
+      ['Estimated End Date', formatDate(report.estimatedEndDate)],
+      ['Status', humanize(report.status)],
+    ];
+
+    let y = 190;
+    doc.fontSize(12);
+    for (const [label, value] of details) {
+      doc.fillColor(MUTED_COLOR).font('regular');
+      drawText(doc, label, PAGE_MARGIN, y, 180);
+      doc.fillColor('#000000').font('bold');
+      drawText(doc, value, PAGE_MARGIN + 190, y, 320, 'left');
+      y += 24;
+    }
+
+    const stats: Array<[string, string]> = [
+      ['Phases', String(report.phases.length)],
+      ['Tasks Completed', `${completedTasks} / ${report.tasks.length}`],
+      ['Overall Progress', `${progress}%`],
+      ['Total Cost', formatMoney(report.costSummary.totalCost)],
+    ];
+    const boxX = PAGE_MARGIN + 560;
+    const boxWidth = this.contentWidth - 560;
+    stats.forEach(([label, value], index) => {
+      const boxY = 190 + index * 58;
+      doc.rect(boxX, boxY, boxWidth, 50).fillAndStroke(ROW_FILL, BORDER_COLOR);
+      doc.fillColor(MUTED_COLOR).font('regular').fontSize(10);
+      drawText(doc, label, boxX + 10, boxY + 8, boxWidth - 20);
+      doc.fillColor(BRAND_COLOR).font('bold').fontSize(16);
+      drawText(doc, value, boxX + 10, boxY + 24, boxWidth - 20);
+    });
+
+    doc.fillColor(MUTED_COLOR).font('regular').fontSize(9);
+    drawText(
+      doc,
+      `Generated ${new Date().toLocaleString('en-GB', { timeZone: 'UTC' })} UTC`,
+      PAGE_MARGIN,
+      this.bottom - 10,
+      this.contentWidth
+    );
+  }
+
+  private addPhaseProgress(): void {
+    this.startSection('Phase Progress', true);
+    this.drawTable(
+      [
+        { header: 'Phase', width: 0.12 },
+        { header: 'Status', width: 0.12 },
+        { header: 'Start', width: 0.11 },
+        { header: 'End', width: 0.11 },
+        { header: 'Days', width: 0.11, align: 'right' },
+        { header: 'Progress', width: 0.25, progress: true },
+        { header: 'Tasks Done', width: 0.18, align: 'right' },
+      ],
+      this.report.phases.map(phase => [
+        humanize(phase.phaseName),
+        humanize(phase.status),
+        formatDate(phase.actualStartDate || phase.startDate),
+        formatDate(phase.actualEndDate || phase.endDate),
+        phase.duration,
+        phase.progress,
+        `${phase.completedTasks} / ${phase.taskCount}`,
+      ])
+    );
+  }
+
+  private addTaskList(): void {
+    this.startSection('Task List');
+    this.drawTable(
+      [
+        { header: '#', width: 0.04, align: 'right' },
+        { header: 'Phase', width: 0.08 },
+        { header: 'Code', width: 0.12 },
+        { header: 'Task', width: 0.3 },
+        { header: 'Assigned To', width: 0.15 },
+        { header: 'Status', width: 0.09 },
+        { header: 'Start', width: 0.08 },
+        { header: 'End', width: 0.08 },
+        { header: 'Days', width: 0.06, align: 'right' },
+      ],
+      this.report.tasks.map((task, index) => [
+        index + 1,
+        humanize(task.phase),
+        task.code,
+        task.description,
+        task.assignedTo,
+        humanize(task.status),
+        formatDate(task.startDate),
+        formatDate(task.endDate),
+        task.duration,
+      ])
+    );
+  }
+
+  private addTeamAllocation(): void {
+    this.startSection('Team Allocation');
+    this.drawTable(
+      [
+        { header: 'Phase', width: 0.2 },
+        { header: 'Team Member', width: 0.4 },
+        { header: 'Role', width: 0.2 },
+        { header: 'Allocation', width: 0.2, align: 'right' },
+      ],
+      this.report.phases.flatMap(phase =>
+        phase.teamAssignments.map(assignment => [
+          humanize(phase.phaseName),
+          assignment.teamMember,
+          humanize(assignment.role),
+          `${assignment.workingPercentage}%`,
+        ])
+      )
+    );
+  }
+
+  private addCostBreakdown(): void {
+    const { costSummary, costBreakdown } = this.report;
+    this.startSection('Cost Breakdown');
+    this.drawTable(
+      [
+        { header: 'Phase', width: 0.25 },
+        { header: 'Cost Type', width: 0.3 },
+        { header: 'Entries', width: 0.15, align: 'right' },
+        { header: 'Amount', width: 0.3, align: 'right' },
+      ],
+      [
+        ...costBreakdown.map(entry => [
+          humanize(entry.phase),
+          humanize(entry.costType),
+          entry.entries,
+          formatMoney(entry.amount),
+        ]),
+        ['Total', '', costSummary.totalEntries, formatMoney(costSummary.totalCost)],
+      ]
+    );
+  }
+
+  private addModificationAllowances(): void {
+    this.startSection('Modification Allowances');
+    this.drawTable(
+      [
+        { header: 'Phase', width: 0.16 },
+        { header: 'Allowed', width: 0.12, align: 'right' },
+        { header: 'Used', width: 0.12, align: 'right' },
+        { header: 'Remaining', width: 0.12, align: 'right' },
+        { header: 'Exceptional', width: 0.12, align: 'right' },
+        { header: 'Days / Time', width: 0.12, align: 'right' },
+        { header: 'Days Granted', width: 0.12, align: 'right' },
+        { header: 'Days Used', width: 0.12, align: 'right' },
+      ],
+      this.report.modificationAllowances.map(allowance => [
+        humanize(allowance.phase),
+        allowance.allowedTimes,
+        allowance.used,
+        allowance.remaining,
+        allowance.exceptional,
+        allowance.daysPerTime,
+        allowance.daysGranted,
+        allowance.daysUsed,
+      ])
+    );
+  }
+
+  private addModificationHistory(): void {
+    this.startSection('Modification History');
+    this.drawTable(
+      [
+        { header: '#', width: 0.05, align: 'right' },
+        { header: 'Phase', width: 0.09 },
+        { header: 'Date', width: 0.11 },
+        { header: 'Description', width: 0.33 },
+        { header: 'Requested By', width: 0.15 },
+        { header: 'Status', width: 0.13 },
+        { header: 'Granted', width: 0.07, align: 'right' },
+        { header: 'Used', width: 0.07, align: 'right' },
+      ],
+      this.report.modifications.map(modification => [
+        modification.modificationNumber,
+        modification.phase,
+        formatDate(modification.date),
+        modification.isExceptional
+          ? `${modification.description} (exceptional)`
+          : modification.description,
+        modification.requestedBy,
+        modification.status.replace('_', ' '),
+        modification.daysGranted,
+        modification.daysUsed,
+      ])
+    );
+  }
+
+  private startSection(title: string, newPage = false): void {
+    const { doc } = this;
+    // Keep a heading together with at least a few table rows
+    if (newPage || doc.y + 80 > this.bottom) {
+      doc.addPage();
+    } else {
+      doc.y += 16;
+    }
+
+    doc.fillColor(BRAND_COLOR).font('bold').fontSize(15);
+    drawText(doc, title, PAGE_MARGIN, doc.y, this.contentWidth);
+    doc.y += 24;
+    doc
+      .moveTo(PAGE_MARGIN, doc.y - 6)
+      .lineTo(PAGE_MARGIN + this.contentWidth, doc.y - 6)
+      .strokeColor(BRAND_COLOR)
+      .lineWidth(1)
+      .stroke();
+  }
+
+  private drawTable(columns: TableColumn[], rows: TableRow[]): void {
+    const { doc } = this;
+    const widths = columns.map(column => column.width * this.contentWidth);
+    let y = doc.y;
+
+    const drawHeader = () => {
+      doc.rect(PAGE_MARGIN, y, this.contentWidth, HEADER_ROW_HEIGHT).fill(BRAND_COLOR);
+      doc.fillColor('#FFFFFF').font('bold').fontSize(9);
+      let x = PAGE_MARGIN;
+      columns.forEach((column, index) => {
+        drawText(
+          doc,
+          column.header,
+          x + CELL_PADDING,
+          y + 5,
+          widths[index] - CELL_PADDING * 2,
+          column.align
+        );
+        x += widths[index];
+      });
+      y += HEADER_ROW_HEIGHT;
+    };
+
+    drawHeader();
+
+    if (rows.length === 0) {
+      doc.fillColor(MUTED_COLOR).font('regular').fontSize(9);
+      drawText(doc, 'No records', PAGE_MARGIN + CELL_PADDING, y + 5, this.contentWidth);
+      doc.y = y + ROW_HEIGHT;
+      return;
+    }
+
+    rows.forEach((row, rowIndex) => {
+      if (y + ROW_HEIGHT > this.bottom) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+        drawHeader();
+      }
+
+      if (rowIndex % 2 === 1) {
+        doc.rect(PAGE_MARGIN, y, this.contentWidth, ROW_HEIGHT).fill(ROW_FILL);
+      }
+      doc
+        .moveTo(PAGE_MARGIN, y + ROW_HEIGHT)
+        .lineTo(PAGE_MARGIN + this.contentWidth, y + ROW_HEIGHT)
+        .strokeColor(BORDER_COLOR)
+        .lineWidth(0.5)
+        .stroke();
+
+      let x = PAGE_MARGIN;
+      columns.forEach((column, index) => {
+        const value = row[index];
+        const cellWidth = widths[index] - CELL_PADDING * 2;
+        doc.fillColor('#000000').font('regular').fontSize(8.5);
+
+        if (column.progress) {
+          const percent = Math.max(0, Math.min(100, Number(value) || 0));
+          const barWidth = cellWidth - 34;
+          doc.rect(x + CELL_PADDING, y + 5, barWidth, 8).fill('#E7E6E6');
+          if (percent > 0) {
+            doc.rect(x + CELL_PADDING, y + 5, (barWidth * percent) / 100, 8).fill(PROGRESS_FILL);
+          }
+          doc.fillColor('#000000');
+          drawText(doc, `${percent}%`, x + CELL_PADDING + barWidth + 4, y + 4, 30, 'right');
+        } else {
+          drawText(
+            doc,
+            value === undefined || value === null ? '' : String(value),
+            x + CELL_PADDING,
+            y + 4,
+            cellWidth,
+            column.align
+          );
+        }
+        x += widths[index];
+      });
+
+      y += ROW_HEIGHT;
+    });
+
+    doc.y = y;
+  }
+
+  private addPageNumbers(): void {
+    const { doc, report } = this;
+    const range = doc.bufferedPageRange();
+
+    for (let index = range.start; index < range.start + range.count; index++) {
+      doc.switchToPage(index);
+      const y = doc.page.height - PAGE_MARGIN - 10;
+      // Writing into the bottom margin would otherwise make pdfkit add a new page
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+
+      doc.fillColor(MUTED_COLOR).font('regular').fontSize(8);
+      drawText(
+        doc,
+        `${report.projectName} | ${report.contractCode}`,
+        PAGE_MARGIN,
+        y,
+        this.contentWidth / 2,
+        'left'
+      );
+      drawText(
+        doc,
+        `Page ${index + 1} of ${range.count}`,
+        PAGE_MARGIN + this.contentWidth / 2,
+        y,
+        this.contentWidth / 2,
+        'right'
+      );
+
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+}
+
+/**
+ * Render the project follow-up report as a paginated PDF document. The returned
+ * document is already finalised and can be piped straight to a response.
+ */
+export function buildFollowUpReportPdf(report: ProjectFollowUpReport): PDFKit.PDFDocument {
+  return new FollowUpPdfWriter(report).build();
+}
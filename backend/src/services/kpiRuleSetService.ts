@@ -0,0 +1,446 @@
+import {
+  AssignmentRole,
+  KPIRuleSet,
+  KPIRuleSetStatus,
+  Prisma,
+  PrismaClient,
+  UserRole,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import AuditLogService from './auditLogService';
+import {
+  DEFAULT_KPI_CATEGORIES,
+  kpiService,
+  KPIFactorSettings,
+  KPIGradeBand,
+  KPIRoleVariant,
+  KPIRoleVariants,
+} from './kpiService';
+import { prisma } from './prismaClient';
+
+export interface KPIRuleSetInput {
+  name: string;
+  description?: string;
+  effectiveFrom: Date;
+  floor?: number;
+  ceiling?: number;
+  factors: KPIFactorSettings[];
+  roleVariants?: KPIRoleVariants;
+  gradeBands?: KPIGradeBand[];
+}
+
+export interface UpdateKPIRuleSetInput extends Partial<Omit<KPIRuleSetInput, 'name'>> {
+  version: number;
+}
+
+export interface KPIRuleSetFilter {
+  name?: string;
+  status?: KPIRuleSetStatus;
+}
+
+export interface KPIRuleSetPreviewFilter {
+  projectId?: string;
+  phaseId?: string;
+  employeeId?: string;
+}
+
+export interface KPIRuleSetPreviewEntry {
+  entryId: string;
+  employeeId: string;
+  employeeName: string;
+  projectId: string;
+  projectName: string;
+  phaseId: string;
+  phaseName: string;
+  role: AssignmentRole;
+  currentRuleSetId: string | null;
+  currentScore: number;
+  currentGradeBand: string | null;
+  previewScore: number;
+  previewGradeBand: string | null;
+  delta: number;
+}
+
+export interface KPIRuleSetPreview {
+  ruleSet: KPIRuleSet;
+  entries: KPIRuleSetPreviewEntry[];
+  summary: {
+    /** Entries the rule set would score once activated */
+    affected: number;
+    changed: number;
+    averageCurrentScore: number;
+    averagePreviewScore: number;
+    bandChanges: number;
+  };
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const average = (values: number[]): number =>
+  values.length > 0 ? round2(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+const FACTOR_CODES = DEFAULT_KPI_CATEGORIES.map(category => category.code);
+
+class KPIRuleSetService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  async list(filter?: KPIRuleSetFilter): Promise<KPIRuleSet[]> {
+    try {
+      return await this.prisma.kPIRuleSet.findMany({
+        where: { name: filter?.name, status: filter?.status },
+        include: { _count: { select: { kpiEntries: true } } },
+        orderBy: [{ effectiveFrom: 'desc' }, { name: 'asc' }, { revision: 'desc' }],
+      });
+    } catch (error) {
+      logger.error('Failed to list KPI rule sets', { error, filter });
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<KPIRuleSet> {
+    const ruleSet = await this.prisma.kPIRuleSet.findUnique({ where: { id } });
+
+    if (!ruleSet) {
+      throw new Error('KPI rule set not found');
+    }
+
+    return ruleSet;
+  }
+
+  /**
+   * Create a draft rule set. Reusing a name starts the next revision of it.
+   */
+  async createDraft(input: KPIRuleSetInput, userId: string, role: UserRole): Promise<KPIRuleSet> {
+    try {
+      this.validate(input);
+
+      const latest = await this.prisma.kPIRuleSet.findFirst({
+        where: { name: input.name },
+        orderBy: { revision: 'desc' },
+      });
+
+      const ruleSet = await this.prisma.kPIRuleSet.create({
+        data: {
+          name: input.name,
+          revision: (latest?.revision || 0) + 1,
+          description: input.description,
+          effectiveFrom: new Date(input.effectiveFrom),
+          floor: input.floor ?? 0,
+          ceiling: input.ceiling ?? 100,
+          factors: input.factors as unknown as Prisma.InputJsonValue,
+          roleVariants: (input.roleVariants as Prisma.InputJsonValue) ?? Prisma.JsonNull,
+          gradeBands: (input.gradeBands as unknown as Prisma.InputJsonValue) ?? Prisma.JsonNull,
+          createdBy: userId,
+        },
+      });
+
+      await AuditLogService.logCreate('KPI_RULE_SET', ruleSet.id, userId, role, ruleSet);
+
+      logger.info('KPI rule set created', {
+        ruleSetId: ruleSet.id,
+        name: ruleSet.name,
+        revision: ruleSet.revision,
+      });
+
+      return ruleSet;
+    } catch (error) {
+      logger.error('Failed to create KPI rule set', { error, input });
+      throw error;
+    }
+  }
+
+  async updateDraft(
+    id: string,
+    input: UpdateKPIRuleSetInput,
+    userId: string,
+    role: UserRole
+  ): Promise<KPIRuleSet> {
+    try {
+      const existing = await this.get(id);
+
+      const { version, ...changes } = input;
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      this.assertDraft(existing);
+      this.validate({
+        factors: changes.factors ?? (existing.factors as unknown as KPIFactorSettings[]),
+        roleVariants:
+          changes.roleVariants ?? (existing.roleVariants as unknown as KPIRoleVariants | null),
+        gradeBands: changes.gradeBands ?? (existing.gradeBands as unknown as KPIGradeBand[]),
+        floor: changes.floor ?? Number(existing.floor),
+        ceiling: changes.ceiling ?? Number(existing.ceiling),
+      });
+
+      const ruleSet = await this.prisma.kPIRuleSet.update({
+        where: { id },
+        data: {
+          description: changes.description,
+          effectiveFrom: changes.effectiveFrom ? new Date(changes.effectiveFrom) : undefined,
+          floor: changes.floor,
+          ceiling: changes.ceiling,
+          factors: changes.factors as unknown as Prisma.InputJsonValue,
+          roleVariants: changes.roleVariants as Prisma.InputJsonValue,
+          gradeBands: changes.gradeBands as unknown as Prisma.InputJsonValue,
+          version: { increment: 1 },
+        },
+      });
+
+      await AuditLogService.logUpdate('KPI_RULE_SET', id, userId, role, existing, ruleSet);
+
+      logger.info('KPI rule set updated', { ruleSetId: id });
+
+      return ruleSet;
+    } catch (error) {
+      logger.error('Failed to update KPI rule set', { error, id, input });
+      throw error;
+    }
+  }
+
+  async deleteDraft(id: string, userId: string, role: UserRole): Promise<void> {
+    try {
+      const ruleSet = await this.get(id);
+      this.assertDraft(ruleSet);
+
+      await this.prisma.kPIRuleSet.delete({ where: { id } });
+
+      await AuditLogService.logDelete('KPI_RULE_SET', id, userId, role, ruleSet);
+
+      logger.info('KPI rule set deleted', { ruleSetId: id });
+    } catch (error) {
+      logger.error('Failed to delete KPI rule set', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Put a draft into effect. Earlier active revisions of the same name are
+   * archived, and every entry is rescored so it records the set now scoring it.
+   */
+  async activate(
+    id: string,
+    version: number,
+    userId: string,
+    role: UserRole
+  ): Promise<{ ruleSet: KPIRuleSet; rescored: number }> {
+    try {
+      const existing = await this.get(id);
+
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      this.assertDraft(existing);
+
+      const ruleSet = await this.prisma.$transaction(async tx => {
+        await tx.kPIRuleSet.updateMany({
+          where: { name: existing.name, status: KPIRuleSetStatus.ACTIVE },
+          data: { status: KPIRuleSetStatus.ARCHIVED, version: { increment: 1 } },
+        });
+        return tx.kPIRuleSet.update({
+          where: { id },
+          data: {
+            status: KPIRuleSetStatus.ACTIVE,
+            activatedAt: new Date(),
+            version: { increment: 1 },
+          },
+        });
+      });
+
+      await AuditLogService.logUpdate('KPI_RULE_SET', id, userId, role, existing, ruleSet);
+
+      const rescored = await kpiService.recomputeScores();
+
+      logger.info('KPI rule set activated', { ruleSetId: id, rescored });
+
+      return { ruleSet, rescored };
+    } catch (error) {
+      logger.error('Failed to activate KPI rule set', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Take an active rule set out of effect; its entries fall back to the
+   * previous set in effect, or the configured weights
+   */
+  async archive(
+    id: string,
+    version: number,
+    userId: string,
+    role: UserRole
+  ): Promise<{ ruleSet: KPIRuleSet; rescored: number }> {
+    try {
+      const existing = await this.get(id);
+
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      if (existing.status === KPIRuleSetStatus.ARCHIVED) {
+        throw new Error('KPI rule set is already archived');
+      }
+
+      const ruleSet = await this.prisma.kPIRuleSet.update({
+        where: { id },
+        data: { status: KPIRuleSetStatus.ARCHIVED, version: { increment: 1 } },
+      });
+
+      await AuditLogService.logUpdate('KPI_RULE_SET', id, userId, role, existing, ruleSet);
+
+      const rescored =
+        existing.status === KPIRuleSetStatus.ACTIVE ? await kpiService.recomputeScores() : 0;
+
+      logger.info('KPI rule set archived', { ruleSetId: id, rescored });
+
+      return { ruleSet, rescored };
+    } catch (error) {
+      logger.error('Failed to archive KPI rule set', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Score the stored entries as if the rule set were active, without saving.
+   * Only entries the set would take over (by effective date, and not covered
+   * by a newer active set) are listed.
+   */
+  async preview(id: string, filter?: KPIRuleSetPreviewFilter): Promise<KPIRuleSetPreview> {
+    try {
+      const ruleSet = await this.get(id);
+
+      const context = await kpiService.loadScoringContext();
+      const previewContext = {
+        ...context,
+        ruleSets: [
+          ruleSet,
+          ...context.ruleSets.filter(set => set.id !== ruleSet.id && set.name !== ruleSet.name),
+        ].sort(
+          (a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime() || b.revision - a.revision
+        ),
+      };
+
+      const entries = await this.prisma.kPIEntry.findMany({
+        where: {
+          projectId: filter?.projectId,
+          phaseId: filter?.phaseId,
+          employeeId: filter?.employeeId,
+        },
+        include: {
+          employee: { select: { id: true, name: true } },
+          project: { select: { id: true, name: true } },
+          phase: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const previewEntries: KPIRuleSetPreviewEntry[] = [];
+      for (const entry of entries) {
+        const scoring = kpiService.resolveScoring(previewContext, entry);
+        if (scoring.ruleSetId !== ruleSet.id) continue;
+
+        const scored = kpiService.calculateScore(entry, scoring.rules);
+        const currentScore = Number(entry.score);
+        previewEntries.push({
+          entryId: entry.id,
+          employeeId: entry.employee.id,
+          employeeName: entry.employee.name,
+          projectId: entry.project.id,
+          projectName: entry.project.name,
+          phaseId: entry.phase.id,
+          phaseName: entry.phase.name,
+          role: scoring.role,
+          currentRuleSetId: entry.ruleSetId,
+          currentScore,
+          currentGradeBand: entry.gradeBand,
+          previewScore: scored.score,
+          previewGradeBand: scored.gradeBand,
+          delta: round2(scored.score - currentScore),
+        });
+      }
+
+      return {
+        ruleSet,
+        entries: previewEntries,
+        summary: {
+          affected: previewEntries.length,
+          changed: previewEntries.filter(entry => entry.delta !== 0).length,
+          averageCurrentScore: average(previewEntries.map(entry => entry.currentScore)),
+          averagePreviewScore: average(previewEntries.map(entry => entry.previewScore)),
+          bandChanges: previewEntries.filter(
+            entry => entry.currentGradeBand !== entry.previewGradeBand
+          ).length,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to preview KPI rule set', { error, id, filter });
+      throw error;
+    }
+  }
+
+  private assertDraft(ruleSet: KPIRuleSet): void {
+    if (ruleSet.status !== KPIRuleSetStatus.DRAFT) {
+      throw new Error('Only draft KPI rule sets can be changed');
+    }
+  }
+
+  private validate(input: {
+    factors: KPIFactorSettings[];
+    roleVariants?: KPIRoleVariants | null;
+    gradeBands?: KPIGradeBand[] | null;
+    floor?: number;
+    ceiling?: number;
+  }): void {
+    if (!Array.isArray(input.factors)) {
+      throw new Error('Factors must be a list');
+    }
+
+    const checkLimits = (limits: { floor?: number; ceiling?: number }, base = input) => {
+      const floor = limits.floor ?? base.floor ?? 0;
+      const ceiling = limits.ceiling ?? base.ceiling ?? 100;
+      if (floor < 0 || ceiling > 100 || floor >= ceiling) {
+        throw new Error('Floor and ceiling must be within 0-100 with the floor below the ceiling');
+      }
+    };
+
+    const checkFactors = (factors: KPIFactorSettings[]) => {
+      for (const factor of factors) {
+        if (!FACTOR_CODES.includes(factor.code)) {
+          throw new Error(`Factor code must be one of ${FACTOR_CODES.join(', ')}`);
+        }
+        for (const field of ['weight', 'allowance', 'cap'] as const) {
+          const value = factor[field];
+          if (value !== undefined && value !== null && !(Number(value) >= 0)) {
+            throw new Error(`Factor ${field} must be zero or more`);
+          }
+        }
+      }
+    };
+
+    checkFactors(input.factors);
+    checkLimits(input);
+
+    for (const [variantRole, variant] of Object.entries(input.roleVariants || {}) as Array<
+      [string, KPIRoleVariant]
+    >) {
+      if (!(variantRole in AssignmentRole)) {
+        throw new Error('Role variants must be TEAM_LEADER or TEAM_MEMBER');
+      }
+      checkFactors(variant.factors || []);
+      checkLimits(variant);
+    }
+
+    for (const band of input.gradeBands || []) {
+      if (!band.name || !(band.minScore >= 0 && band.minScore <= 100)) {
+        throw new Error('Grade bands must be named with a minimum score within 0-100');
+      }
+    }
+  }
+}
+
+export default new KPIRuleSetService();
@@ -1,7 +1,146 @@
-import { UserRole, PrismaClient } from '@prisma/client';
+import {
+  UserRole,
+  PrismaClient,
+  ConfigurationCategory,
+  AssignmentRole,
+  KPIEntryStatus,
+  KPIRuleSet,
+  KPIRuleSetStatus,
+  Prisma,
+} from '@prisma/client';
 import logger from '../utils/logger';
 import AuditLogService from './auditLogService';
 import { prisma } from './prismaClient';
+import scheduleBaselineService, { PhaseVariance } from './scheduleBaselineService';
+import workingCalendarService, { WorkingCalendar } from './workingCalendarService';
+
+export type KPICategoryCode =
+  | 'DELAYED_DAYS'
+  | 'CLIENT_MODIFICATION'
+  | 'CLIENT_MODIFICATION_EXCEPTIONAL'
+  | 'TECHNICAL_MISTAKE'
+  | 'GC_MODIFICATION';
+
+export type KPICounts = {
+  delayedDays: number;
+  clientModifications: number;
+  exceptionalClientModifications: number;
+  technicalMistakes: number;
+  gcModifications: number;
+};
+
+export interface KPICategoryRule {
+  code: KPICategoryCode;
+  label: string;
+  field: keyof KPICounts;
+  /** Occurrences (or days) tolerated before a reduction applies */
+  allowance: number;
+  /** Points taken off the score per occurrence above the allowance */
+  weight: number;
+  /** Most points this category can take off, if limited */
+  cap?: number | null;
+}
+
+export interface KPIGradeBand {
+  name: string;
+  minScore: number;
+}
+
+export interface KPIScoringRules {
+  categories: KPICategoryRule[];
+  gradeBands: KPIGradeBand[];
+  floor?: number;
+  ceiling?: number;
+}
+
+/** Per-factor settings stored on a rule set; omitted fields keep the baseline value */
+export interface KPIFactorSettings {
+  code: KPICategoryCode;
+  weight?: number;
+  allowance?: number;
+  cap?: number | null;
+}
+
+export interface KPIRoleVariant {
+  factors?: KPIFactorSettings[];
+  floor?: number;
+  ceiling?: number;
+}
+
+export type KPIRoleVariants = Partial<Record<AssignmentRole, KPIRoleVariant>>;
+
+/**
+ * Everything needed to score entries without further queries: the configured
+ * baseline, the active rule sets (newest first) and who leads which phase
+ */
+export interface KPIScoringContext {
+  baseline: KPIScoringRules;
+  ruleSets: KPIRuleSet[];
+  leaderKeys: Set<string>;
+}
+
+export interface KPIEntryScoring {
+  rules: KPIScoringRules;
+  ruleSetId: string | null;
+  role: AssignmentRole;
+}
+
+export interface KPIScoreBreakdown {
+  score: number;
+  delayedReduction: number;
+  replyReasonReduction: number;
+  gradeBand: string | null;
+}
+
+/**
+ * Reduction categories of the legacy "Employees KPIs" sheet. Delays feed the
+ * delayed reduction, everything else the reply reason reduction. The defaults
+ * reproduce the original fixed formula until weights are configured.
+ */
+export const DEFAULT_KPI_CATEGORIES: KPICategoryRule[] = [
+  { code: 'DELAYED_DAYS', label: 'Delayed (Days)', field: 'delayedDays', allowance: 0, weight: 2 },
+  {
+    code: 'CLIENT_MODIFICATION',
+    label: 'Client Modification',
+    field: 'clientModifications',
+    allowance: 0,
+    weight: 3,
+  },
+  {
+    code: 'CLIENT_MODIFICATION_EXCEPTIONAL',
+    label: 'Client Modification (Exceptional)',
+    field: 'exceptionalClientModifications',
+    allowance: 0,
+    weight: 0,
+  },
+  {
+    code: 'TECHNICAL_MISTAKE',
+    label: 'Technical Mistake',
+    field: 'technicalMistakes',
+    allowance: 0,
+    weight: 5,
+  },
+  {
+    code: 'GC_MODIFICATION',
+    label: 'G.C Modification (Problems)',
+    field: 'gcModifications',
+    allowance: 0,
+    weight: 3,
+  },
+];
+
+export const DEFAULT_KPI_GRADE_BANDS: KPIGradeBand[] = [
+  { name: 'Excellent', minScore: 90 },
+  { name: 'Very Good', minScore: 80 },
+  { name: 'Good', minScore: 70 },
+  { name: 'Acceptable', minScore: 60 },
+  { name: 'Poor', minScore: 0 },
+];
+
+export const KPI_CONFIGURATION_CATEGORIES: ConfigurationCategory[] = [
+  ConfigurationCategory.KPI_WEIGHT,
+  ConfigurationCategory.KPI_GRADE_BAND,
+];
 
 export interface CreateKPIEntryInput {
   employeeId: string;
@@ -10,6 +149,8 @@ export interface CreateKPIEntryInput {
   delayedDays?: number;
   clientModifications?: number;
   technicalMistakes?: number;
+  exceptionalClientModifications?: number;
+  gcModifications?: number;
   period?: Date;
 }
 
@@ -17,9 +158,22 @@ export interface UpdateKPIEntryInput {
   delayedDays?: number;
   clientModifications?: number;
   technicalMistakes?: number;
+  exceptionalClientModifications?: number;
+  gcModifications?: number;
   period?: Date;
 }
 
+/** Delay found by the detection job for one person on one phase in one period */
+export interface DelayDraftInput {
+  employeeId: string;
+  projectId: string;
+  phaseId: string;
+  period: Date;
+  delayedDays: number;
+}
+
+export type DelayDraftOutcome = 'created' | 'updated' | 'unchanged';
+
 export interface GetEmployeeKPIsFilter {
   projectId?: string;
   phaseId?: string;
@@ -41,6 +195,11 @@ export interface KPISummary {
   totalDelayedDays: number;
   totalClientModifications: number;
   totalTechnicalMistakes: number;
+  totalExceptionalClientModifications: number;
+  totalGcModifications: number;
+  totalDelayedReduction: number;
+  totalReplyReasonReduction: number;
+  gradeBand: string | null;
 }
 
 export interface KPITrend {
@@ -50,10 +209,131 @@ export interface KPITrend {
   delayedDays: number;
   clientModifications: number;
   technicalMistakes: number;
+  exceptionalClientModifications: number;
+  gcModifications: number;
+  delayedReduction: number;
+  replyReasonReduction: number;
+  gradeBand: string | null;
   projectName: string;
   phaseName: string;
 }
 
+export interface KPILeaderboardFilter {
+  startDate: string;
+  endDate: string;
+  /** Defaults to the same length of time just before startDate */
+  previousStartDate?: string;
+  previousEndDate?: string;
+  region?: string;
+  position?: string;
+  phaseType?: string;
+}
+
+export interface KPIFactorChange {
+  code: KPICategoryCode;
+  label: string;
+  /** Average points the factor took off per entry */
+  reduction: number;
+  previousReduction: number | null;
+  /** Points the factor added to (or, if negative, cost) the average score since the previous period */
+  scoreImpact: number | null;
+}
+
+export interface KPILeaderboardRow {
+  rank: number;
+  quartile: number;
+  employeeId: string;
+  employeeName: string;
+  region: string | null;
+  position: string | null;
+  entries: number;
+  averageScore: number;
+  gradeBand: string | null;
+  previousRank: number | null;
+  previousAverageScore: number | null;
+  scoreDelta: number | null;
+  /** Places gained since the previous period */
+  rankChange: number | null;
+  factors: KPIFactorChange[];
+  /** Factor behind most of the score change */
+  mainDriver: KPICategoryCode | null;
+}
+
+export interface KPILeaderboard {
+  period: { startDate: Date; endDate: Date };
+  previousPeriod: { startDate: Date; endDate: Date };
+  region: string | null;
+  position: string | null;
+  phaseType: string | null;
+  quartiles: { lower: number | null; median: number | null; upper: number | null };
+  rows: KPILeaderboardRow[];
+}
+
+interface KPIStanding {
+  employeeId: string;
+  employeeName: string;
+  region: string | null;
+  position: string | null;
+  entries: number;
+  averageScore: number;
+  reductions: Record<KPICategoryCode, number>;
+  rank: number;
+}
+
+const COUNT_FIELDS: Array<keyof KPICounts> = [
+  'delayedDays',
+  'clientModifications',
+  'exceptionalClientModifications',
+  'technicalMistakes',
+  'gcModifications',
+];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/** Linear-interpolated percentile of ascending values */
+const percentile = (sorted: number[], fraction: number): number | null => {
+  if (sorted.length === 0) return null;
+  const index = (sorted.length - 1) * fraction;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return round2(sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower));
+};
+
+const leaderKey = (phaseId: string, employeeId: string): string => `${phaseId}:${employeeId}`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Working days a phase ran late within the month of a period, counted as
+ * the variance counts them: from the working day after the planned end
+ */
+const lateDaysInMonth = (calendar: WorkingCalendar, phase: PhaseVariance, period: Date): number => {
+  if (phase.delayedDays === 0) return 0;
+
+  const firstLate = new Date(calendar.nextWorkingDay(phase.plannedEndDate).getTime() + DAY_MS);
+  const monthStart = new Date(Date.UTC(period.getUTCFullYear(), period.getUTCMonth(), 1));
+  const monthEnd = new Date(Date.UTC(period.getUTCFullYear(), period.getUTCMonth() + 1, 0));
+  return calendar.workingDaysBetween(
+    firstLate > monthStart ? firstLate : monthStart,
+    phase.forecastEndDate < monthEnd ? phase.forecastEndDate : monthEnd
+  );
+};
+
+const mergeFactors = (
+  categories: KPICategoryRule[],
+  factors: KPIFactorSettings[] | undefined
+): KPICategoryRule[] =>
+  categories.map(category => {
+    const factor = factors?.find(entry => entry.code === category.code);
+    if (!factor) return category;
+    return {
+      ...category,
+      weight: factor.weight ?? category.weight,
+      allowance: factor.allowance ?? category.allowance,
+      cap: factor.cap !== undefined ? factor.cap : category.cap,
+    };
+  });
+
 class KPIService {
   private prisma: PrismaClient;
 
@@ -62,17 +342,325 @@ class KPIService {
   }
 
   /**
-   * Calculate KPI score based on delays, modifications, and mistakes
-   * Formula: 100 - (delayedDays * 2) - (clientModifications * 3) - (technicalMistakes * 5)
+   * Load the scoring rules: KPI_WEIGHT configuration items override the
+   * default category weights (matched by code, then by name) and KPI_GRADE_BAND
+   * items replace the default bands when any are configured
+   */
+  async getScoringRules(): Promise<KPIScoringRules> {
+    const items = await this.prisma.configurationItem.findMany({
+      where: { category: { in: KPI_CONFIGURATION_CATEGORIES }, isActive: true },
+      orderBy: { sortOrder: 'asc' },
+    });
+
+    const weights = items.filter(item => item.category === ConfigurationCategory.KPI_WEIGHT);
+    const categories = DEFAULT_KPI_CATEGORIES.map(category => {
+      const item = weights.find(
+        weight =>
+          weight.code === category.code ||
+          weight.name.trim().toLowerCase() === category.label.toLowerCase()
+      );
+      if (!item) return category;
+      return {
+        ...category,
+        weight: item.value !== null ? Number(item.value) : category.weight,
+        allowance: item.allowance ?? category.allowance,
+      };
+    });
+
+    const gradeBands = items
+      .filter(item => item.category === ConfigurationCategory.KPI_GRADE_BAND && item.value !== null)
+      .map(item => ({ name: item.name, minScore: Number(item.value) }))
+      .sort((a, b) => b.minScore - a.minScore);
+
+    return {
+      categories,
+      gradeBands: gradeBands.length > 0 ? gradeBands : DEFAULT_KPI_GRADE_BANDS,
+    };
+  }
+
+  /**
+   * Scoring rules of a rule set for one assignment role: the set's factors and
+   * limits over the baseline, then the role variant's over those
+   */
+  rulesFromRuleSet(
+    ruleSet: Pick<KPIRuleSet, 'factors' | 'roleVariants' | 'gradeBands' | 'floor' | 'ceiling'>,
+    role: AssignmentRole,
+    baseline: KPIScoringRules
+  ): KPIScoringRules {
+    const variant = ((ruleSet.roleVariants || {}) as KPIRoleVariants)[role] || {};
+    const gradeBands = (ruleSet.gradeBands as unknown as KPIGradeBand[] | null) || [];
+
+    return {
+      categories: mergeFactors(
+        mergeFactors(baseline.categories, ruleSet.factors as unknown as KPIFactorSettings[]),
+        variant.factors
+      ),
+      gradeBands:
+        gradeBands.length > 0
+          ? [...gradeBands].sort((a, b) => b.minScore - a.minScore)
+          : baseline.gradeBands,
+      floor: variant.floor ?? Number(ruleSet.floor),
+      ceiling: variant.ceiling ?? Number(ruleSet.ceiling),
+    };
+  }
+
+  async loadScoringContext(): Promise<KPIScoringContext> {
+    const [baseline, ruleSets, leaders] = await Promise.all([
+      this.getScoringRules(),
+      this.prisma.kPIRuleSet.findMany({
+        where: { status: KPIRuleSetStatus.ACTIVE },
+        orderBy: [{ effectiveFrom: 'desc' }, { revision: 'desc' }],
+      }),
+      this.prisma.assignment.findMany({
+        where: { role: AssignmentRole.TEAM_LEADER },
+        select: { phaseId: true, teamMemberId: true },
+      }),
+    ]);
+
+    return {
+      baseline,
+      ruleSets,
+      leaderKeys: new Set(leaders.map(leader => leaderKey(leader.phaseId, leader.teamMemberId))),
+    };
+  }
+
+  /**
+   * Pick the rules an entry is scored by: the newest active rule set in effect
+   * on the entry's period (or creation date), else the configured baseline
    */
-  private calculateScore(
-    delayedDays: number,
-    clientModifications: number,
-    technicalMistakes: number
-  ): number {
-    const penalty = (delayedDays * 2) + (clientModifications * 3) + (technicalMistakes * 5);
-    const score = Math.max(0, 100 - penalty);
-    return Math.round(score * 100) / 100; // Round to 2 decimal places
+  resolveScoring(
+    context: KPIScoringContext,
+    entry: { employeeId: string; phaseId: string; period?: Date | null; createdAt?: Date }
+  ): KPIEntryScoring {
+    const role = context.leaderKeys.has(leaderKey(entry.phaseId, entry.employeeId))
+      ? AssignmentRole.TEAM_LEADER
+      : AssignmentRole.TEAM_MEMBER;
+    const date = entry.period || entry.createdAt || new Date();
+    const ruleSet = context.ruleSets.find(set => set.effectiveFrom <= date);
+
+    return ruleSet
+      ? { rules: this.rulesFromRuleSet(ruleSet, role, context.baseline), ruleSetId: ruleSet.id, role }
+      : { rules: context.baseline, ruleSetId: null, role };
+  }
+
+  /**
+   * Calculate the KPI score: 100 less each category's occurrences above its
+   * allowance times its weight (up to the category cap), kept between the
+   * rules' floor and ceiling, with the matching grade band
+   */
+  calculateScore(
+    counts: Partial<KPICounts>,
+    rules: KPIScoringRules = {
+      categories: DEFAULT_KPI_CATEGORIES,
+      gradeBands: DEFAULT_KPI_GRADE_BANDS,
+    }
+  ): KPIScoreBreakdown {
+    const reductions = this.factorReductions(counts, rules);
+    let delayedReduction = 0;
+    let replyReasonReduction = 0;
+    for (const category of rules.categories) {
+      if (category.field === 'delayedDays') {
+        delayedReduction += reductions[category.code];
+      } else {
+        replyReasonReduction += reductions[category.code];
+      }
+    }
+
+    const floor = rules.floor ?? 0;
+    const ceiling = rules.ceiling ?? 100;
+    const score = round2(
+      Math.min(ceiling, Math.max(floor, 100 - delayedReduction - replyReasonReduction))
+    );
+
+    return {
+      score,
+      delayedReduction: round2(delayedReduction),
+      replyReasonReduction: round2(replyReasonReduction),
+      gradeBand: this.gradeBandFor(score, rules),
+    };
+  }
+
+  /** Points each category takes off the score, after allowances and caps */
+  factorReductions(
+    counts: Partial<KPICounts>,
+    rules: KPIScoringRules
+  ): Record<KPICategoryCode, number> {
+    const reductions = Object.fromEntries(
+      DEFAULT_KPI_CATEGORIES.map(category => [category.code, 0])
+    ) as Record<KPICategoryCode, number>;
+    for (const category of rules.categories) {
+      const raw = Math.max(0, (counts[category.field] || 0) - category.allowance) * category.weight;
+      reductions[category.code] =
+        category.cap !== undefined && category.cap !== null ? Math.min(raw, category.cap) : raw;
+    }
+    return reductions;
+  }
+
+  /** Score an entry's counts under the rules in effect for it */
+  scoreEntry(
+    counts: Partial<KPICounts>,
+    entry: { employeeId: string; phaseId: string; period?: Date | null; createdAt?: Date },
+    context: KPIScoringContext
+  ): KPIScoreBreakdown & { ruleSetId: string | null } {
+    const { rules, ruleSetId } = this.resolveScoring(context, entry);
+    return { ...this.calculateScore(counts, rules), ruleSetId };
+  }
+
+  /** Name of the highest band whose minimum the score reaches */
+  gradeBandFor(score: number, rules: KPIScoringRules): string | null {
+    return rules.gradeBands.find(band => score >= band.minScore)?.name || null;
+  }
+
+  /**
+   * Recompute stored scores with the rules now in effect, e.g. after a weight,
+   * grade band or rule set changes. Returns the number of entries whose score moved.
+   */
+  async recomputeScores(filter?: { phaseIds?: string[] }): Promise<number> {
+    try {
+      const context = await this.loadScoringContext();
+      const entries = await this.prisma.kPIEntry.findMany({
+        where: filter?.phaseIds ? { phaseId: { in: filter.phaseIds } } : {},
+      });
+
+      let updated = 0;
+      for (const entry of entries) {
+        const scored = this.scoreEntry(entry, entry, context);
+        if (
+          Number(entry.score) === scored.score &&
+          Number(entry.delayedReduction) === scored.delayedReduction &&
+          Number(entry.replyReasonReduction) === scored.replyReasonReduction &&
+          entry.gradeBand === scored.gradeBand &&
+          entry.ruleSetId === scored.ruleSetId
+        ) {
+          continue;
+        }
+        await this.prisma.kPIEntry.update({ where: { id: entry.id }, data: scored });
+        updated++;
+      }
+
+      const phaseIds = Array.from(new Set(entries.map(entry => entry.phaseId)));
+      for (const phaseId of phaseIds) {
+        await this.updateTeamLeadersGrade(phaseId);
+      }
+
+      logger.info('KPI scores recomputed', { total: entries.length, updated });
+
+      return updated;
+    } catch (error) {
+      logger.error('Failed to recompute KPI scores', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Team leaders are graded on their team: the average score of every entry
+   * recorded on the phase, stored on the team leaders' own entries
+   */
+  async updateTeamLeadersGrade(phaseId: string): Promise<void> {
+    const [entries, leaders] = await Promise.all([
+      this.prisma.kPIEntry.findMany({
+        where: { phaseId, status: KPIEntryStatus.CONFIRMED },
+        select: { score: true },
+      }),
+      this.prisma.assignment.findMany({
+        where: { phaseId, role: AssignmentRole.TEAM_LEADER },
+        select: { teamMemberId: true },
+      }),
+    ]);
+    if (leaders.length === 0) return;
+
+    const scored = entries.filter(entry => entry.score !== null);
+    const teamLeadersGrade =
+      scored.length > 0
+        ? round2(scored.reduce((sum, entry) => sum + Number(entry.score), 0) / scored.length)
+        : null;
+
+    await this.prisma.kPIEntry.updateMany({
+      where: { phaseId, employeeId: { in: leaders.map(leader => leader.teamMemberId) } },
+      data: { teamLeadersGrade },
+    });
+  }
+
+  /**
+   * Delayed days come from the schedule variance against the latest
+   * baseline. A phase running late is its team leaders' delay: each leader's
+   * first entry for a month takes the phase's late working days in that month
+   * (an entry without a period takes them all) and the phase's other entries
+   * none, so summaries count the delay once. Members' own delays are raised by
+   * delay detection. Returns the number of entries that changed.
+   */
+  async syncDelayedDays(projectId: string): Promise<number> {
+    try {
+      const variance = await scheduleBaselineService.getVariance(projectId);
+      if (!variance.baseline) return 0;
+
+      const phases = new Map(variance.phases.map(phase => [phase.phaseId, phase]));
+      const [context, entries, calendar] = await Promise.all([
+        this.loadScoringContext(),
+        // Detected entries hold the person's own delay for their period, drafts or not
+        this.prisma.kPIEntry.findMany({
+          where: { projectId, status: KPIEntryStatus.CONFIRMED, detected: false },
+          orderBy: { createdAt: 'asc' },
+        }),
+        workingCalendarService.getProjectCalendar(projectId),
+      ]);
+
+      // A leader's month is counted once, on their earliest entry for it
+      const counted = new Set<string>();
+      const stale: Array<{ entry: (typeof entries)[number]; delayedDays: number }> = [];
+      for (const entry of entries) {
+        const phase = phases.get(entry.phaseId);
+        if (!phase) continue;
+
+        const key = `${leaderKey(entry.phaseId, entry.employeeId)}:${entry.period?.toISOString()}`;
+        const counts =
+          context.leaderKeys.has(leaderKey(entry.phaseId, entry.employeeId)) && !counted.has(key);
+        counted.add(key);
+
+        let delayedDays = 0;
+        if (counts) {
+          delayedDays = entry.period
+            ? lateDaysInMonth(calendar, phase, entry.period)
+            : phase.delayedDays;
+        }
+        if (entry.delayedDays !== delayedDays) {
+          stale.push({ entry, delayedDays });
+        }
+      }
+      if (stale.length === 0) return 0;
+
+      for (const { entry, delayedDays } of stale) {
+        const scored = this.scoreEntry({ ...entry, delayedDays }, entry, context);
+        await this.prisma.kPIEntry.update({
+          where: { id: entry.id },
+          data: { delayedDays, ...scored },
+        });
+      }
+
+      const phaseIds = Array.from(new Set(stale.map(({ entry }) => entry.phaseId)));
+      for (const phaseId of phaseIds) {
+        await this.updateTeamLeadersGrade(phaseId);
+      }
+
+      logger.info('KPI delayed days synced from schedule variance', {
+        projectId,
+        baselineId: variance.baseline.id,
+        updated: stale.length,
+      });
+
+      return stale.length;
+    } catch (error) {
+      logger.error('Failed to sync KPI delayed days', { error, projectId });
+      throw error;
+    }
+  }
+
+  private assertNonNegative(input: Partial<KPICounts>): void {
+    for (const field of COUNT_FIELDS) {
+      if (input[field] !== undefined && input[field] < 0) {
+        throw new Error(`${field} cannot be negative`);
+      }
+    }
   }
 
   /**
@@ -111,33 +699,29 @@ class KPIService {
         throw new Error('Phase not found');
       }
 
-      // Validate non-negative values
-      if (input.delayedDays !== undefined && input.delayedDays < 0) {
-        throw new Error('delayedDays cannot be negative');
-      }
-      if (input.clientModifications !== undefined && input.clientModifications < 0) {
-        throw new Error('clientModifications cannot be negative');
-      }
-      if (input.technicalMistakes !== undefined && input.technicalMistakes < 0) {
-        throw new Error('technicalMistakes cannot be negative');
-      }
+      this.assertNonNegative(input);
 
-      // Calculate score
-      const delayedDays = input.delayedDays || 0;
-      const clientModifications = input.clientModifications || 0;
-      const technicalMistakes = input.technicalMistakes || 0;
-      const score = this.calculateScore(delayedDays, clientModifications, technicalMistakes);
+      // Without a figure, the phase's delay is taken from the schedule baseline
+      const delayedDays =
+        input.delayedDays ??
+        (await scheduleBaselineService.getVariance(input.projectId)).phases.find(
+          variance => variance.phaseId === input.phaseId
+        )?.delayedDays;
+
+      const counts = Object.fromEntries(
+        COUNT_FIELDS.map(field => [field, input[field] || 0])
+      ) as KPICounts;
+      counts.delayedDays = delayedDays || 0;
+      const scored = this.scoreEntry(counts, input, await this.loadScoringContext());
 
       const kpiEntry = await this.prisma.kPIEntry.create({
         data: {
           employeeId: input.employeeId,
           projectId: input.projectId,
           phaseId: input.phaseId,
-          delayedDays,
-          clientModifications,
-          technicalMistakes,
+          ...counts,
+          ...scored,
           period: input.period || null,
-          score,
         },
         include: {
           employee: true,
@@ -147,13 +731,15 @@ class KPIService {
       });
 
       await AuditLogService.logCreate(
-        'KPIEntry',
+        'KPI_ENTRY',
         kpiEntry.id,
         currentUserId,
         currentUserRole,
         kpiEntry
       );
 
+      await this.updateTeamLeadersGrade(kpiEntry.phaseId);
+
       logger.info('KPI entry created successfully', {
         kpiEntryId: kpiEntry.id,
         employeeId: input.employeeId,
@@ -167,6 +753,165 @@ class KPIService {
     }
   }
 
+  /**
+   * Record a detected delay as a draft entry for the period. A draft only
+   * grows while the delay lasts; entries a manager already confirmed for the
+   * period are left alone.
+   */
+  async saveDelayDraft(input: DelayDraftInput): Promise<DelayDraftOutcome> {
+    try {
+      const existing = await this.prisma.kPIEntry.findMany({
+        where: { employeeId: input.employeeId, phaseId: input.phaseId, period: input.period },
+      });
+
+      if (existing.some(entry => entry.status === KPIEntryStatus.CONFIRMED)) {
+        return 'unchanged';
+      }
+
+      const draft = existing.find(entry => entry.status === KPIEntryStatus.DRAFT);
+      if (draft && draft.delayedDays >= input.delayedDays) {
+        return 'unchanged';
+      }
+
+      const context = await this.loadScoringContext();
+      if (draft) {
+        const scored = this.scoreEntry(
+          { ...draft, delayedDays: input.delayedDays },
+          draft,
+          context
+        );
+        // A manager may have confirmed the draft since it was read; it is theirs then
+        const { count } = await this.prisma.kPIEntry.updateMany({
+          where: { id: draft.id, status: KPIEntryStatus.DRAFT, delayedDays: draft.delayedDays },
+          data: { delayedDays: input.delayedDays, ...scored },
+        });
+        return count ? 'updated' : 'unchanged';
+      }
+
+      const counts = Object.fromEntries(COUNT_FIELDS.map(field => [field, 0])) as KPICounts;
+      counts.delayedDays = input.delayedDays;
+      await this.prisma.kPIEntry.create({
+        data: {
+          employeeId: input.employeeId,
+          projectId: input.projectId,
+          phaseId: input.phaseId,
+          period: input.period,
+          status: KPIEntryStatus.DRAFT,
+          detected: true,
+          ...counts,
+          ...this.scoreEntry(counts, input, context),
+        },
+      });
+      return 'created';
+    } catch (error) {
+      logger.error('Failed to save delay draft', { error, input });
+      throw error;
+    }
+  }
+
+  /**
+   * Draft entries waiting for a manager's review, oldest period first
+   */
+  async getDraftKPIs(filter?: { projectId?: string; phaseId?: string }) {
+    try {
+      return await this.prisma.kPIEntry.findMany({
+        where: {
+          status: KPIEntryStatus.DRAFT,
+          projectId: filter?.projectId,
+          phaseId: filter?.phaseId,
+        },
+        include: {
+          employee: { select: { id: true, name: true } },
+          project: { select: { id: true, name: true } },
+          phase: { select: { id: true, name: true } },
+        },
+        orderBy: [{ period: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      logger.error('Failed to get draft KPI entries', { error, filter });
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm a draft entry, with any counts the manager corrected, so that it
+   * counts towards scores, summaries and the leaderboard
+   */
+  async confirmKPIEntry(
+    id: string,
+    input: UpdateKPIEntryInput,
+    currentUserId: string,
+    currentUserRole: UserRole
+  ) {
+    try {
+      const existing = await this.prisma.kPIEntry.findUnique({
+        where: { id },
+      });
+
+      if (!existing) {
+        throw new Error('KPI entry not found');
+      }
+
+      if (existing.status !== KPIEntryStatus.DRAFT) {
+        throw new Error('KPI entry is already confirmed');
+      }
+
+      this.assertNonNegative(input);
+
+      const counts = Object.fromEntries(
+        COUNT_FIELDS.map(field => [field, input[field] ?? existing[field]])
+      ) as KPICounts;
+      const scored = this.scoreEntry(
+        counts,
+        { ...existing, period: input.period ?? existing.period },
+        await this.loadScoringContext()
+      );
+
+      // Only the draft as read is confirmed, not one confirmed or grown since
+      const { count } = await this.prisma.kPIEntry.updateMany({
+        where: { id, status: KPIEntryStatus.DRAFT, delayedDays: existing.delayedDays },
+        data: {
+          ...input,
+          ...scored,
+          status: KPIEntryStatus.CONFIRMED,
+          confirmedBy: currentUserId,
+          confirmedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new Error('Version conflict');
+      }
+
+      const kpiEntry = await this.prisma.kPIEntry.findUniqueOrThrow({
+        where: { id },
+        include: {
+          employee: true,
+          project: true,
+          phase: true,
+        },
+      });
+
+      await AuditLogService.logUpdate(
+        'KPI_ENTRY',
+        id,
+        currentUserId,
+        currentUserRole,
+        existing,
+        kpiEntry
+      );
+
+      await this.updateTeamLeadersGrade(kpiEntry.phaseId);
+
+      logger.info('KPI entry confirmed', { kpiEntryId: id });
+
+      return kpiEntry;
+    } catch (error) {
+      logger.error('Failed to confirm KPI entry', { error, id, input });
+      throw error;
+    }
+  }
+
   /**
    * Get all KPI entries for an employee
    */
@@ -175,7 +920,7 @@ class KPIService {
     filter?: GetEmployeeKPIsFilter
   ) {
     try {
-      const whereClause: any = { employeeId };
+      const whereClause: Prisma.KPIEntryWhereInput = { employeeId };
 
       if (filter?.projectId) {
         whereClause.projectId = filter.projectId;
@@ -186,13 +931,10 @@ class KPIService {
       }
 
       if (filter?.startDate || filter?.endDate) {
-        whereClause.period = {};
-        if (filter.startDate) {
-          whereClause.period.gte = new Date(filter.startDate);
-        }
-        if (filter.endDate) {
-          whereClause.period.lte = new Date(filter.endDate);
-        }
+        whereClause.period = {
+          gte: filter.startDate ? new Date(filter.startDate) : undefined,
+          lte: filter.endDate ? new Date(filter.endDate) : undefined,
+        };
       }
 
       const kpiEntries = await this.prisma.kPIEntry.findMany({
@@ -230,28 +972,22 @@ class KPIService {
         throw new Error('KPI entry not found');
       }
 
-      // Validate non-negative values
-      if (input.delayedDays !== undefined && input.delayedDays < 0) {
-        throw new Error('delayedDays cannot be negative');
-      }
-      if (input.clientModifications !== undefined && input.clientModifications < 0) {
-        throw new Error('clientModifications cannot be negative');
-      }
-      if (input.technicalMistakes !== undefined && input.technicalMistakes < 0) {
-        throw new Error('technicalMistakes cannot be negative');
-      }
+      this.assertNonNegative(input);
 
-      // Calculate new score
-      const delayedDays = input.delayedDays ?? existing.delayedDays;
-      const clientModifications = input.clientModifications ?? existing.clientModifications;
-      const technicalMistakes = input.technicalMistakes ?? existing.technicalMistakes;
-      const score = this.calculateScore(delayedDays, clientModifications, technicalMistakes);
+      const counts = Object.fromEntries(
+        COUNT_FIELDS.map(field => [field, input[field] ?? existing[field]])
+      ) as KPICounts;
+      const scored = this.scoreEntry(
+        counts,
+        { ...existing, period: input.period ?? existing.period },
+        await this.loadScoringContext()
+      );
 
       const kpiEntry = await this.prisma.kPIEntry.update({
         where: { id },
         data: {
           ...input,
-          score,
+          ...scored,
         },
         include: {
           employee: true,
@@ -261,7 +997,7 @@ class KPIService {
       });
 
       await AuditLogService.logUpdate(
-        'KPIEntry',
+        'KPI_ENTRY',
         id,
         currentUserId,
         currentUserRole,
@@ -269,6 +1005,8 @@ class KPIService {
         kpiEntry
       );
 
+      await this.updateTeamLeadersGrade(kpiEntry.phaseId);
+
       logger.info('KPI entry updated successfully', { kpiEntryId: id });
 
       return kpiEntry;
@@ -300,13 +1038,15 @@ class KPIService {
       });
 
       await AuditLogService.logDelete(
-        'KPIEntry',
+        'KPI_ENTRY',
         id,
         currentUserId,
         currentUserRole,
         kpiEntry
       );
 
+      await this.updateTeamLeadersGrade(kpiEntry.phaseId);
+
       logger.info('KPI entry deleted successfully', { kpiEntryId: id });
     } catch (error) {
       logger.error('Failed to delete KPI entry', { error, id });
@@ -322,16 +1062,13 @@ class KPIService {
     filter?: { startDate?: string; endDate?: string }
   ): Promise<KPISummary> {
     try {
-      const whereClause: any = { employeeId };
+      const whereClause: Prisma.KPIEntryWhereInput = { employeeId, status: KPIEntryStatus.CONFIRMED };
 
       if (filter?.startDate || filter?.endDate) {
-        whereClause.period = {};
-        if (filter.startDate) {
-          whereClause.period.gte = new Date(filter.startDate);
-        }
-        if (filter.endDate) {
-          whereClause.period.lte = new Date(filter.endDate);
-        }
+        whereClause.period = {
+          gte: filter.startDate ? new Date(filter.startDate) : undefined,
+          lte: filter.endDate ? new Date(filter.endDate) : undefined,
+        };
       }
 
       const kpiEntries = await this.prisma.kPIEntry.findMany({
@@ -359,6 +1096,9 @@ class KPIService {
         0
       );
 
+      const sum = (field: keyof KPICounts | 'delayedReduction' | 'replyReasonReduction') =>
+        round2(kpiEntries.reduce((total, kpi) => total + Number(kpi[field]), 0));
+
       const scoresWithValues = kpiEntries.filter((kpi) => kpi.score !== null);
       const averageScore =
         scoresWithValues.length > 0
@@ -366,15 +1106,23 @@ class KPIService {
           scoresWithValues.length
           : null;
 
+      const roundedAverage = averageScore ? Math.round(averageScore * 100) / 100 : null;
+      const rules = await this.getScoringRules();
+
       return {
         employeeId,
         employeeName: employee?.name,
         employee,
         totalKPIs,
-        averageScore: averageScore ? Math.round(averageScore * 100) / 100 : null,
+        averageScore: roundedAverage,
         totalDelayedDays,
         totalClientModifications,
         totalTechnicalMistakes,
+        totalExceptionalClientModifications: sum('exceptionalClientModifications'),
+        totalGcModifications: sum('gcModifications'),
+        totalDelayedReduction: sum('delayedReduction'),
+        totalReplyReasonReduction: sum('replyReasonReduction'),
+        gradeBand: roundedAverage !== null ? this.gradeBandFor(roundedAverage, rules) : null,
       };
     } catch (error) {
       logger.error('Failed to get KPI summary', { error, employeeId, filter });
@@ -390,16 +1138,13 @@ class KPIService {
     filter?: { startDate?: string; endDate?: string }
   ): Promise<KPITrend[]> {
     try {
-      const whereClause: any = { employeeId };
+      const whereClause: Prisma.KPIEntryWhereInput = { employeeId, status: KPIEntryStatus.CONFIRMED };
 
       if (filter?.startDate || filter?.endDate) {
-        whereClause.period = {};
-        if (filter.startDate) {
-          whereClause.period.gte = new Date(filter.startDate);
-        }
-        if (filter.endDate) {
-          whereClause.period.lte = new Date(filter.endDate);
-        }
+        whereClause.period = {
+          gte: filter.startDate ? new Date(filter.startDate) : undefined,
+          lte: filter.endDate ? new Date(filter.endDate) : undefined,
+        };
       }
 
       const kpiEntries = await this.prisma.kPIEntry.findMany({
@@ -426,6 +1171,11 @@ class KPIService {
         delayedDays: kpi.delayedDays,
         clientModifications: kpi.clientModifications,
         technicalMistakes: kpi.technicalMistakes,
+        exceptionalClientModifications: kpi.exceptionalClientModifications,
+        gcModifications: kpi.gcModifications,
+        delayedReduction: Number(kpi.delayedReduction),
+        replyReasonReduction: Number(kpi.replyReasonReduction),
+        gradeBand: kpi.gradeBand,
         projectName: kpi.project.name,
         phaseName: String(kpi.phase.name),
       }));
@@ -434,6 +1184,177 @@ class KPIService {
       throw error;
     }
   }
+
+  /**
+   * Rank employees by average score over a period, with quartiles and the
+   * change from the previous period broken down by factor. Entries without a
+   * period are dated by when they were recorded.
+   */
+  async getLeaderboard(filter: KPILeaderboardFilter): Promise<KPILeaderboard> {
+    try {
+      for (const field of ['startDate', 'endDate', 'previousStartDate', 'previousEndDate'] as const) {
+        if (filter[field] && isNaN(new Date(filter[field]).getTime())) {
+          throw new Error(`Invalid ${field} format`);
+        }
+      }
+      if (filter.phaseType) {
+        const definitions = await this.prisma.phaseDefinition.findMany({ select: { key: true } });
+        const keys = definitions.map(definition => definition.key);
+        if (!keys.includes(filter.phaseType)) {
+          throw new Error(`phaseType must be one of ${keys.join(', ')}`);
+        }
+      }
+
+      const startDate = new Date(filter.startDate);
+      const endDate = new Date(filter.endDate);
+      if (startDate > endDate) {
+        throw new Error('startDate must be before endDate');
+      }
+
+      const previousEndDate = filter.previousEndDate
+        ? new Date(filter.previousEndDate)
+        : new Date(startDate.getTime() - 1);
+      const previousStartDate = filter.previousStartDate
+        ? new Date(filter.previousStartDate)
+        : new Date(previousEndDate.getTime() - (endDate.getTime() - startDate.getTime()));
+
+      const context = await this.loadScoringContext();
+      const [current, previous] = await Promise.all([
+        this.getStandings(startDate, endDate, filter, context),
+        this.getStandings(previousStartDate, previousEndDate, filter, context),
+      ]);
+      const previousByEmployee = new Map(previous.map(standing => [standing.employeeId, standing]));
+
+      const rows = current.map(standing => {
+        const before = previousByEmployee.get(standing.employeeId);
+        const factors = context.baseline.categories.map(category => {
+          const reduction = round2(standing.reductions[category.code]);
+          const previousReduction = before ? round2(before.reductions[category.code]) : null;
+          return {
+            code: category.code,
+            label: category.label,
+            reduction,
+            previousReduction,
+            scoreImpact: before ? round2(previousReduction - reduction) : null,
+          };
+        });
+        const driver = factors
+          .filter(factor => factor.scoreImpact)
+          .sort((a, b) => Math.abs(b.scoreImpact) - Math.abs(a.scoreImpact))[0];
+
+        return {
+          rank: standing.rank,
+          quartile: Math.min(4, Math.floor(((standing.rank - 1) / current.length) * 4) + 1),
+          employeeId: standing.employeeId,
+          employeeName: standing.employeeName,
+          region: standing.region,
+          position: standing.position,
+          entries: standing.entries,
+          averageScore: standing.averageScore,
+          gradeBand: this.gradeBandFor(standing.averageScore, context.baseline),
+          previousRank: before ? before.rank : null,
+          previousAverageScore: before ? before.averageScore : null,
+          scoreDelta: before ? round2(standing.averageScore - before.averageScore) : null,
+          rankChange: before ? before.rank - standing.rank : null,
+          factors,
+          mainDriver: driver ? driver.code : null,
+        };
+      });
+
+      const scores = current.map(standing => standing.averageScore).sort((a, b) => a - b);
+
+      return {
+        period: { startDate, endDate },
+        previousPeriod: { startDate: previousStartDate, endDate: previousEndDate },
+        region: filter.region || null,
+        position: filter.position || null,
+        phaseType: filter.phaseType || null,
+        quartiles: {
+          lower: percentile(scores, 0.25),
+          median: percentile(scores, 0.5),
+          upper: percentile(scores, 0.75),
+        },
+        rows,
+      };
+    } catch (error) {
+      logger.error('Failed to get KPI leaderboard', { error, filter });
+      throw error;
+    }
+  }
+
+  /**
+   * Average score and factor reductions per employee for one period, ranked
+   * best first; tied scores share a rank
+   */
+  private async getStandings(
+    startDate: Date,
+    endDate: Date,
+    filter: KPILeaderboardFilter,
+    context: KPIScoringContext
+  ): Promise<KPIStanding[]> {
+    const where: Prisma.KPIEntryWhereInput = {
+      score: { not: null },
+      status: KPIEntryStatus.CONFIRMED,
+      OR: [
+        { period: { gte: startDate, lte: endDate } },
+        { period: null, createdAt: { gte: startDate, lte: endDate } },
+      ],
+      employee: { region: filter.region, position: filter.position },
+    };
+    if (filter.phaseType) {
+      where.phase = { name: filter.phaseType };
+    }
+
+    const kpiEntries = await this.prisma.kPIEntry.findMany({
+      where,
+      include: {
+        employee: { select: { id: true, name: true, region: true, position: true } },
+      },
+    });
+
+    const byEmployee = new Map<string, typeof kpiEntries>();
+    for (const kpi of kpiEntries) {
+      byEmployee.set(kpi.employeeId, [...(byEmployee.get(kpi.employeeId) || []), kpi]);
+    }
+
+    const standings = Array.from(byEmployee.values()).map(entries => {
+      const reductions = Object.fromEntries(
+        DEFAULT_KPI_CATEGORIES.map(category => [category.code, 0])
+      ) as Record<KPICategoryCode, number>;
+      for (const kpi of entries) {
+        const { rules } = this.resolveScoring(context, kpi);
+        const entryReductions = this.factorReductions(kpi, rules);
+        for (const code of Object.keys(reductions) as KPICategoryCode[]) {
+          reductions[code] += entryReductions[code] / entries.length;
+        }
+      }
+
+      const { employee } = entries[0];
+      return {
+        employeeId: employee.id,
+        employeeName: employee.name,
+        region: employee.region,
+        position: employee.position,
+        entries: entries.length,
+        averageScore: round2(
+          entries.reduce((sum, kpi) => sum + Number(kpi.score), 0) / entries.length
+        ),
+        reductions,
+        rank: 0,
+      };
+    });
+
+    standings.sort(
+      (a, b) => b.averageScore - a.averageScore || a.employeeName.localeCompare(b.employeeName)
+    );
+    standings.forEach((standing, index) => {
+      const previous = standings[index - 1];
+      standing.rank =
+        previous && previous.averageScore === standing.averageScore ? previous.rank : index + 1;
+    });
+
+    return standings;
+  }
 }
 
 export const kpiService = new KPIService();
@@ -0,0 +1,349 @@
+import {
+  Leave,
+  LeaveStatus,
+  LeaveType,
+  Prisma,
+  PrismaClient,
+  TaskStatus,
+  UserRole,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import AuditLogService from './auditLogService';
+import { prisma } from './prismaClient';
+import taskDependencyService from './taskDependencyService';
+import workingCalendarService from './workingCalendarService';
+
+export interface LeaveInput {
+  /** Whose leave it is; the person recording it when not given */
+  userId?: string;
+  type: LeaveType;
+  startDate: Date;
+  /** Last day away; a single day when not given */
+  endDate?: Date;
+  reason?: string;
+}
+
+export interface LeaveFilter {
+  userId?: string;
+  status?: LeaveStatus;
+  /** Only leave touching this range */
+  from?: Date;
+  to?: Date;
+}
+
+export interface LeaveApproval {
+  leave: Leave;
+  /** The person's tasks moved to work around the leave */
+  tasks: Array<{ id: string; code: string; startDate: Date; endDate: Date }>;
+}
+
+// Leave still holding the person's days
+const OPEN_STATUSES: LeaveStatus[] = [LeaveStatus.PENDING, LeaveStatus.APPROVED];
+
+const sameDay = (a: Date, b: Date): boolean => a.getTime() === b.getTime();
+
+/**
+ * Leave and absence of team members. Anyone records their own leave and
+ * managers record anyone's; it counts once a manager approves it, when the
+ * person's running and upcoming tasks are paused or extended around it.
+ */
+class LeaveService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  async list(filter: LeaveFilter = {}): Promise<Leave[]> {
+    try {
+      return await this.prisma.leave.findMany({
+        where: {
+          userId: filter.userId,
+          status: filter.status,
+          startDate: filter.to ? { lte: filter.to } : undefined,
+          endDate: filter.from ? { gte: filter.from } : undefined,
+        },
+        include: { user: { select: { id: true, name: true, position: true, region: true } } },
+        orderBy: [{ startDate: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      logger.error('Failed to list leave', { error, filter });
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<Leave> {
+    const leave = await this.prisma.leave.findUnique({ where: { id } });
+
+    if (!leave) {
+      throw new Error('Leave not found');
+    }
+
+    return leave;
+  }
+
+  /**
+   * Record leave waiting for a manager's approval. Team members and team
+   * leaders can only record their own.
+   */
+  async create(input: LeaveInput, userId: string, role: UserRole): Promise<Leave> {
+    try {
+      const leaveUserId = input.userId || userId;
+      if (leaveUserId !== userId && role !== UserRole.MANAGER) {
+        throw new Error('You can only record your own leave');
+      }
+
+      if (!Object.values(LeaveType).includes(input.type)) {
+        throw new Error(`Leave type must be one of ${Object.values(LeaveType).join(', ')}`);
+      }
+
+      const startDate = new Date(input.startDate);
+      const endDate = new Date(input.endDate ?? input.startDate);
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+        throw new Error('Leave dates must be valid dates');
+      }
+      if (endDate < startDate) {
+        throw new Error('Leave end date must be on or after its start date');
+      }
+
+      const user = await this.prisma.user.findUnique({ where: { id: leaveUserId } });
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      const overlapping = await this.prisma.leave.count({
+        where: {
+          userId: leaveUserId,
+          status: { in: OPEN_STATUSES },
+          startDate: { lte: endDate },
+          endDate: { gte: startDate },
+        },
+      });
+      if (overlapping) {
+        throw new Error(
+          'Leave must be on days not already taken by other pending or approved leave'
+        );
+      }
+
+      const leave = await this.prisma.leave.create({
+        data: {
+          userId: leaveUserId,
+          type: input.type,
+          startDate,
+          endDate,
+          reason: input.reason,
+          requestedBy: userId,
+        },
+      });
+
+      await AuditLogService.logCreate('LEAVE', leave.id, userId, role, leave);
+
+      logger.info('Leave recorded', { leaveId: leave.id, userId: leaveUserId, type: leave.type });
+
+      return leave;
+    } catch (error) {
+      logger.error('Failed to record leave', { error, input });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve pending leave. The person's open tasks running into it start
+   * after it or run longer by the working days it takes, and the project is
+   * rescheduled so their successors follow.
+   */
+  async approve(
+    id: string,
+    version: number,
+    note: string | undefined,
+    userId: string,
+    role: UserRole
+  ): Promise<LeaveApproval> {
+    try {
+      const existing = await this.get(id);
+
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      this.assertStatus(existing, LeaveStatus.PENDING);
+
+      const leave = await this.decide(id, version, {
+        status: LeaveStatus.APPROVED,
+        decidedBy: userId,
+        decidedAt: new Date(),
+        decisionNote: note,
+      });
+
+      await AuditLogService.logUpdate('LEAVE', id, userId, role, existing, leave);
+
+      const tasks = await this.moveTasksAround(leave, userId, role);
+
+      logger.info('Leave approved', { leaveId: id, movedTasks: tasks.length });
+
+      return { leave, tasks };
+    } catch (error) {
+      logger.error('Failed to approve leave', { error, id });
+      throw error;
+    }
+  }
+
+  async reject(
+    id: string,
+    version: number,
+    note: string | undefined,
+    userId: string,
+    role: UserRole
+  ): Promise<Leave> {
+    try {
+      const existing = await this.get(id);
+
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      this.assertStatus(existing, LeaveStatus.PENDING);
+
+      const leave = await this.decide(id, version, {
+        status: LeaveStatus.REJECTED,
+        decidedBy: userId,
+        decidedAt: new Date(),
+        decisionNote: note,
+      });
+
+      await AuditLogService.logUpdate('LEAVE', id, userId, role, existing, leave);
+
+      logger.info('Leave rejected', { leaveId: id });
+
+      return leave;
+    } catch (error) {
+      logger.error('Failed to reject leave', { error, id });
+      throw error;
+    }
+  }
+
+  /** Withdraw leave before it is decided, by the person, whoever recorded it or a manager */
+  async cancel(id: string, version: number, userId: string, role: UserRole): Promise<Leave> {
+    try {
+      const existing = await this.get(id);
+
+      if (
+        role !== UserRole.MANAGER &&
+        existing.userId !== userId &&
+        existing.requestedBy !== userId
+      ) {
+        throw new Error('You can only cancel your own leave');
+      }
+
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      this.assertStatus(existing, LeaveStatus.PENDING);
+
+      const leave = await this.decide(id, version, { status: LeaveStatus.CANCELLED });
+
+      await AuditLogService.logUpdate('LEAVE', id, userId, role, existing, leave);
+
+      logger.info('Leave cancelled', { leaveId: id });
+
+      return leave;
+    } catch (error) {
+      logger.error('Failed to cancel leave', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Move the person's open tasks that overlap approved leave: each keeps its
+   * working days but counts them around all of the person's approved leave,
+   * in its project's calendar.
+   */
+  private async moveTasksAround(
+    leave: Leave,
+    userId: string,
+    role: UserRole
+  ): Promise<LeaveApproval['tasks']> {
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        assignedTeamMemberId: leave.userId,
+        status: { notIn: [TaskStatus.COMPLETED, TaskStatus.CANCELLED] },
+        startDate: { lte: leave.endDate },
+        endDate: { gte: leave.startDate },
+      },
+      include: { phase: { select: { projectId: true, project: { select: { region: true } } } } },
+    });
+    if (!tasks.length) return [];
+
+    const [calendars, approved] = await Promise.all([
+      workingCalendarService.getCalendars(tasks.map(task => task.phase.project.region)),
+      workingCalendarService.getApprovedLeave([leave.userId]),
+    ]);
+    const allLeave = approved.get(leave.userId);
+    const otherLeave = allLeave.filter(period => period.id !== leave.id);
+
+    const moved: LeaveApproval['tasks'] = [];
+    const projectIds = new Set<string>();
+    for (const task of tasks) {
+      const calendar = calendars.get(task.phase.project.region || null);
+      const workingDays = Math.max(
+        calendar.withDaysOff(otherLeave).workingDaysBetween(task.startDate, task.endDate),
+        1
+      );
+      const personal = calendar.withDaysOff(allLeave);
+      const startDate = personal.nextWorkingDay(task.startDate);
+      const endDate = personal.addWorkingDays(startDate, workingDays - 1);
+      if (sameDay(task.startDate, startDate) && sameDay(task.endDate, endDate)) continue;
+
+      const updated = await this.prisma.task.update({
+        where: { id: task.id },
+        data: { startDate, endDate, version: { increment: 1 } },
+      });
+      await AuditLogService.logUpdate(
+        'TASK',
+        task.id,
+        userId,
+        role,
+        { startDate: task.startDate, endDate: task.endDate },
+        { startDate, endDate, leaveId: leave.id }
+      );
+      moved.push({ id: updated.id, code: updated.code, startDate, endDate });
+      projectIds.add(task.phase.projectId);
+    }
+
+    for (const projectId of projectIds) {
+      await taskDependencyService.reschedule(projectId, userId, role);
+    }
+
+    return moved;
+  }
+
+  /**
+   * Settle pending leave, claiming it at the version the caller saw so an
+   * approval cannot race a rejection or cancellation
+   */
+  private async decide(
+    id: string,
+    version: number,
+    data: Prisma.LeaveUpdateManyMutationInput
+  ): Promise<Leave> {
+    const claimed = await this.prisma.leave.updateMany({
+      where: { id, version, status: LeaveStatus.PENDING },
+      data: { ...data, version: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Version conflict');
+    }
+
+    return this.prisma.leave.findUniqueOrThrow({ where: { id } });
+  }
+
+  private assertStatus(leave: Leave, status: LeaveStatus): void {
+    if (leave.status !== status) {
+      throw new Error(`Only ${status.toLowerCase()} leave can be changed this way`);
+    }
+  }
+}
+
+export default new LeaveService();
@@ -2,6 +2,7 @@ export interface ValidationError {
   field: string;
   message: string;
   row?: number;
+  sheet?: string;
   severity?: 'error' | 'warning';
 }
 
@@ -83,12 +84,51 @@ export class MigrationValidator {
       }
     }
 
+    const phases = Array.isArray(project.phases) ? (project.phases as Array<Record<string, unknown>>) : [];
+    for (const phase of phases) {
+      errors.push(...this.validateProjectPhase(phase, rowNumber));
+    }
+
+    const studies = phases.find(phase => phase.name === 'STUDIES');
+    const design = phases.find(phase => phase.name === 'DESIGN');
+    if (studies && design && this.validateDate(studies.startDate) && this.validateDate(design.startDate)) {
+      if (new Date(design.startDate as string) < new Date(studies.startDate as string)) {
+        errors.push({ field: 'DESIGN.startDate', message: 'Design phase starts before the Studies phase', row: rowNumber, severity: 'warning' });
+      }
+    }
+
     return {
-      isValid: errors.length === 0,
+      isValid: errors.every(error => error.severity === 'warning'),
       errors,
     };
   }
 
+  validateProjectPhase(phase: Record<string, unknown>, rowNumber: number): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const prefix = String(phase.name);
+
+    if (phase.startDate !== undefined || phase.duration) {
+      const result = this.validatePhaseData(phase, rowNumber);
+      errors.push(...result.errors.map(error => ({ ...error, field: `${prefix}.${error.field}` })));
+    }
+
+    const percentage = phase.workingPercentage;
+    if (percentage !== undefined && (typeof percentage !== 'number' || percentage < 0 || percentage > 100)) {
+      errors.push({ field: `${prefix}.workingPercentage`, message: 'Team leader working percentage must be between 0 and 100', row: rowNumber });
+    } else if (phase.teamLeaderName && !percentage) {
+      errors.push({ field: `${prefix}.workingPercentage`, message: 'Team leader has no working percentage', row: rowNumber, severity: 'warning' });
+    }
+
+    for (const field of ['modificationAllowedTimes', 'modificationDaysPerTime']) {
+      const value = phase[field];
+      if (value !== undefined && !(Number.isInteger(value) && (value as number) >= 0)) {
+        errors.push({ field: `${prefix}.${field}`, message: `${field} must be a non-negative whole number`, row: rowNumber });
+      }
+    }
+
+    return errors;
+  }
+
   validateUserData(user: Record<string, unknown>, rowNumber: number): ValidationResult {
     const errors: ValidationError[] = [];
 
@@ -197,6 +237,65 @@ export class MigrationValidator {
       errors,
     };
   }
+
+  validateAllocationData(allocation: Record<string, unknown>, rowNumber: number): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!this.validateEnum(allocation.phase, ['Studies', 'Design', 'Technical'])) {
+      errors.push({ field: 'phase', message: 'Phase must be Studies, Design, or Technical', row: rowNumber });
+    }
+    if (!this.validateStringType(allocation.employeeName as string)) {
+      errors.push({ field: 'employeeName', message: 'Employee name is required and must be a string', row: rowNumber });
+    }
+
+    const months = Array.isArray(allocation.allocations) ? allocation.allocations : [];
+    for (const entry of months as Array<Record<string, unknown>>) {
+      const workingDays = entry.workingDays;
+      if (typeof workingDays !== 'number' || workingDays < 0 || workingDays > 31) {
+        errors.push({ field: 'workingDays', message: `Working days for ${String(entry.month)} must be between 0 and 31`, row: rowNumber });
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  validateProjectCostData(cost: Record<string, unknown>, rowNumber: number): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!this.validateStringType(cost.projectName as string)) {
+      errors.push({ field: 'projectName', message: 'Project name is required and must be a string', row: rowNumber });
+    }
+    if (!this.validatePositiveNumber(cost.contractValue)) {
+      errors.push({ field: 'contractValue', message: 'Contract value must be a positive number', row: rowNumber });
+    }
+    if (typeof cost.totalActualCost !== 'number' || cost.totalActualCost < 0) {
+      errors.push({ field: 'totalActualCost', message: 'Total actual cost must be a non-negative number', row: rowNumber });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  validateConfigurationData(item: Record<string, unknown>, rowNumber: number): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!this.validateEnum(item.category, ['POSITION', 'REGION', 'LICENSE_TYPE', 'PROJECT_TYPE', 'REPLY_REASON', 'ALLOWANCE_TYPE'])) {
+      errors.push({ field: 'category', message: 'Configuration category is not supported', row: rowNumber });
+    }
+    if (!this.validateStringType(item.name as string)) {
+      errors.push({ field: 'name', message: 'Configuration name is required and must be a string', row: rowNumber });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
 }
 
 export default MigrationValidator;
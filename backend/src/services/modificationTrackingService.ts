@@ -1,183 +1,379 @@
-import { PrismaClient, AuditLog, AuditAction, AuditAction as AuditActionType } from '@prisma/client';
+import {
+  ClientModification,
+  ClientModificationStatus,
+  PrismaClient,
+  UserRole,
+} from '@prisma/client';
 import logger from '../utils/logger';
+import AuditLogService from './auditLogService';
 import { prisma } from './prismaClient';
 
-export interface ModificationRecord {
-  id: string;
-  projectId: string;
-  modificationNumber: number;
+export interface CreateClientModificationInput {
+  requestDate: Date;
+  requestedBy: string;
   description: string;
-  createdAt: Date;
-  createdBy: string | null;
+  daysGranted?: number;
+  daysConsumed?: number;
+  status?: ClientModificationStatus;
+  isExceptional?: boolean;
 }
 
-export interface ModificationStats {
-  projectId: string;
+export interface UpdateClientModificationInput extends Partial<CreateClientModificationInput> {
+  version: number;
+}
+
+export interface ModificationRecord extends ClientModification {
+  phaseName: string;
+}
+
+export interface PhaseModificationStats {
+  phaseId: string;
+  phaseName: string;
   totalAllowed: number;
   totalUsed: number;
   remaining: number;
   daysPerTime: number;
+  daysGranted: number;
   daysUsed: number;
+  exceptionalCount: number;
   canModify: boolean;
   modifications: ModificationRecord[];
 }
 
-export interface CreateModificationParams {
+export interface ModificationStats {
   projectId: string;
-  userId: string;
-  modificationNumber: number;
-  description: string;
-  daysUsed?: number;
+  totalAllowed: number;
+  totalUsed: number;
+  remaining: number;
+  daysUsed: number;
+  canModify: boolean;
+  phases: PhaseModificationStats[];
+  modifications: ModificationRecord[];
+}
+
+interface ModificationAllowance {
+  allowedTimes: number;
+  daysPerTime: number;
 }
 
+// Where a modification can go next; done and rejected requests are closed
+const STATUS_TRANSITIONS: Record<ClientModificationStatus, ClientModificationStatus[]> = {
+  REQUESTED: [ClientModificationStatus.APPROVED, ClientModificationStatus.REJECTED],
+  APPROVED: [
+    ClientModificationStatus.IN_PROGRESS,
+    ClientModificationStatus.DONE,
+    ClientModificationStatus.REJECTED,
+  ],
+  IN_PROGRESS: [ClientModificationStatus.DONE],
+  DONE: [],
+  REJECTED: [],
+};
+
+/**
+ * Regular modifications use up the phase allowance; exceptional ones are
+ * tracked (and scored) separately and rejected ones never happened
+ */
+const countsAgainstAllowance = (modification: {
+  isExceptional: boolean;
+  status: ClientModificationStatus;
+}): boolean =>
+  !modification.isExceptional && modification.status !== ClientModificationStatus.REJECTED;
+
 class ModificationTrackingService {
-  async createModification(params: CreateModificationParams): Promise<ModificationRecord> {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  async getPhaseModificationStats(phaseId: string): Promise<PhaseModificationStats> {
     try {
-      const auditLog = await prisma.auditLog.create({
-        data: {
-          entityType: 'Project',
-          entityId: params.projectId,
-          action: 'UPDATE',
-          userId: params.userId,
-          role: 'MANAGER', // Defaulting to manager for system actions
-          details: JSON.stringify({
-            modificationNumber: params.modificationNumber,
-            description: params.description,
-            daysUsed: params.daysUsed,
-          }),
-          timestamp: new Date(),
+      const phase = await this.prisma.phase.findUnique({
+        where: { id: phaseId },
+        include: {
+          clientModifications: { orderBy: { modificationNumber: 'asc' } },
         },
       });
 
-      logger.info(`Created modification record ${auditLog.id} for project ${params.projectId}`);
+      if (!phase) {
+        throw new Error('Phase not found');
+      }
 
-      return {
-        id: auditLog.id,
-        projectId: auditLog.entityId,
-        modificationNumber: params.modificationNumber,
-        description: params.description,
-        createdAt: auditLog.timestamp,
-        createdBy: auditLog.userId,
-      };
+      return this.summarize(phase, this.allowanceFor(phase));
     } catch (error) {
-      logger.error('Failed to create modification record:', error);
-      throw new Error('Failed to create modification record');
+      logger.error('Failed to get phase modification stats', { error, phaseId });
+      throw error;
     }
   }
 
-  async getModifications(projectId: string): Promise<ModificationRecord[]> {
+  /**
+   * Allowance use across the project's phases. Each phase has its own
+   * allowance, so the totals only add the phases up.
+   */
+  async getModificationStats(projectId: string): Promise<ModificationStats> {
     try {
-      const auditLogs = await prisma.auditLog.findMany({
-        where: {
-          entityType: 'Project',
-          entityId: projectId,
-          action: 'UPDATE',
-        },
-        orderBy: {
-          timestamp: 'asc',
+      const project = await this.prisma.project.findUnique({
+        where: { id: projectId },
+        include: {
+          phases: {
+            include: { clientModifications: { orderBy: { modificationNumber: 'asc' } } },
+            orderBy: { startDate: 'asc' },
+          },
         },
       });
 
-      return auditLogs.map((log, index) => {
-        let details: any = {};
-        try {
-          details = JSON.parse(log.details || '{}');
-        } catch (e) {
-          details = {};
+      if (!project) {
+        throw new Error('Project not found');
+      }
+
+      const phases = project.phases.map(phase => this.summarize(phase, this.allowanceFor(phase)));
+
+      return {
+        projectId: project.id,
+        totalAllowed: phases.reduce((sum, phase) => sum + phase.totalAllowed, 0),
+        totalUsed: phases.reduce((sum, phase) => sum + phase.totalUsed, 0),
+        remaining: phases.reduce((sum, phase) => sum + phase.remaining, 0),
+        daysUsed: phases.reduce((sum, phase) => sum + phase.daysUsed, 0),
+        canModify: phases.some(phase => phase.canModify),
+        phases,
+        modifications: phases
+          .flatMap(phase => phase.modifications)
+          .sort((a, b) => a.requestDate.getTime() - b.requestDate.getTime()),
+      };
+    } catch (error) {
+      logger.error('Failed to get modification stats', { error, projectId });
+      throw error;
+    }
+  }
+
+  async createModification(
+    phaseId: string,
+    input: CreateClientModificationInput,
+    userId: string,
+    role: UserRole
+  ): Promise<ClientModification> {
+    try {
+      this.assertDays(input);
+
+      const modification = await this.prisma.$transaction(async tx => {
+        const phase = await tx.phase.findUnique({
+          where: { id: phaseId },
+          include: {
+            clientModifications: true,
+          },
+        });
+
+        if (!phase) {
+          throw new Error('Phase not found');
         }
 
-        return {
-          id: log.id,
-          projectId: log.entityId,
-          modificationNumber: details.modificationNumber || index + 1,
-          description: details.description || 'Modification',
-          createdAt: log.timestamp,
-          createdBy: log.userId,
+        const candidate = {
+          isExceptional: input.isExceptional || false,
+          status: input.status || ClientModificationStatus.REQUESTED,
+          daysGranted: input.daysGranted || 0,
         };
+        this.assertWithinAllowance(candidate, phase.clientModifications, this.allowanceFor(phase));
+
+        const lastNumber = phase.clientModifications.reduce(
+          (max, existing) => Math.max(max, existing.modificationNumber),
+          0
+        );
+
+        return tx.clientModification.create({
+          data: {
+            ...candidate,
+            phaseId,
+            modificationNumber: lastNumber + 1,
+            requestDate: new Date(input.requestDate),
+            requestedBy: input.requestedBy,
+            description: input.description,
+            daysConsumed: input.daysConsumed || 0,
+            createdBy: userId,
+          },
+        });
+      });
+
+      await AuditLogService.logCreate(
+        'CLIENT_MODIFICATION',
+        modification.id,
+        userId,
+        role,
+        modification
+      );
+
+      logger.info('Client modification recorded', {
+        modificationId: modification.id,
+        phaseId,
+        modificationNumber: modification.modificationNumber,
       });
+
+      return modification;
     } catch (error) {
-      logger.error(`Failed to get modifications for project ${projectId}:`, error);
-      throw new Error('Failed to get modifications');
+      logger.error('Failed to record client modification', { error, phaseId, input });
+      throw error;
     }
   }
 
-  async getModificationStats(projectId: string): Promise<ModificationStats> {
+  async updateModification(
+    id: string,
+    input: UpdateClientModificationInput,
+    userId: string,
+    role: UserRole
+  ): Promise<ClientModification> {
     try {
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        select: {
-          id: true,
-          modificationAllowedTimes: true,
-          modificationDaysPerTime: true,
+      const existing = await this.prisma.clientModification.findUnique({
+        where: { id },
+        include: {
+          phase: {
+            include: {
+              clientModifications: true,
+            },
+          },
         },
       });
 
-      if (!project) {
-        throw new Error('Project not found');
+      if (!existing) {
+        throw new Error('Client modification not found');
       }
 
-      const modifications = await this.getModifications(projectId);
+      const { version, ...changes } = input;
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
 
-      const totalAllowed = project.modificationAllowedTimes ?? 3;
-      const totalUsed = modifications.length;
-      const remaining = Math.max(0, totalAllowed - totalUsed);
-      const daysPerTime = project.modificationDaysPerTime ?? 5;
+      this.assertDays(changes);
 
-      const daysUsed = modifications.reduce((sum, mod) => {
-        return sum + ((mod as any).daysUsed ?? 0);
-      }, 0);
+      if (changes.status && changes.status !== existing.status) {
+        if (!STATUS_TRANSITIONS[existing.status].includes(changes.status)) {
+          throw new Error(
+            `Cannot move a client modification from ${existing.status} to ${changes.status}`
+          );
+        }
+      }
 
-      return {
-        projectId: project.id,
-        totalAllowed,
-        totalUsed,
-        remaining,
-        daysPerTime,
-        daysUsed,
-        canModify: remaining > 0,
-        modifications,
-      };
+      const { phase, ...fields } = existing;
+      this.assertWithinAllowance(
+        {
+          isExceptional: changes.isExceptional ?? fields.isExceptional,
+          status: changes.status ?? fields.status,
+          daysGranted: changes.daysGranted ?? fields.daysGranted,
+        },
+        phase.clientModifications.filter(other => other.id !== id),
+        this.allowanceFor(phase)
+      );
+
+      const modification = await this.prisma.clientModification.update({
+        where: { id },
+        data: {
+          ...changes,
+          requestDate: changes.requestDate ? new Date(changes.requestDate) : undefined,
+          version: { increment: 1 },
+        },
+      });
+
+      await AuditLogService.logUpdate(
+        'CLIENT_MODIFICATION',
+        id,
+        userId,
+        role,
+        fields,
+        modification
+      );
+
+      logger.info('Client modification updated', { modificationId: id });
+
+      return modification;
     } catch (error) {
-      logger.error(`Failed to get modification stats for project ${projectId}:`, error);
-      throw new Error('Failed to get modification stats');
+      logger.error('Failed to update client modification', { error, id, input });
+      throw error;
     }
   }
 
-  async checkModificationLimit(projectId: string): Promise<{ canModify: boolean; remaining: number }> {
+  async deleteModification(id: string, userId: string, role: UserRole): Promise<void> {
     try {
-      const stats = await this.getModificationStats(projectId);
+      const modification = await this.prisma.clientModification.findUnique({ where: { id } });
 
-      return {
-        canModify: stats.canModify,
-        remaining: stats.remaining,
-      };
+      if (!modification) {
+        throw new Error('Client modification not found');
+      }
+
+      await this.prisma.clientModification.delete({ where: { id } });
+
+      await AuditLogService.logDelete('CLIENT_MODIFICATION', id, userId, role, modification);
+
+      logger.info('Client modification deleted', { modificationId: id });
     } catch (error) {
-      logger.error(`Failed to check modification limit for project ${projectId}:`, error);
-      throw new Error('Failed to check modification limit');
+      logger.error('Failed to delete client modification', { error, id });
+      throw error;
     }
   }
 
-  async recordModification(
-    projectId: string,
-    userId: string,
-    description: string,
-    daysUsed?: number
-  ): Promise<ModificationRecord> {
-    const stats = await this.getModificationStats(projectId);
+  private allowanceFor(phase: {
+    modificationAllowedTimes: number;
+    modificationDaysPerTime: number;
+  }): ModificationAllowance {
+    return {
+      allowedTimes: phase.modificationAllowedTimes,
+      daysPerTime: phase.modificationDaysPerTime,
+    };
+  }
 
-    if (!stats.canModify) {
+  private summarize(
+    phase: { id: string; name: string; clientModifications: ClientModification[] },
+    allowance: ModificationAllowance
+  ): PhaseModificationStats {
+    const modifications = phase.clientModifications.map(modification => ({
+      ...modification,
+      phaseName: phase.name,
+    }));
+    const active = modifications.filter(
+      modification => modification.status !== ClientModificationStatus.REJECTED
+    );
+    const totalUsed = active.filter(countsAgainstAllowance).length;
+    const remaining = Math.max(0, allowance.allowedTimes - totalUsed);
+
+    return {
+      phaseId: phase.id,
+      phaseName: phase.name,
+      totalAllowed: allowance.allowedTimes,
+      totalUsed,
+      remaining,
+      daysPerTime: allowance.daysPerTime,
+      daysGranted: active.reduce((sum, modification) => sum + modification.daysGranted, 0),
+      daysUsed: active.reduce((sum, modification) => sum + modification.daysConsumed, 0),
+      exceptionalCount: active.filter(modification => modification.isExceptional).length,
+      canModify: remaining > 0,
+      modifications,
+    };
+  }
+
+  private assertDays(input: { daysGranted?: number; daysConsumed?: number }): void {
+    if ((input.daysGranted ?? 0) < 0 || (input.daysConsumed ?? 0) < 0) {
+      throw new Error('Days granted and consumed must be zero or more');
+    }
+  }
+
+  private assertWithinAllowance(
+    candidate: { isExceptional: boolean; status: ClientModificationStatus; daysGranted: number },
+    others: ClientModification[],
+    allowance: ModificationAllowance
+  ): void {
+    if (!countsAgainstAllowance(candidate)) {
+      return;
+    }
+
+    const used = others.filter(countsAgainstAllowance).length;
+    if (used >= allowance.allowedTimes) {
       throw new Error(
-        `Modification limit reached. You have used ${stats.totalUsed} of ${stats.totalAllowed} allowed modifications.`
+        `Modification limit reached: ${used} of ${allowance.allowedTimes} allowed modifications used on this phase`
       );
     }
 
-    return this.createModification({
-      projectId,
-      userId,
-      modificationNumber: stats.totalUsed + 1,
-      description,
-      daysUsed,
-    });
+    if (candidate.daysGranted > allowance.daysPerTime) {
+      throw new Error(
+        `Days granted must be at most ${allowance.daysPerTime} for a regular modification`
+      );
+    }
   }
 }
 
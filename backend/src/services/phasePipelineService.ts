@@ -0,0 +1,423 @@
+import { EventEmitter } from 'events';
+import {
+  Phase,
+  PhaseDefinition,
+  PhasePipelineStep,
+  PhaseStatus,
+  PhaseTransition,
+  PrismaClient,
+  UserRole,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import AuditLogService from './auditLogService';
+import { prisma } from './prismaClient';
+import workingCalendarService from './workingCalendarService';
+
+export interface PipelineStep {
+  /** Key of the step's phase definition */
+  name: string;
+  sequence: number;
+  /** Days a phase runs when its tasks don't say otherwise */
+  defaultDuration: number | null;
+  autoStart: boolean;
+}
+
+export interface PipelineStepInput {
+  name: string;
+  defaultDuration?: number | null;
+  autoStart?: boolean;
+}
+
+export interface PhaseDefinitionInput {
+  label: string;
+}
+
+export const PHASE_TRANSITION_EVENT = 'phase.transition';
+
+// Used until a default pipeline is configured
+const BUILT_IN_PIPELINE: PipelineStep[] = [
+  { name: 'STUDIES', sequence: 1, defaultDuration: null, autoStart: true },
+  { name: 'DESIGN', sequence: 2, defaultDuration: null, autoStart: true },
+];
+
+const PHASE_KEY = /^[A-Z][A-Z0-9_]*$/;
+
+/**
+ * Where a phase sits in the pipeline. Phases created before pipelines have
+ * no sequence and take their step's place; phases outside it come last.
+ */
+const pipelinePosition =
+  (pipeline: PipelineStep[]) =>
+  (phase: { name: string; sequence: number }): number =>
+    phase.sequence || pipeline.findIndex(step => step.name === phase.name) + 1 || Infinity;
+
+const nextOpenPhase = <T extends { id: string; status: PhaseStatus }>(
+  ordered: T[],
+  phaseId: string
+): T | undefined =>
+  ordered
+    .slice(ordered.findIndex(phase => phase.id === phaseId) + 1)
+    .find(phase => phase.status !== PhaseStatus.COMPLETED);
+
+class PhasePipelineService {
+  private prisma: PrismaClient;
+
+  /** Emits PHASE_TRANSITION_EVENT with the recorded PhaseTransition */
+  readonly events = new EventEmitter();
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  async listDefinitions(): Promise<PhaseDefinition[]> {
+    try {
+      return await this.prisma.phaseDefinition.findMany({ orderBy: { label: 'asc' } });
+    } catch (error) {
+      logger.error('Failed to list phase definitions', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a kind of phase, or relabel an existing one. The key is what phases,
+   * pipelines and task templates refer to, so it cannot be changed here.
+   */
+  async saveDefinition(
+    key: string,
+    input: PhaseDefinitionInput,
+    userId: string,
+    role: UserRole
+  ): Promise<PhaseDefinition> {
+    try {
+      if (!PHASE_KEY.test(key)) {
+        throw new Error('Phase key must be upper case letters, digits and underscores');
+      }
+      const label = typeof input.label === 'string' ? input.label.trim() : '';
+      if (!label) {
+        throw new Error('Phase label must be given');
+      }
+
+      const before = await this.prisma.phaseDefinition.findUnique({ where: { key } });
+      const definition = before
+        ? await this.prisma.phaseDefinition.update({
+            where: { key },
+            data: { label, version: { increment: 1 } },
+          })
+        : await this.prisma.phaseDefinition.create({ data: { key, label } });
+
+      if (before) {
+        await AuditLogService.logUpdate(
+          'PHASE_DEFINITION',
+          definition.id,
+          userId,
+          role,
+          before,
+          definition
+        );
+      } else {
+        await AuditLogService.logCreate(
+          'PHASE_DEFINITION',
+          definition.id,
+          userId,
+          role,
+          definition
+        );
+      }
+
+      logger.info('Phase definition saved', { key, label });
+
+      return definition;
+    } catch (error) {
+      logger.error('Failed to save phase definition', { error, key, input });
+      throw error;
+    }
+  }
+
+  async listSteps(projectType?: string | null): Promise<PhasePipelineStep[]> {
+    try {
+      return await this.prisma.phasePipelineStep.findMany({
+        where: projectType === undefined ? {} : { projectType },
+        orderBy: [{ projectType: 'asc' }, { sequence: 'asc' }],
+      });
+    } catch (error) {
+      logger.error('Failed to list phase pipeline steps', { error, projectType });
+      throw error;
+    }
+  }
+
+  /**
+   * Ordered phases for a project type: its own pipeline, else the default
+   * pipeline, else Studies then Design
+   */
+  async getPipeline(projectType?: string | null): Promise<PipelineStep[]> {
+    const [own, defaults] = await Promise.all([
+      projectType
+        ? this.prisma.phasePipelineStep.findMany({
+            where: { projectType },
+            orderBy: { sequence: 'asc' },
+          })
+        : Promise.resolve([]),
+      this.prisma.phasePipelineStep.findMany({
+        where: { projectType: null },
+        orderBy: { sequence: 'asc' },
+      }),
+    ]);
+
+    const steps = own.length ? own : defaults;
+    if (!steps.length) {
+      return BUILT_IN_PIPELINE;
+    }
+
+    return steps.map(step => ({
+      name: step.phaseKey,
+      sequence: step.sequence,
+      defaultDuration: step.defaultDuration,
+      autoStart: step.autoStart,
+    }));
+  }
+
+  /**
+   * Replace the pipeline of a project type (null for the default pipeline).
+   * An empty list removes it, so the type falls back to the default.
+   * Existing projects keep their phases.
+   */
+  async setPipeline(
+    projectType: string | null,
+    steps: PipelineStepInput[],
+    userId: string,
+    role: UserRole
+  ): Promise<PhasePipelineStep[]> {
+    try {
+      const definitions = await this.prisma.phaseDefinition.findMany({ select: { key: true } });
+      this.validate(
+        steps,
+        definitions.map(definition => definition.key)
+      );
+
+      const before = await this.listSteps(projectType);
+
+      const pipeline = await this.prisma.$transaction(async tx => {
+        await tx.phasePipelineStep.deleteMany({ where: { projectType } });
+        await tx.phasePipelineStep.createMany({
+          data: steps.map((step, index) => ({
+            projectType,
+            phaseKey: step.name,
+            sequence: index + 1,
+            defaultDuration: step.defaultDuration ?? null,
+            autoStart: step.autoStart ?? true,
+          })),
+        });
+        return tx.phasePipelineStep.findMany({
+          where: { projectType },
+          orderBy: { sequence: 'asc' },
+        });
+      });
+
+      await AuditLogService.logUpdate(
+        'PHASE_DEFINITION',
+        projectType || 'default',
+        userId,
+        role,
+        before,
+        pipeline
+      );
+
+      logger.info('Phase pipeline updated', {
+        projectType,
+        phases: pipeline.map(step => step.phaseKey),
+      });
+
+      return pipeline;
+    } catch (error) {
+      logger.error('Failed to update phase pipeline', { error, projectType, steps });
+      throw error;
+    }
+  }
+
+  async listTransitions(projectId: string): Promise<PhaseTransition[]> {
+    try {
+      return await this.prisma.phaseTransition.findMany({
+        where: { projectId },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Failed to list phase transitions', { error, projectId });
+      throw error;
+    }
+  }
+
+  /**
+   * The first phase after the given one in its project's pipeline that isn't
+   * completed yet, if any
+   */
+  async getNextPhase(phaseId: string): Promise<Phase | null> {
+    const phase = await this.prisma.phase.findUnique({
+      where: { id: phaseId },
+      include: { project: { include: { phases: true } } },
+    });
+
+    if (!phase) {
+      throw new Error('Phase not found');
+    }
+
+    const position = pipelinePosition(await this.getPipeline(phase.project.projectType));
+    const ordered = [...phase.project.phases].sort((a, b) => position(a) - position(b));
+
+    return nextOpenPhase(ordered, phase.id) || null;
+  }
+
+  /**
+   * Hand a completed phase over to the next one in the project's pipeline.
+   * When that step starts automatically, it starts on the completion date
+   * and the phases planned after it move by the same number of working days
+   * in the project's calendar. The transition is recorded and emitted either
+   * way.
+   */
+  async advance(
+    completedPhaseId: string,
+    userId: string,
+    role: UserRole
+  ): Promise<PhaseTransition> {
+    try {
+      const completed = await this.prisma.phase.findUnique({
+        where: { id: completedPhaseId },
+        include: { project: { include: { phases: true } } },
+      });
+
+      if (!completed) {
+        throw new Error('Phase not found');
+      }
+
+      if (completed.status !== PhaseStatus.COMPLETED) {
+        throw new Error('Only completed phases can hand over to the next phase');
+      }
+
+      const { project } = completed;
+      const pipeline = await this.getPipeline(project.projectType);
+      const position = pipelinePosition(pipeline);
+
+      const ordered = [...project.phases].sort((a, b) => position(a) - position(b));
+      const next = nextOpenPhase(ordered, completed.id);
+      const autoStart =
+        !!next &&
+        next.status === PhaseStatus.PLANNED &&
+        (pipeline.find(step => step.name === next.name)?.autoStart ?? true);
+
+      const calendar = await workingCalendarService.getCalendar(project.region);
+      const completedOn = completed.actualEndDate || new Date();
+      const shiftDays = autoStart ? calendar.workingDayOffset(next.startDate, completedOn) : 0;
+
+      const transition = await this.prisma.$transaction(async tx => {
+        if (autoStart) {
+          const later = ordered.filter(
+            phase => position(phase) > position(next) && phase.status === PhaseStatus.PLANNED
+          );
+
+          const started = await tx.phase.update({
+            where: { id: next.id },
+            data: {
+              status: PhaseStatus.IN_PROGRESS,
+              startDate: completedOn,
+              actualStartDate: completedOn,
+              estimatedEndDate: calendar.addWorkingDays(
+                completedOn,
+                Math.max(next.duration, 1) - 1
+              ),
+              version: { increment: 1 },
+            },
+          });
+
+          let projectEnd = started.estimatedEndDate;
+          for (const phase of later) {
+            const estimatedEndDate = calendar.addWorkingDays(phase.estimatedEndDate, shiftDays);
+            await tx.phase.update({
+              where: { id: phase.id },
+              data: {
+                startDate: calendar.addWorkingDays(phase.startDate, shiftDays),
+                estimatedEndDate,
+                version: { increment: 1 },
+              },
+            });
+            if (estimatedEndDate > projectEnd) projectEnd = estimatedEndDate;
+          }
+
+          await tx.project.update({
+            where: { id: project.id },
+            data: {
+              currentPhase: next.name,
+              estimatedEndDate: projectEnd > project.estimatedEndDate ? projectEnd : undefined,
+              version: { increment: 1 },
+            },
+          });
+        }
+
+        return tx.phaseTransition.create({
+          data: {
+            projectId: project.id,
+            fromPhaseId: completed.id,
+            fromPhase: completed.name,
+            toPhaseId: next?.id,
+            toPhase: next?.name,
+            autoStarted: autoStart,
+            shiftDays,
+            triggeredBy: userId,
+          },
+        });
+      });
+
+      if (autoStart) {
+        await AuditLogService.logUpdate(
+          'PHASE',
+          next.id,
+          userId,
+          role,
+          { status: next.status, startDate: next.startDate },
+          { status: PhaseStatus.IN_PROGRESS, startDate: completedOn, shiftDays }
+        );
+      }
+
+      logger.info('Phase transition recorded', {
+        projectId: project.id,
+        fromPhase: transition.fromPhase,
+        toPhase: transition.toPhase,
+        autoStarted: autoStart,
+        shiftDays,
+      });
+
+      this.events.emit(PHASE_TRANSITION_EVENT, transition);
+
+      return transition;
+    } catch (error) {
+      logger.error('Failed to advance phase pipeline', { error, completedPhaseId });
+      throw error;
+    }
+  }
+
+  private validate(steps: PipelineStepInput[], keys: string[]): void {
+    if (!Array.isArray(steps)) {
+      throw new Error('Phases must be a list');
+    }
+
+    const names = new Set<string>();
+    for (const step of steps) {
+      if (!keys.includes(step.name)) {
+        throw new Error(`Phase name must be one of ${keys.join(', ')}`);
+      }
+      if (names.has(step.name)) {
+        throw new Error(`Phase ${step.name} must be listed once`);
+      }
+      names.add(step.name);
+
+      const duration = step.defaultDuration;
+      if (
+        duration !== undefined &&
+        duration !== null &&
+        !(Number.isInteger(duration) && duration > 0)
+      ) {
+        throw new Error('Default duration must be a positive whole number of days');
+      }
+    }
+  }
+}
+
+export default new PhasePipelineService();
@@ -1,6 +1,22 @@
-import { UserRole, ProjectStatus, PhaseStatus, Project, PrismaClient } from '@prisma/client';
+import {
+  BaselineKind,
+  UserRole,
+  ProjectStatus,
+  PhaseStatus,
+  TaskStatus,
+  Phase,
+  PhaseTransition,
+  Project,
+  PrismaClient,
+  TaskTemplate,
+} from '@prisma/client';
 import logger from '../utils/logger';
 import AuditLogService from './auditLogService';
+import { kpiService } from './kpiService';
+import phasePipelineService from './phasePipelineService';
+import scheduleBaselineService from './scheduleBaselineService';
+import taskTemplateService from './taskTemplateService';
+import workingCalendarService from './workingCalendarService';
 import { prisma } from './prismaClient';
 
 export interface CreateProjectInput {
@@ -12,8 +28,31 @@ export interface CreateProjectInput {
   builtUpArea?: number;
   licenseType?: string;
   projectType?: string;
+  region?: string;
   description?: string;
   managerId?: string;
+  taskTemplateSetId?: string;
+}
+
+/** What a forced completion does with the phase's unfinished tasks */
+export type OpenTaskAction = 'CARRY_OVER' | 'CANCEL' | 'LEAVE_OPEN';
+
+export const OPEN_TASK_ACTIONS: OpenTaskAction[] = ['CARRY_OVER', 'CANCEL', 'LEAVE_OPEN'];
+
+export interface ForceCompletePhaseInput {
+  reason: string;
+  openTasks: OpenTaskAction;
+  version: number;
+}
+
+export interface ForceCompletePhaseResult {
+  phase: Phase;
+  openTasks: {
+    action: OpenTaskAction;
+    taskIds: string[];
+    toPhaseId: string | null;
+  };
+  transition: PhaseTransition;
 }
 
 export interface UpdateProjectInput {
@@ -21,6 +60,7 @@ export interface UpdateProjectInput {
   builtUpArea?: number;
   licenseType?: string;
   projectType?: string;
+  region?: string;
   description?: string;
   startDate?: Date;
   estimatedEndDate?: Date;
@@ -62,6 +102,12 @@ class ProjectService {
     role: UserRole
   ): Promise<Project> {
     try {
+      // New projects start from the default task templates unless another set is chosen;
+      // a chosen set is checked first so a bad one leaves no project without phases
+      const templateSetId = input.taskTemplateSetId
+        ? (await taskTemplateService.getActiveSet(input.taskTemplateSetId)).id
+        : (await taskTemplateService.getDefaultSet())?.id;
+
       const project = await this.prisma.project.create({
         data: {
           clientId: input.clientId,
@@ -70,6 +116,7 @@ class ProjectService {
           builtUpArea: input.builtUpArea,
           licenseType: input.licenseType,
           projectType: input.projectType,
+          region: input.region,
           description: input.description,
           startDate: input.startDate,
           estimatedEndDate: input.estimatedEndDate,
@@ -82,7 +129,22 @@ class ProjectService {
         },
       });
 
-      await this.createPhases(project.id, ['Studies', 'Design', 'Technical'], userId, role);
+      const pipeline = await phasePipelineService.getPipeline(project.projectType);
+      await this.createPhases(
+        project.id,
+        pipeline.map(step => step.name),
+        userId,
+        role,
+        templateSetId
+      );
+
+      // The dates as signed are what schedule variance is measured against
+      await scheduleBaselineService.capture(
+        project.id,
+        { name: 'Contract baseline', kind: BaselineKind.CONTRACT },
+        userId,
+        role
+      );
 
       // Try to log audit, but don't fail if it errors
       try {
@@ -355,41 +417,130 @@ class ProjectService {
     return Math.round(totalProgress / phases.length);
   }
 
-  async createPhases(projectId: string, phaseNames: string[], userId: string, role: UserRole): Promise<any[]> {
+  /**
+   * Create the project's phases, in the order given, and when a template set
+   * is given, instantiate each phase's tasks from that set's templates
+   */
+  async createPhases(
+    projectId: string,
+    phaseNames: string[],
+    userId: string,
+    role: UserRole,
+    templateSetId?: string
+  ): Promise<Phase[]> {
     try {
-      const phases = await Promise.all(
-        phaseNames.map(async (name, index) => {
-          return await this.prisma.phase.create({
+      const project = await this.prisma.project.findUnique({ where: { id: projectId } });
+
+      if (!project) {
+        throw new Error('Project not found');
+      }
+
+      if (templateSetId) {
+        await taskTemplateService.getActiveSet(templateSetId);
+      }
+
+      // Durations are counted in the project region's working days
+      const calendar = await workingCalendarService.getCalendar(project.region);
+      const projectDays = Math.max(
+        1,
+        calendar.workingDaysBetween(project.startDate, project.estimatedEndDate)
+      );
+
+      const pipeline = await phasePipelineService.getPipeline(project.projectType);
+
+      let taskCount = 0;
+      const phases = await this.prisma.$transaction(async tx => {
+        const planned: Array<{ name: string; templates: TaskTemplate[]; duration: number | null }> = [];
+        for (const name of phaseNames) {
+          const templates = templateSetId
+            ? await taskTemplateService.getTemplatesForPhase(templateSetId, name, tx)
+            : [];
+          // Templated phases run for their tasks' combined default duration
+          const duration = templates.length
+            ? templates.reduce((sum, template) => sum + template.defaultDuration, 0)
+            : pipeline.find(step => step.name === name)?.defaultDuration || null;
+          planned.push({ name, templates, duration });
+        }
+
+        // Phases run one after another; those without a duration share what the others leave
+        const untimed = planned.filter(step => step.duration === null).length;
+        const timedDays = planned.reduce((sum, step) => sum + (step.duration || 0), 0);
+        const sharedDays = untimed ? Math.max(1, Math.floor((projectDays - timedDays) / untimed)) : 0;
+
+        const created: Phase[] = [];
+        let startDate = project.startDate;
+        for (const [index, { name, templates, duration: plannedDuration }] of planned.entries()) {
+          const duration = plannedDuration ?? sharedDays;
+          const estimatedEndDate = calendar.addWorkingDays(startDate, Math.max(duration, 1) - 1);
+
+          const phase = await tx.phase.create({
             data: {
               projectId,
               name,
-              phaseOrder: index + 1,
-              status: 'PLANNED',
+              sequence: index + 1,
+              startDate,
+              duration,
+              estimatedEndDate,
+              status: PhaseStatus.PLANNED,
+              modificationAllowedTimes: project.modificationAllowedTimes,
+              modificationDaysPerTime: project.modificationDaysPerTime,
             },
           });
-        })
-      );
+
+          if (templates.length) {
+            await tx.task.createMany({
+              data: templates.map(template => ({
+                phaseId: phase.id,
+                code: template.code,
+                description: template.description,
+                duration: template.defaultDuration,
+                status: TaskStatus.PLANNED,
+              })),
+            });
+            taskCount += templates.length;
+          }
+
+          created.push(phase);
+          startDate = calendar.addWorkingDays(estimatedEndDate, 1);
+        }
+        return created;
+      });
 
       await AuditLogService.logCreate(
-        'Phase',
+        'PHASE',
         `batch-${projectId}`,
         userId,
         role,
-        { projectId, count: phaseNames.length }
+        { projectId, count: phaseNames.length, templateSetId, taskCount }
       );
 
-      logger.info('Phases created successfully', { projectId, count: phaseNames.length });
+      logger.info('Phases created successfully', {
+        projectId,
+        count: phaseNames.length,
+        templateSetId,
+        taskCount,
+      });
 
       return phases;
     } catch (error) {
-      logger.error('Failed to create phases', { error, projectId, phaseNames });
+      logger.error('Failed to create phases', { error, projectId, phaseNames, templateSetId });
       throw error;
     }
   }
 
   async updatePhase(
     phaseId: string,
-    updates: { name?: string; status?: PhaseStatus; teamLeaderId?: string | null },
+    updates: {
+      name?: string;
+      status?: PhaseStatus;
+      teamLeaderId?: string | null;
+      startDate?: Date;
+      duration?: number;
+      estimatedEndDate?: Date;
+      modificationAllowedTimes?: number;
+      modificationDaysPerTime?: number;
+      version?: number;
+    },
     userId: string,
     role: UserRole
   ): Promise<any> {
@@ -400,16 +551,32 @@ class ProjectService {
         throw new Error('Phase not found');
       }
 
+      const { version, ...changes } = updates;
+      if (version !== undefined && phase.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      for (const field of ['modificationAllowedTimes', 'modificationDaysPerTime'] as const) {
+        const value = changes[field];
+        if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+          throw new Error(`${field} must be a non-negative whole number`);
+        }
+      }
+
+      const completing =
+        changes.status === PhaseStatus.COMPLETED && phase.status !== PhaseStatus.COMPLETED;
+
       const updatedPhase = await this.prisma.phase.update({
         where: { id: phaseId },
         data: {
-          ...updates,
+          ...changes,
+          actualEndDate: completing ? phase.actualEndDate || new Date() : undefined,
           version: { increment: 1 },
         },
       });
 
       await AuditLogService.logUpdate(
-        'Phase',
+        'PHASE',
         phaseId,
         userId,
         role,
@@ -419,6 +586,11 @@ class ProjectService {
 
       logger.info('Phase updated successfully', { phaseId });
 
+      if (completing) {
+        await phasePipelineService.advance(phaseId, userId, role);
+      }
+      await kpiService.syncDelayedDays(updatedPhase.projectId);
+
       return updatedPhase;
     } catch (error) {
       logger.error('Failed to update phase', { error, phaseId });
@@ -509,14 +681,20 @@ class ProjectService {
         return false; // Cannot complete empty phase automatically
       }
 
-      return phase.tasks.every(t => t.status === 'COMPLETED');
+      return phase.tasks.every(
+        t => t.status === TaskStatus.COMPLETED || t.status === TaskStatus.CANCELLED
+      );
     } catch (error) {
       logger.error('Failed to check phase completion', { error, phaseId });
       throw error;
     }
   }
 
-  async completePhase(phaseId: string, userId: string, role: UserRole): Promise<void> {
+  /**
+   * Complete a phase whose tasks are all done and hand over to the next phase
+   * of the project's pipeline
+   */
+  async completePhase(phaseId: string, userId: string, role: UserRole): Promise<PhaseTransition> {
     try {
       const canComplete = await this.checkPhaseCompletion(phaseId);
       if (!canComplete) {
@@ -541,16 +719,128 @@ class ProjectService {
         { status: 'COMPLETED' }
       );
 
-      // Trigger next phase if available?
-      // Logic for transition could be added here or strictly manual via next updatePhase call.
-      // For now, just completing the current phase.
+      logger.info('Phase completed successfully', { phaseId: phase.id });
 
-      logger.info('Phase completed successfully', { phaseId });
+      const transition = await phasePipelineService.advance(phaseId, userId, role);
+      await kpiService.syncDelayedDays(phase.projectId);
+
+      return transition;
     } catch (error) {
       logger.error('Failed to complete phase', { error, phaseId });
       throw error;
     }
   }
+
+  /**
+   * Complete a phase that still has unfinished tasks (FR-035). The manager's
+   * reason and what happened to the open tasks go into the audit trail, then
+   * the phase hands over to the next one as a normal completion does.
+   */
+  async forceCompletePhase(
+    phaseId: string,
+    input: ForceCompletePhaseInput,
+    userId: string,
+    role: UserRole
+  ): Promise<ForceCompletePhaseResult> {
+    try {
+      const reason = input.reason?.trim();
+      if (!reason) {
+        throw new Error('A reason must be given to force a phase to complete');
+      }
+      if (!OPEN_TASK_ACTIONS.includes(input.openTasks)) {
+        throw new Error(`Open tasks must be one of ${OPEN_TASK_ACTIONS.join(', ')}`);
+      }
+
+      const existing = await this.prisma.phase.findUnique({ where: { id: phaseId } });
+
+      if (!existing) {
+        throw new Error('Phase not found');
+      }
+
+      if (existing.version !== input.version) {
+        throw new Error('Version conflict');
+      }
+
+      if (existing.status === PhaseStatus.COMPLETED) {
+        throw new Error('Phase is already completed');
+      }
+
+      const openTasks = await this.prisma.task.findMany({
+        where: { phaseId, status: { in: [TaskStatus.PLANNED, TaskStatus.IN_PROGRESS] } },
+      });
+      const nextPhase =
+        input.openTasks === 'CARRY_OVER' ? await phasePipelineService.getNextPhase(phaseId) : null;
+      if (input.openTasks === 'CARRY_OVER' && openTasks.length && !nextPhase) {
+        throw new Error('There is no next phase to carry the open tasks over to');
+      }
+
+      const taskIds = openTasks.map(t => t.id);
+
+      const phase = await this.prisma.$transaction(async tx => {
+        if (taskIds.length && input.openTasks === 'CARRY_OVER') {
+          await tx.task.updateMany({
+            where: { id: { in: taskIds } },
+            data: { phaseId: nextPhase!.id, version: { increment: 1 } },
+          });
+        } else if (taskIds.length && input.openTasks === 'CANCEL') {
+          await tx.task.updateMany({
+            where: { id: { in: taskIds } },
+            data: { status: TaskStatus.CANCELLED, version: { increment: 1 } },
+          });
+        }
+
+        return tx.phase.update({
+          where: { id: phaseId },
+          data: {
+            status: PhaseStatus.COMPLETED,
+            actualEndDate: new Date(),
+            progress: 100,
+            version: { increment: 1 },
+          },
+        });
+      });
+
+      const result = {
+        action: input.openTasks,
+        taskIds,
+        toPhaseId: nextPhase?.id || null,
+      };
+
+      await AuditLogService.logUpdate('PHASE', phaseId, userId, role, existing, {
+        ...phase,
+        forced: true,
+        reason,
+        openTasks: result,
+      });
+      for (const task of openTasks) {
+        if (input.openTasks === 'LEAVE_OPEN') break;
+        await AuditLogService.logUpdate(
+          'TASK',
+          task.id,
+          userId,
+          role,
+          { phaseId: task.phaseId, status: task.status },
+          input.openTasks === 'CARRY_OVER'
+            ? { phaseId: nextPhase!.id, status: task.status, reason }
+            : { phaseId: task.phaseId, status: TaskStatus.CANCELLED, reason }
+        );
+      }
+
+      logger.info('Phase force-completed', {
+        phaseId,
+        openTasks: input.openTasks,
+        taskCount: taskIds.length,
+      });
+
+      const transition = await phasePipelineService.advance(phaseId, userId, role);
+      await kpiService.syncDelayedDays(phase.projectId);
+
+      return { phase, openTasks: result, transition };
+    } catch (error) {
+      logger.error('Failed to force-complete phase', { error, phaseId });
+      throw error;
+    }
+  }
 }
 
 export default ProjectService;
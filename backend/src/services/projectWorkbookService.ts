@@ -0,0 +1,1364 @@
+import ExcelJS from 'exceljs';
+import {
+  AssignmentRole,
+  CostType,
+  ImportBatchKind,
+  ImportBatchStatus,
+  PhaseStatus,
+  Prisma,
+  PrismaClient,
+  TaskStatus,
+  UserRole,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import AuditLogService from './auditLogService';
+import ProjectService from './projectService';
+import TaskService from './taskService';
+import teamService from './teamService';
+import costService from './costService';
+import requirementService from './requirementService';
+import { NameCandidate, resolveName } from '../utils/nameMatcher';
+import { prisma } from './prismaClient';
+
+/**
+ * Editable sheets of the round-trip project workbook, in the order their
+ * changes are applied (assignments before the tasks that reference them)
+ */
+export const PROJECT_WORKBOOK_SHEETS = {
+  phases: 'Phases',
+  assignments: 'Assignments',
+  tasks: 'Tasks',
+  costs: 'Cost Entries',
+  requirements: 'Requirements',
+} as const;
+
+export type ProjectWorkbookSheetKey = keyof typeof PROJECT_WORKBOOK_SHEETS;
+
+export type WorkbookChangeAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+export type WorkbookCellValue = string | number | boolean | null;
+
+export interface WorkbookFieldChange {
+  field: string;
+  from: WorkbookCellValue;
+  to: WorkbookCellValue;
+}
+
+export interface WorkbookChange {
+  sheet: string;
+  rowNumber: number;
+  action: WorkbookChangeAction;
+  entityId: string | null;
+  version: number | null;
+  label: string;
+  fields: WorkbookFieldChange[];
+  input: Record<string, WorkbookCellValue>;
+}
+
+export interface WorkbookRowIssue {
+  sheet: string;
+  rowNumber: number;
+  entityId: string | null;
+  kind: 'CONFLICT' | 'ERROR';
+  message: string;
+}
+
+export interface WorkbookSheetSummary {
+  sheet: string;
+  created: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  conflicts: number;
+  errors: number;
+}
+
+export interface ProjectWorkbookPreview {
+  batchId: string;
+  projectId: string;
+  contractCode: string | null;
+  fileName: string;
+  status: ImportBatchStatus;
+  canApply: boolean;
+  sheets: WorkbookSheetSummary[];
+  changes: WorkbookChange[];
+  issues: WorkbookRowIssue[];
+  createdAt: Date;
+  committedAt: Date | null;
+}
+
+export interface ProjectWorkbookResult {
+  batchId: string;
+  applied: Array<{ sheet: string; created: number; updated: number; deleted: number }>;
+  conflicts: WorkbookRowIssue[];
+  failures: WorkbookRowIssue[];
+}
+
+interface WorkbookColumn {
+  key: string;
+  header: string;
+  width: number;
+  format?: 'date' | 'number';
+  options?: string[];
+  readOnly?: boolean;
+}
+
+interface SheetRow {
+  rowNumber: number;
+  values: Record<string, unknown>;
+}
+
+interface ResolvedRow {
+  label: string;
+  values: Record<string, WorkbookCellValue>;
+  input: Record<string, WorkbookCellValue>;
+  errors: string[];
+}
+
+interface SheetSpec<T extends { id: string; version: number }> {
+  key: ProjectWorkbookSheetKey;
+  entities: T[];
+  snapshot: (entity: T) => Record<string, WorkbookCellValue>;
+  resolve: (values: Record<string, unknown>, existing?: T) => ResolvedRow;
+  immutable?: string[];
+  canCreate: boolean;
+  canDelete: boolean;
+}
+
+const WORKBOOK_FORMAT_VERSION = 1;
+const INFO_SHEET = 'Workbook Info';
+const DATE_FORMAT = 'dd/mm/yyyy';
+const BRAND_COLOR = 'FF1F4E78';
+const READ_ONLY_FILL = 'FFE7E6E6';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rows below the exported data that still get drop-down validation for new entries
+const EXTRA_VALIDATED_ROWS = 200;
+
+const DELETE_OPTIONS = ['Yes'];
+
+const humanize = (value: string): string =>
+  value
+    .toLowerCase()
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const enumOptions = (values: Record<string, string>): string[] =>
+  Object.values(values).map(humanize);
+
+const ID_COLUMNS: WorkbookColumn[] = [
+  { key: 'id', header: 'id', width: 38 },
+  { key: 'version', header: 'version', width: 8 },
+];
+
+const SHEET_COLUMNS: Record<ProjectWorkbookSheetKey, WorkbookColumn[]> = {
+  phases: [
+    { key: 'phase', header: 'Phase', width: 14, readOnly: true },
+    { key: 'status', header: 'Status', width: 14, options: enumOptions(PhaseStatus) },
+    { key: 'startDate', header: 'Start Date', width: 14, format: 'date' },
+    { key: 'duration', header: 'Duration (Days)', width: 14, format: 'number' },
+    { key: 'estimatedEndDate', header: 'End Date', width: 14, format: 'date', readOnly: true },
+  ],
+  assignments: [
+    { key: 'phase', header: 'Phase', width: 14 },
+    { key: 'teamMember', header: 'Team Member', width: 26 },
+    { key: 'role', header: 'Role', width: 16, options: enumOptions(AssignmentRole) },
+    { key: 'workingPercentage', header: 'Working %', width: 12, format: 'number' },
+    { key: 'startDate', header: 'Start Date', width: 14, format: 'date' },
+    { key: 'endDate', header: 'End Date', width: 14, format: 'date' },
+    { key: 'delete', header: 'Delete', width: 9, options: DELETE_OPTIONS },
+  ],
+  tasks: [
+    { key: 'phase', header: 'Phase', width: 14 },
+    { key: 'code', header: 'Code', width: 16 },
+    { key: 'description', header: 'Description', width: 48 },
+    { key: 'duration', header: 'Duration (Days)', width: 14, format: 'number' },
+    { key: 'status', header: 'Status', width: 14, options: enumOptions(TaskStatus) },
+    { key: 'assignedTo', header: 'Assigned To', width: 26 },
+    { key: 'startDate', header: 'Start Date', width: 14, format: 'date' },
+    { key: 'endDate', header: 'End Date', width: 14, format: 'date' },
+    { key: 'delete', header: 'Delete', width: 9, options: DELETE_OPTIONS },
+  ],
+  costs: [
+    { key: 'phase', header: 'Phase', width: 14 },
+    { key: 'employee', header: 'Employee', width: 26 },
+    { key: 'period', header: 'Period', width: 14, format: 'date' },
+    { key: 'costType', header: 'Cost Type', width: 16, options: enumOptions(CostType) },
+    { key: 'costAmount', header: 'Amount', width: 14, format: 'number' },
+    { key: 'description', header: 'Description', width: 40 },
+    { key: 'delete', header: 'Delete', width: 9, options: DELETE_OPTIONS },
+  ],
+  requirements: [
+    { key: 'description', header: 'Description', width: 60 },
+    { key: 'sortOrder', header: 'Sort Order', width: 12, format: 'number' },
+    { key: 'completed', header: 'Completed', width: 12, options: ['Yes', 'No'] },
+    { key: 'delete', header: 'Delete', width: 9, options: DELETE_OPTIONS },
+  ],
+};
+
+const projectInclude = Prisma.validator<Prisma.ProjectInclude>()({
+  phases: {
+    include: {
+      tasks: { include: { assignedTeamMember: true }, orderBy: { code: 'asc' } },
+      assignments: { include: { teamMember: true }, orderBy: { startDate: 'asc' } },
+    },
+    orderBy: { startDate: 'asc' },
+  },
+  costEntries: { include: { phase: true, employee: true }, orderBy: { period: 'asc' } },
+  projectRequirements: { orderBy: { sortOrder: 'asc' } },
+});
+
+type WorkbookProject = Prisma.ProjectGetPayload<{ include: typeof projectInclude }>;
+
+function cellValue(value: ExcelJS.CellValue): unknown {
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    if ('result' in value) return value.result;
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return value.text;
+    return null;
+  }
+  return value;
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return toIsoDate(value) || '';
+  return String(value).trim();
+}
+
+function cellNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  const text = cellText(value).replace(/,/g, '');
+  if (!text) return undefined;
+  const parsed = Number(text);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value.toISOString().slice(0, 10);
+  }
+  const text = typeof value === 'string' ? value.trim() : '';
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst;
+    return toIsoDate(new Date(Date.UTC(Number(year), Number(month) - 1, Number(day))));
+  }
+  return text ? toIsoDate(new Date(text)) : undefined;
+}
+
+function toEnum<T extends string>(value: unknown, values: Record<string, T>): T | undefined {
+  const normalized = cellText(value)
+    .toUpperCase()
+    .replace(/[\s-]+/g, '_');
+  return Object.values(values).find(option => option === normalized);
+}
+
+function isYes(value: unknown): boolean {
+  return value === true || ['yes', 'y', 'true', 'x', '1'].includes(cellText(value).toLowerCase());
+}
+
+function comparable(value: WorkbookCellValue): WorkbookCellValue {
+  if (value === null || value === '') return null;
+  if (typeof value === 'number') return Math.round(value * 100) / 100;
+  if (typeof value === 'string') return value.trim();
+  return value;
+}
+
+const addDays = (isoDate: string, days: number): string =>
+  new Date(new Date(isoDate).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+export class ProjectWorkbookService {
+  private prisma: PrismaClient;
+  private projectService: ProjectService;
+  private taskService: TaskService;
+
+  constructor() {
+    this.prisma = prisma;
+    this.projectService = new ProjectService();
+    this.taskService = new TaskService();
+  }
+
+  /**
+   * Export phases, tasks, assignments, cost entries and requirements of a project
+   * to a workbook whose rows carry hidden id and version columns for re-import
+   */
+  async exportWorkbook(
+    projectId: string
+  ): Promise<{ filename: string; workbook: ExcelJS.Workbook; mimeType: string }> {
+    try {
+      const project = await this.loadProject(projectId);
+
+      const workbook = new ExcelJS.Workbook();
+      workbook.creator = 'Fllowup';
+      workbook.created = new Date();
+
+      const phaseOptions = project.phases.map(phase => humanize(phase.name));
+      const phaseOf = (phaseId: string) =>
+        humanize(project.phases.find(phase => phase.id === phaseId)?.name || '');
+
+      this.addSheet(
+        workbook,
+        'phases',
+        project.phases.map(phase => [
+          phase.id,
+          phase.version,
+          humanize(phase.name),
+          humanize(phase.status),
+          phase.startDate,
+          phase.duration,
+          phase.estimatedEndDate,
+        ])
+      );
+      this.addSheet(
+        workbook,
+        'assignments',
+        project.phases.flatMap(phase =>
+          phase.assignments.map(assignment => [
+            assignment.id,
+            assignment.version,
+            humanize(phase.name),
+            assignment.teamMember.name,
+            humanize(assignment.role),
+            Number(assignment.workingPercentage),
+            assignment.startDate,
+            assignment.endDate,
+            null,
+          ])
+        ),
+        phaseOptions
+      );
+      this.addSheet(
+        workbook,
+        'tasks',
+        project.phases.flatMap(phase =>
+          phase.tasks.map(task => [
+            task.id,
+            task.version,
+            humanize(phase.name),
+            task.code,
+            task.description,
+            task.duration,
+            humanize(task.status),
+            task.assignedTeamMember?.name || null,
+            task.startDate,
+            task.endDate,
+            null,
+          ])
+        ),
+        phaseOptions
+      );
+      this.addSheet(
+        workbook,
+        'costs',
+        project.costEntries.map(entry => [
+          entry.id,
+          entry.version,
+          phaseOf(entry.phaseId),
+          entry.employee.name,
+          entry.period,
+          humanize(entry.costType),
+          Number(entry.costAmount),
+          entry.description,
+          null,
+        ]),
+        phaseOptions
+      );
+      this.addSheet(
+        workbook,
+        'requirements',
+        project.projectRequirements.map(requirement => [
+          requirement.id,
+          requirement.version,
+          requirement.description,
+          requirement.sortOrder,
+          requirement.isCompleted ? 'Yes' : 'No',
+          null,
+        ])
+      );
+
+      const info = workbook.addWorksheet(INFO_SHEET, { state: 'veryHidden' });
+      info.addRows([
+        ['Project ID', project.id],
+        ['Contract Code', project.contractCode],
+        ['Exported At', new Date().toISOString()],
+        ['Format Version', WORKBOOK_FORMAT_VERSION],
+      ]);
+
+      logger.info('Project workbook exported', { projectId });
+
+      return {
+        filename: `${project.contractCode}-workbook-${new Date().toISOString().split('T')[0]}.xlsx`,
+        workbook,
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      };
+    } catch (error) {
+      logger.error('Failed to export project workbook', { error, projectId });
+      throw error;
+    }
+  }
+
+  /**
+   * Diff an edited project workbook against the database and stage the changes
+   * for review. Rows whose version no longer matches are flagged as conflicts.
+   */
+  async stageWorkbook(
+    projectId: string,
+    fileName: string,
+    buffer: Buffer,
+    userId: string
+  ): Promise<ProjectWorkbookPreview> {
+    try {
+      const workbook = new ExcelJS.Workbook();
+      try {
+        // exceljs types its Buffer as a bare ArrayBuffer; the Node buffer is what it reads at runtime
+        await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+      } catch (error) {
+        throw new Error(
+          `Invalid workbook: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      this.checkWorkbookInfo(workbook, projectId);
+
+      const project = await this.loadProject(projectId);
+      const users = await this.prisma.user.findMany({
+        where: { isActive: true },
+        select: { id: true, name: true },
+      });
+
+      const changes: WorkbookChange[] = [];
+      const issues: WorkbookRowIssue[] = [];
+      const unchanged: Record<string, number> = {};
+      for (const spec of this.buildSpecs(project, users)) {
+        const diff = this.diffSheet(spec, this.readSheet(workbook, spec.key));
+        changes.push(...diff.changes);
+        issues.push(...diff.issues);
+        unchanged[PROJECT_WORKBOOK_SHEETS[spec.key]] = diff.unchanged;
+      }
+
+      const batch = await this.prisma.importBatch.create({
+        data: {
+          kind: ImportBatchKind.PROJECT_WORKBOOK,
+          fileName,
+          contractCode: project.contractCode,
+          projectId,
+          uploadedBy: userId,
+          totalRows: changes.length + issues.length,
+          errorCount: issues.filter(issue => issue.kind === 'ERROR').length,
+          warningCount: issues.filter(issue => issue.kind === 'CONFLICT').length,
+          result: { unchanged },
+          rows: {
+            create: [
+              ...changes.map(change => ({
+                sheet: change.sheet,
+                rowNumber: change.rowNumber,
+                data: change as unknown as Prisma.InputJsonValue,
+              })),
+              ...issues.map(issue => ({
+                sheet: issue.sheet,
+                rowNumber: issue.rowNumber,
+                data: { entityId: issue.entityId },
+                errors: [issue] as unknown as Prisma.InputJsonValue,
+              })),
+            ],
+          },
+        },
+      });
+
+      logger.info('Project workbook staged', {
+        batchId: batch.id,
+        projectId,
+        changes: changes.length,
+        issues: issues.length,
+      });
+
+      return this.getPreview(projectId, batch.id);
+    } catch (error) {
+      logger.error('Failed to stage project workbook', { error, projectId, fileName });
+      throw error;
+    }
+  }
+
+  /**
+   * Changes and flagged rows of a staged project workbook
+   */
+  async getPreview(projectId: string, batchId: string): Promise<ProjectWorkbookPreview> {
+    try {
+      const batch = await this.findBatch(projectId, batchId);
+      const changes = batch.rows
+        .filter(row => !row.errors)
+        .map(row => row.data as unknown as WorkbookChange);
+      const issues = batch.rows.flatMap(row => (row.errors || []) as unknown as WorkbookRowIssue[]);
+      const unchanged = ((batch.result as Record<string, unknown>)?.unchanged || {}) as Record<
+        string,
+        number
+      >;
+
+      const sheets = Object.values(PROJECT_WORKBOOK_SHEETS).map(sheet => {
+        const sheetChanges = changes.filter(change => change.sheet === sheet);
+        const sheetIssues = issues.filter(issue => issue.sheet === sheet);
+        return {
+          sheet,
+          created: sheetChanges.filter(change => change.action === 'CREATE').length,
+          updated: sheetChanges.filter(change => change.action === 'UPDATE').length,
+          deleted: sheetChanges.filter(change => change.action === 'DELETE').length,
+          unchanged: unchanged[sheet] || 0,
+          conflicts: sheetIssues.filter(issue => issue.kind === 'CONFLICT').length,
+          errors: sheetIssues.filter(issue => issue.kind === 'ERROR').length,
+        };
+      });
+
+      return {
+        batchId: batch.id,
+        projectId,
+        contractCode: batch.contractCode,
+        fileName: batch.fileName,
+        status: batch.status,
+        canApply: batch.status === ImportBatchStatus.STAGED && changes.length > 0,
+        sheets,
+        changes,
+        issues,
+        createdAt: batch.createdAt,
+        committedAt: batch.committedAt,
+      };
+    } catch (error) {
+      logger.error('Failed to build project workbook preview', { error, projectId, batchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Apply the staged changes through the project, team, task, cost and requirement
+   * services. Rows that were changed by someone else in the meantime are skipped.
+   */
+  async applyBatch(
+    projectId: string,
+    batchId: string,
+    userId: string,
+    role: UserRole
+  ): Promise<ProjectWorkbookResult> {
+    const batch = await this.findBatch(projectId, batchId);
+
+    if (batch.status !== ImportBatchStatus.STAGED) {
+      throw new Error(`Project workbook cannot be applied from status ${batch.status}`);
+    }
+
+    const sheetOrder: string[] = Object.values(PROJECT_WORKBOOK_SHEETS);
+    const actionOrder: WorkbookChangeAction[] = ['CREATE', 'UPDATE', 'DELETE'];
+    const changes = batch.rows
+      .filter(row => !row.errors)
+      .map(row => row.data as unknown as WorkbookChange)
+      .sort(
+        (a, b) =>
+          sheetOrder.indexOf(a.sheet) - sheetOrder.indexOf(b.sheet) ||
+          actionOrder.indexOf(a.action) - actionOrder.indexOf(b.action) ||
+          a.rowNumber - b.rowNumber
+      );
+
+    // Claim the batch so a second apply running alongside, or a retry, finds nothing to apply
+    const claimed = await this.prisma.importBatch.updateMany({
+      where: { id: batchId, status: ImportBatchStatus.STAGED },
+      data: { status: ImportBatchStatus.COMMITTED, committedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new Error('Project workbook cannot be applied as it is no longer staged');
+    }
+
+    const result: ProjectWorkbookResult = {
+      batchId,
+      applied: sheetOrder.map(sheet => ({ sheet, created: 0, updated: 0, deleted: 0 })),
+      conflicts: [],
+      failures: [],
+    };
+
+    try {
+      for (const change of changes) {
+        try {
+          await this.applyChange(projectId, change, userId, role);
+          const applied = result.applied.find(entry => entry.sheet === change.sheet);
+          if (change.action === 'CREATE') applied.created += 1;
+          if (change.action === 'UPDATE') applied.updated += 1;
+          if (change.action === 'DELETE') applied.deleted += 1;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          const issue: WorkbookRowIssue = {
+            sheet: change.sheet,
+            rowNumber: change.rowNumber,
+            entityId: change.entityId,
+            kind: message === 'Version conflict' ? 'CONFLICT' : 'ERROR',
+            message:
+              message === 'Version conflict'
+                ? 'Row was changed by someone else after the preview; it was not applied'
+                : message,
+          };
+          if (issue.kind === 'CONFLICT') {
+            result.conflicts.push(issue);
+          } else {
+            result.failures.push(issue);
+          }
+        }
+      }
+
+      await this.prisma.importBatch.update({
+        where: { id: batchId },
+        data: {
+          result: {
+            ...((batch.result as Record<string, unknown>) || {}),
+            ...result,
+          } as unknown as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      // Some rows may be in by now, so the batch must not go back to staged for another try
+      await this.prisma.importBatch.update({
+        where: { id: batchId },
+        data: {
+          status: ImportBatchStatus.FAILED,
+          result: {
+            ...result,
+            error: error instanceof Error ? error.message : String(error),
+          } as unknown as Prisma.InputJsonValue,
+        },
+      });
+      logger.error('Failed to apply project workbook', { error, projectId, batchId });
+      throw error;
+    }
+
+    await AuditLogService.logCreate('IMPORT_BATCH', batchId, userId, role, {
+      fileName: batch.fileName,
+      projectId,
+      ...result,
+    });
+
+    logger.info('Project workbook applied', {
+      batchId,
+      projectId,
+      conflicts: result.conflicts.length,
+      failures: result.failures.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Discard a staged project workbook
+   */
+  async discardBatch(projectId: string, batchId: string): Promise<void> {
+    try {
+      const batch = await this.findBatch(projectId, batchId);
+
+      if (batch.status === ImportBatchStatus.COMMITTED) {
+        throw new Error('Applied project workbook cannot be discarded');
+      }
+
+      await this.prisma.$transaction([
+        this.prisma.importStagingRow.deleteMany({ where: { batchId } }),
+        this.prisma.importBatch.update({
+          where: { id: batchId },
+          data: { status: ImportBatchStatus.DISCARDED },
+        }),
+      ]);
+    } catch (error) {
+      logger.error('Failed to discard project workbook', { error, projectId, batchId });
+      throw error;
+    }
+  }
+
+  private async loadProject(projectId: string): Promise<WorkbookProject> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      include: projectInclude,
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    return project;
+  }
+
+  private async findBatch(projectId: string, batchId: string) {
+    const batch = await this.prisma.importBatch.findFirst({
+      where: { id: batchId, projectId, kind: ImportBatchKind.PROJECT_WORKBOOK },
+      include: { rows: { orderBy: [{ sheet: 'asc' }, { rowNumber: 'asc' }] } },
+    });
+
+    if (!batch) {
+      throw new Error('Project workbook not found');
+    }
+
+    return batch;
+  }
+
+  private addSheet(
+    workbook: ExcelJS.Workbook,
+    key: ProjectWorkbookSheetKey,
+    rows: unknown[][],
+    phaseOptions: string[] = []
+  ): void {
+    const columns = [...ID_COLUMNS, ...SHEET_COLUMNS[key]];
+    const sheet = workbook.addWorksheet(PROJECT_WORKBOOK_SHEETS[key], {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    });
+
+    sheet.columns = columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: column.width,
+      hidden: ID_COLUMNS.includes(column),
+      style: column.format === 'date' ? { numFmt: DATE_FORMAT } : undefined,
+    }));
+    sheet.addRows(rows);
+
+    const header = sheet.getRow(1);
+    header.eachCell(cell => {
+      cell.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: BRAND_COLOR } };
+    });
+
+    const lastRow = rows.length + 1 + EXTRA_VALIDATED_ROWS;
+    columns.forEach((column, index) => {
+      const options = column.key === 'phase' && !column.readOnly ? phaseOptions : column.options;
+      for (let rowNumber = 2; rowNumber <= lastRow; rowNumber++) {
+        const cell = sheet.getRow(rowNumber).getCell(index + 1);
+        if (options?.length) {
+          cell.dataValidation = {
+            type: 'list',
+            allowBlank: true,
+            formulae: [`"${options.join(',')}"`],
+          };
+        }
+        if (column.readOnly && rowNumber <= rows.length + 1) {
+          cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: READ_ONLY_FILL } };
+        }
+      }
+    });
+  }
+
+  private checkWorkbookInfo(workbook: ExcelJS.Workbook, projectId: string): void {
+    const info = workbook.getWorksheet(INFO_SHEET);
+    if (!info) {
+      throw new Error('Invalid workbook: it was not exported from this system');
+    }
+
+    const values = new Map<string, unknown>();
+    info.eachRow(row =>
+      values.set(cellText(row.getCell(1).value), cellValue(row.getCell(2).value))
+    );
+
+    if (cellText(values.get('Project ID')) !== projectId) {
+      throw new Error('Invalid workbook: it belongs to a different project');
+    }
+    if (cellNumber(values.get('Format Version')) !== WORKBOOK_FORMAT_VERSION) {
+      throw new Error('Invalid workbook: unsupported format version');
+    }
+  }
+
+  private readSheet(workbook: ExcelJS.Workbook, key: ProjectWorkbookSheetKey): SheetRow[] {
+    const sheet = workbook.getWorksheet(PROJECT_WORKBOOK_SHEETS[key]);
+    if (!sheet) return [];
+
+    // Match columns by header so reordered or inserted columns still parse
+    const columns = [...ID_COLUMNS, ...SHEET_COLUMNS[key]];
+    const keysByColumn = new Map<number, string>();
+    sheet.getRow(1).eachCell((cell, columnNumber) => {
+      const header = cellText(cellValue(cell.value)).toLowerCase();
+      const column = columns.find(candidate => candidate.header.toLowerCase() === header);
+      if (column) keysByColumn.set(columnNumber, column.key);
+    });
+
+    if (![...keysByColumn.values()].includes('id')) {
+      throw new Error(`Invalid workbook: sheet "${sheet.name}" is missing its id column`);
+    }
+
+    const rows: SheetRow[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+      const values: Record<string, unknown> = {};
+      keysByColumn.forEach((columnKey, columnNumber) => {
+        values[columnKey] = cellValue(row.getCell(columnNumber).value);
+      });
+      if (Object.values(values).some(value => cellText(value) !== '')) {
+        rows.push({ rowNumber, values });
+      }
+    });
+    return rows;
+  }
+
+  private diffSheet<T extends { id: string; version: number }>(
+    spec: SheetSpec<T>,
+    rows: SheetRow[]
+  ): { changes: WorkbookChange[]; issues: WorkbookRowIssue[]; unchanged: number } {
+    const sheet = PROJECT_WORKBOOK_SHEETS[spec.key];
+    const headers = new Map(SHEET_COLUMNS[spec.key].map(column => [column.key, column.header]));
+    const entities = new Map(spec.entities.map(entity => [entity.id, entity]));
+    const seen = new Set<string>();
+    const changes: WorkbookChange[] = [];
+    const issues: WorkbookRowIssue[] = [];
+    let unchanged = 0;
+
+    for (const row of rows) {
+      const id = cellText(row.values.id) || null;
+      const version = cellNumber(row.values.version) ?? null;
+      const issue = (kind: WorkbookRowIssue['kind'], message: string) =>
+        issues.push({ sheet, rowNumber: row.rowNumber, entityId: id, kind, message });
+
+      if (id && seen.has(id)) {
+        issue('ERROR', 'Row appears more than once in the sheet');
+        continue;
+      }
+      if (id) seen.add(id);
+
+      const existing = id ? entities.get(id) : undefined;
+      if (id && !existing) {
+        issue('ERROR', 'Row no longer exists or does not belong to this project');
+        continue;
+      }
+      if (existing && version === null) {
+        issue('ERROR', 'Row is missing its version');
+        continue;
+      }
+      const stale = !!existing && existing.version !== version;
+      const staleMessage = `Row was changed by someone else since it was exported (version ${version} in the workbook, ${existing?.version} now)`;
+
+      if ('delete' in row.values && isYes(row.values.delete)) {
+        if (!existing) continue;
+        if (!spec.canDelete) {
+          issue('ERROR', 'Rows cannot be deleted from this sheet');
+        } else if (stale) {
+          issue('CONFLICT', staleMessage);
+        } else {
+          const before = spec.snapshot(existing);
+          changes.push({
+            sheet,
+            rowNumber: row.rowNumber,
+            action: 'DELETE',
+            entityId: id,
+            version,
+            label: spec.resolve(row.values, existing).label,
+            fields: Object.entries(before)
+              .filter(([, from]) => from !== null)
+              .map(([field, from]) => ({ field: headers.get(field) || field, from, to: null })),
+            input: {},
+          });
+        }
+        continue;
+      }
+
+      if (!existing && !spec.canCreate) {
+        issue('ERROR', 'Rows cannot be added to this sheet');
+        continue;
+      }
+
+      const resolved = spec.resolve(row.values, existing);
+      if (resolved.errors.length) {
+        issue('ERROR', resolved.errors.join('; '));
+        continue;
+      }
+
+      const before = existing ? spec.snapshot(existing) : {};
+      const fields = Object.entries(resolved.values)
+        .filter(([field, to]) => comparable(before[field] ?? null) !== comparable(to))
+        .map(([field, to]) => ({ field, from: before[field] ?? null, to }));
+
+      if (existing && fields.length === 0) {
+        unchanged += 1;
+        continue;
+      }
+      if (stale) {
+        issue('CONFLICT', staleMessage);
+        continue;
+      }
+
+      const locked = fields.filter(change => spec.immutable?.includes(change.field));
+      if (existing && locked.length) {
+        issue(
+          'ERROR',
+          `${locked.map(change => headers.get(change.field)).join(', ')} cannot be changed on an existing row; delete it and add a new row instead`
+        );
+        continue;
+      }
+
+      changes.push({
+        sheet,
+        rowNumber: row.rowNumber,
+        action: existing ? 'UPDATE' : 'CREATE',
+        entityId: id,
+        version,
+        label: resolved.label,
+        fields: fields.map(change => ({
+          ...change,
+          field: headers.get(change.field) || change.field,
+        })),
+        input: resolved.input,
+      });
+    }
+
+    return { changes, issues, unchanged };
+  }
+
+  private buildSpecs(project: WorkbookProject, users: NameCandidate[]) {
+    const phasesByName = new Map(project.phases.map(phase => [phase.name as string, phase]));
+    const phaseNameOf = (phaseId: string) =>
+      project.phases.find(phase => phase.id === phaseId)?.name || null;
+
+    const resolvePhase = (value: unknown, errors: string[]) => {
+      const name = cellText(value)
+        .toUpperCase()
+        .replace(/[\s-]+/g, '_');
+      const phase = phasesByName.get(name);
+      if (!phase) errors.push(name ? `Unknown phase "${cellText(value)}"` : 'Phase is required');
+      return phase;
+    };
+    const resolveUser = (value: unknown, label: string, errors: string[], required = true) => {
+      const name = cellText(value);
+      if (!name) {
+        if (required) errors.push(`${label} is required`);
+        return null;
+      }
+      const match = resolveName(name, users);
+      if (!match) errors.push(`${label} "${name}" does not match a single active user`);
+      return match;
+    };
+    const requireDate = (value: unknown, label: string, errors: string[]) => {
+      const date = toIsoDate(value);
+      if (!date) errors.push(`${label} is missing or not a date`);
+      return date || null;
+    };
+    const optionalDate = (value: unknown, label: string, errors: string[]) => {
+      if (cellText(value) === '') return null;
+      const date = toIsoDate(value);
+      if (!date) errors.push(`${label} is not a date`);
+      return date || null;
+    };
+    const requireNumber = (value: unknown, label: string, errors: string[], min = 0) => {
+      const number = cellNumber(value);
+      if (number === undefined || number < min) {
+        errors.push(`${label} must be a number of at least ${min}`);
+        return null;
+      }
+      return number;
+    };
+    const requireEnum = <T extends string>(
+      value: unknown,
+      values: Record<string, T>,
+      label: string,
+      errors: string[]
+    ) => {
+      const option = toEnum(value, values);
+      if (!option) errors.push(`${label} must be one of ${enumOptions(values).join(', ')}`);
+      return option || null;
+    };
+
+    const phases: SheetSpec<WorkbookProject['phases'][number]> = {
+      key: 'phases',
+      entities: project.phases,
+      canCreate: false,
+      canDelete: false,
+      snapshot: phase => ({
+        status: phase.status,
+        startDate: toIsoDate(phase.startDate),
+        duration: phase.duration,
+      }),
+      resolve: (values, existing) => {
+        const errors: string[] = [];
+        const status = requireEnum(values.status, PhaseStatus, 'Status', errors);
+        const startDate = requireDate(values.startDate, 'Start Date', errors);
+        const duration = requireNumber(values.duration, 'Duration (Days)', errors, 1);
+        return {
+          label: humanize(existing?.name || cellText(values.phase)),
+          values: { status, startDate, duration },
+          input: {
+            status,
+            startDate,
+            duration,
+            estimatedEndDate: startDate && duration ? addDays(startDate, duration) : null,
+          },
+          errors,
+        };
+      },
+    };
+
+    const assignments: SheetSpec<WorkbookProject['phases'][number]['assignments'][number]> = {
+      key: 'assignments',
+      entities: project.phases.flatMap(phase => phase.assignments),
+      canCreate: true,
+      canDelete: true,
+      immutable: ['phase', 'teamMember'],
+      snapshot: assignment => ({
+        phase: phaseNameOf(assignment.phaseId),
+        teamMember: assignment.teamMember.name,
+        role: assignment.role,
+        workingPercentage: Number(assignment.workingPercentage),
+        startDate: toIsoDate(assignment.startDate),
+        endDate: toIsoDate(assignment.endDate) || null,
+      }),
+      resolve: values => {
+        const errors: string[] = [];
+        const phase = resolvePhase(values.phase, errors);
+        const member = resolveUser(values.teamMember, 'Team Member', errors);
+        const role = requireEnum(values.role, AssignmentRole, 'Role', errors);
+        const workingPercentage = requireNumber(values.workingPercentage, 'Working %', errors);
+        if (workingPercentage !== null && workingPercentage > 100) {
+          errors.push('Working % cannot exceed 100');
+        }
+        const startDate = requireDate(values.startDate, 'Start Date', errors);
+        const endDate = optionalDate(values.endDate, 'End Date', errors);
+        if (startDate && endDate && endDate < startDate) {
+          errors.push('End Date must be on or after Start Date');
+        }
+        return {
+          label: `${member?.name || cellText(values.teamMember)} (${humanize(phase?.name || '')})`,
+          values: {
+            phase: phase?.name || null,
+            teamMember: member?.name || null,
+            role,
+            workingPercentage,
+            startDate,
+            endDate,
+          },
+          input: {
+            phaseId: phase?.id || null,
+            teamMemberId: member?.id || null,
+            role,
+            workingPercentage,
+            startDate,
+            endDate,
+          },
+          errors,
+        };
+      },
+    };
+
+    const tasks: SheetSpec<WorkbookProject['phases'][number]['tasks'][number]> = {
+      key: 'tasks',
+      entities: project.phases.flatMap(phase => phase.tasks),
+      canCreate: true,
+      canDelete: true,
+      immutable: ['phase'],
+      snapshot: task => ({
+        phase: phaseNameOf(task.phaseId),
+        code: task.code,
+        description: task.description,
+        duration: task.duration,
+        status: task.status,
+        assignedTo: task.assignedTeamMember?.name || null,
+        startDate: toIsoDate(task.startDate) || null,
+        endDate: toIsoDate(task.endDate) || null,
+      }),
+      resolve: values => {
+        const errors: string[] = [];
+        const phase = resolvePhase(values.phase, errors);
+        const code = cellText(values.code);
+        if (!code) errors.push('Code is required');
+        const description = cellText(values.description);
+        if (!description) errors.push('Description is required');
+        const duration = requireNumber(values.duration, 'Duration (Days)', errors);
+        const status =
+          cellText(values.status) === ''
+            ? TaskStatus.PLANNED
+            : requireEnum(values.status, TaskStatus, 'Status', errors);
+        const assignee = resolveUser(values.assignedTo, 'Assigned To', errors, false);
+        const startDate = optionalDate(values.startDate, 'Start Date', errors);
+        const endDate = optionalDate(values.endDate, 'End Date', errors);
+        if (startDate && endDate && endDate < startDate) {
+          errors.push('End Date must be on or after Start Date');
+        }
+        return {
+          label: code || `Row ${cellText(values.description).slice(0, 30)}`,
+          values: {
+            phase: phase?.name || null,
+            code,
+            description,
+            duration,
+            status,
+            assignedTo: assignee?.name || null,
+            startDate,
+            endDate,
+          },
+          input: {
+            phaseId: phase?.id || null,
+            code,
+            description,
+            duration,
+            status,
+            assignedTeamMemberId: assignee?.id || null,
+            startDate,
+            endDate,
+          },
+          errors,
+        };
+      },
+    };
+
+    const costs: SheetSpec<WorkbookProject['costEntries'][number]> = {
+      key: 'costs',
+      entities: project.costEntries,
+      canCreate: true,
+      canDelete: true,
+      immutable: ['phase', 'employee', 'period'],
+      snapshot: entry => ({
+        phase: phaseNameOf(entry.phaseId),
+        employee: entry.employee.name,
+        period: toIsoDate(entry.period),
+        costType: entry.costType,
+        costAmount: Number(entry.costAmount),
+        description: entry.description || null,
+      }),
+      resolve: values => {
+        const errors: string[] = [];
+        const phase = resolvePhase(values.phase, errors);
+        const employee = resolveUser(values.employee, 'Employee', errors);
+        const period = requireDate(values.period, 'Period', errors);
+        const costType = requireEnum(values.costType, CostType, 'Cost Type', errors);
+        const costAmount = requireNumber(values.costAmount, 'Amount', errors);
+        const description = cellText(values.description) || null;
+        return {
+          label: `${employee?.name || cellText(values.employee)} ${period || ''}`.trim(),
+          values: {
+            phase: phase?.name || null,
+            employee: employee?.name || null,
+            period,
+            costType,
+            costAmount,
+            description,
+          },
+          input: {
+            phaseId: phase?.id || null,
+            employeeId: employee?.id || null,
+            period,
+            costType,
+            costAmount,
+            description,
+          },
+          errors,
+        };
+      },
+    };
+
+    const requirements: SheetSpec<WorkbookProject['projectRequirements'][number]> = {
+      key: 'requirements',
+      entities: project.projectRequirements,
+      canCreate: true,
+      canDelete: true,
+      snapshot: requirement => ({
+        description: requirement.description,
+        sortOrder: requirement.sortOrder,
+        completed: requirement.isCompleted,
+      }),
+      resolve: values => {
+        const errors: string[] = [];
+        const description = cellText(values.description);
+        if (!description) errors.push('Description is required');
+        const sortOrder = cellText(values.sortOrder) === '' ? 0 : cellNumber(values.sortOrder);
+        if (sortOrder === undefined || !Number.isInteger(sortOrder)) {
+          errors.push('Sort Order must be a whole number');
+        }
+        const completed = isYes(values.completed);
+        return {
+          label: description.slice(0, 40),
+          values: { description, sortOrder: sortOrder ?? null, completed },
+          input: { description, sortOrder: sortOrder ?? null, completed },
+          errors,
+        };
+      },
+    };
+
+    return [phases, assignments, tasks, costs, requirements] as Array<
+      SheetSpec<{ id: string; version: number }>
+    >;
+  }
+
+  private async applyChange(
+    projectId: string,
+    change: WorkbookChange,
+    userId: string,
+    role: UserRole
+  ): Promise<void> {
+    const { input, entityId } = change;
+    const date = (value: WorkbookCellValue) => (value ? new Date(String(value)) : null);
+
+    if (change.action === 'DELETE') {
+      // The services delete unconditionally, so re-check the version first
+      if ((await this.currentVersion(change.sheet, entityId)) !== change.version) {
+        throw new Error('Version conflict');
+      }
+    }
+
+    switch (change.sheet) {
+      case PROJECT_WORKBOOK_SHEETS.phases:
+        await this.projectService.updatePhase(
+          entityId,
+          {
+            status: input.status as PhaseStatus,
+            startDate: date(input.startDate),
+            duration: Number(input.duration),
+            estimatedEndDate: date(input.estimatedEndDate),
+            version: change.version,
+          },
+          userId,
+          role
+        );
+        return;
+
+      case PROJECT_WORKBOOK_SHEETS.assignments:
+        if (change.action === 'CREATE') {
+          await teamService.assignTeamMember(
+            {
+              phaseId: String(input.phaseId),
+              teamMemberId: String(input.teamMemberId),
+              role: input.role as AssignmentRole,
+              workingPercentage: Number(input.workingPercentage),
+              startDate: date(input.startDate),
+              endDate: date(input.endDate) || undefined,
+            },
+            userId,
+            role
+          );
+        } else if (change.action === 'UPDATE') {
+          await teamService.updateAssignment(
+            entityId,
+            {
+              role: input.role as AssignmentRole,
+              workingPercentage: Number(input.workingPercentage),
+              startDate: date(input.startDate),
+              endDate: date(input.endDate),
+              version: change.version,
+            },
+            userId,
+            role
+          );
+        } else {
+          await teamService.removeAssignment(entityId, userId, role);
+        }
+        return;
+
+      case PROJECT_WORKBOOK_SHEETS.tasks:
+        if (change.action === 'CREATE') {
+          await this.taskService.createTask(
+            {
+              phaseId: String(input.phaseId),
+              code: String(input.code),
+              description: String(input.description),
+              duration: Number(input.duration),
+              status: input.status as TaskStatus,
+              assignedTeamMemberId: (input.assignedTeamMemberId as string) || undefined,
+              startDate: date(input.startDate) || undefined,
+              endDate: date(input.endDate) || undefined,
+            },
+            userId,
+            role
+          );
+        } else if (change.action === 'UPDATE') {
+          await this.taskService.updateTask(
+            entityId,
+            {
+              code: String(input.code),
+              description: String(input.description),
+              duration: Number(input.duration),
+              status: input.status as TaskStatus,
+              assignedTeamMemberId: (input.assignedTeamMemberId as string) || null,
+              startDate: date(input.startDate),
+              endDate: date(input.endDate),
+              version: change.version,
+            },
+            userId,
+            role
+          );
+        } else {
+          await this.taskService.deleteTask(entityId, userId, role);
+        }
+        return;
+
+      case PROJECT_WORKBOOK_SHEETS.costs:
+        if (change.action === 'CREATE') {
+          await costService.createCostEntry(
+            {
+              projectId,
+              phaseId: String(input.phaseId),
+              employeeId: String(input.employeeId),
+              period: date(input.period),
+              costAmount: Number(input.costAmount),
+              costType: input.costType as CostType,
+              description: (input.description as string) || undefined,
+            },
+            userId,
+            role
+          );
+        } else if (change.action === 'UPDATE') {
+          await costService.updateCostEntry(
+            entityId,
+            {
+              costAmount: Number(input.costAmount),
+              costType: input.costType as CostType,
+              description: (input.description as string) || undefined,
+              version: change.version,
+            },
+            userId,
+            role
+          );
+        } else {
+          await costService.deleteCostEntry(entityId, userId, role);
+        }
+        return;
+
+      case PROJECT_WORKBOOK_SHEETS.requirements:
+        if (change.action === 'CREATE') {
+          const requirement = await requirementService.createRequirement(
+            { description: String(input.description), sortOrder: Number(input.sortOrder) },
+            projectId,
+            userId,
+            role
+          );
+          if (input.completed) {
+            await requirementService.completeRequirement(requirement.id, true, userId, role);
+          }
+        } else if (change.action === 'UPDATE') {
+          const requirement = await requirementService.updateRequirement(
+            entityId,
+            {
+              description: String(input.description),
+              sortOrder: Number(input.sortOrder),
+              version: change.version,
+            },
+            userId,
+            role
+          );
+          if (requirement.isCompleted !== Boolean(input.completed)) {
+            await requirementService.completeRequirement(
+              entityId,
+              Boolean(input.completed),
+              userId,
+              role
+            );
+          }
+        } else {
+          await requirementService.deleteRequirement(entityId, userId, role);
+        }
+        return;
+
+      default:
+        throw new Error(`Unknown sheet ${change.sheet}`);
+    }
+  }
+
+  private async currentVersion(sheet: string, id: string): Promise<number | undefined> {
+    const select = { version: true };
+    switch (sheet) {
+      case PROJECT_WORKBOOK_SHEETS.assignments:
+        return (await this.prisma.assignment.findUnique({ where: { id }, select }))?.version;
+      case PROJECT_WORKBOOK_SHEETS.tasks:
+        return (await this.prisma.task.findUnique({ where: { id }, select }))?.version;
+      case PROJECT_WORKBOOK_SHEETS.costs:
+        return (await this.prisma.costEntry.findUnique({ where: { id }, select }))?.version;
+      case PROJECT_WORKBOOK_SHEETS.requirements:
+        return (await this.prisma.projectRequirement.findUnique({ where: { id }, select }))
+          ?.version;
+      default:
+        return undefined;
+    }
+  }
+}
+
+export default new ProjectWorkbookService();
@@ -0,0 +1,212 @@
+import { PrismaClient, Qualification, QualificationKind, UserRole } from '@prisma/client';
+import logger from '../utils/logger';
+import AuditLogService from './auditLogService';
+import { prisma } from './prismaClient';
+
+export interface QualificationInput {
+  kind: QualificationKind;
+  /** License or project type as used on projects, or the skill's name */
+  name: string;
+  certificateNumber?: string | null;
+  issuedAt?: Date | null;
+  expiresAt?: Date | null;
+}
+
+export interface UpdateQualificationInput extends Partial<QualificationInput> {
+  version: number;
+}
+
+const toDate = (value: Date | null | undefined): Date | null | undefined => {
+  if (value === undefined || value === null) return value;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error('Qualification dates must be valid dates');
+  }
+  return date;
+};
+
+/**
+ * Skills and certifications of team members, with the dates they lapse.
+ * Staffing suggestions match them against a project's license and project type.
+ */
+class QualificationService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  async listForUser(userId: string): Promise<Qualification[]> {
+    try {
+      return await this.prisma.qualification.findMany({
+        where: { userId },
+        orderBy: [{ kind: 'asc' }, { name: 'asc' }],
+      });
+    } catch (error) {
+      logger.error('Failed to list qualifications', { error, userId });
+      throw error;
+    }
+  }
+
+  /** Qualifications of active team members lapsing within a date range */
+  async listExpiring(from: Date, to: Date): Promise<Qualification[]> {
+    try {
+      return await this.prisma.qualification.findMany({
+        where: { expiresAt: { gte: from, lte: to }, user: { isActive: true } },
+        include: { user: { select: { id: true, name: true } } },
+        orderBy: { expiresAt: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Failed to list expiring qualifications', { error, from, to });
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<Qualification> {
+    const qualification = await this.prisma.qualification.findUnique({ where: { id } });
+
+    if (!qualification) {
+      throw new Error('Qualification not found');
+    }
+
+    return qualification;
+  }
+
+  async create(
+    userId: string,
+    input: QualificationInput,
+    createdBy: string,
+    role: UserRole
+  ): Promise<Qualification> {
+    try {
+      const data = this.validate(input);
+
+      const user = await this.prisma.user.findUnique({ where: { id: userId } });
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      await this.assertUnique(userId, data.kind, data.name);
+
+      const qualification = await this.prisma.qualification.create({
+        data: { ...data, userId, createdBy },
+      });
+
+      await AuditLogService.logCreate(
+        'QUALIFICATION',
+        qualification.id,
+        createdBy,
+        role,
+        qualification
+      );
+
+      logger.info('Qualification added', {
+        qualificationId: qualification.id,
+        userId,
+        kind: qualification.kind,
+      });
+
+      return qualification;
+    } catch (error) {
+      logger.error('Failed to add qualification', { error, userId, input });
+      throw error;
+    }
+  }
+
+  async update(
+    id: string,
+    input: UpdateQualificationInput,
+    userId: string,
+    role: UserRole
+  ): Promise<Qualification> {
+    try {
+      const existing = await this.get(id);
+
+      if (existing.version !== input.version) {
+        throw new Error('Version conflict');
+      }
+
+      const data = this.validate({
+        kind: input.kind ?? existing.kind,
+        name: input.name ?? existing.name,
+        certificateNumber:
+          input.certificateNumber !== undefined
+            ? input.certificateNumber
+            : existing.certificateNumber,
+        issuedAt: input.issuedAt !== undefined ? input.issuedAt : existing.issuedAt,
+        expiresAt: input.expiresAt !== undefined ? input.expiresAt : existing.expiresAt,
+      });
+
+      if (data.kind !== existing.kind || data.name !== existing.name) {
+        await this.assertUnique(existing.userId, data.kind, data.name);
+      }
+
+      const qualification = await this.prisma.qualification.update({
+        where: { id },
+        data: { ...data, version: { increment: 1 } },
+      });
+
+      await AuditLogService.logUpdate('QUALIFICATION', id, userId, role, existing, qualification);
+
+      logger.info('Qualification updated', { qualificationId: id });
+
+      return qualification;
+    } catch (error) {
+      logger.error('Failed to update qualification', { error, id, input });
+      throw error;
+    }
+  }
+
+  async remove(id: string, userId: string, role: UserRole): Promise<void> {
+    try {
+      const existing = await this.get(id);
+
+      await this.prisma.qualification.delete({ where: { id } });
+
+      await AuditLogService.logDelete('QUALIFICATION', id, userId, role, existing);
+
+      logger.info('Qualification removed', { qualificationId: id });
+    } catch (error) {
+      logger.error('Failed to remove qualification', { error, id });
+      throw error;
+    }
+  }
+
+  private validate(input: QualificationInput): Required<QualificationInput> {
+    if (!Object.values(QualificationKind).includes(input.kind)) {
+      throw new Error(
+        `Qualification kind must be one of ${Object.values(QualificationKind).join(', ')}`
+      );
+    }
+
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error('Qualification name must be given');
+    }
+
+    const issuedAt = toDate(input.issuedAt) ?? null;
+    const expiresAt = toDate(input.expiresAt) ?? null;
+    if (issuedAt && expiresAt && expiresAt < issuedAt) {
+      throw new Error('Qualification expiry date must be on or after its issue date');
+    }
+
+    return {
+      kind: input.kind,
+      name,
+      certificateNumber: input.certificateNumber?.trim() || null,
+      issuedAt,
+      expiresAt,
+    };
+  }
+
+  private async assertUnique(userId: string, kind: QualificationKind, name: string): Promise<void> {
+    const duplicate = await this.prisma.qualification.findUnique({
+      where: { userId_kind_name: { userId, kind, name } },
+    });
+    if (duplicate) {
+      throw new Error('The user already has this qualification');
+    }
+  }
+}
+
+export default new QualificationService();
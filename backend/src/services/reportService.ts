@@ -1,13 +1,23 @@
 import * as XLSX from 'xlsx';
+import ExcelJS from 'exceljs';
 import logger from '../utils/logger';
-import { AuditAction, PrismaClient } from '@prisma/client';
+import { AuditAction, AuditEntityType, PrismaClient } from '@prisma/client';
 import cacheService from './cacheService';
+import { kpiService, KPILeaderboard, KPILeaderboardFilter } from './kpiService';
+import { buildFollowUpReportWorkbook } from './followUpExcelBuilder';
+import { buildFollowUpReportPdf } from './followUpPdfBuilder';
+import modificationTrackingService from './modificationTrackingService';
+import workingCalendarService from './workingCalendarService';
 
 export interface ProjectFollowUpReport {
   projectId: string;
   projectName: string;
   clientName: string;
   contractCode: string;
+  contractSigningDate: Date;
+  builtUpArea: number;
+  licenseType: string | null;
+  projectType: string | null;
   startDate: Date;
   estimatedEndDate: Date;
   status: string;
@@ -16,6 +26,9 @@ export interface ProjectFollowUpReport {
     status: string;
     startDate: Date;
     endDate: Date | null;
+    duration: number;
+    actualStartDate: Date | null;
+    actualEndDate: Date | null;
     progress: number;
     teamAssignments: Array<{
       teamMember: string;
@@ -31,8 +44,36 @@ export interface ProjectFollowUpReport {
     materialCostTotal: number;
     totalEntries: number;
   };
+  costBreakdown: Array<{
+    phase: string;
+    costType: string;
+    entries: number;
+    amount: number;
+  }>;
+  modifications: Array<{
+    modificationNumber: number;
+    phase: string;
+    date: Date;
+    description: string;
+    requestedBy: string;
+    status: string;
+    isExceptional: boolean;
+    daysGranted: number;
+    daysUsed: number;
+  }>;
+  modificationAllowances: Array<{
+    phase: string;
+    allowedTimes: number;
+    daysPerTime: number;
+    used: number;
+    remaining: number;
+    exceptional: number;
+    daysGranted: number;
+    daysUsed: number;
+  }>;
   tasks: Array<{
     id: string;
+    code: string;
     phase: string;
     description: string;
     assignedTo: string;
@@ -81,6 +122,11 @@ export interface KPISummaryReport {
   generatedBy: string;
 }
 
+export interface KPILeaderboardReport extends KPILeaderboard {
+  generatedAt: Date;
+  generatedBy: string;
+}
+
 export interface CostSummary {
   totalCost: number;
   employeeCostTotal: number;
@@ -96,6 +142,52 @@ class ReportService {
   }
 
   async exportProjectFollowUpReportPDF(projectId: string, userId: string): Promise<any> {
+    const reportData = await this.getProjectFollowUpReport(projectId);
+
+    await this.logReportGeneration(projectId, userId, 'ProjectFollowUp', 'PDF');
+
+    return reportData;
+  }
+
+  async exportProjectFollowUpReportPdfDocument(
+    projectId: string,
+    userId: string
+  ): Promise<{ filename: string; document: PDFKit.PDFDocument; mimeType: string }> {
+    const report = await this.getProjectFollowUpReport(projectId);
+
+    const document = buildFollowUpReportPdf(report);
+
+    await this.logReportGeneration(projectId, userId, 'ProjectFollowUp', 'PDF');
+
+    logger.info('PDF follow-up report generated successfully', { projectId });
+
+    return {
+      filename: `${report.contractCode}-follow-up-${new Date().toISOString().split('T')[0]}.pdf`,
+      document,
+      mimeType: 'application/pdf',
+    };
+  }
+
+  async exportProjectFollowUpReportExcel(
+    projectId: string,
+    userId: string
+  ): Promise<{ filename: string; workbook: ExcelJS.Workbook; mimeType: string }> {
+    const report = await this.getProjectFollowUpReport(projectId);
+
+    const workbook = buildFollowUpReportWorkbook(report);
+
+    await this.logReportGeneration(projectId, userId, 'ProjectFollowUp', 'EXCEL');
+
+    logger.info('Excel follow-up report generated successfully', { projectId });
+
+    return {
+      filename: `${report.contractCode}-follow-up-${new Date().toISOString().split('T')[0]}.xlsx`,
+      workbook,
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    };
+  }
+
+  private async getProjectFollowUpReport(projectId: string): Promise<ProjectFollowUpReport> {
     const project = await this.prisma.project.findUnique({
       where: { id: projectId },
       include: {
@@ -123,12 +215,36 @@ class ReportService {
     }
 
     const costSummary = await this.getCostSummary(projectId);
+    const modifications = await this.getModificationHistory(projectId);
+    const modificationAllowances = await this.getModificationAllowances(projectId);
+    const calendar = await workingCalendarService.getCalendar(project.region);
+
+    const costBreakdown = Object.values(
+      project.costEntries.reduce(
+        (groups: Record<string, ProjectFollowUpReport['costBreakdown'][number]>, entry) => {
+          const key = `${entry.phase.name}:${entry.costType}`;
+          groups[key] = groups[key] || {
+            phase: entry.phase.name,
+            costType: entry.costType,
+            entries: 0,
+            amount: 0,
+          };
+          groups[key].entries += 1;
+          groups[key].amount += Number(entry.costAmount);
+          return groups;
+        },
+        {}
+      )
+    );
 
     const phases = project.phases.map((phase: any) => ({
       phaseName: phase.name,
       status: phase.status,
       startDate: phase.startDate,
       endDate: phase.estimatedEndDate,
+      duration: phase.duration,
+      actualStartDate: phase.actualStartDate,
+      actualEndDate: phase.actualEndDate,
       progress: this.calculatePhaseProgress(phase),
       taskCount: phase.tasks.length,
       completedTasks: phase.tasks.filter((t: any) => t.status === 'COMPLETED').length,
@@ -139,22 +255,21 @@ class ReportService {
       })),
     }));
 
-    const tasks = project.phases.flatMap((phase: any) =>
-      phase.tasks.map((t: any) => {
-        const assignment = phase.assignments.find((a: any) => a.id === t.assignedTeamMemberId);
+    const tasks = project.phases.flatMap(phase =>
+      phase.tasks.map(t => {
+        const assignment = phase.assignments.find(a => a.teamMemberId === t.assignedTeamMemberId);
         const assignedTo = assignment?.teamMember.name || 'Unassigned';
-        const startDate = t.startDate ? new Date(t.startDate).toLocaleDateString() : '';
-        const endDate = t.endDate ? new Date(t.endDate).toLocaleDateString() : '';
+        const startDate = t.startDate ? new Date(t.startDate).toISOString().split('T')[0] : '';
+        const endDate = t.endDate ? new Date(t.endDate).toISOString().split('T')[0] : '';
+        // Task durations are working days, like the workbook's
         const duration =
           startDate && endDate
-            ? Math.ceil(
-              (new Date(endDate).getTime() - new Date(startDate).getTime()) /
-              (1000 * 60 * 60 * 24)
-            )
-            : 0;
+            ? calendar.workingDaysBetween(new Date(startDate), new Date(endDate))
+            : t.duration;
 
         return {
           id: t.id,
+          code: t.code,
           phase: phase.name,
           description: t.description,
           assignedTo,
@@ -171,16 +286,21 @@ class ReportService {
       projectName: project.name,
       clientName: project.client.name,
       contractCode: project.contractCode,
+      contractSigningDate: project.contractSigningDate,
+      builtUpArea: Number(project.builtUpArea),
+      licenseType: project.licenseType,
+      projectType: project.projectType,
       startDate: project.startDate,
       estimatedEndDate: project.estimatedEndDate,
       status: project.status,
       phases,
       costSummary,
+      costBreakdown,
+      modifications,
+      modificationAllowances,
       tasks,
     };
 
-    await this.logReportGeneration(projectId, userId, 'ProjectFollowUp', 'PDF');
-
     return reportData;
   }
 
@@ -333,7 +453,7 @@ class ReportService {
     const employee = await this.prisma.user.findUnique({
       where: { id: employeeId },
       include: {
-        kpiEntries: true,
+        kpiEntries: { where: { status: 'CONFIRMED' } },
       },
     });
 
@@ -375,6 +495,90 @@ class ReportService {
     return reportData;
   }
 
+  async getKPILeaderboardReport(
+    filter: KPILeaderboardFilter,
+    userId: string
+  ): Promise<KPILeaderboardReport> {
+    const leaderboard = await kpiService.getLeaderboard(filter);
+
+    await this.logReportGeneration('kpi-leaderboard', userId, 'KPILeaderboard', 'JSON');
+
+    return { ...leaderboard, generatedAt: new Date(), generatedBy: userId };
+  }
+
+  async exportKPILeaderboardExcel(
+    filter: KPILeaderboardFilter,
+    userId: string
+  ): Promise<{ filename: string; buffer: Buffer; mimeType: string }> {
+    const leaderboard = await kpiService.getLeaderboard(filter);
+    const day = (date: Date) => date.toISOString().split('T')[0];
+
+    const workbook = XLSX.utils.book_new();
+
+    const summarySheet = XLSX.utils.aoa_to_sheet([
+      ['Period', `${day(leaderboard.period.startDate)} - ${day(leaderboard.period.endDate)}`],
+      [
+        'Compared With',
+        `${day(leaderboard.previousPeriod.startDate)} - ${day(leaderboard.previousPeriod.endDate)}`,
+      ],
+      ['Region', leaderboard.region || 'All'],
+      ['Position', leaderboard.position || 'All'],
+      ['Phase', leaderboard.phaseType || 'All'],
+      ['Employees', leaderboard.rows.length],
+      ['Lower Quartile', leaderboard.quartiles.lower ?? ''],
+      ['Median', leaderboard.quartiles.median ?? ''],
+      ['Upper Quartile', leaderboard.quartiles.upper ?? ''],
+    ]);
+
+    const factorLabels = leaderboard.rows[0]?.factors.map(factor => factor.label) || [];
+    const rankingSheet = XLSX.utils.aoa_to_sheet([
+      [
+        'Rank',
+        'Quartile',
+        'Employee',
+        'Region',
+        'Position',
+        'Entries',
+        'Average Score',
+        'Grade',
+        'Previous Score',
+        'Change',
+        'Rank Change',
+        'Main Driver',
+        ...factorLabels.map(label => `${label} Reduction`),
+      ],
+      ...leaderboard.rows.map(row => [
+        row.rank,
+        `Q${row.quartile}`,
+        row.employeeName,
+        row.region || '',
+        row.position || '',
+        row.entries,
+        row.averageScore,
+        row.gradeBand || '',
+        row.previousAverageScore ?? '',
+        row.scoreDelta ?? '',
+        row.rankChange ?? '',
+        row.factors.find(factor => factor.code === row.mainDriver)?.label || '',
+        ...row.factors.map(factor => factor.reduction),
+      ]),
+    ]);
+
+    XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+    XLSX.utils.book_append_sheet(workbook, rankingSheet, 'Leaderboard');
+
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    await this.logReportGeneration('kpi-leaderboard', userId, 'KPILeaderboard', 'EXCEL');
+
+    const { startDate, endDate } = leaderboard.period;
+    return {
+      filename: `kpi-leaderboard-${day(startDate)}-${day(endDate)}.xlsx`,
+      buffer,
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    };
+  }
+
   async getCostSummary(projectId: string): Promise<CostSummary> {
     const costEntries = await this.prisma.costEntry.findMany({
       where: { projectId },
@@ -404,6 +608,51 @@ class ReportService {
     };
   }
 
+  /**
+   * Client modifications requested on the project's phases, oldest first
+   */
+  private async getModificationHistory(
+    projectId: string
+  ): Promise<ProjectFollowUpReport['modifications']> {
+    const modifications = await this.prisma.clientModification.findMany({
+      where: { phase: { projectId } },
+      include: { phase: { select: { name: true } } },
+      orderBy: [{ requestDate: 'asc' }, { modificationNumber: 'asc' }],
+    });
+
+    return modifications.map(modification => ({
+      modificationNumber: modification.modificationNumber,
+      phase: modification.phase.name,
+      date: modification.requestDate,
+      description: modification.description,
+      requestedBy: modification.requestedBy,
+      status: modification.status,
+      isExceptional: modification.isExceptional,
+      daysGranted: modification.daysGranted,
+      daysUsed: modification.daysConsumed,
+    }));
+  }
+
+  /**
+   * Each phase's own modification allowance and how much of it is used
+   */
+  private async getModificationAllowances(
+    projectId: string
+  ): Promise<ProjectFollowUpReport['modificationAllowances']> {
+    const stats = await modificationTrackingService.getModificationStats(projectId);
+
+    return stats.phases.map(phase => ({
+      phase: phase.phaseName,
+      allowedTimes: phase.totalAllowed,
+      daysPerTime: phase.daysPerTime,
+      used: phase.totalUsed,
+      remaining: phase.remaining,
+      exceptional: phase.exceptionalCount,
+      daysGranted: phase.daysGranted,
+      daysUsed: phase.daysUsed,
+    }));
+  }
+
   private calculatePhaseProgress(phase: any): number {
     if (!phase.tasks || phase.tasks.length === 0) {
       return 0;
@@ -421,10 +670,11 @@ class ReportService {
   ): Promise<void> {
     await this.prisma.auditLog.create({
       data: {
-        entityType: 'Report',
+        entityType: AuditEntityType.REPORT,
         entityId: entityId,
         action: AuditAction.CREATE,
         changedBy: userId,
+        changes: { reportType, format },
         timestamp: new Date(),
       },
     });
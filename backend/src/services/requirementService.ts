@@ -11,6 +11,7 @@ export interface CreateRequirementInput {
 export interface UpdateRequirementInput {
   description?: string;
   sortOrder?: number;
+  version?: number;
 }
 
 class RequirementService {
@@ -36,7 +37,7 @@ class RequirementService {
       });
 
       await AuditLogService.logCreate(
-        'ProjectRequirement',
+        'PROJECT_REQUIREMENT',
         requirement.id,
         userId,
         userRole,
@@ -67,16 +68,21 @@ class RequirementService {
         throw new Error('Requirement not found');
       }
 
+      if (input.version !== undefined && existing.version !== input.version) {
+        throw new Error('Version conflict');
+      }
+
       const requirement = await this.prisma.projectRequirement.update({
         where: { id },
         data: {
           description: input.description,
           sortOrder: input.sortOrder,
+          version: { increment: 1 },
         },
       });
 
       await AuditLogService.logUpdate(
-        'ProjectRequirement',
+        'PROJECT_REQUIREMENT',
         id,
         userId,
         userRole,
@@ -117,11 +123,12 @@ class RequirementService {
           isCompleted,
           completedAt,
           completedBy,
+          version: { increment: 1 },
         },
       });
 
       await AuditLogService.logStatusChange(
-        'ProjectRequirement',
+        'PROJECT_REQUIREMENT',
         id,
         userId,
         userRole,
@@ -157,7 +164,7 @@ class RequirementService {
       });
 
       await AuditLogService.logDelete(
-        'ProjectRequirement',
+        'PROJECT_REQUIREMENT',
         id,
         userId,
         userRole,
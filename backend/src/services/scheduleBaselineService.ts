@@ -0,0 +1,249 @@
+import {
+  BaselineKind,
+  BaselinePhase,
+  BaselineTask,
+  PhaseStatus,
+  PrismaClient,
+  ScheduleBaseline,
+  UserRole,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import AuditLogService from './auditLogService';
+import { prisma } from './prismaClient';
+import workingCalendarService from './workingCalendarService';
+
+export interface CaptureBaselineInput {
+  name: string;
+  kind?: BaselineKind;
+  changeOrderId?: string;
+}
+
+export type ScheduleBaselineDetail = ScheduleBaseline & {
+  phases: BaselinePhase[];
+  tasks: BaselineTask[];
+};
+
+/**
+ * Planned against actual dates of one phase, in working days. Positive
+ * variances are late. Phases added after the baseline have no plan.
+ */
+export interface PhaseVariance {
+  phaseId: string;
+  phaseName: string;
+  status: PhaseStatus;
+  plannedStartDate: Date | null;
+  plannedEndDate: Date | null;
+  actualStartDate: Date | null;
+  actualEndDate: Date | null;
+  /** The actual end once completed, else the current estimate */
+  forecastEndDate: Date;
+  startVarianceDays: number | null;
+  endVarianceDays: number | null;
+  /** Late days only; what the phase's KPI entries record */
+  delayedDays: number;
+}
+
+export interface ScheduleVarianceReport {
+  projectId: string;
+  baseline: Pick<ScheduleBaseline, 'id' | 'name' | 'kind' | 'createdAt'> | null;
+  plannedEndDate: Date | null;
+  forecastEndDate: Date;
+  endVarianceDays: number | null;
+  phases: PhaseVariance[];
+}
+
+class ScheduleBaselineService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  async listForProject(projectId: string): Promise<ScheduleBaseline[]> {
+    try {
+      return await this.prisma.scheduleBaseline.findMany({
+        where: { projectId },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Failed to list schedule baselines', { error, projectId });
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<ScheduleBaselineDetail> {
+    const baseline = await this.prisma.scheduleBaseline.findUnique({
+      where: { id },
+      include: { phases: true, tasks: true },
+    });
+
+    if (!baseline) {
+      throw new Error('Schedule baseline not found');
+    }
+
+    return baseline;
+  }
+
+  /**
+   * Snapshot the project's current project, phase and task dates. Variance
+   * is measured against the latest snapshot from then on.
+   */
+  async capture(
+    projectId: string,
+    input: CaptureBaselineInput,
+    userId: string,
+    role: UserRole
+  ): Promise<ScheduleBaselineDetail> {
+    try {
+      if (!input.name || !input.name.trim()) {
+        throw new Error('Baseline name must be given');
+      }
+
+      const project = await this.prisma.project.findUnique({
+        where: { id: projectId },
+        include: { phases: { include: { tasks: true } } },
+      });
+
+      if (!project) {
+        throw new Error('Project not found');
+      }
+
+      const baseline = await this.prisma.scheduleBaseline.create({
+        data: {
+          projectId,
+          name: input.name.trim(),
+          kind: input.kind || BaselineKind.MANUAL,
+          changeOrderId: input.changeOrderId,
+          startDate: project.startDate,
+          estimatedEndDate: project.estimatedEndDate,
+          createdBy: userId,
+          phases: {
+            create: project.phases.map(phase => ({
+              phaseId: phase.id,
+              name: phase.name,
+              startDate: phase.startDate,
+              estimatedEndDate: phase.estimatedEndDate,
+              duration: phase.duration,
+            })),
+          },
+          tasks: {
+            create: project.phases.flatMap(phase =>
+              phase.tasks.map(task => ({
+                taskId: task.id,
+                phaseId: phase.id,
+                code: task.code,
+                startDate: task.startDate,
+                endDate: task.endDate,
+                duration: task.duration,
+              }))
+            ),
+          },
+        },
+        include: { phases: true, tasks: true },
+      });
+
+      await AuditLogService.logCreate('SCHEDULE_BASELINE', baseline.id, userId, role, {
+        projectId,
+        name: baseline.name,
+        kind: baseline.kind,
+        changeOrderId: baseline.changeOrderId,
+        estimatedEndDate: baseline.estimatedEndDate,
+      });
+
+      logger.info('Schedule baseline captured', {
+        baselineId: baseline.id,
+        projectId,
+        kind: baseline.kind,
+        phases: baseline.phases.length,
+        tasks: baseline.tasks.length,
+      });
+
+      return baseline;
+    } catch (error) {
+      logger.error('Failed to capture schedule baseline', { error, projectId, input });
+      throw error;
+    }
+  }
+
+  /**
+   * Planned against actual start and end of each phase, in the project's
+   * working days, against the given baseline or else the latest one
+   */
+  async getVariance(projectId: string, baselineId?: string): Promise<ScheduleVarianceReport> {
+    try {
+      const project = await this.prisma.project.findUnique({
+        where: { id: projectId },
+        include: { phases: { orderBy: [{ sequence: 'asc' }, { startDate: 'asc' }] } },
+      });
+
+      if (!project) {
+        throw new Error('Project not found');
+      }
+
+      const baseline = baselineId
+        ? await this.get(baselineId)
+        : await this.prisma.scheduleBaseline.findFirst({
+            where: { projectId },
+            orderBy: { createdAt: 'desc' },
+            include: { phases: true, tasks: true },
+          });
+
+      if (baseline && baseline.projectId !== projectId) {
+        throw new Error('Schedule baseline not found');
+      }
+
+      const calendar = await workingCalendarService.getCalendar(project.region);
+      const offset = (planned: Date | null, actual: Date | null): number | null =>
+        planned && actual ? calendar.workingDayOffset(planned, actual) : null;
+
+      const phases = project.phases.map(phase => {
+        const planned = baseline?.phases.find(p => p.phaseId === phase.id);
+        const forecastEndDate =
+          phase.status === PhaseStatus.COMPLETED && phase.actualEndDate
+            ? phase.actualEndDate
+            : phase.estimatedEndDate;
+        const endVarianceDays = offset(planned?.estimatedEndDate || null, forecastEndDate);
+
+        return {
+          phaseId: phase.id,
+          phaseName: phase.name,
+          status: phase.status,
+          plannedStartDate: planned?.startDate || null,
+          plannedEndDate: planned?.estimatedEndDate || null,
+          actualStartDate: phase.actualStartDate,
+          actualEndDate: phase.actualEndDate,
+          forecastEndDate,
+          startVarianceDays: offset(planned?.startDate || null, phase.actualStartDate),
+          endVarianceDays,
+          delayedDays: Math.max(endVarianceDays || 0, 0),
+        };
+      });
+
+      const forecastEndDate = phases.reduce(
+        (latest, phase) => (phase.forecastEndDate > latest ? phase.forecastEndDate : latest),
+        project.estimatedEndDate
+      );
+
+      return {
+        projectId,
+        baseline: baseline
+          ? {
+              id: baseline.id,
+              name: baseline.name,
+              kind: baseline.kind,
+              createdAt: baseline.createdAt,
+            }
+          : null,
+        plannedEndDate: baseline?.estimatedEndDate || null,
+        forecastEndDate,
+        endVarianceDays: offset(baseline?.estimatedEndDate || null, forecastEndDate),
+        phases,
+      };
+    } catch (error) {
+      logger.error('Failed to compute schedule variance', { error, projectId, baselineId });
+      throw error;
+    }
+  }
+}
+
+export default new ScheduleBaselineService();
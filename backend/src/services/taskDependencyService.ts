@@ -0,0 +1,515 @@
+import {
+  PrismaClient,
+  Task,
+  TaskDependency,
+  TaskDependencyType,
+  TaskStatus,
+  UserRole,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import AuditLogService from './auditLogService';
+import { kpiService } from './kpiService';
+import { prisma } from './prismaClient';
+import workingCalendarService, { WorkingCalendar } from './workingCalendarService';
+
+export interface CreateTaskDependencyInput {
+  predecessorId: string;
+  successorId: string;
+  type?: TaskDependencyType;
+  lagDays?: number;
+}
+
+export interface UpdateTaskDependencyInput {
+  type?: TaskDependencyType;
+  lagDays?: number;
+  version: number;
+}
+
+export interface ScheduleResult {
+  projectId: string;
+  tasks: Array<{ id: string; code: string; startDate: Date; endDate: Date }>;
+  phases: Array<{ id: string; estimatedEndDate: Date }>;
+  projectEstimatedEndDate: Date | null;
+}
+
+type ScheduledTask = Pick<
+  Task,
+  | 'id'
+  | 'code'
+  | 'phaseId'
+  | 'duration'
+  | 'status'
+  | 'startDate'
+  | 'endDate'
+  | 'assignedTeamMemberId'
+>;
+
+// Done and dropped work keeps its dates; it still drives its successors
+const FIXED_STATUSES: TaskStatus[] = [TaskStatus.COMPLETED, TaskStatus.CANCELLED];
+
+const sameDay = (a: Date | null, b: Date | null): boolean =>
+  (a === null && b === null) || (!!a && !!b && a.getTime() === b.getTime());
+
+/** Last working day of a task starting on the given day; duration is in working days */
+export const taskEndDate = (calendar: WorkingCalendar, startDate: Date, duration: number): Date =>
+  calendar.addWorkingDays(startDate, Math.max(duration, 1) - 1);
+
+/**
+ * Earliest start a dependency allows its successor, or null while the
+ * predecessor has no dates
+ */
+const constrainedStart = (
+  calendar: WorkingCalendar,
+  dependency: Pick<TaskDependency, 'type' | 'lagDays'>,
+  predecessor: { startDate: Date | null; endDate: Date | null },
+  duration: number
+): Date | null => {
+  const { startDate, endDate } = predecessor;
+  if (!startDate || !endDate) return null;
+
+  switch (dependency.type) {
+    case TaskDependencyType.SS:
+      return calendar.addWorkingDays(startDate, dependency.lagDays);
+    case TaskDependencyType.FF:
+      return calendar.addWorkingDays(
+        calendar.addWorkingDays(endDate, dependency.lagDays),
+        -(Math.max(duration, 1) - 1)
+      );
+    default:
+      return calendar.addWorkingDays(endDate, 1 + dependency.lagDays);
+  }
+};
+
+/** Predecessors before successors (Kahn's algorithm) */
+export const topologicalOrder = (
+  taskIds: string[],
+  dependencies: Array<Pick<TaskDependency, 'predecessorId' | 'successorId'>>
+): string[] => {
+  const incoming = new Map(taskIds.map(id => [id, 0]));
+  dependencies.forEach(dependency =>
+    incoming.set(dependency.successorId, (incoming.get(dependency.successorId) || 0) + 1)
+  );
+
+  const ready = taskIds.filter(id => incoming.get(id) === 0);
+  const order: string[] = [];
+  while (ready.length) {
+    const taskId = ready.shift();
+    order.push(taskId);
+    for (const dependency of dependencies) {
+      if (dependency.predecessorId !== taskId) continue;
+      const remaining = incoming.get(dependency.successorId) - 1;
+      incoming.set(dependency.successorId, remaining);
+      if (remaining === 0) ready.push(dependency.successorId);
+    }
+  }
+
+  if (order.length !== taskIds.length) {
+    throw new Error('Task dependencies contain a cycle');
+  }
+
+  return order;
+};
+
+class TaskDependencyService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  async listForProject(projectId: string): Promise<TaskDependency[]> {
+    try {
+      return await this.prisma.taskDependency.findMany({
+        where: { successor: { phase: { projectId } } },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Failed to list task dependencies', { error, projectId });
+      throw error;
+    }
+  }
+
+  async listForTask(
+    taskId: string
+  ): Promise<{ predecessors: TaskDependency[]; successors: TaskDependency[] }> {
+    try {
+      const [predecessors, successors] = await Promise.all([
+        this.prisma.taskDependency.findMany({
+          where: { successorId: taskId },
+          include: { predecessor: true },
+        }),
+        this.prisma.taskDependency.findMany({
+          where: { predecessorId: taskId },
+          include: { successor: true },
+        }),
+      ]);
+      return { predecessors, successors };
+    } catch (error) {
+      logger.error('Failed to list task dependencies', { error, taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Make one task depend on another in the same project and reschedule the
+   * project. Dependencies that would close a loop are refused.
+   */
+  async addDependency(
+    input: CreateTaskDependencyInput,
+    userId: string,
+    role: UserRole
+  ): Promise<TaskDependency> {
+    try {
+      const type = input.type || TaskDependencyType.FS;
+      const lagDays = input.lagDays ?? 0;
+      this.validate(type, lagDays);
+
+      if (input.predecessorId === input.successorId) {
+        throw new Error('A task cannot depend on itself');
+      }
+
+      const tasks = await this.prisma.task.findMany({
+        where: { id: { in: [input.predecessorId, input.successorId] } },
+        include: { phase: { select: { projectId: true } } },
+      });
+
+      if (tasks.length !== 2) {
+        throw new Error('Task not found');
+      }
+
+      const projectId = tasks[0].phase.projectId;
+      if (tasks[1].phase.projectId !== projectId) {
+        throw new Error('Dependent tasks must be in the same project');
+      }
+
+      const existing = await this.prisma.taskDependency.findUnique({
+        where: {
+          predecessorId_successorId: {
+            predecessorId: input.predecessorId,
+            successorId: input.successorId,
+          },
+        },
+      });
+
+      if (existing) {
+        throw new Error('Dependency already exists');
+      }
+
+      if (await this.reaches(projectId, input.successorId, input.predecessorId)) {
+        throw new Error('Dependency would create a cycle');
+      }
+
+      const dependency = await this.prisma.taskDependency.create({
+        data: {
+          predecessorId: input.predecessorId,
+          successorId: input.successorId,
+          type,
+          lagDays,
+          createdBy: userId,
+        },
+      });
+
+      await AuditLogService.logCreate('TASK_DEPENDENCY', dependency.id, userId, role, dependency);
+
+      logger.info('Task dependency created', {
+        dependencyId: dependency.id,
+        predecessorId: dependency.predecessorId,
+        successorId: dependency.successorId,
+        type,
+      });
+
+      await this.reschedule(projectId, userId, role);
+
+      return dependency;
+    } catch (error) {
+      logger.error('Failed to create task dependency', { error, input });
+      throw error;
+    }
+  }
+
+  async updateDependency(
+    id: string,
+    input: UpdateTaskDependencyInput,
+    userId: string,
+    role: UserRole
+  ): Promise<TaskDependency> {
+    try {
+      const existing = await this.prisma.taskDependency.findUnique({
+        where: { id },
+        include: { successor: { include: { phase: { select: { projectId: true } } } } },
+      });
+
+      if (!existing) {
+        throw new Error('Task dependency not found');
+      }
+
+      if (existing.version !== input.version) {
+        throw new Error('Version conflict');
+      }
+
+      const type = input.type || existing.type;
+      const lagDays = input.lagDays ?? existing.lagDays;
+      this.validate(type, lagDays);
+
+      const dependency = await this.prisma.taskDependency.update({
+        where: { id },
+        data: { type, lagDays, version: { increment: 1 } },
+      });
+
+      await AuditLogService.logUpdate(
+        'TASK_DEPENDENCY',
+        id,
+        userId,
+        role,
+        { type: existing.type, lagDays: existing.lagDays },
+        { type, lagDays }
+      );
+
+      logger.info('Task dependency updated', { dependencyId: id, type, lagDays });
+
+      await this.reschedule(existing.successor.phase.projectId, userId, role);
+
+      return dependency;
+    } catch (error) {
+      logger.error('Failed to update task dependency', { error, id, input });
+      throw error;
+    }
+  }
+
+  async removeDependency(id: string, userId: string, role: UserRole): Promise<void> {
+    try {
+      const dependency = await this.prisma.taskDependency.findUnique({
+        where: { id },
+        include: { successor: { include: { phase: { select: { projectId: true } } } } },
+      });
+
+      if (!dependency) {
+        throw new Error('Task dependency not found');
+      }
+
+      await this.prisma.taskDependency.delete({ where: { id } });
+
+      await AuditLogService.logDelete('TASK_DEPENDENCY', id, userId, role, {
+        predecessorId: dependency.predecessorId,
+        successorId: dependency.successorId,
+        type: dependency.type,
+        lagDays: dependency.lagDays,
+      });
+
+      logger.info('Task dependency removed', { dependencyId: id });
+
+      await this.reschedule(dependency.successor.phase.projectId, userId, role);
+    } catch (error) {
+      logger.error('Failed to remove task dependency', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Recompute a project's dates from its dependencies. Each dependent task
+   * starts on the earliest working day all its predecessors allow and runs
+   * its duration in working days, skipping its assignee's approved leave.
+   * Tasks without predecessors, and completed or cancelled ones, keep their
+   * dates. Phases are then pushed out to their latest task and the project
+   * to its latest phase, but never pulled in before their planned end.
+   */
+  async reschedule(projectId: string, userId: string, role: UserRole): Promise<ScheduleResult> {
+    try {
+      const [calendar, phases, dependencies] = await Promise.all([
+        workingCalendarService.getProjectCalendar(projectId),
+        this.prisma.phase.findMany({
+          where: { projectId },
+          include: {
+            tasks: {
+              select: {
+                id: true,
+                code: true,
+                phaseId: true,
+                duration: true,
+                status: true,
+                startDate: true,
+                endDate: true,
+                assignedTeamMemberId: true,
+              },
+            },
+          },
+        }),
+        this.listForProject(projectId),
+      ]);
+
+      const tasks = new Map<string, ScheduledTask>();
+      phases.forEach(phase => phase.tasks.forEach(task => tasks.set(task.id, { ...task })));
+
+      // A task's working days skip its assignee's approved leave
+      const leave = await workingCalendarService.getApprovedLeave(
+        [...tasks.values()].map(task => task.assignedTeamMemberId)
+      );
+      const assigneeCalendars = new Map<string, WorkingCalendar>();
+      const calendarFor = (task: ScheduledTask): WorkingCalendar => {
+        const assigneeId = task.assignedTeamMemberId;
+        if (!assigneeId || !leave.get(assigneeId)?.length) return calendar;
+        if (!assigneeCalendars.has(assigneeId)) {
+          assigneeCalendars.set(assigneeId, calendar.withDaysOff(leave.get(assigneeId)));
+        }
+        return assigneeCalendars.get(assigneeId);
+      };
+
+      const changed: ScheduledTask[] = [];
+      for (const taskId of topologicalOrder([...tasks.keys()], dependencies)) {
+        const task = tasks.get(taskId);
+        const incoming = dependencies.filter(dependency => dependency.successorId === taskId);
+        if (!incoming.length || FIXED_STATUSES.includes(task.status)) continue;
+
+        const starts = incoming
+          .map(dependency =>
+            constrainedStart(
+              calendar,
+              dependency,
+              tasks.get(dependency.predecessorId),
+              task.duration
+            )
+          )
+          .filter((start): start is Date => start !== null);
+        if (!starts.length) continue;
+
+        const taskCalendar = calendarFor(task);
+        const startDate = taskCalendar.nextWorkingDay(
+          new Date(Math.max(...starts.map(start => start.getTime())))
+        );
+        const endDate = taskEndDate(taskCalendar, startDate, task.duration);
+        if (sameDay(task.startDate, startDate) && sameDay(task.endDate, endDate)) continue;
+
+        task.startDate = startDate;
+        task.endDate = endDate;
+        changed.push(task);
+      }
+
+      const phaseEnds = phases.map(phase => {
+        const ends = phase.tasks
+          .map(task => tasks.get(task.id).endDate)
+          .filter((end): end is Date => !!end);
+        return {
+          phase,
+          estimatedEndDate: new Date(
+            Math.max(phase.estimatedEndDate.getTime(), ...ends.map(end => end.getTime()))
+          ),
+        };
+      });
+      const changedPhases = phaseEnds.filter(
+        ({ phase, estimatedEndDate }) => !sameDay(phase.estimatedEndDate, estimatedEndDate)
+      );
+
+      const project = await this.prisma.project.findUnique({ where: { id: projectId } });
+      if (!project) {
+        throw new Error('Project not found');
+      }
+
+      const projectEstimatedEndDate = new Date(
+        Math.max(
+          project.estimatedEndDate.getTime(),
+          ...phaseEnds.map(({ estimatedEndDate }) => estimatedEndDate.getTime())
+        )
+      );
+      const projectChanged = !sameDay(project.estimatedEndDate, projectEstimatedEndDate);
+
+      if (changed.length || changedPhases.length || projectChanged) {
+        await this.prisma.$transaction(async tx => {
+          for (const task of changed) {
+            await tx.task.update({
+              where: { id: task.id },
+              data: {
+                startDate: task.startDate,
+                endDate: task.endDate,
+                version: { increment: 1 },
+              },
+            });
+          }
+          for (const { phase, estimatedEndDate } of changedPhases) {
+            await tx.phase.update({
+              where: { id: phase.id },
+              data: { estimatedEndDate, version: { increment: 1 } },
+            });
+          }
+          if (projectChanged) {
+            await tx.project.update({
+              where: { id: projectId },
+              data: { estimatedEndDate: projectEstimatedEndDate, version: { increment: 1 } },
+            });
+          }
+        });
+      }
+
+      if (projectChanged) {
+        await AuditLogService.logUpdate(
+          'PROJECT',
+          projectId,
+          userId,
+          role,
+          { estimatedEndDate: project.estimatedEndDate },
+          { estimatedEndDate: projectEstimatedEndDate, rescheduledTasks: changed.length }
+        );
+      }
+
+      if (changedPhases.length) {
+        await kpiService.syncDelayedDays(projectId);
+      }
+
+      logger.info('Project rescheduled', {
+        projectId,
+        tasks: changed.length,
+        phases: changedPhases.length,
+        projectEstimatedEndDate,
+      });
+
+      return {
+        projectId,
+        tasks: changed.map(task => ({
+          id: task.id,
+          code: task.code,
+          startDate: task.startDate,
+          endDate: task.endDate,
+        })),
+        phases: changedPhases.map(({ phase, estimatedEndDate }) => ({
+          id: phase.id,
+          estimatedEndDate,
+        })),
+        projectEstimatedEndDate,
+      };
+    } catch (error) {
+      logger.error('Failed to reschedule project', { error, projectId });
+      throw error;
+    }
+  }
+
+  /** Whether the dependencies already lead from one task to the other */
+  private async reaches(projectId: string, fromTaskId: string, toTaskId: string): Promise<boolean> {
+    const dependencies = await this.listForProject(projectId);
+    const visited = new Set<string>();
+    const pending = [fromTaskId];
+
+    while (pending.length) {
+      const taskId = pending.pop();
+      if (taskId === toTaskId) return true;
+      if (visited.has(taskId)) continue;
+      visited.add(taskId);
+      dependencies
+        .filter(dependency => dependency.predecessorId === taskId)
+        .forEach(dependency => pending.push(dependency.successorId));
+    }
+
+    return false;
+  }
+
+  private validate(type: TaskDependencyType, lagDays: number): void {
+    if (!Object.values(TaskDependencyType).includes(type)) {
+      throw new Error(
+        `Dependency type must be one of ${Object.values(TaskDependencyType).join(', ')}`
+      );
+    }
+    if (!Number.isInteger(lagDays)) {
+      throw new Error('Lag must be a whole number of working days');
+    }
+  }
+}
+
+export default new TaskDependencyService();
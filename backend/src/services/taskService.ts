@@ -2,6 +2,8 @@ import { UserRole, TaskStatus, Task, PrismaClient } from '@prisma/client';
 import logger from '../utils/logger';
 import AuditLogService from './auditLogService';
 import { prisma } from './prismaClient';
+import taskDependencyService, { taskEndDate } from './taskDependencyService';
+import workingCalendarService from './workingCalendarService';
 
 export interface CreateTaskInput {
     phaseId: string;
@@ -48,12 +50,10 @@ class TaskService {
             }
 
             // Check for code uniqueness within phase
-            const existingTask = await this.prisma.task.findUnique({
+            const existingTask = await this.prisma.task.findFirst({
                 where: {
-                    phaseId_code: {
-                        phaseId: input.phaseId,
-                        code: input.code
-                    }
+                    phaseId: input.phaseId,
+                    code: input.code
                 }
             });
 
@@ -61,6 +61,13 @@ class TaskService {
                 throw new Error('Task code already exists in this phase');
             }
 
+            // A start without an end runs for the duration in working days
+            let endDate = input.endDate;
+            if (input.startDate && !endDate) {
+                const calendar = await workingCalendarService.getProjectCalendar(phase.projectId);
+                endDate = taskEndDate(calendar, new Date(input.startDate), input.duration);
+            }
+
             const task = await this.prisma.task.create({
                 data: {
                     phaseId: input.phaseId,
@@ -70,7 +77,7 @@ class TaskService {
                     status: input.status,
                     assignedTeamMemberId: input.assignedTeamMemberId,
                     startDate: input.startDate,
-                    endDate: input.endDate,
+                    endDate,
                 },
                 include: {
                     phase: true,
@@ -96,7 +103,7 @@ class TaskService {
             }
 
             await AuditLogService.logCreate(
-                'Task',
+                'TASK',
                 task.id,
                 userId,
                 role,
@@ -105,6 +112,10 @@ class TaskService {
 
             logger.info('Task created successfully', { taskId: task.id, code: task.code });
 
+            if (task.startDate) {
+                await this.rescheduleProject(phase.projectId, task.id, userId, role);
+            }
+
             return task;
         } catch (error) {
             logger.error('Failed to create task', { error, input });
@@ -121,6 +132,7 @@ class TaskService {
         try {
             const existingTask = await this.prisma.task.findUnique({
                 where: { id },
+                include: { phase: { select: { projectId: true } } },
             });
 
             if (!existingTask) {
@@ -145,6 +157,25 @@ class TaskService {
                 }
             }
 
+            // Moving the start or changing the duration moves the end with it
+            // unless a new end is given
+            let endDate = input.endDate;
+            const startDate = input.startDate === undefined ? existingTask.startDate : input.startDate;
+            if (
+                endDate === undefined &&
+                startDate &&
+                (input.startDate !== undefined || input.duration !== undefined)
+            ) {
+                const calendar = await workingCalendarService.getProjectCalendar(
+                    existingTask.phase.projectId
+                );
+                endDate = taskEndDate(
+                    calendar,
+                    new Date(startDate),
+                    input.duration ?? existingTask.duration
+                );
+            }
+
             const task = await this.prisma.task.update({
                 where: { id },
                 data: {
@@ -154,7 +185,7 @@ class TaskService {
                     status: input.status,
                     assignedTeamMemberId: input.assignedTeamMemberId,
                     startDate: input.startDate,
-                    endDate: input.endDate,
+                    endDate,
                     version: { increment: 1 },
                 },
                 include: {
@@ -164,7 +195,7 @@ class TaskService {
             });
 
             await AuditLogService.logUpdate(
-                'Task',
+                'TASK',
                 id,
                 userId,
                 role,
@@ -174,6 +205,14 @@ class TaskService {
 
             logger.info('Task updated successfully', { taskId: id });
 
+            const rescheduled =
+                task.duration !== existingTask.duration ||
+                task.startDate?.getTime() !== existingTask.startDate?.getTime() ||
+                task.endDate?.getTime() !== existingTask.endDate?.getTime();
+            if (rescheduled) {
+                await this.rescheduleProject(task.phase.projectId, id, userId, role);
+            }
+
             return task;
         } catch (error) {
             logger.error('Failed to update task', { error, id, input });
@@ -189,6 +228,7 @@ class TaskService {
         try {
             const task = await this.prisma.task.findUnique({
                 where: { id },
+                include: { phase: { select: { projectId: true } } },
             });
 
             if (!task) {
@@ -200,7 +240,7 @@ class TaskService {
             });
 
             await AuditLogService.logDelete(
-                'Task',
+                'TASK',
                 id,
                 userId,
                 role,
@@ -208,12 +248,36 @@ class TaskService {
             );
 
             logger.info('Task deleted successfully', { taskId: id });
+
+            // Its successors lose the dependency
+            await this.rescheduleProject(task.phase.projectId, id, userId, role);
         } catch (error) {
             logger.error('Failed to delete task', { error, id });
             throw error;
         }
     }
 
+    /**
+     * Reschedule after a task change. The change is saved by then, so a failure
+     * is logged rather than reported; the project's reschedule route catches up.
+     */
+    private async rescheduleProject(
+        projectId: string,
+        taskId: string,
+        userId: string,
+        role: UserRole
+    ): Promise<void> {
+        try {
+            await taskDependencyService.reschedule(projectId, userId, role);
+        } catch (error) {
+            logger.error('Task saved but its project could not be rescheduled', {
+                error,
+                projectId,
+                taskId,
+            });
+        }
+    }
+
     async getTaskById(id: string): Promise<Task | null> {
         try {
             return await this.prisma.task.findUnique({
@@ -0,0 +1,471 @@
+import { Prisma, PrismaClient, TaskTemplate, TaskTemplateSet, UserRole } from '@prisma/client';
+import logger from '../utils/logger';
+import AuditLogService from './auditLogService';
+import ExcelImportService from './excelImportService';
+import phasePipelineService from './phasePipelineService';
+import { prisma } from './prismaClient';
+
+export interface CreateTaskTemplateSetInput {
+  name: string;
+  description?: string;
+  isDefault?: boolean;
+}
+
+export interface UpdateTaskTemplateSetInput {
+  name?: string;
+  description?: string | null;
+  isDefault?: boolean;
+  isActive?: boolean;
+  version: number;
+}
+
+export interface CreateTaskTemplateInput {
+  phaseName: string;
+  code: string;
+  description: string;
+  defaultDuration: number;
+  sortOrder?: number;
+}
+
+export interface UpdateTaskTemplateInput {
+  phaseName?: string;
+  code?: string;
+  description?: string;
+  defaultDuration?: number;
+  sortOrder?: number;
+  isActive?: boolean;
+  version: number;
+}
+
+export interface PhaseTemplateGroup {
+  phaseName: string;
+  templates: TaskTemplate[];
+  totalDuration: number;
+}
+
+export interface TaskTemplateSetDetail extends TaskTemplateSet {
+  phases: PhaseTemplateGroup[];
+}
+
+export interface TaskTemplateSeedResult {
+  set: TaskTemplateSet;
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+/** The duration most projects in the sheet use, falling back to the longest on a tie */
+function typicalDuration(durations: number[]): number {
+  const counts = new Map<number, number>();
+  for (const duration of durations) counts.set(duration, (counts.get(duration) || 0) + 1);
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]?.[0] || 1;
+}
+
+class TaskTemplateService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  async listSets(includeInactive = false): Promise<TaskTemplateSet[]> {
+    try {
+      return await this.prisma.taskTemplateSet.findMany({
+        where: includeInactive ? {} : { isActive: true },
+        include: { _count: { select: { templates: true } } },
+        orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+      });
+    } catch (error) {
+      logger.error('Failed to list task template sets', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a template set with its templates grouped by phase, in phase order
+   */
+  async getSet(id: string): Promise<TaskTemplateSetDetail> {
+    try {
+      const set = await this.prisma.taskTemplateSet.findUnique({
+        where: { id },
+        include: { templates: { orderBy: [{ sortOrder: 'asc' }, { code: 'asc' }] } },
+      });
+
+      if (!set) {
+        throw new Error('Task template set not found');
+      }
+
+      const { templates, ...fields } = set;
+      const pipeline = await phasePipelineService.getPipeline(null);
+      return {
+        ...fields,
+        phases: this.groupByPhase(
+          templates,
+          pipeline.map(step => step.name)
+        ),
+      };
+    } catch (error) {
+      logger.error('Failed to get task template set', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * A set phases can be created from: one that exists and is still active
+   */
+  async getActiveSet(id: string): Promise<TaskTemplateSet> {
+    const set = await this.prisma.taskTemplateSet.findUnique({ where: { id } });
+
+    if (!set) {
+      throw new Error('Task template set not found');
+    }
+
+    if (!set.isActive) {
+      throw new Error('Task template set must be active to create phases from it');
+    }
+
+    return set;
+  }
+
+  async getDefaultSet(): Promise<TaskTemplateSet | null> {
+    return this.prisma.taskTemplateSet.findFirst({
+      where: { isDefault: true, isActive: true },
+    });
+  }
+
+  async createSet(
+    input: CreateTaskTemplateSetInput,
+    userId: string,
+    role: UserRole
+  ): Promise<TaskTemplateSet> {
+    try {
+      const existing = await this.prisma.taskTemplateSet.findUnique({
+        where: { name: input.name },
+      });
+      if (existing) {
+        throw new Error('Task template set name already exists');
+      }
+
+      const set = await this.prisma.$transaction(async tx => {
+        if (input.isDefault) {
+          await tx.taskTemplateSet.updateMany({
+            where: { isDefault: true },
+            data: { isDefault: false, version: { increment: 1 } },
+          });
+        }
+        return tx.taskTemplateSet.create({
+          data: {
+            name: input.name,
+            description: input.description,
+            isDefault: input.isDefault || false,
+          },
+        });
+      });
+
+      await AuditLogService.logCreate('TASK_TEMPLATE', set.id, userId, role, set);
+
+      logger.info('Task template set created', { setId: set.id, name: set.name });
+
+      return set;
+    } catch (error) {
+      logger.error('Failed to create task template set', { error, input });
+      throw error;
+    }
+  }
+
+  async updateSet(
+    id: string,
+    input: UpdateTaskTemplateSetInput,
+    userId: string,
+    role: UserRole
+  ): Promise<TaskTemplateSet> {
+    try {
+      const existing = await this.prisma.taskTemplateSet.findUnique({ where: { id } });
+
+      if (!existing) {
+        throw new Error('Task template set not found');
+      }
+
+      const { version, ...changes } = input;
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      const set = await this.prisma.$transaction(async tx => {
+        // Only one set can be offered as the default for new projects
+        if (changes.isDefault && !existing.isDefault) {
+          await tx.taskTemplateSet.updateMany({
+            where: { isDefault: true, id: { not: id } },
+            data: { isDefault: false, version: { increment: 1 } },
+          });
+        }
+        return tx.taskTemplateSet.update({
+          where: { id },
+          data: { ...changes, version: { increment: 1 } },
+        });
+      });
+
+      await AuditLogService.logUpdate('TASK_TEMPLATE', id, userId, role, existing, set);
+
+      logger.info('Task template set updated', { setId: id });
+
+      return set;
+    } catch (error) {
+      logger.error('Failed to update task template set', { error, id, input });
+      throw error;
+    }
+  }
+
+  async deleteSet(id: string, userId: string, role: UserRole): Promise<void> {
+    try {
+      const set = await this.prisma.taskTemplateSet.findUnique({ where: { id } });
+
+      if (!set) {
+        throw new Error('Task template set not found');
+      }
+
+      await this.prisma.taskTemplateSet.delete({ where: { id } });
+
+      await AuditLogService.logDelete('TASK_TEMPLATE', id, userId, role, set);
+
+      logger.info('Task template set deleted', { setId: id });
+    } catch (error) {
+      logger.error('Failed to delete task template set', { error, id });
+      throw error;
+    }
+  }
+
+  async createTemplate(
+    setId: string,
+    input: CreateTaskTemplateInput,
+    userId: string,
+    role: UserRole
+  ): Promise<TaskTemplate> {
+    try {
+      const set = await this.prisma.taskTemplateSet.findUnique({ where: { id: setId } });
+
+      if (!set) {
+        throw new Error('Task template set not found');
+      }
+
+      if (!input.defaultDuration || input.defaultDuration < 1) {
+        throw new Error('Default duration must be a positive number of days');
+      }
+
+      const existing = await this.prisma.taskTemplate.findUnique({
+        where: { setId_code: { setId, code: input.code } },
+      });
+      if (existing) {
+        throw new Error('Task template code already exists in this set');
+      }
+
+      const template = await this.prisma.taskTemplate.create({
+        data: { ...input, setId },
+      });
+
+      await AuditLogService.logCreate('TASK_TEMPLATE', template.id, userId, role, template);
+
+      logger.info('Task template created', { templateId: template.id, code: template.code });
+
+      return template;
+    } catch (error) {
+      logger.error('Failed to create task template', { error, setId, input });
+      throw error;
+    }
+  }
+
+  async updateTemplate(
+    id: string,
+    input: UpdateTaskTemplateInput,
+    userId: string,
+    role: UserRole
+  ): Promise<TaskTemplate> {
+    try {
+      const existing = await this.prisma.taskTemplate.findUnique({ where: { id } });
+
+      if (!existing) {
+        throw new Error('Task template not found');
+      }
+
+      const { version, ...changes } = input;
+      if (existing.version !== version) {
+        throw new Error('Version conflict');
+      }
+
+      if (input.defaultDuration !== undefined && input.defaultDuration < 1) {
+        throw new Error('Default duration must be a positive number of days');
+      }
+
+      if (input.code && input.code !== existing.code) {
+        const duplicate = await this.prisma.taskTemplate.findUnique({
+          where: { setId_code: { setId: existing.setId, code: input.code } },
+        });
+        if (duplicate) {
+          throw new Error('Task template code already exists in this set');
+        }
+      }
+
+      const template = await this.prisma.taskTemplate.update({
+        where: { id },
+        data: { ...changes, version: { increment: 1 } },
+      });
+
+      await AuditLogService.logUpdate('TASK_TEMPLATE', id, userId, role, existing, template);
+
+      logger.info('Task template updated', { templateId: id });
+
+      return template;
+    } catch (error) {
+      logger.error('Failed to update task template', { error, id, input });
+      throw error;
+    }
+  }
+
+  async deleteTemplate(id: string, userId: string, role: UserRole): Promise<void> {
+    try {
+      const template = await this.prisma.taskTemplate.findUnique({ where: { id } });
+
+      if (!template) {
+        throw new Error('Task template not found');
+      }
+
+      await this.prisma.taskTemplate.delete({ where: { id } });
+
+      await AuditLogService.logDelete('TASK_TEMPLATE', id, userId, role, template);
+
+      logger.info('Task template deleted', { templateId: id });
+    } catch (error) {
+      logger.error('Failed to delete task template', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Active templates of a set for one phase, in the order tasks should be created
+   */
+  async getTemplatesForPhase(
+    setId: string,
+    phaseName: string,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<TaskTemplate[]> {
+    return client.taskTemplate.findMany({
+      where: { setId, phaseName, isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { code: 'asc' }],
+    });
+  }
+
+  /**
+   * Create or refresh a template set from the "Tasks" sheet of a legacy
+   * follow-up workbook. Existing templates are matched by code; the sheet's
+   * per-project durations are reduced to the one most projects use.
+   */
+  async seedFromWorkbook(
+    buffer: Buffer,
+    setName: string,
+    userId: string,
+    role: UserRole
+  ): Promise<TaskTemplateSeedResult> {
+    try {
+      const rows = new ExcelImportService().parseExcelFile(buffer).tasks;
+      if (rows.length === 0) {
+        throw new Error('Invalid workbook: no task rows found on the "Tasks" sheet');
+      }
+
+      // The sheet names phases by their label
+      const definitions = await this.prisma.phaseDefinition.findMany();
+      const phaseKeys = new Map(
+        definitions.map(definition => [definition.label.toLowerCase(), definition.key])
+      );
+
+      const result = await this.prisma.$transaction(async tx => {
+        const existingSet = await tx.taskTemplateSet.findUnique({ where: { name: setName } });
+        const set = existingSet
+          ? await tx.taskTemplateSet.update({
+              where: { id: existingSet.id },
+              data: { version: { increment: 1 } },
+            })
+          : await tx.taskTemplateSet.create({
+              data: { name: setName, description: 'Seeded from the legacy "Tasks" sheet' },
+            });
+
+        let created = 0;
+        let updated = 0;
+        let skipped = 0;
+        for (const [index, { data }] of rows.entries()) {
+          const phaseName = phaseKeys.get(String(data.phase).trim().toLowerCase());
+          if (!phaseName) {
+            skipped++;
+            continue;
+          }
+
+          const durations = ((data.durations as Array<{ duration: number }>) || [])
+            .map(entry => entry.duration)
+            .filter(duration => duration > 0);
+          const fields = {
+            phaseName,
+            description: data.description as string,
+            defaultDuration: typicalDuration(durations),
+            sortOrder: index + 1,
+          };
+          const code = data.taskCode as string;
+
+          const existing = await tx.taskTemplate.findUnique({
+            where: { setId_code: { setId: set.id, code } },
+          });
+          if (existing) {
+            await tx.taskTemplate.update({
+              where: { id: existing.id },
+              data: { ...fields, isActive: true, version: { increment: 1 } },
+            });
+            updated++;
+          } else {
+            await tx.taskTemplate.create({ data: { ...fields, code, setId: set.id } });
+            created++;
+          }
+        }
+
+        return { set, created, updated, skipped };
+      });
+
+      await AuditLogService.logCreate('TASK_TEMPLATE', result.set.id, userId, role, {
+        source: 'workbook',
+        created: result.created,
+        updated: result.updated,
+        skipped: result.skipped,
+      });
+
+      logger.info('Task templates seeded from workbook', {
+        setId: result.set.id,
+        created: result.created,
+        updated: result.updated,
+        skipped: result.skipped,
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to seed task templates from workbook', { error, setName });
+      throw error;
+    }
+  }
+
+  /** Phases in the given order, then any others by key */
+  private groupByPhase(templates: TaskTemplate[], order: string[]): PhaseTemplateGroup[] {
+    const position = (phaseName: string) =>
+      order.includes(phaseName) ? order.indexOf(phaseName) : Infinity;
+
+    return [...new Set(templates.map(template => template.phaseName))]
+      .sort((a, b) => position(a) - position(b) || a.localeCompare(b))
+      .map(phaseName => {
+        const phaseTemplates = templates.filter(template => template.phaseName === phaseName);
+        return {
+          phaseName,
+          templates: phaseTemplates,
+          totalDuration: phaseTemplates
+            .filter(template => template.isActive)
+            .reduce((sum, template) => sum + template.defaultDuration, 0),
+        };
+      });
+  }
+}
+
+export default new TaskTemplateService();
@@ -2,6 +2,7 @@ import { UserRole, AssignmentRole, Assignment, PrismaClient } from '@prisma/clie
 import logger from '../utils/logger';
 import AuditLogService from './auditLogService';
 import { prisma } from './prismaClient';
+import workingCalendarService from './workingCalendarService';
 
 export interface AssignTeamMemberInput {
   phaseId: string;
@@ -10,22 +11,86 @@ export interface AssignTeamMemberInput {
   workingPercentage: number;
   startDate: Date;
   endDate?: Date;
+  /** Manager's acknowledgment to assign beyond 100% (FR-032) */
+  overrideAllocation?: boolean;
+  overrideJustification?: string;
 }
 
 export interface UpdateAssignmentInput {
   role?: AssignmentRole;
   workingPercentage?: number;
   startDate?: Date;
-  endDate?: Date;
+  /** null removes the end date, leaving the assignment open-ended */
+  endDate?: Date | null;
+  overrideAllocation?: boolean;
+  overrideJustification?: string;
+  version?: number;
+}
+
+export interface AllocationConflict {
+  id: string;
+  projectName: string;
+  phaseName: string;
+  role: AssignmentRole;
+  workingPercentage: number;
+  startDate: Date;
+  endDate: Date | null;
+}
+
+export interface AllocationOverrideReportRow {
+  teamMemberId: string;
+  teamMemberName: string;
+  teamMemberEmail: string;
+  activeOverrides: number;
+  highestAllocation: number;
+  assignments: Array<{
+    id: string;
+    projectName: string;
+    phaseName: string;
+    role: AssignmentRole;
+    workingPercentage: number;
+    startDate: Date;
+    endDate: Date | null;
+    peakAllocation: number | null;
+    justification: string | null;
+    overriddenBy: string | null;
+    overriddenByName: string | null;
+    overriddenAt: Date | null;
+  }>;
 }
 
 export interface AllocationCheckResult {
   isOverallocated: boolean;
+  /** Load from other assignments on the busiest day of the range */
   currentAllocation: number;
+  /** Peak load over the range including the proposed assignment */
   proposedAllocation: number;
+  /** First day the peak is reached */
+  peakDate: Date;
+  /** Days of approved leave in the range, when the assignment pauses; for information */
+  leaveDays: number;
+  /** Assignments running on the days the load would go over 100% */
+  conflicts: AllocationConflict[];
   warning: string | null;
 }
 
+interface AllocationOverrideFields {
+  overAllocationOverride: boolean;
+  overrideJustification: string | null;
+  overridePeakAllocation: number | null;
+  overriddenBy: string | null;
+  overriddenAt: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const runsOn = (assignment: { startDate: Date; endDate: Date | null }, day: Date): boolean =>
+  startOfDay(assignment.startDate) <= day &&
+  (!assignment.endDate || startOfDay(assignment.endDate) >= day);
+
 class TeamService {
   private prisma: PrismaClient;
 
@@ -51,17 +116,20 @@ class TeamService {
         throw new Error('endDate must be after startDate');
       }
 
-      // Check allocation before creating assignment
+      // Check allocation over the assignment's dates before creating it
       const allocationCheck = await this.checkAllocation(
         input.teamMemberId,
-        input.workingPercentage
+        input.workingPercentage,
+        input.startDate,
+        input.endDate
       );
 
-      if (allocationCheck.isOverallocated) {
-        throw new Error(
-          `Team member allocation would exceed 100% (${allocationCheck.proposedAllocation}%). Current: ${allocationCheck.currentAllocation}%`
-        );
-      }
+      const override = this.resolveOverride(
+        allocationCheck,
+        input,
+        currentUserId,
+        currentUserRole
+      );
 
       // Verify phase exists
       const phase = await this.prisma.phase.findUnique({
@@ -91,6 +159,7 @@ class TeamService {
           workingPercentage: input.workingPercentage,
           startDate: input.startDate,
           endDate: input.endDate,
+          ...override,
         },
         include: {
           teamMember: {
@@ -111,13 +180,22 @@ class TeamService {
 
       // Log audit
       await AuditLogService.logCreate(
-        'Assignment',
+        'ASSIGNMENT',
         assignment.id,
         currentUserId,
         currentUserRole,
         assignment
       );
 
+      if (override.overAllocationOverride) {
+        logger.warn('Over-allocation overridden', {
+          assignmentId: assignment.id,
+          teamMemberId: input.teamMemberId,
+          peakAllocation: allocationCheck.proposedAllocation,
+          overriddenBy: currentUserId,
+        });
+      }
+
       logger.info('Team member assigned successfully', {
         assignmentId: assignment.id,
         phaseId: input.phaseId,
@@ -147,11 +225,6 @@ class TeamService {
     currentUserRole: UserRole
   ): Promise<Assignment> {
     try {
-      // Validate dates if both are provided
-      if (input.startDate && input.endDate && input.startDate > input.endDate) {
-        throw new Error('endDate must be after startDate');
-      }
-
       // Get existing assignment
       const existing = await this.prisma.assignment.findUnique({
         where: { id },
@@ -161,34 +234,49 @@ class TeamService {
         throw new Error('Assignment not found');
       }
 
-      // If updating working percentage, check allocation
-      if (input.workingPercentage !== undefined) {
-        // Calculate new allocation by excluding current assignment's percentage
-        const currentAssignments = await this.prisma.assignment.findMany({
-          where: {
-            teamMemberId: existing.teamMemberId,
-            id: { not: id }, // Exclude current assignment
-          },
-        });
+      // Validate the dates the assignment ends up with
+      const startDate = input.startDate ?? existing.startDate;
+      const endDate = input.endDate !== undefined ? input.endDate : existing.endDate;
+      if (endDate && startDate > endDate) {
+        throw new Error('endDate must be after startDate');
+      }
 
-        const otherAllocation = currentAssignments.reduce(
-          (sum, a) => sum + Number(a.workingPercentage),
-          0
-        );
+      const { version, overrideAllocation, overrideJustification, ...changes } = input;
+      if (version !== undefined && existing.version !== version) {
+        throw new Error('Version conflict');
+      }
 
-        const newTotalAllocation = otherAllocation + input.workingPercentage;
+      // If the percentage or dates change, check allocation against the other assignments
+      let override: AllocationOverrideFields | undefined;
+      if (
+        input.workingPercentage !== undefined ||
+        input.startDate !== undefined ||
+        input.endDate !== undefined
+      ) {
+        const allocationCheck = await this.checkAllocation(
+          existing.teamMemberId,
+          input.workingPercentage ?? Number(existing.workingPercentage),
+          startDate,
+          endDate,
+          id
+        );
 
-        if (newTotalAllocation > 100) {
-          throw new Error(
-            `Team member allocation would exceed 100% (${newTotalAllocation}%). Other allocations: ${otherAllocation}%, proposed: ${input.workingPercentage}%`
-          );
-        }
+        override = this.resolveOverride(
+          allocationCheck,
+          { overrideAllocation, overrideJustification },
+          currentUserId,
+          currentUserRole
+        );
       }
 
       // Update assignment
       const assignment = await this.prisma.assignment.update({
         where: { id },
-        data: input,
+        data: {
+          ...changes,
+          ...override,
+          version: { increment: 1 },
+        },
         include: {
           teamMember: {
             select: {
@@ -208,7 +296,7 @@ class TeamService {
 
       // Log audit
       await AuditLogService.logUpdate(
-        'Assignment',
+        'ASSIGNMENT',
         id,
         currentUserId,
         currentUserRole,
@@ -299,40 +387,241 @@ class TeamService {
   }
 
   /**
-   * Check if adding a new allocation would exceed 100%
+   * Check if adding an allocation over a date range would take the team
+   * member over 100% on any day of it. Only active assignments running in
+   * the range count. Assignments pause on days of approved leave, so those
+   * days are left out of the peak.
    * @param teamMemberId Team member ID
    * @param workingPercentage New allocation percentage
-   * @returns Allocation check result with warning if overallocated
+   * @param startDate First day of the proposed assignment
+   * @param endDate Last day of the proposed assignment; open-ended when not given
+   * @param excludeAssignmentId Assignment being changed, left out of the load
+   * @returns Allocation check result with the peak load and conflicting assignments
    */
   async checkAllocation(
     teamMemberId: string,
-    workingPercentage: number
+    workingPercentage: number,
+    startDate: Date,
+    endDate?: Date | null,
+    excludeAssignmentId?: string
   ): Promise<AllocationCheckResult> {
     try {
-      const currentAssignments = await this.prisma.assignment.findMany({
-        where: { teamMemberId },
+      const from = startOfDay(new Date(startDate));
+      const to = endDate ? startOfDay(new Date(endDate)) : null;
+
+      const overlapping = await this.prisma.assignment.findMany({
+        where: {
+          teamMemberId,
+          isActive: true,
+          id: excludeAssignmentId ? { not: excludeAssignmentId } : undefined,
+          startDate: to ? { lt: new Date(to.getTime() + DAY_MS) } : undefined,
+          OR: [{ endDate: null }, { endDate: { gte: from } }],
+        },
+        include: { phase: { include: { project: true } } },
+        orderBy: { startDate: 'asc' },
       });
 
-      const currentAllocation = currentAssignments.reduce(
-        (sum, assignment) => sum + Number(assignment.workingPercentage),
-        0
-      );
+      const leave = (
+        await workingCalendarService.getApprovedLeave([teamMemberId], from, to || undefined)
+      ).get(teamMemberId);
+      const onLeave = (day: Date): boolean => leave.some(period => runsOn(period, day));
+      const leaveDays = leave.reduce((sum, period) => {
+        const first = Math.max(startOfDay(period.startDate).getTime(), from.getTime());
+        const last = Math.min(
+          startOfDay(period.endDate).getTime(),
+          to ? to.getTime() : Number.POSITIVE_INFINITY
+        );
+        return sum + Math.max(0, Math.round((last - first) / DAY_MS) + 1);
+      }, 0);
+
+      // The load only changes where an assignment starts or the day after one
+      // ends. The assignment pauses on leave, so the first day back is checked
+      // in place of any of these falling on leave.
+      const days = [
+        from,
+        ...[...overlapping, ...leave].flatMap(a => [
+          startOfDay(a.startDate),
+          ...(a.endDate ? [new Date(startOfDay(a.endDate).getTime() + DAY_MS)] : []),
+        ]),
+      ].filter(day => day >= from && (!to || day <= to) && !onLeave(day));
+
+      const loadOn = (day: Date): number =>
+        overlapping
+          .filter(a => runsOn(a, day))
+          .reduce((sum, a) => sum + Number(a.workingPercentage), 0);
+
+      let peakDate = days.length ? days[0] : from;
+      let currentAllocation = 0;
+      const conflicting = new Set<string>();
+      for (const day of days) {
+        const load = loadOn(day);
+        if (load > currentAllocation) {
+          currentAllocation = load;
+          peakDate = day;
+        }
+        if (load + workingPercentage > 100) {
+          overlapping.filter(a => runsOn(a, day)).forEach(a => conflicting.add(a.id));
+        }
+      }
 
       const proposedAllocation = currentAllocation + workingPercentage;
-      const isOverallocated = proposedAllocation > 100;
+      const isOverallocated = days.length > 0 && proposedAllocation > 100;
+      const conflicts = overlapping
+        .filter(a => conflicting.has(a.id))
+        .map(a => ({
+          id: a.id,
+          projectName: a.phase.project.name,
+          phaseName: a.phase.name,
+          role: a.role,
+          workingPercentage: Number(a.workingPercentage),
+          startDate: a.startDate,
+          endDate: a.endDate,
+        }));
 
       const warning = isOverallocated
-        ? `Team member allocation would exceed 100% (${proposedAllocation}%). Current: ${currentAllocation}%, proposed addition: ${workingPercentage}%`
+        ? `Team member allocation would exceed 100% (${proposedAllocation}%) on ${peakDate.toISOString().split('T')[0]}. Current: ${currentAllocation}%, proposed addition: ${workingPercentage}%`
         : null;
 
       return {
         isOverallocated,
         currentAllocation,
         proposedAllocation,
+        peakDate,
+        leaveDays,
+        conflicts,
         warning,
       };
     } catch (error) {
-      logger.error('Failed to check allocation', { error, teamMemberId, workingPercentage });
+      logger.error('Failed to check allocation', {
+        error,
+        teamMemberId,
+        workingPercentage,
+        startDate,
+        endDate,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Override fields to store on an assignment after an allocation check.
+   * Going over 100% needs a manager's explicit override with a justification;
+   * within the limit any earlier override is cleared.
+   */
+  private resolveOverride(
+    check: AllocationCheckResult,
+    input: { overrideAllocation?: boolean; overrideJustification?: string },
+    currentUserId: string,
+    currentUserRole: UserRole
+  ): AllocationOverrideFields {
+    if (!check.isOverallocated) {
+      return {
+        overAllocationOverride: false,
+        overrideJustification: null,
+        overridePeakAllocation: null,
+        overriddenBy: null,
+        overriddenAt: null,
+      };
+    }
+
+    if (!input.overrideAllocation) {
+      throw new Error(check.warning);
+    }
+
+    if (currentUserRole !== UserRole.MANAGER) {
+      throw new Error('Only managers can override the allocation limit');
+    }
+
+    const justification = input.overrideJustification?.trim();
+    if (!justification) {
+      throw new Error('A justification must be given to override the allocation limit');
+    }
+
+    return {
+      overAllocationOverride: true,
+      overrideJustification: justification,
+      overridePeakAllocation: check.proposedAllocation,
+      overriddenBy: currentUserId,
+      overriddenAt: new Date(),
+    };
+  }
+
+  /**
+   * Active assignments made beyond 100% by a manager's override, per team
+   * member with the most overrides first, so chronic overload stands out
+   * @returns Override report rows
+   */
+  async getOverAllocationOverrides(): Promise<AllocationOverrideReportRow[]> {
+    try {
+      const today = startOfDay(new Date());
+      const assignments = await this.prisma.assignment.findMany({
+        where: {
+          overAllocationOverride: true,
+          isActive: true,
+          OR: [{ endDate: null }, { endDate: { gte: today } }],
+        },
+        include: {
+          teamMember: true,
+          phase: {
+            include: {
+              project: true,
+            },
+          },
+        },
+        orderBy: { startDate: 'asc' },
+      });
+
+      const approverIds = [
+        ...new Set(assignments.map(a => a.overriddenBy).filter((id): id is string => !!id)),
+      ];
+      const approvers = await this.prisma.user.findMany({
+        where: { id: { in: approverIds } },
+        select: { id: true, name: true },
+      });
+
+      const rows = new Map<string, AllocationOverrideReportRow>();
+      for (const assignment of assignments) {
+        const row = rows.get(assignment.teamMemberId) || {
+          teamMemberId: assignment.teamMemberId,
+          teamMemberName: assignment.teamMember.name,
+          teamMemberEmail: assignment.teamMember.email,
+          activeOverrides: 0,
+          highestAllocation: 0,
+          assignments: [],
+        };
+        const peakAllocation =
+          assignment.overridePeakAllocation !== null
+            ? Number(assignment.overridePeakAllocation)
+            : null;
+
+        row.activeOverrides++;
+        row.highestAllocation = Math.max(row.highestAllocation, peakAllocation || 0);
+        row.assignments.push({
+          id: assignment.id,
+          projectName: assignment.phase.project.name,
+          phaseName: assignment.phase.name,
+          role: assignment.role,
+          workingPercentage: Number(assignment.workingPercentage),
+          startDate: assignment.startDate,
+          endDate: assignment.endDate,
+          peakAllocation,
+          justification: assignment.overrideJustification,
+          overriddenBy: assignment.overriddenBy,
+          overriddenByName:
+            approvers.find(user => user.id === assignment.overriddenBy)?.name || null,
+          overriddenAt: assignment.overriddenAt,
+        });
+        rows.set(assignment.teamMemberId, row);
+      }
+
+      return Array.from(rows.values()).sort(
+        (a, b) =>
+          b.activeOverrides - a.activeOverrides ||
+          b.highestAllocation - a.highestAllocation ||
+          a.teamMemberName.localeCompare(b.teamMemberName)
+      );
+    } catch (error) {
+      logger.error('Failed to get over-allocation overrides', { error });
       throw error;
     }
   }
@@ -363,7 +652,7 @@ class TeamService {
 
       // Log audit
       await AuditLogService.logDelete(
-        'Assignment',
+        'ASSIGNMENT',
         id,
         currentUserId,
         currentUserRole,
@@ -1,7 +1,16 @@
-import { UserRole } from '@prisma/client';
+import { LeaveStatus, LeaveType, TaskDependencyType, UserRole } from '@prisma/client';
 import logger from '../utils/logger';
 import AuditLogService from './auditLogService';
 import { prisma } from './prismaClient';
+import taskDependencyService, { topologicalOrder } from './taskDependencyService';
+import workingCalendarService, { WorkingCalendar } from './workingCalendarService';
+
+const LEAVE_LABELS: Record<LeaveType, string> = {
+  ANNUAL: 'Annual leave',
+  SICK: 'Sick leave',
+  TRAINING: 'Training',
+  PUBLIC_HOLIDAY: 'Public holiday',
+};
 
 export interface TimelineData {
   projectId: string;
@@ -41,6 +50,38 @@ export interface TimelineData {
   }>;
 }
 
+/**
+ * Schedule position of one task. Early/late dates are working days; float is
+ * how many working days the task can slip before the project finish moves.
+ */
+export interface CriticalPathTask {
+  taskId: string;
+  code: string;
+  description: string;
+  phaseId: string;
+  phaseName: string;
+  status: string;
+  duration: number;
+  earlyStart: Date;
+  earlyFinish: Date;
+  lateStart: Date;
+  lateFinish: Date;
+  totalFloat: number;
+  critical: boolean;
+}
+
+export interface CriticalPathData {
+  projectId: string;
+  projectName: string;
+  startDate: Date;
+  finishDate: Date | null;
+  /** Working days from the first start to the last finish */
+  duration: number;
+  tasks: CriticalPathTask[];
+  /** Critical task ids from the first to the last */
+  criticalPath: string[];
+}
+
 export interface GetTimelineFilter {
   startDate?: string;
   endDate?: string;
@@ -198,8 +239,12 @@ class TimelineService {
         };
       }));
 
+      // Phases without an end date run their duration in their project's working days
+      const regionCalendars = await workingCalendarService.getCalendars(projects.map(project => project.region));
+      const calendars = new Map<string, WorkingCalendar>(projects.map(project => [project.id, regionCalendars.get(project.region || null)]));
+
       // Detect conflicts
-      const conflicts = this.detectConflicts(timelineData, startDate, endDate);
+      const conflicts = this.detectConflicts(timelineData, startDate, endDate, calendars);
 
       logger.info('Timeline data retrieved successfully', { projectCount: timelineData.length, conflictCount: conflicts.length });
 
@@ -215,9 +260,10 @@ class TimelineService {
    * @param timelineData Timeline data for projects
    * @param startDate Optional start date filter
    * @param endDate Optional end date filter
+   * @param calendars Working calendar of each project
    * @returns Array of conflicts detected
    */
-  private detectConflicts(timelineData: TimelineData[], startDate: Date | undefined, endDate: Date | undefined): TimelineData['conflicts'] {
+  private detectConflicts(timelineData: TimelineData[], startDate: Date | undefined, endDate: Date | undefined, calendars: Map<string, WorkingCalendar>): TimelineData['conflicts'] {
     const conflicts: TimelineData['conflicts'] = [];
 
     // Detect phase overlaps within the same project
@@ -226,7 +272,7 @@ class TimelineService {
     timelineData.forEach(project => {
       const ranges = project.phases.map(phase => ({
         start: new Date(phase.startDate),
-        end: phase.endDate || new Date(new Date(project.estimatedEndDate).getTime() + phase.duration * 24 * 60 * 60 * 1000)
+        end: phase.endDate || calendars.get(project.projectId).addWorkingDays(new Date(phase.startDate), Math.max(phase.duration, 1) - 1)
       }));
 
       projectPhaseRanges.set(project.projectId, ranges);
@@ -281,7 +327,8 @@ class TimelineService {
   }
 
   /**
-   * Get calendar events for a given month
+   * Get calendar events for a given month, including team members' pending
+   * and approved leave
    * @param year Year to get events for
    * @param month Month to get events for (1-12)
    * @returns Array of calendar events
@@ -293,7 +340,8 @@ class TimelineService {
     end: Date;
     allDay?: boolean;
     resourceId: string;
-    resourceType: 'PROJECT' | 'PHASE' | 'TASK';
+    resourceType: 'PROJECT' | 'PHASE' | 'TASK' | 'LEAVE';
+    status?: LeaveStatus;
   }>> {
     try {
       const startDate = new Date(year, month - 1, 1);
@@ -325,6 +373,8 @@ class TimelineService {
         }
       });
 
+      const calendars = await workingCalendarService.getCalendars(projects.map(project => project.region));
+
       // Build calendar events
       const events = [];
 
@@ -342,7 +392,9 @@ class TimelineService {
       // Add phase events
       projects.forEach(project => {
         project.phases.forEach(phase => {
-          const phaseEnd = phase.endDate ? new Date(phase.endDate) : new Date(new Date(project.estimatedEndDate).getTime() + phase.duration * 24 * 60 * 60 * 1000);
+          const phaseEnd = phase.endDate
+            ? new Date(phase.endDate)
+            : calendars.get(project.region || null).addWorkingDays(new Date(phase.startDate), Math.max(phase.duration, 1) - 1);
 
           events.push({
             id: `phase-${phase.id}`,
@@ -375,6 +427,30 @@ class TimelineService {
         });
       });
 
+      // Add leave events
+      const leave = await this.prisma.leave.findMany({
+        where: {
+          status: { in: [LeaveStatus.PENDING, LeaveStatus.APPROVED] },
+          startDate: { lte: endDate },
+          endDate: { gte: startDate }
+        },
+        include: { user: { select: { name: true } } },
+        orderBy: { startDate: 'asc' }
+      });
+
+      leave.forEach(period => {
+        events.push({
+          id: `leave-${period.id}`,
+          title: `${period.user.name}: ${LEAVE_LABELS[period.type]}`,
+          start: new Date(period.startDate),
+          end: new Date(period.endDate),
+          allDay: true,
+          resourceId: period.userId,
+          resourceType: 'LEAVE',
+          status: period.status
+        });
+      });
+
       logger.info('Calendar events retrieved successfully', { year, month, eventCount: events.length });
 
       return events;
@@ -384,6 +460,142 @@ class TimelineService {
     }
   }
 
+  /**
+   * Critical path of a project from its task durations and dependencies.
+   * Tasks without predecessors start on their scheduled day (or the project
+   * start); the rest start as early as their dependencies allow. Tasks with
+   * no float drive the finish date.
+   * @param projectId Project to analyse
+   * @returns Early/late dates and total float per task, and the critical chain
+   */
+  async getCriticalPath(projectId: string): Promise<CriticalPathData> {
+    try {
+      const project = await this.prisma.project.findUnique({
+        where: { id: projectId },
+        include: {
+          phases: {
+            include: { tasks: true },
+            orderBy: { startDate: 'asc' }
+          }
+        }
+      });
+
+      if (!project) {
+        throw new Error('Project not found');
+      }
+
+      const [calendar, dependencies] = await Promise.all([
+        workingCalendarService.getCalendar(project.region),
+        taskDependencyService.listForProject(projectId)
+      ]);
+
+      const tasks = project.phases.flatMap(phase =>
+        phase.tasks.map(task => ({ ...task, phaseName: phase.name }))
+      );
+      const starts = tasks.filter(task => task.startDate).map(task => task.startDate.getTime());
+      const projectStart = calendar.nextWorkingDay(
+        new Date(Math.min(project.startDate.getTime(), ...starts))
+      );
+
+      // Positions are counted in working days from the project start
+      const offsetOf = (date: Date): number =>
+        calendar.workingDaysBetween(projectStart, calendar.nextWorkingDay(date)) - 1;
+      const dateAt = (offset: number): Date => calendar.addWorkingDays(projectStart, offset);
+
+      const duration = new Map<string, number>(tasks.map(task => [task.id, Math.max(task.duration, 1)]));
+      const order = topologicalOrder(tasks.map(task => task.id), dependencies);
+
+      // Forward pass: earliest start and finish (finish is exclusive)
+      const earlyStart = new Map<string, number>();
+      const earlyFinish = new Map<string, number>();
+      for (const taskId of order) {
+        const task = tasks.find(t => t.id === taskId);
+        const incoming = dependencies.filter(dependency => dependency.successorId === taskId);
+        const own = duration.get(taskId);
+
+        const start = incoming.length
+          ? Math.max(...incoming.map(dependency => {
+            const predecessorId = dependency.predecessorId;
+            switch (dependency.type) {
+              case TaskDependencyType.SS:
+                return earlyStart.get(predecessorId) + dependency.lagDays;
+              case TaskDependencyType.FF:
+                return earlyFinish.get(predecessorId) + dependency.lagDays - own;
+              default:
+                return earlyFinish.get(predecessorId) + dependency.lagDays;
+            }
+          }))
+          : task.startDate ? offsetOf(task.startDate) : 0;
+
+        earlyStart.set(taskId, Math.max(start, 0));
+        earlyFinish.set(taskId, earlyStart.get(taskId) + own);
+      }
+
+      const finish = tasks.length ? Math.max(...earlyFinish.values()) : 0;
+
+      // Backward pass: latest start and finish that keep the project finish
+      const lateStart = new Map<string, number>();
+      const lateFinish = new Map<string, number>();
+      for (const taskId of [...order].reverse()) {
+        const outgoing = dependencies.filter(dependency => dependency.predecessorId === taskId);
+        const own = duration.get(taskId);
+
+        const latest = Math.min(finish, ...outgoing.map(dependency => {
+          const successorId = dependency.successorId;
+          switch (dependency.type) {
+            case TaskDependencyType.SS:
+              return lateStart.get(successorId) - dependency.lagDays + own;
+            case TaskDependencyType.FF:
+              return lateFinish.get(successorId) - dependency.lagDays;
+            default:
+              return lateStart.get(successorId) - dependency.lagDays;
+          }
+        }));
+
+        lateFinish.set(taskId, latest);
+        lateStart.set(taskId, latest - own);
+      }
+
+      const result = tasks
+        .map(task => {
+          const totalFloat = lateStart.get(task.id) - earlyStart.get(task.id);
+          return {
+            taskId: task.id,
+            code: task.code,
+            description: task.description,
+            phaseId: task.phaseId,
+            phaseName: task.phaseName,
+            status: task.status,
+            duration: duration.get(task.id),
+            earlyStart: dateAt(earlyStart.get(task.id)),
+            earlyFinish: dateAt(earlyFinish.get(task.id) - 1),
+            lateStart: dateAt(lateStart.get(task.id)),
+            lateFinish: dateAt(lateFinish.get(task.id) - 1),
+            totalFloat,
+            critical: totalFloat <= 0
+          };
+        })
+        .sort((a, b) => a.earlyStart.getTime() - b.earlyStart.getTime() || a.code.localeCompare(b.code));
+
+      const criticalPath = result.filter(task => task.critical).map(task => task.taskId);
+
+      logger.info('Critical path computed', { projectId, taskCount: tasks.length, criticalCount: criticalPath.length });
+
+      return {
+        projectId: project.id,
+        projectName: project.name,
+        startDate: projectStart,
+        finishDate: tasks.length ? dateAt(finish - 1) : null,
+        duration: finish,
+        tasks: result,
+        criticalPath
+      };
+    } catch (error) {
+      logger.error('Failed to compute critical path', { error, projectId });
+      throw error;
+    }
+  }
+
   /**
    * Log timeline access for audit purposes
    * @param userId User ID accessing timeline
@@ -0,0 +1,361 @@
+import {
+  Holiday,
+  Leave,
+  LeaveStatus,
+  PrismaClient,
+  RegionCalendar,
+  UserRole,
+} from '@prisma/client';
+import config from '../config';
+import logger from '../utils/logger';
+import AuditLogService from './auditLogService';
+import { prisma } from './prismaClient';
+
+export interface HolidayInput {
+  name: string;
+  /** Leave empty for a holiday every region keeps */
+  region?: string | null;
+  startDate: Date;
+  endDate?: Date;
+}
+
+export type LeavePeriod = Pick<Leave, 'id' | 'startDate' | 'endDate'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDayKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const startOfDay = (date: Date): Date => new Date(`${toDayKey(new Date(date))}T00:00:00.000Z`);
+
+/**
+ * Working days for scheduling: everything but the weekend and holidays of
+ * one region. Dates are handled as whole UTC days.
+ */
+export class WorkingCalendar {
+  private readonly holidays: Set<string>;
+
+  constructor(
+    holidays: Array<{ startDate: Date; endDate: Date }> = [],
+    private readonly weekendDays: number[] = config.calendar.weekendDays
+  ) {
+    // Stepping to the next working day would never end
+    if ([0, 1, 2, 3, 4, 5, 6].every(day => weekendDays.includes(day))) {
+      throw new Error('Weekend days must leave at least one working day in the week');
+    }
+
+    this.holidays = new Set();
+    for (const holiday of holidays) {
+      for (
+        let day = startOfDay(holiday.startDate);
+        day <= startOfDay(holiday.endDate);
+        day = new Date(day.getTime() + DAY_MS)
+      ) {
+        this.holidays.add(toDayKey(day));
+      }
+    }
+  }
+
+  isWorkingDay(date: Date): boolean {
+    return !this.weekendDays.includes(date.getUTCDay()) && !this.holidays.has(toDayKey(date));
+  }
+
+  /** The date itself when it is a working day, else the next one */
+  nextWorkingDay(date: Date): Date {
+    return this.step(startOfDay(date), 1, true);
+  }
+
+  /** The date itself when it is a working day, else the one before */
+  previousWorkingDay(date: Date): Date {
+    return this.step(startOfDay(date), -1, true);
+  }
+
+  /**
+   * Move a number of working days from a date, backwards when negative.
+   * Zero days gives the date itself, moved onto a working day.
+   */
+  addWorkingDays(date: Date, days: number): Date {
+    let day = days < 0 ? this.previousWorkingDay(date) : this.nextWorkingDay(date);
+    for (let moved = 0; moved < Math.abs(days); moved++) {
+      day = this.step(day, Math.sign(days), false);
+    }
+    return day;
+  }
+
+  /** Working days from start to end, both included */
+  workingDaysBetween(start: Date, end: Date): number {
+    let count = 0;
+    for (
+      let day = startOfDay(start);
+      day <= startOfDay(end);
+      day = new Date(day.getTime() + DAY_MS)
+    ) {
+      if (this.isWorkingDay(day)) count++;
+    }
+    return count;
+  }
+
+  /** Working days from one date to another, negative when the second is earlier */
+  workingDayOffset(from: Date, to: Date): number {
+    return startOfDay(to) >= startOfDay(from)
+      ? this.workingDaysBetween(this.nextWorkingDay(from), to) - 1
+      : -(this.workingDaysBetween(this.nextWorkingDay(to), from) - 1);
+  }
+
+  /** Net working days in the month of a date, as in the workbook's monthly row */
+  workingDaysInMonth(date: Date): number {
+    const first = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    const last = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+    return this.workingDaysBetween(first, last);
+  }
+
+  /** The same calendar with more days off, such as one person's approved leave */
+  withDaysOff(periods: Array<{ startDate: Date; endDate: Date }>): WorkingCalendar {
+    const calendar = new WorkingCalendar(periods, this.weekendDays);
+    this.holidays.forEach(day => calendar.holidays.add(day));
+    return calendar;
+  }
+
+  private step(day: Date, direction: number, includeSelf: boolean): Date {
+    let next = includeSelf ? day : new Date(day.getTime() + direction * DAY_MS);
+    while (!this.isWorkingDay(next)) {
+      next = new Date(next.getTime() + direction * DAY_MS);
+    }
+    return next;
+  }
+}
+
+class WorkingCalendarService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Calendar of a region: its own weekly pattern (else the configured
+   * weekend) and its holidays plus those every region keeps. No region
+   * gives the company-wide calendar.
+   */
+  async getCalendar(region?: string | null): Promise<WorkingCalendar> {
+    return (await this.getCalendars([region])).get(region || null);
+  }
+
+  /** Calendars for several regions from one read, keyed by region (null for none) */
+  async getCalendars(
+    regions: Array<string | null | undefined>
+  ): Promise<Map<string | null, WorkingCalendar>> {
+    const named = [...new Set(regions.filter((region): region is string => !!region))];
+
+    const [patterns, holidays] = await Promise.all([
+      named.length
+        ? this.prisma.regionCalendar.findMany({ where: { region: { in: named } } })
+        : Promise.resolve([]),
+      this.prisma.holiday.findMany({
+        where: { OR: [{ region: null }, ...(named.length ? [{ region: { in: named } }] : [])] },
+      }),
+    ]);
+
+    const calendars = new Map<string | null, WorkingCalendar>();
+    for (const region of [null, ...named]) {
+      const pattern = patterns.find(p => p.region === region);
+      calendars.set(
+        region,
+        new WorkingCalendar(
+          holidays.filter(holiday => !holiday.region || holiday.region === region),
+          pattern ? pattern.weekendDays : config.calendar.weekendDays
+        )
+      );
+    }
+    return calendars;
+  }
+
+  /** Calendar of the region a project is run from */
+  async getProjectCalendar(projectId: string): Promise<WorkingCalendar> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { region: true },
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    return this.getCalendar(project.region);
+  }
+
+  /**
+   * Approved leave of several people, keyed by user; optionally only the
+   * leave touching a date range. Apply it to a calendar with withDaysOff.
+   */
+  async getApprovedLeave(
+    userIds: string[],
+    from?: Date,
+    to?: Date
+  ): Promise<Map<string, LeavePeriod[]>> {
+    const ids = [...new Set(userIds.filter(Boolean))];
+    const leave = ids.length
+      ? await this.prisma.leave.findMany({
+          where: {
+            userId: { in: ids },
+            status: LeaveStatus.APPROVED,
+            startDate: to ? { lte: to } : undefined,
+            endDate: from ? { gte: from } : undefined,
+          },
+          select: { id: true, userId: true, startDate: true, endDate: true },
+        })
+      : [];
+
+    const byUser = new Map<string, LeavePeriod[]>(ids.map(id => [id, []]));
+    leave.forEach(period => byUser.get(period.userId).push(period));
+    return byUser;
+  }
+
+  async listRegionCalendars(): Promise<RegionCalendar[]> {
+    try {
+      return await this.prisma.regionCalendar.findMany({ orderBy: { region: 'asc' } });
+    } catch (error) {
+      logger.error('Failed to list region calendars', { error });
+      throw error;
+    }
+  }
+
+  /** Set the days of the week a region's offices are closed */
+  async setRegionCalendar(
+    region: string,
+    weekendDays: number[],
+    userId: string,
+    role: UserRole
+  ): Promise<RegionCalendar> {
+    try {
+      if (
+        !Array.isArray(weekendDays) ||
+        weekendDays.length > 6 ||
+        weekendDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)
+      ) {
+        throw new Error('Weekend days must be up to six days of the week from 0 (Sunday) to 6');
+      }
+
+      const days = [...new Set(weekendDays)].sort((a, b) => a - b);
+      const existing = await this.prisma.regionCalendar.findUnique({ where: { region } });
+
+      const calendar = await this.prisma.regionCalendar.upsert({
+        where: { region },
+        create: { region, weekendDays: days, createdBy: userId },
+        update: { weekendDays: days, version: { increment: 1 } },
+      });
+
+      if (existing) {
+        await AuditLogService.logUpdate(
+          'REGION_CALENDAR',
+          calendar.id,
+          userId,
+          role,
+          { weekendDays: existing.weekendDays },
+          { weekendDays: days }
+        );
+      } else {
+        await AuditLogService.logCreate('REGION_CALENDAR', calendar.id, userId, role, calendar);
+      }
+
+      logger.info('Region calendar saved', { region, weekendDays: days });
+
+      return calendar;
+    } catch (error) {
+      logger.error('Failed to save region calendar', { error, region, weekendDays });
+      throw error;
+    }
+  }
+
+  /** Put a region back on the configured weekend */
+  async deleteRegionCalendar(region: string, userId: string, role: UserRole): Promise<void> {
+    try {
+      const calendar = await this.prisma.regionCalendar.findUnique({ where: { region } });
+
+      if (!calendar) {
+        throw new Error('Region calendar not found');
+      }
+
+      await this.prisma.regionCalendar.delete({ where: { region } });
+
+      await AuditLogService.logDelete('REGION_CALENDAR', calendar.id, userId, role, calendar);
+
+      logger.info('Region calendar deleted', { region });
+    } catch (error) {
+      logger.error('Failed to delete region calendar', { error, region });
+      throw error;
+    }
+  }
+
+  /** Holidays, optionally of one year and one region (with those every region keeps) */
+  async listHolidays(year?: number, region?: string): Promise<Holiday[]> {
+    try {
+      return await this.prisma.holiday.findMany({
+        where: {
+          ...(year && {
+            startDate: { lte: new Date(Date.UTC(year, 11, 31)) },
+            endDate: { gte: new Date(Date.UTC(year, 0, 1)) },
+          }),
+          ...(region && { OR: [{ region: null }, { region }] }),
+        },
+        orderBy: { startDate: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Failed to list holidays', { error, year, region });
+      throw error;
+    }
+  }
+
+  async createHoliday(input: HolidayInput, userId: string, role: UserRole): Promise<Holiday> {
+    try {
+      const startDate = startOfDay(new Date(input.startDate));
+      const endDate = startOfDay(new Date(input.endDate || input.startDate));
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || endDate < startDate) {
+        throw new Error('Holiday dates must be valid with the end on or after the start');
+      }
+
+      const holiday = await this.prisma.holiday.create({
+        data: {
+          name: input.name,
+          region: input.region || null,
+          startDate,
+          endDate,
+          createdBy: userId,
+        },
+      });
+
+      await AuditLogService.logCreate('HOLIDAY', holiday.id, userId, role, holiday);
+
+      logger.info('Holiday created', {
+        holidayId: holiday.id,
+        name: holiday.name,
+        region: holiday.region,
+      });
+
+      return holiday;
+    } catch (error) {
+      logger.error('Failed to create holiday', { error, input });
+      throw error;
+    }
+  }
+
+  async deleteHoliday(id: string, userId: string, role: UserRole): Promise<void> {
+    try {
+      const holiday = await this.prisma.holiday.findUnique({ where: { id } });
+
+      if (!holiday) {
+        throw new Error('Holiday not found');
+      }
+
+      await this.prisma.holiday.delete({ where: { id } });
+
+      await AuditLogService.logDelete('HOLIDAY', id, userId, role, holiday);
+
+      logger.info('Holiday deleted', { holidayId: id });
+    } catch (error) {
+      logger.error('Failed to delete holiday', { error, id });
+      throw error;
+    }
+  }
+}
+
+export default new WorkingCalendarService();
@@ -0,0 +1,16 @@
+/**
+ * Content-Disposition header for a file download. Older clients read the
+ * plain `filename`, so it is cut down to printable ASCII without quotes;
+ * the name as given goes in `filename*` (RFC 6266).
+ */
+export function attachmentDisposition(filename: string): string {
+  const fallback = filename
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
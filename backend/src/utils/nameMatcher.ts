@@ -0,0 +1,101 @@
+export interface NameCandidate {
+  id: string;
+  name: string;
+}
+
+export interface NameMatch extends NameCandidate {
+  score: number;
+  exact: boolean;
+}
+
+export const DEFAULT_NAME_MATCH_THRESHOLD = 0.8;
+
+// Minimum lead the best candidate needs over the runner-up to be picked automatically
+const AMBIGUITY_MARGIN = 0.05;
+
+/**
+ * Lower-case a person or project name and collapse whitespace
+ */
+export function normalizeName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function compact(name: string): string {
+  return normalizeName(name)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\u0600-\u06ff]/g, '');
+}
+
+function sortedTokens(name: string): string {
+  return normalizeName(name)
+    .split(/[\s\-_.]+/)
+    .filter(Boolean)
+    .sort()
+    .join('');
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function ratio(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * Similarity between two names in [0, 1], tolerant of spacing, hyphens,
+ * diacritics and swapped first/last name order
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (normalizeName(a) === normalizeName(b)) return 1;
+  return Math.max(ratio(compact(a), compact(b)), ratio(sortedTokens(a), sortedTokens(b)));
+}
+
+/**
+ * Candidates scoring at or above the threshold, best first
+ */
+export function findNameMatches(
+  name: string,
+  candidates: NameCandidate[],
+  threshold: number = DEFAULT_NAME_MATCH_THRESHOLD
+): NameMatch[] {
+  return candidates
+    .map(candidate => {
+      const score = nameSimilarity(name, candidate.name);
+      return { ...candidate, score, exact: score === 1 };
+    })
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Resolve a name to a single candidate, or null when nothing matches
+ * or the best matches are too close to call
+ */
+export function resolveName(
+  name: string,
+  candidates: NameCandidate[],
+  threshold: number = DEFAULT_NAME_MATCH_THRESHOLD
+): NameMatch | null {
+  const [best, runnerUp] = findNameMatches(name, candidates, threshold);
+  if (!best) return null;
+  if (best.exact || !runnerUp || best.score - runnerUp.score >= AMBIGUITY_MARGIN) {
+    return best;
+  }
+  return null;
+}
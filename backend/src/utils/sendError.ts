@@ -0,0 +1,33 @@
+import { Response } from 'express';
+
+/** Phrases in a service error's message that pick its status, beyond the common ones */
+export interface ErrorPhrases {
+  forbidden?: string[];
+  conflict?: string[];
+  badRequest?: string[];
+}
+
+/**
+ * Build a route's error responder. Services throw plain errors, so the status
+ * is read off the message: "not found" is a 404, a version conflict a 409 and
+ * "must be" a 400, plus the route's own phrases. Anything else is rethrown for
+ * the error handler.
+ */
+export function createSendError(phrases: ErrorPhrases = {}) {
+  return (res: Response, error: unknown): void => {
+    const message = error instanceof Error ? error.message : String(error);
+    const mentions = (list: string[] = []) => list.some(phrase => message.includes(phrase));
+
+    if (message.includes('not found')) {
+      res.status(404).json({ error: message });
+    } else if (mentions(phrases.forbidden)) {
+      res.status(403).json({ error: message });
+    } else if (message === 'Version conflict' || mentions(phrases.conflict)) {
+      res.status(409).json({ error: message });
+    } else if (message.includes('must be') || mentions(phrases.badRequest)) {
+      res.status(400).json({ error: message });
+    } else {
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,214 @@
+import { QualificationKind } from '@prisma/client';
+
+const mockPrisma = {} as {
+  phase: Record<string, jest.Mock>;
+  user: Record<string, jest.Mock>;
+  kPIEntry: Record<string, jest.Mock>;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/teamService', () => ({
+  __esModule: true,
+  default: { checkAllocation: jest.fn() },
+}));
+
+import candidateRankingService from '../../src/services/candidateRankingService';
+import teamService, { AllocationCheckResult } from '../../src/services/teamService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const license = (name: string, expiresAt: Date | null = null) => ({
+  kind: QualificationKind.LICENSE_TYPE,
+  name,
+  expiresAt,
+});
+
+const projectType = (name: string, expiresAt: Date | null = null) => ({
+  kind: QualificationKind.PROJECT_TYPE,
+  name,
+  expiresAt,
+});
+
+type Candidate = {
+  id: string;
+  name: string;
+  region: string | null;
+  qualifications: Array<ReturnType<typeof license>>;
+  currentAllocation?: number;
+  kpiScore?: number;
+};
+
+/**
+ * A Grade A villa in Riyadh whose phase runs through February and March
+ * 2026, already staffed by user-0
+ */
+const setUp = (candidates: Candidate[]) => {
+  jest.mocked(teamService.checkAllocation).mockImplementation(async (id, workingPercentage) => {
+    const currentAllocation =
+      candidates.find(candidate => candidate.id === id)?.currentAllocation || 0;
+    return {
+      currentAllocation,
+      proposedAllocation: currentAllocation + workingPercentage,
+      isOverallocated: currentAllocation + workingPercentage > 100,
+      leaveDays: 0,
+    } as AllocationCheckResult;
+  });
+
+  Object.assign(mockPrisma, {
+    phase: {
+      findUnique: jest.fn(async () => ({
+        id: 'phase-1',
+        projectId: 'project-1',
+        startDate: day('2026-02-01'),
+        estimatedEndDate: day('2026-03-31'),
+        project: { licenseType: 'Grade A', projectType: 'Villa', region: 'Riyadh' },
+        assignments: [{ teamMemberId: 'user-0' }],
+      })),
+    },
+    user: {
+      findMany: jest.fn(async () =>
+        candidates.map(({ id, name, region, qualifications }) => ({
+          id,
+          name,
+          position: 'Engineer',
+          region,
+          qualifications,
+        }))
+      ),
+    },
+    kPIEntry: {
+      groupBy: jest.fn(async () =>
+        candidates
+          .filter(candidate => candidate.kpiScore !== undefined)
+          .map(candidate => ({
+            employeeId: candidate.id,
+            _avg: { score: candidate.kpiScore },
+            _count: { score: 3 },
+          }))
+      ),
+    },
+  });
+};
+
+describe('candidateRankingService.rankCandidates', () => {
+  it('weighs qualifications, free time, KPI history and region', async () => {
+    setUp([
+      {
+        id: 'user-1',
+        name: 'Ali',
+        region: 'Riyadh',
+        qualifications: [license('Grade A'), projectType('Villa', day('2026-03-01'))],
+        kpiScore: 90,
+      },
+      {
+        id: 'user-2',
+        name: 'Badr',
+        region: 'Jeddah',
+        qualifications: [license(' grade a ', day('2026-01-01'))],
+        currentAllocation: 50,
+      },
+      {
+        id: 'user-3',
+        name: 'Huda',
+        region: ' riyadh',
+        qualifications: [license('Grade A'), projectType('Villa')],
+        currentAllocation: 100,
+        kpiScore: 110,
+      },
+    ]);
+
+    const ranking = await candidateRankingService.rankCandidates('phase-1');
+
+    expect(ranking).toMatchObject({
+      startDate: day('2026-02-01'),
+      endDate: day('2026-03-31'),
+      workingPercentage: 100,
+    });
+    expect(ranking.candidates).toMatchObject([
+      {
+        rank: 1,
+        name: 'Ali',
+        score: 88,
+        licenseType: 'QUALIFIED',
+        projectType: 'EXPIRING',
+        qualified: true,
+        regionMatch: true,
+        kpiScore: 90,
+      },
+      { rank: 2, name: 'Huda', score: 70, qualified: true, isOverallocated: true },
+      {
+        rank: 3,
+        name: 'Badr',
+        score: 25,
+        licenseType: 'EXPIRED',
+        projectType: 'MISSING',
+        qualified: false,
+        regionMatch: false,
+        kpiScore: null,
+        kpiEntries: 0,
+      },
+    ]);
+    expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ id: { notIn: ['user-0'] } }),
+      })
+    );
+  });
+
+  it('checks free time over the dates and share asked for', async () => {
+    setUp([
+      {
+        id: 'user-1',
+        name: 'Zaid',
+        region: null,
+        qualifications: [license('Grade A'), projectType('Villa')],
+        currentAllocation: 60,
+      },
+      {
+        id: 'user-2',
+        name: 'Amal',
+        region: null,
+        qualifications: [license('Grade A'), projectType('Villa')],
+        currentAllocation: 60,
+      },
+    ]);
+
+    const ranking = await candidateRankingService.rankCandidates('phase-1', {
+      workingPercentage: 40,
+      startDate: day('2026-03-01'),
+    });
+
+    expect(teamService.checkAllocation).toHaveBeenCalledWith(
+      'user-1',
+      40,
+      day('2026-03-01'),
+      day('2026-03-31')
+    );
+    // Equal scores go by name
+    expect(ranking.candidates.map(candidate => [candidate.name, candidate.score])).toEqual([
+      ['Amal', 80],
+      ['Zaid', 80],
+    ]);
+  });
+
+  it.each([0, 101])('refuses a working percentage of %p', async workingPercentage => {
+    setUp([]);
+
+    await expect(
+      candidateRankingService.rankCandidates('phase-1', { workingPercentage })
+    ).rejects.toThrow('workingPercentage must be more than 0 and at most 100');
+    expect(mockPrisma.phase.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('refuses an end before the start', async () => {
+    setUp([]);
+
+    await expect(
+      candidateRankingService.rankCandidates('phase-1', { endDate: day('2026-01-31') })
+    ).rejects.toThrow('endDate must be after startDate');
+  });
+});
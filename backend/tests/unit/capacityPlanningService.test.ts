@@ -0,0 +1,163 @@
+import { ProjectStatus } from '@prisma/client';
+
+const mockPrisma = {} as {
+  user: Record<string, jest.Mock>;
+  assignment: Record<string, jest.Mock>;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/workingCalendarService', () => ({
+  ...jest.requireActual('../../src/services/workingCalendarService'),
+  __esModule: true,
+  default: { getCalendars: jest.fn(), getApprovedLeave: jest.fn() },
+}));
+
+import capacityPlanningService from '../../src/services/capacityPlanningService';
+import workingCalendarService, { WorkingCalendar } from '../../src/services/workingCalendarService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const user = (id: string, position: string) => ({ id, position, region: 'Riyadh' });
+
+const assignment = (
+  position: string,
+  workingPercentage: number,
+  startDate: Date,
+  endDate: Date | null,
+  status: ProjectStatus = ProjectStatus.IN_PROGRESS
+) => ({
+  workingPercentage,
+  startDate,
+  endDate,
+  teamMember: { position, region: 'Riyadh' },
+  phase: { project: { status } },
+});
+
+/**
+ * Members and assignments as the queries return them, with Friday and
+ * Saturday off: February 2026 has 20 working days and March 23
+ */
+const setUp = (
+  users: Array<ReturnType<typeof user>>,
+  assignments: Array<ReturnType<typeof assignment>>,
+  leave: Record<string, Array<{ startDate: Date; endDate: Date }>> = {}
+) => {
+  const calendar = new WorkingCalendar([], [5, 6]);
+  jest.mocked(workingCalendarService.getCalendars).mockResolvedValue(
+    new Map([
+      [null, calendar],
+      ['Riyadh', calendar],
+    ])
+  );
+  jest
+    .mocked(workingCalendarService.getApprovedLeave)
+    .mockResolvedValue(
+      new Map(
+        users.map(({ id }) => [
+          id,
+          (leave[id] || []).map((period, index) => ({ id: `leave-${index}`, ...period })),
+        ])
+      )
+    );
+
+  Object.assign(mockPrisma, {
+    user: { findMany: jest.fn().mockResolvedValue(users) },
+    assignment: { findMany: jest.fn().mockResolvedValue(assignments) },
+  });
+};
+
+const plan = () =>
+  capacityPlanningService.getCapacityPlan({ startDate: day('2026-02-10'), months: 2 });
+
+describe('capacityPlanningService.getCapacityPlan', () => {
+  it('weighs assignments by the working days they run in each month', async () => {
+    setUp(
+      [user('user-1', 'Engineer'), user('user-2', 'Engineer')],
+      [
+        assignment('Engineer', 100, day('2026-01-01'), null),
+        assignment('Engineer', 50, day('2026-02-15'), day('2026-02-28')),
+        assignment('Engineer', 100, day('2026-03-01'), null, ProjectStatus.PLANNED),
+      ],
+      { 'user-1': [{ startDate: day('2026-02-01'), endDate: day('2026-02-05') }] }
+    );
+
+    const result = await plan();
+
+    expect(result.months).toEqual(['2026-02', '2026-03']);
+    expect(result.groups).toEqual([
+      {
+        position: 'Engineer',
+        region: 'Riyadh',
+        headcount: 2,
+        months: [
+          {
+            month: '2026-02',
+            availableFte: 1.75,
+            leaveFte: 0.25,
+            committedFte: 1.25,
+            tentativeFte: 0,
+            demandFte: 1.25,
+            shortfallFte: 0,
+            utilization: 71.43,
+          },
+          {
+            month: '2026-03',
+            availableFte: 2,
+            leaveFte: 0,
+            committedFte: 1,
+            tentativeFte: 1,
+            demandFte: 2,
+            shortfallFte: 0,
+            utilization: 100,
+          },
+        ],
+      },
+    ]);
+    expect(result.shortfalls).toEqual([]);
+  });
+
+  it('does not let spare people in one position cover a shortfall in another', async () => {
+    setUp(
+      [user('user-1', 'Engineer'), user('user-2', 'Engineer'), user('user-3', 'Architect')],
+      [
+        assignment('Architect', 100, day('2026-01-01'), null),
+        assignment('Architect', 100, day('2026-01-01'), null),
+      ]
+    );
+
+    const result = await plan();
+
+    expect(result.groups.map(group => group.position)).toEqual(['Architect', 'Engineer']);
+    expect(result.totals[0]).toMatchObject({ availableFte: 3, demandFte: 2, shortfallFte: 1 });
+    expect(result.shortfalls).toEqual([
+      { month: '2026-02', position: 'Architect', region: 'Riyadh', shortfallFte: 1 },
+      { month: '2026-03', position: 'Architect', region: 'Riyadh', shortfallFte: 1 },
+    ]);
+  });
+
+  it('shows the load of positions nobody active holds as a shortfall', async () => {
+    setUp([], [assignment('Surveyor', 50, day('2026-01-01'), null)]);
+
+    const result = await plan();
+
+    expect(result.groups[0]).toMatchObject({ position: 'Surveyor', headcount: 0 });
+    expect(result.groups[0].months[0]).toMatchObject({
+      availableFte: 0,
+      shortfallFte: 0.5,
+      utilization: null,
+    });
+  });
+
+  it.each([0, 37, 1.5])('refuses a plan of %p months', async months => {
+    setUp([], []);
+
+    await expect(capacityPlanningService.getCapacityPlan({ months })).rejects.toThrow(
+      'months must be a whole number from 1 to 36'
+    );
+    expect(mockPrisma.user.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,221 @@
+import { ChangeOrder, ChangeOrderStatus } from '@prisma/client';
+
+const mockPrisma = {} as {
+  changeOrder: Record<string, jest.Mock>;
+  phase: Record<string, jest.Mock>;
+  project: Record<string, jest.Mock>;
+  $transaction: jest.Mock;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logUpdate: jest.fn() },
+}));
+jest.mock('../../src/services/kpiService', () => ({
+  kpiService: { syncDelayedDays: jest.fn() },
+}));
+jest.mock('../../src/services/scheduleBaselineService', () => ({
+  __esModule: true,
+  default: { capture: jest.fn() },
+}));
+jest.mock('../../src/services/workingCalendarService', () => ({
+  __esModule: true,
+  default: {
+    getProjectCalendar: jest.fn(async () => ({
+      addWorkingDays: (date: Date, days: number) => new Date(date.getTime() + days * 86400000),
+    })),
+  },
+}));
+
+import changeOrderService from '../../src/services/changeOrderService';
+import scheduleBaselineService from '../../src/services/scheduleBaselineService';
+
+type State = {
+  changeOrder: ChangeOrder;
+  phase: { id: string; projectId: string; duration: number; estimatedEndDate: Date };
+  project: { id: string; totalCost: number; estimatedEndDate: Date };
+};
+
+/** One order, its phase and project held in memory; a failing transaction puts them back */
+const setUp = (status: ChangeOrderStatus = ChangeOrderStatus.SUBMITTED): State => {
+  const state: State = {
+    changeOrder: {
+      id: 'order-1',
+      phaseId: 'phase-1',
+      orderNumber: 1,
+      status,
+      estimatedDays: 5,
+      estimatedCost: 1000,
+      version: 2,
+    } as unknown as ChangeOrder,
+    phase: {
+      id: 'phase-1',
+      projectId: 'project-1',
+      duration: 20,
+      estimatedEndDate: new Date('2026-05-01'),
+    },
+    project: { id: 'project-1', totalCost: 5000, estimatedEndDate: new Date('2026-05-03') },
+  };
+
+  const increment = (value: number, change: unknown) =>
+    change && typeof change === 'object' && 'increment' in change
+      ? value + Number((change as { increment: number }).increment)
+      : value;
+
+  Object.assign(mockPrisma, {
+    changeOrder: {
+      findUnique: jest.fn(async () => ({ ...state.changeOrder })),
+      findUniqueOrThrow: jest.fn(async () => ({ ...state.changeOrder })),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const current = state.changeOrder;
+        if (where.version !== current.version || where.status !== current.status) {
+          return { count: 0 };
+        }
+        state.changeOrder = {
+          ...current,
+          ...data,
+          version: increment(current.version, data.version),
+        };
+        return { count: 1 };
+      }),
+    },
+    phase: {
+      findUnique: jest.fn(async () => ({ ...state.phase })),
+      update: jest.fn(async ({ data }) => {
+        state.phase = {
+          ...state.phase,
+          duration: increment(state.phase.duration, data.duration),
+          estimatedEndDate: data.estimatedEndDate,
+        };
+        return { ...state.phase };
+      }),
+    },
+    project: {
+      findUniqueOrThrow: jest.fn(async () => ({ ...state.project })),
+      update: jest.fn(async ({ data }) => {
+        state.project = {
+          ...state.project,
+          totalCost: increment(state.project.totalCost, data.totalCost),
+          estimatedEndDate: data.estimatedEndDate ?? state.project.estimatedEndDate,
+        };
+        return { ...state.project };
+      }),
+    },
+    $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => {
+      const before = { ...state };
+      try {
+        return await fn(mockPrisma);
+      } catch (error) {
+        Object.assign(state, before);
+        throw error;
+      }
+    }),
+  });
+
+  return state;
+};
+
+describe('changeOrderService.approve', () => {
+  it('extends the phase, adds the cost and re-baselines the project', async () => {
+    const state = setUp();
+
+    const approval = await changeOrderService.approve('order-1', 2, 'Agreed', 'user-1', 'MANAGER');
+
+    expect(state.changeOrder).toMatchObject({
+      status: ChangeOrderStatus.APPROVED,
+      decidedBy: 'user-1',
+      decisionNote: 'Agreed',
+      version: 3,
+    });
+    expect(state.phase.duration).toBe(25);
+    expect(approval.phaseEndDate).toEqual(new Date('2026-05-06'));
+    expect(state.project).toMatchObject({
+      totalCost: 6000,
+      estimatedEndDate: new Date('2026-05-06'),
+    });
+    expect(scheduleBaselineService.capture).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies an order only once when approved twice at the same time', async () => {
+    const state = setUp();
+
+    const outcomes = await Promise.allSettled([
+      changeOrderService.approve('order-1', 2, undefined, 'user-1', 'MANAGER'),
+      changeOrderService.approve('order-1', 2, undefined, 'user-2', 'MANAGER'),
+    ]);
+
+    expect(outcomes.map(outcome => outcome.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(state.phase.duration).toBe(25);
+    expect(state.project.totalCost).toBe(6000);
+    expect(state.changeOrder.version).toBe(3);
+  });
+
+  it('does not approve an order rejected at the same time', async () => {
+    const state = setUp();
+
+    const outcomes = await Promise.allSettled([
+      changeOrderService.reject('order-1', 2, 'Too costly', 'user-1', 'MANAGER'),
+      changeOrderService.approve('order-1', 2, undefined, 'user-2', 'MANAGER'),
+    ]);
+
+    expect(outcomes.map(outcome => outcome.status)).toEqual(['fulfilled', 'rejected']);
+    expect(state.changeOrder.status).toBe(ChangeOrderStatus.REJECTED);
+    expect(state.phase.duration).toBe(20);
+    expect(state.project.totalCost).toBe(5000);
+  });
+
+  it('refuses a stale version', async () => {
+    setUp();
+
+    await expect(
+      changeOrderService.approve('order-1', 1, undefined, 'user-1', 'MANAGER')
+    ).rejects.toThrow('Version conflict');
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses an order that has not been submitted', async () => {
+    setUp(ChangeOrderStatus.DRAFT);
+
+    await expect(
+      changeOrderService.approve('order-1', 2, undefined, 'user-1', 'MANAGER')
+    ).rejects.toThrow('Only submitted change orders can be changed this way');
+  });
+});
+
+describe('changeOrderService.reject', () => {
+  it('records the decision without touching the schedule', async () => {
+    setUp();
+
+    const changeOrder = await changeOrderService.reject(
+      'order-1',
+      2,
+      'Out of scope',
+      'user-1',
+      'MANAGER'
+    );
+
+    expect(changeOrder).toMatchObject({
+      status: ChangeOrderStatus.REJECTED,
+      decisionNote: 'Out of scope',
+      version: 3,
+    });
+    expect(mockPrisma.phase.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects an order only once when rejected twice at the same time', async () => {
+    setUp();
+
+    const outcomes = await Promise.allSettled([
+      changeOrderService.reject('order-1', 2, undefined, 'user-1', 'MANAGER'),
+      changeOrderService.reject('order-1', 2, undefined, 'user-2', 'MANAGER'),
+    ]);
+
+    expect(outcomes.map(outcome => outcome.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(mockPrisma.changeOrder.updateMany).toHaveBeenCalledTimes(2);
+  });
+});
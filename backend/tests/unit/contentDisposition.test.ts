@@ -0,0 +1,24 @@
+import { attachmentDisposition } from '../../src/utils/contentDisposition';
+
+describe('attachmentDisposition', () => {
+  it('gives a plain name as it is', () => {
+    expect(attachmentDisposition('import-report-REF.1.2.xlsx')).toBe(
+      'attachment; filename="import-report-REF.1.2.xlsx"; filename*=UTF-8\'\'import-report-REF.1.2.xlsx'
+    );
+  });
+
+  it('keeps quotes and line breaks out of the header', () => {
+    expect(attachmentDisposition('a"b\\c\r\nSet-Cookie: x.xlsx')).toBe(
+      'attachment; filename="a_b_c__Set-Cookie: x.xlsx"; filename*=UTF-8\'\'a%22b%5Cc%0D%0ASet-Cookie%3A%20x.xlsx'
+    );
+  });
+
+  it('falls back to ASCII for names in other scripts', () => {
+    expect(attachmentDisposition("Café d'été.xlsx")).toBe(
+      "attachment; filename=\"Cafe d'ete.xlsx\"; filename*=UTF-8''Caf%C3%A9%20d%27%C3%A9t%C3%A9.xlsx"
+    );
+    expect(attachmentDisposition('تقرير.pdf')).toBe(
+      'attachment; filename="_____.pdf"; filename*=UTF-8\'\'%D8%AA%D9%82%D8%B1%D9%8A%D8%B1.pdf'
+    );
+  });
+});
@@ -0,0 +1,215 @@
+import { PhaseStatus } from '@prisma/client';
+
+const mockPrisma = {} as {
+  task: Record<string, jest.Mock>;
+  phase: Record<string, jest.Mock>;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/kpiService', () => ({
+  kpiService: { saveDelayDraft: jest.fn() },
+}));
+jest.mock('../../src/services/workingCalendarService', () => ({
+  ...jest.requireActual('../../src/services/workingCalendarService'),
+  __esModule: true,
+  default: { getCalendars: jest.fn(), getApprovedLeave: jest.fn() },
+}));
+
+import delayDetectionService from '../../src/services/delayDetectionService';
+import { kpiService } from '../../src/services/kpiService';
+import workingCalendarService, { WorkingCalendar } from '../../src/services/workingCalendarService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+/**
+ * Overdue tasks and phases as the queries return them, on a calendar with
+ * Friday and Saturday off (2026-01-08 is a Thursday)
+ */
+const setUp = (
+  tasks: Array<{ id: string; phaseId: string; endDate: Date; assignedTeamMemberId: string | null }>,
+  phases: Array<{ id: string; estimatedEndDate: Date; status?: PhaseStatus; leaders: string[] }>,
+  leave: Record<string, Array<{ startDate: Date; endDate: Date }>> = {}
+) => {
+  jest
+    .mocked(workingCalendarService.getCalendars)
+    .mockResolvedValue(new Map([[null, new WorkingCalendar([], [5, 6])]]));
+  jest
+    .mocked(workingCalendarService.getApprovedLeave)
+    .mockResolvedValue(
+      new Map(
+        Object.entries(leave).map(([userId, periods]) => [
+          userId,
+          periods.map((period, index) => ({ id: `leave-${index}`, ...period })),
+        ])
+      )
+    );
+  jest.mocked(kpiService.saveDelayDraft).mockResolvedValue('created');
+
+  const stored = phases.map(phase => ({
+    id: phase.id,
+    projectId: 'project-1',
+    status: phase.status || PhaseStatus.IN_PROGRESS,
+    estimatedEndDate: phase.estimatedEndDate,
+    project: { region: null },
+    assignments: phase.leaders.map(teamMemberId => ({ teamMemberId })),
+  }));
+
+  Object.assign(mockPrisma, {
+    task: {
+      findMany: jest.fn(async () =>
+        tasks.map(task => ({ ...task, phase: { projectId: 'project-1' } }))
+      ),
+    },
+    phase: {
+      findMany: jest.fn(async ({ where }) =>
+        where.id
+          ? stored.filter(phase => where.id.in.includes(phase.id))
+          : stored
+              .filter(phase => phase.estimatedEndDate < where.estimatedEndDate.lt)
+              .map(phase => ({ id: phase.id }))
+      ),
+    },
+  });
+};
+
+describe('delayDetectionService.detect', () => {
+  it("holds an overdue task against its assignee and the phase's leaders", async () => {
+    setUp(
+      [
+        {
+          id: 'task-1',
+          phaseId: 'phase-1',
+          endDate: day('2026-01-04'),
+          assignedTeamMemberId: 'user-1',
+        },
+      ],
+      [{ id: 'phase-1', estimatedEndDate: day('2026-01-06'), leaders: ['leader-1'] }]
+    );
+
+    const result = await delayDetectionService.detect(new Date('2026-01-08T15:00:00.000Z'));
+
+    expect(result).toMatchObject({
+      period: day('2026-01-01'),
+      overdueTasks: 1,
+      overduePhases: 1,
+      drafts: { created: 2, updated: 0, unchanged: 0 },
+    });
+    expect(kpiService.saveDelayDraft).toHaveBeenCalledWith({
+      employeeId: 'user-1',
+      projectId: 'project-1',
+      phaseId: 'phase-1',
+      period: day('2026-01-01'),
+      delayedDays: 4,
+    });
+    expect(kpiService.saveDelayDraft).toHaveBeenCalledWith(
+      expect.objectContaining({ employeeId: 'leader-1', delayedDays: 4 })
+    );
+  });
+
+  it("leaves the assignee's approved leave out of their own delay only", async () => {
+    setUp(
+      [
+        {
+          id: 'task-1',
+          phaseId: 'phase-1',
+          endDate: day('2026-01-04'),
+          assignedTeamMemberId: 'user-1',
+        },
+      ],
+      [{ id: 'phase-1', estimatedEndDate: day('2026-01-08'), leaders: ['leader-1'] }],
+      { 'user-1': [{ startDate: day('2026-01-05'), endDate: day('2026-01-06') }] }
+    );
+
+    await delayDetectionService.detect(day('2026-01-08'));
+
+    expect(kpiService.saveDelayDraft).toHaveBeenCalledWith(
+      expect.objectContaining({ employeeId: 'user-1', delayedDays: 2 })
+    );
+    expect(kpiService.saveDelayDraft).toHaveBeenCalledWith(
+      expect.objectContaining({ employeeId: 'leader-1', delayedDays: 4 })
+    );
+  });
+
+  it('records the larger delay once for a leader who is also the assignee', async () => {
+    setUp(
+      [
+        {
+          id: 'task-1',
+          phaseId: 'phase-1',
+          endDate: day('2026-01-07'),
+          assignedTeamMemberId: 'user-1',
+        },
+      ],
+      [{ id: 'phase-1', estimatedEndDate: day('2026-01-05'), leaders: ['user-1'] }]
+    );
+
+    await delayDetectionService.detect(day('2026-01-08'));
+
+    expect(kpiService.saveDelayDraft).toHaveBeenCalledTimes(1);
+    expect(kpiService.saveDelayDraft).toHaveBeenCalledWith(
+      expect.objectContaining({ employeeId: 'user-1', delayedDays: 3 })
+    );
+  });
+
+  it("counts only the month's own late days for a delay running over months", async () => {
+    setUp(
+      [
+        {
+          id: 'task-1',
+          phaseId: 'phase-1',
+          endDate: day('2025-11-20'),
+          assignedTeamMemberId: 'user-1',
+        },
+      ],
+      [{ id: 'phase-1', estimatedEndDate: day('2025-12-31'), leaders: [] }]
+    );
+
+    await delayDetectionService.detect(day('2026-01-08'));
+
+    // Thursday the 1st and Sunday the 4th to Thursday the 8th
+    expect(kpiService.saveDelayDraft).toHaveBeenCalledWith(
+      expect.objectContaining({ employeeId: 'user-1', period: day('2026-01-01'), delayedDays: 6 })
+    );
+  });
+
+  it('counts nothing against anyone before the end date has passed', async () => {
+    setUp([], [{ id: 'phase-1', estimatedEndDate: day('2026-01-08'), leaders: ['leader-1'] }]);
+
+    const result = await delayDetectionService.detect(new Date('2026-01-08T23:00:00.000Z'));
+
+    expect(result.overduePhases).toBe(0);
+    expect(kpiService.saveDelayDraft).not.toHaveBeenCalled();
+  });
+});
+
+describe('delayDetectionService.start', () => {
+  afterEach(() => {
+    delayDetectionService.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('does not start a run while the previous one is still going', async () => {
+    jest.useFakeTimers();
+    let finish: () => void = () => undefined;
+    const detect = jest.spyOn(delayDetectionService, 'detect').mockReturnValue(
+      new Promise(resolve => {
+        finish = () => resolve({} as never);
+      })
+    );
+
+    delayDetectionService.start();
+    jest.advanceTimersByTime(2 * 24 * 60 * 60 * 1000);
+    expect(detect).toHaveBeenCalledTimes(1);
+
+    finish();
+    await Promise.resolve();
+    await Promise.resolve();
+    jest.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(detect).toHaveBeenCalledTimes(2);
+  });
+});
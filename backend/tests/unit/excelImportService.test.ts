@@ -0,0 +1,641 @@
+import { AssignmentRole, ImportBatchKind, ImportBatchStatus } from '@prisma/client';
+import * as XLSX from 'xlsx';
+
+const mockPrisma = {} as {
+  user: Record<string, jest.Mock>;
+  configurationItem: Record<string, jest.Mock>;
+  importBatch: Record<string, jest.Mock>;
+  project: Record<string, jest.Mock>;
+  phase: Record<string, jest.Mock>;
+  assignment: Record<string, jest.Mock>;
+  kPIEntry: Record<string, jest.Mock>;
+  client: Record<string, jest.Mock>;
+  $transaction: jest.Mock;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logCreate: jest.fn() },
+}));
+jest.mock('../../src/services/kpiService', () => ({
+  kpiService: { loadScoringContext: jest.fn(), recomputeScores: jest.fn(), scoreEntry: jest.fn() },
+}));
+
+jest.mock('../../src/services/workingCalendarService', () => ({
+  ...jest.requireActual('../../src/services/workingCalendarService'),
+  __esModule: true,
+  default: { getCalendar: jest.fn() },
+}));
+
+import { ExcelImportService, IMPORT_SHEETS } from '../../src/services/excelImportService';
+import workingCalendarService, { WorkingCalendar } from '../../src/services/workingCalendarService';
+import AuditLogService from '../../src/services/auditLogService';
+import { kpiService } from '../../src/services/kpiService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+type Batch = {
+  id: string;
+  kind: ImportBatchKind;
+  status: ImportBatchStatus;
+  errorCount: number;
+  fileName: string;
+  contractCode: string | null;
+  committedAt: Date | null;
+  result: unknown;
+  rows: unknown[];
+};
+
+const configurationRow = {
+  id: 'row-1',
+  batchId: 'batch-1',
+  sheet: 'List',
+  rowNumber: 2,
+  data: { category: 'POSITION', name: 'Engineer', isActive: true },
+  errors: null,
+  warnings: null,
+};
+
+/** One batch held in memory; a failing transaction puts it back as it was */
+const setUp = (rows: unknown[] = []): Batch => {
+  const batch: Batch = {
+    id: 'batch-1',
+    kind: ImportBatchKind.LEGACY_WORKBOOK,
+    status: ImportBatchStatus.STAGED,
+    errorCount: 0,
+    fileName: 'followup.xlsx',
+    contractCode: null,
+    committedAt: null,
+    result: null,
+    rows,
+  };
+
+  Object.assign(mockPrisma, {
+    user: { findMany: jest.fn().mockResolvedValue([]) },
+    configurationItem: { upsert: jest.fn().mockResolvedValue({}) },
+    importBatch: {
+      findFirst: jest.fn(async () => ({ ...batch })),
+      update: jest.fn(async ({ data }) => Object.assign(batch, data)),
+      updateMany: jest.fn(async ({ where, data }) => {
+        if (where.id !== batch.id || where.status !== batch.status) return { count: 0 };
+        Object.assign(batch, data);
+        return { count: 1 };
+      }),
+    },
+    $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => {
+      const before = { ...batch };
+      try {
+        return await fn(mockPrisma);
+      } catch (error) {
+        Object.assign(batch, before);
+        throw error;
+      }
+    }),
+  });
+
+  return batch;
+};
+
+describe('ExcelImportService.commitBatch', () => {
+  const excelImportService = new ExcelImportService();
+
+  it('commits a staged batch and keeps its result', async () => {
+    const batch = setUp();
+
+    const result = await excelImportService.commitBatch('batch-1', 'user-1', 'MANAGER');
+
+    expect(batch.status).toBe(ImportBatchStatus.COMMITTED);
+    expect(batch.committedAt).toBeInstanceOf(Date);
+    expect(batch.result).toEqual(result);
+  });
+
+  it('applies a batch only once when committed twice at the same time', async () => {
+    const batch = setUp([configurationRow]);
+
+    const outcomes = await Promise.allSettled([
+      excelImportService.commitBatch('batch-1', 'user-1', 'MANAGER'),
+      excelImportService.commitBatch('batch-1', 'user-2', 'MANAGER'),
+    ]);
+
+    expect(outcomes.map(outcome => outcome.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(mockPrisma.configurationItem.upsert).toHaveBeenCalledTimes(1);
+    expect(batch.status).toBe(ImportBatchStatus.COMMITTED);
+  });
+
+  it('marks the batch as failed when applying its rows fails', async () => {
+    const batch = setUp([configurationRow]);
+    mockPrisma.configurationItem.upsert.mockRejectedValue(new Error('Connection lost'));
+
+    await expect(excelImportService.commitBatch('batch-1', 'user-1', 'MANAGER')).rejects.toThrow(
+      'Connection lost'
+    );
+
+    expect(batch.status).toBe(ImportBatchStatus.FAILED);
+    expect(batch.result).toEqual({ error: 'Connection lost' });
+  });
+
+  it('keeps a committed batch as committed when a later step fails', async () => {
+    const batch = setUp();
+    jest.mocked(AuditLogService.logCreate).mockRejectedValue(new Error('Audit log unavailable'));
+
+    await expect(
+      excelImportService.commitBatch('batch-1', 'user-1', 'MANAGER')
+    ).resolves.toMatchObject({ batchId: 'batch-1' });
+
+    expect(batch.status).toBe(ImportBatchStatus.COMMITTED);
+  });
+});
+
+// Excel serials of the first of January to April 2026
+const JAN = 46023;
+const FEB = 46054;
+const MAR = 46082;
+const APR = 46113;
+
+/** A workbook buffer with the given sheets, each a list of rows */
+const workbookOf = (sheets: Record<string, unknown[][]>): Buffer => {
+  const workbook = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+};
+
+describe('ExcelImportService.parseExcelFile', () => {
+  const excelImportService = new ExcelImportService();
+
+  // Twenty net working days in January and February and 22 in March; none given for April
+  const netWorkDays = [
+    ['', 'Over time'],
+    ['', 'Net Work Days in the Month', 20, 20, 22, 0],
+    ['', '', JAN, FEB, MAR, APR],
+  ];
+
+  it('reads the net working days of each month under the row naming them', () => {
+    const parsed = excelImportService.parseExcelFile(
+      workbookOf({
+        'Team Members Over Time': netWorkDays,
+        [IMPORT_SHEETS.teamMembers]: [
+          ['Phase', 'Employee', JAN, FEB, MAR, APR],
+          ['Design', 'Omar', 5, 10, 11, 4],
+        ],
+      })
+    );
+
+    expect(parsed.teamMembers[0].data.allocations).toEqual([
+      { month: '2026-01', workingDays: 5, netWorkDays: 20, workingPercentage: 25 },
+      { month: '2026-02', workingDays: 10, netWorkDays: 20, workingPercentage: 50 },
+      { month: '2026-03', workingDays: 11, netWorkDays: 22, workingPercentage: 50 },
+      { month: '2026-04', workingDays: 4, netWorkDays: undefined, workingPercentage: undefined },
+    ]);
+  });
+
+  it("sums a person's task rows per phase and collapses equal months into segments", () => {
+    const parsed = excelImportService.parseExcelFile(
+      workbookOf({
+        'Team Members Over Time': netWorkDays,
+        [IMPORT_SHEETS.teamMembers]: [
+          ['Allocation matrix'],
+          ['Phase', 'Employee', JAN, FEB, MAR, APR],
+          ['Design', 'Ali Hassan', 10, 10, 0, 0],
+          ['Design', ' ali  hassan', 10, 10, 11, 0],
+          ['Studies', 'Ali Hassan', 0, 0, 0, 2],
+          ['Design', 'Sara', 0, 0, 0, 0],
+          ['Design', 'Omar', 5, 0, 5.5, 0],
+          ['Design', 'Huda', 10, 30, 0, 0],
+        ],
+      })
+    );
+
+    expect(
+      parsed.teamMembers.map(({ rowNumber, data }) => [
+        rowNumber,
+        data.phase,
+        data.employeeName,
+        data.sourceRows,
+      ])
+    ).toEqual([
+      [3, 'Design', 'Ali Hassan', [3, 4]],
+      [5, 'Studies', 'Ali Hassan', [5]],
+      [7, 'Design', 'Omar', [7]],
+      [8, 'Design', 'Huda', [8]],
+    ]);
+
+    const segments = Object.fromEntries(
+      parsed.teamMembers.map(({ data }) => [`${data.phase} ${data.employeeName}`, data.segments])
+    );
+    // January and February share one segment; March is on its own at half time
+    expect(segments['Design Ali Hassan']).toEqual([
+      {
+        startDate: '2026-01-01',
+        endDate: '2026-02-28',
+        months: ['2026-01', '2026-02'],
+        workingPercentage: 100,
+      },
+      {
+        startDate: '2026-03-01',
+        endDate: '2026-03-31',
+        months: ['2026-03'],
+        workingPercentage: 50,
+      },
+    ]);
+    // A month without net working days has no percentage to allocate
+    expect(segments['Studies Ali Hassan']).toEqual([]);
+    // A gap starts a new segment even at the same percentage
+    expect(segments['Design Omar']).toMatchObject([
+      { months: ['2026-01'], workingPercentage: 25 },
+      { months: ['2026-03'], workingPercentage: 25 },
+    ]);
+    // More days than the month has are capped at full time
+    expect(segments['Design Huda']).toMatchObject([
+      { months: ['2026-01'], workingPercentage: 50 },
+      { months: ['2026-02'], workingPercentage: 100 },
+    ]);
+  });
+
+  it('reads one project per contract row, split into the phases it has columns for', () => {
+    const studies = ['Ali Hassan', 50, JAN, 10, 2, 5];
+    const design = ['Sara', 0.25, FEB, 20, '', ''];
+    const parsed = excelImportService.parseExcelFile(
+      workbookOf({
+        [IMPORT_SHEETS.projects]: [
+          ['Project', 'Client', 'Contract Code'],
+          ['', '', '3'],
+          ['Villa', 'Client', 'REF.1.2', JAN, 400, '', '', '', JAN, APR, ...studies, ...design],
+          [],
+        ],
+      })
+    );
+
+    expect(parsed.projects).toHaveLength(1);
+    expect(parsed.projects[0].data.phases).toEqual([
+      {
+        phase: 'Studies',
+        name: 'STUDIES',
+        teamLeaderName: 'Ali Hassan',
+        workingPercentage: 50,
+        startDate: '2026-01-01',
+        duration: 10,
+        modificationAllowedTimes: 2,
+        modificationDaysPerTime: 5,
+      },
+      {
+        phase: 'Design',
+        name: 'DESIGN',
+        teamLeaderName: 'Sara',
+        workingPercentage: 25,
+        startDate: '2026-02-01',
+        duration: 20,
+        modificationAllowedTimes: undefined,
+        modificationDaysPerTime: undefined,
+      },
+    ]);
+    // The technical phase is only carried when its columns are filled in
+    expect(parsed.projects[0].data.technicalPhase).toBeUndefined();
+  });
+
+  it('reads no allocations without a header row of months', () => {
+    const parsed = excelImportService.parseExcelFile(
+      workbookOf({
+        [IMPORT_SHEETS.teamMembers]: [
+          ['Phase', 'Employee', 'January'],
+          ['Design', 'Omar', 5],
+        ],
+      })
+    );
+
+    expect(parsed.teamMembers).toEqual([]);
+  });
+});
+
+describe('ExcelImportService.commitBatch allocations', () => {
+  const excelImportService = new ExcelImportService();
+
+  const allocationRow = (employeeName: string) => ({
+    id: `row-${employeeName}`,
+    batchId: 'batch-1',
+    sheet: IMPORT_SHEETS.teamMembers,
+    rowNumber: 3,
+    data: {
+      phase: 'Design',
+      employeeName,
+      segments: [
+        { startDate: '2026-01-01', endDate: '2026-02-28', workingPercentage: 100 },
+        { startDate: '2026-03-01', endDate: '2026-03-31', workingPercentage: 50 },
+      ],
+    },
+    errors: null,
+    warnings: null,
+  });
+
+  /** Ali leads the contract's design phase; Omar is on it with a January segment */
+  const setUpAllocations = () => {
+    const batch = setUp([allocationRow('Ali'), allocationRow('Omar')]);
+    batch.contractCode = 'REF.1.2';
+    Object.assign(mockPrisma, {
+      user: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'user-ali', name: 'Ali' },
+          { id: 'user-omar', name: 'Omar' },
+        ]),
+      },
+      project: { findUnique: jest.fn().mockResolvedValue({ id: 'project-1' }) },
+      phase: { findUnique: jest.fn().mockResolvedValue({ id: 'phase-1' }) },
+      assignment: {
+        findFirst: jest.fn(async ({ where }) => {
+          if (where.role === AssignmentRole.TEAM_LEADER) {
+            return where.teamMemberId === 'user-ali' ? { id: 'assignment-leader' } : null;
+          }
+          return where.startDate.toISOString().startsWith('2026-01-01')
+            ? { id: 'assignment-january' }
+            : null;
+        }),
+        update: jest.fn(),
+        create: jest.fn(),
+      },
+    });
+    return batch;
+  };
+
+  it("keeps a team leader's matrix months off their phase-long assignment", async () => {
+    setUpAllocations();
+
+    const result = await excelImportService.commitBatch('batch-1', 'user-1', 'MANAGER');
+
+    expect(result.imported.allocations).toBe(2);
+    expect(result.skipped.allocations).toBe(2);
+    expect(mockPrisma.assignment.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.assignment.update).toHaveBeenCalledWith({
+      where: { id: 'assignment-january' },
+      data: expect.objectContaining({ workingPercentage: 100 }),
+    });
+    expect(mockPrisma.assignment.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.assignment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        teamMemberId: 'user-omar',
+        role: AssignmentRole.TEAM_MEMBER,
+        startDate: new Date('2026-03-01'),
+        workingPercentage: 50,
+      }),
+    });
+  });
+
+  it('matches segments in a fixed order', async () => {
+    setUpAllocations();
+
+    await excelImportService.commitBatch('batch-1', 'user-1', 'MANAGER');
+
+    expect(mockPrisma.assignment.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ role: AssignmentRole.TEAM_MEMBER }),
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      })
+    );
+  });
+});
+
+describe('ExcelImportService.commitBatch KPIs', () => {
+  const excelImportService = new ExcelImportService();
+
+  const kpiRow = {
+    id: 'row-kpi',
+    batchId: 'batch-1',
+    sheet: IMPORT_SHEETS.kpis,
+    rowNumber: 4,
+    data: {
+      phase: 'Design',
+      employeeName: 'Omar',
+      teamMembersGrade: 87.5,
+      teamLeadersGrade: 90,
+      delayedDays: 2,
+    },
+    errors: null,
+    warnings: null,
+  };
+
+  it("keeps the sheet's team members grade and leaves the leaders grade to scoring", async () => {
+    const batch = setUp([kpiRow]);
+    batch.contractCode = 'REF.1.2';
+    jest.mocked(kpiService.scoreEntry).mockReturnValue({ score: 96 } as never);
+    Object.assign(mockPrisma, {
+      user: { findMany: jest.fn().mockResolvedValue([{ id: 'user-omar', name: 'Omar' }]) },
+      project: { findUnique: jest.fn().mockResolvedValue({ id: 'project-1' }) },
+      phase: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'phase-1', projectId: 'project-1' }),
+      },
+      kPIEntry: { findFirst: jest.fn().mockResolvedValue(null), create: jest.fn() },
+    });
+
+    await excelImportService.commitBatch('batch-1', 'user-1', 'MANAGER');
+
+    const { data } = mockPrisma.kPIEntry.create.mock.calls[0][0];
+    expect(data).toMatchObject({ employeeId: 'user-omar', delayedDays: 2, teamMembersGrade: 87.5 });
+    expect(data).not.toHaveProperty('teamLeadersGrade');
+    expect(kpiService.recomputeScores).toHaveBeenCalledWith({ phaseIds: ['phase-1'] });
+  });
+});
+
+describe('ExcelImportService.commitBatch phases', () => {
+  const excelImportService = new ExcelImportService();
+
+  const projectRow = {
+    id: 'row-project',
+    batchId: 'batch-1',
+    sheet: IMPORT_SHEETS.projects,
+    rowNumber: 5,
+    data: {
+      contractCode: 'REF.1.2',
+      clientName: 'Client',
+      name: 'Villa',
+      contractSigningDate: '2025-12-20',
+      builtUpArea: 400,
+      startDate: '2026-01-01',
+      estimatedEndDate: '2026-03-31',
+      phases: [
+        { phase: 'Studies', name: 'STUDIES', teamLeaderName: '', workingPercentage: 0 },
+        {
+          phase: 'Design',
+          name: 'DESIGN',
+          teamLeaderName: '',
+          workingPercentage: 0,
+          startDate: '2026-01-01',
+          duration: 5,
+        },
+      ],
+    },
+    errors: null,
+    warnings: null,
+  };
+
+  it("ends imported phases after their duration in the region's working days", async () => {
+    setUp([projectRow]);
+    jest
+      .mocked(workingCalendarService.getCalendar)
+      .mockResolvedValue(
+        new WorkingCalendar([{ startDate: day('2026-01-05'), endDate: day('2026-01-05') }], [5, 6])
+      );
+    Object.assign(mockPrisma, {
+      client: { findUnique: jest.fn().mockResolvedValue({ id: 'client-1' }) },
+      project: {
+        upsert: jest.fn(async ({ create }) => ({ id: 'project-1', region: 'Jeddah', ...create })),
+      },
+      phase: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(async ({ data }) => ({ id: `phase-${data.name}`, ...data })),
+      },
+    });
+
+    await excelImportService.commitBatch('batch-1', 'user-1', 'MANAGER');
+
+    expect(workingCalendarService.getCalendar).toHaveBeenCalledWith('Jeddah');
+    const phases = Object.fromEntries(
+      mockPrisma.phase.create.mock.calls.map(([{ data }]) => [data.name, data.estimatedEndDate])
+    );
+    // Thursday the 1st, then Sunday the 4th and the 6th to 8th around the holiday on the 5th
+    expect(phases).toEqual({
+      STUDIES: new Date('2026-03-31'),
+      DESIGN: day('2026-01-08'),
+    });
+  });
+});
+
+describe('ExcelImportService.stageWorkbook', () => {
+  const excelImportService = new ExcelImportService();
+
+  const DEC_20 = 46011;
+
+  /** A Projects List row: the project columns, then six for each of three phases */
+  const projectCells = (
+    contractCode: string,
+    builtUpArea: number,
+    studies: unknown[] = [],
+    technical: unknown[] = []
+  ) => {
+    const cells: unknown[] = [
+      'Villa',
+      'Client',
+      contractCode,
+      DEC_20,
+      builtUpArea,
+      'Grade A',
+      'Villa',
+      '',
+      JAN,
+      APR - 1,
+    ];
+    cells.length = 28;
+    cells.fill('', 10);
+    cells.splice(10, studies.length, ...studies);
+    cells.splice(22, technical.length, ...technical);
+    return cells;
+  };
+
+  /** Stage a workbook and return the rows the batch is created with */
+  const stage = async (sheets: Record<string, unknown[][]>, fileName = 'REF.1.2 followup.xlsx') => {
+    Object.assign(mockPrisma, {
+      user: { findMany: jest.fn().mockResolvedValue([{ id: 'user-ali', name: 'Ali Hassan' }]) },
+      project: { findMany: jest.fn().mockResolvedValue([]) },
+      importBatch: { create: jest.fn(async ({ data }) => ({ id: 'batch-1', ...data })) },
+    });
+    jest.spyOn(excelImportService, 'getBatchPreview').mockResolvedValue({} as never);
+
+    await excelImportService.stageWorkbook(fileName, workbookOf(sheets), 'user-1');
+
+    return mockPrisma.importBatch.create.mock.calls[0][0].data;
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('splits a project row into its phases and flags what will not import', async () => {
+    const data = await stage({
+      [IMPORT_SHEETS.projects]: [
+        ['Project', 'Client', 'Contract Code'],
+        ['1', '2', '3'],
+        projectCells('REF.1.2', 400, ['Ali Hasan', 0.5, JAN, 10, 2, 5], ['Sara', 1, FEB, 5]),
+      ],
+    });
+
+    expect(data).toMatchObject({ contractCode: 'REF.1.2', totalRows: 1, errorCount: 0 });
+    const [row] = data.rows.create;
+    expect(row).toMatchObject({ sheet: IMPORT_SHEETS.projects, rowNumber: 3 });
+    expect(row.data).toMatchObject({
+      contractCode: 'REF.1.2',
+      contractSigningDate: '2025-12-20',
+      startDate: '2026-01-01',
+      estimatedEndDate: '2026-03-31',
+      phases: [
+        {
+          name: 'STUDIES',
+          teamLeaderName: 'Ali Hasan',
+          workingPercentage: 50,
+          startDate: '2026-01-01',
+          duration: 10,
+          modificationAllowedTimes: 2,
+          modificationDaysPerTime: 5,
+        },
+        { name: 'DESIGN', teamLeaderName: '' },
+      ],
+      technicalPhase: { phase: 'Technical', teamLeaderName: 'Sara', startDate: '2026-02-01' },
+    });
+    expect(row.warnings.map((issue: { field: string }) => issue.field)).toEqual([
+      'STUDIES.teamLeaderName',
+      'technicalPhase',
+    ]);
+    expect(row.warnings[0].message).toContain('matched to user "Ali Hassan"');
+  });
+
+  it('refuses invalid and repeated rows, naming the sheet and row of each', async () => {
+    const data = await stage({
+      [IMPORT_SHEETS.projects]: [projectCells('REF.1.2', 400), projectCells('REF.1.2', 0)],
+    });
+
+    expect(data.errorCount).toBe(2);
+    expect(data.rows.create[1].errors).toEqual([
+      {
+        field: 'builtUpArea',
+        message: 'Built-up area must be a positive number',
+        row: 2,
+        sheet: IMPORT_SHEETS.projects,
+        severity: 'error',
+      },
+      {
+        field: 'contractCode',
+        message: 'Contract code REF.1.2 appears more than once',
+        row: 2,
+        sheet: IMPORT_SHEETS.projects,
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('warns that allocation and KPI rows are skipped without a contract code', async () => {
+    const data = await stage(
+      {
+        'Team Members Over Time': [
+          ['', 'Net Work Days in the Month', 20],
+          ['', '', JAN],
+        ],
+        [IMPORT_SHEETS.teamMembers]: [
+          ['Phase', 'Employee', JAN],
+          ['Technical', 'Nobody', 25],
+        ],
+      },
+      'followup.xlsx'
+    );
+
+    expect(data.contractCode).toBeNull();
+    expect(data.rows.create[0].warnings.map((issue: { message: string }) => issue.message)).toEqual(
+      [
+        'No active user named "Nobody"',
+        'No contract code given for this workbook; allocation rows will be skipped',
+        'Allocations for phase "Technical" are not imported',
+        '25 working days in 2026-01 exceed the 20 net work days; capped at 100%',
+      ]
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import ExcelJS from 'exceljs';
+import { buildFollowUpReportWorkbook } from '../../src/services/followUpExcelBuilder';
+import type { ProjectFollowUpReport } from '../../src/services/reportService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+/**
+ * A villa starting Sunday 4 January 2026 with a finished design phase, a
+ * permit phase under way and one task not scheduled yet
+ */
+const report: ProjectFollowUpReport = {
+  projectId: 'project-1',
+  projectName: 'Al Nakheel Villa',
+  clientName: 'Omar Khalid',
+  contractCode: 'C-100',
+  contractSigningDate: day('2025-12-20'),
+  builtUpArea: 1250,
+  licenseType: 'Grade A',
+  projectType: null,
+  startDate: day('2026-01-04'),
+  estimatedEndDate: day('2026-02-26'),
+  status: 'IN_PROGRESS',
+  phases: [
+    {
+      phaseName: 'DESIGN',
+      status: 'COMPLETED',
+      startDate: day('2026-01-04'),
+      endDate: day('2026-01-15'),
+      duration: 10,
+      actualStartDate: null,
+      actualEndDate: day('2026-01-14'),
+      progress: 100,
+      teamAssignments: [
+        { teamMember: 'Sara Ahmed', role: 'TEAM_LEADER', workingPercentage: 50 },
+        { teamMember: 'Ali Hassan', role: 'TEAM_MEMBER', workingPercentage: 100 },
+        { teamMember: 'Huda Saleh', role: 'TEAM_LEADER', workingPercentage: 25 },
+      ],
+      taskCount: 1,
+      completedTasks: 1,
+    },
+    {
+      phaseName: 'STRUCTURAL_PERMIT',
+      status: 'IN_PROGRESS',
+      startDate: day('2026-01-18'),
+      endDate: null,
+      duration: 20,
+      actualStartDate: day('2026-01-19'),
+      actualEndDate: null,
+      progress: 40,
+      teamAssignments: [],
+      taskCount: 2,
+      completedTasks: 0,
+    },
+  ],
+  costSummary: {
+    totalCost: 15250.5,
+    employeeCostTotal: 12000,
+    materialCostTotal: 3250.5,
+    totalEntries: 6,
+  },
+  costBreakdown: [],
+  modifications: [],
+  modificationAllowances: [
+    {
+      phase: 'DESIGN',
+      allowedTimes: 3,
+      daysPerTime: 5,
+      used: 1,
+      remaining: 2,
+      exceptional: 1,
+      daysGranted: 10,
+      daysUsed: 7,
+    },
+  ],
+  tasks: [
+    {
+      id: 'task-1',
+      code: 'D-01',
+      phase: 'DESIGN',
+      description: 'Concept drawings',
+      assignedTo: 'Ali Hassan',
+      status: 'COMPLETED',
+      startDate: '2026-01-04T00:00:00.000Z',
+      endDate: '2026-01-15T00:00:00.000Z',
+      duration: 10,
+    },
+    {
+      id: 'task-2',
+      code: 'S-01',
+      phase: 'STRUCTURAL_PERMIT',
+      description: 'Permit submission',
+      assignedTo: 'Sara Ahmed',
+      status: 'IN_PROGRESS',
+      startDate: '2026-01-18T00:00:00.000Z',
+      endDate: '2026-02-05T00:00:00.000Z',
+      duration: 15,
+    },
+    {
+      id: 'task-3',
+      code: 'S-02',
+      phase: 'STRUCTURAL_PERMIT',
+      description: 'Authority follow-up',
+      assignedTo: '',
+      status: 'PLANNED',
+      startDate: '',
+      endDate: '',
+      duration: 5,
+    },
+  ],
+};
+
+/** The workbook as a client opens it, written out and read back in */
+const built = async () => {
+  const buffer = await buildFollowUpReportWorkbook(report).xlsx.writeBuffer();
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  return workbook;
+};
+
+/** The values of every non-empty row, without ExcelJS's empty first slot */
+const rowsOf = (sheet: ExcelJS.Worksheet) => {
+  const rows: unknown[][] = [];
+  sheet.eachRow(row => rows.push((row.values as unknown[]).slice(1)));
+  return rows;
+};
+
+/** The row following the one whose first cell is the given label */
+const rowAfter = (rows: unknown[][], label: string, offset = 1) =>
+  rows[rows.findIndex(row => row[0] === label) + offset];
+
+describe('buildFollowUpReportWorkbook', () => {
+  it('lists the project, its phases, allowances and costs on the report sheet', async () => {
+    const sheet = (await built()).getWorksheet('Follow up Report');
+    const rows = rowsOf(sheet);
+
+    expect(rows[0][0]).toBe('Project Follow up - Client Report');
+    expect(rows[1][0]).toBe('Al Nakheel Villa (C-100)');
+    expect(rows).toEqual(
+      expect.arrayContaining([
+        ['Client', 'Omar Khalid'],
+        ['Signing Contract Date', day('2025-12-20')],
+        ['BUA | M2', 1250],
+        ['Project Type', ''],
+        ['Status', 'In Progress'],
+      ])
+    );
+
+    // Phases go by their actual dates where they have them, leaders only
+    expect(rowAfter(rows, 'Phase')).toEqual([
+      'Design',
+      'Sara Ahmed, Huda Saleh',
+      day('2026-01-04'),
+      day('2026-01-14'),
+      10,
+      'Completed',
+      1,
+      1,
+      1,
+    ]);
+    expect(rowAfter(rows, 'Phase', 2)).toEqual([
+      'Structural Permit',
+      '',
+      day('2026-01-19'),
+      undefined,
+      20,
+      'In Progress',
+      0.4,
+      2,
+      0,
+    ]);
+    expect(rowAfter(rows, 'Modification Allowances', 2)).toEqual(['Design', 3, 1, 2, 1, 5, 10, 7]);
+    expect(rowAfter(rows, 'Cost Summary')).toEqual(['Total Cost', 15250.5]);
+    expect(rowAfter(rows, 'Cost Summary', 4)).toEqual(['Cost Entries', 6]);
+    expect(sheet.getCell('B9').numFmt).toBe('#,##0');
+  });
+
+  it('draws each scheduled task as a bar over the weeks it runs', async () => {
+    const sheet = (await built()).getWorksheet('Task Gantt');
+    const rows = rowsOf(sheet);
+
+    // Nine weeks from Monday 29 December to the estimated end, grouped by month
+    expect(rows[1].slice(8)).toEqual([29, 5, 12, 19, 26, 2, 9, 16, 23]);
+    expect(sheet.getCell(1, 9).value).toBe('Dec 2025');
+    expect(sheet.getCell(1, 10).value).toBe('Jan 2026');
+    expect(sheet.getCell(1, 14).value).toBe('Feb 2026');
+    expect(rows[2].slice(0, 8)).toEqual([
+      1,
+      'Design',
+      'Concept drawings',
+      'Ali Hassan',
+      'Completed',
+      day('2026-01-04'),
+      day('2026-01-15'),
+      10,
+    ]);
+
+    const bars = (rowNumber: number) =>
+      Array.from({ length: 9 }, (_, index) => {
+        const fill = sheet.getRow(rowNumber).getCell(9 + index).fill as ExcelJS.FillPattern;
+        return fill?.fgColor?.argb || null;
+      });
+    const done = 'FF70AD47';
+    const active = 'FF4472C4';
+    expect(bars(3)).toEqual([done, done, done, null, null, null, null, null, null]);
+    expect(bars(4)).toEqual([null, null, active, active, active, active, null, null, null]);
+    expect(bars(5)).toEqual(Array(9).fill(null));
+  });
+});
@@ -0,0 +1,137 @@
+import PDFDocument from 'pdfkit';
+import { buildFollowUpReportPdf } from '../../src/services/followUpPdfBuilder';
+import type { ProjectFollowUpReport } from '../../src/services/reportService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const task = (index: number): ProjectFollowUpReport['tasks'][number] => ({
+  id: `task-${index}`,
+  code: `D-${String(index).padStart(2, '0')}`,
+  phase: 'DESIGN',
+  description: `Drawing set ${index}`,
+  assignedTo: 'Ali Hassan',
+  status: index <= 10 ? 'COMPLETED' : 'IN_PROGRESS',
+  startDate: '2026-01-04T00:00:00.000Z',
+  endDate: '2026-01-15T00:00:00.000Z',
+  duration: 10,
+});
+
+/**
+ * A project for an Arabic-named client with forty design tasks, a quarter of
+ * them done, so the task list runs onto a second page
+ */
+const report: ProjectFollowUpReport = {
+  projectId: 'project-1',
+  projectName: 'Al Nakheel Villa',
+  clientName: 'شركة البناء',
+  contractCode: 'C-100',
+  contractSigningDate: day('2025-12-20'),
+  builtUpArea: 1250,
+  licenseType: 'Grade A',
+  projectType: 'Villa',
+  startDate: day('2026-01-04'),
+  estimatedEndDate: day('2026-02-26'),
+  status: 'IN_PROGRESS',
+  phases: [
+    {
+      phaseName: 'DESIGN',
+      status: 'IN_PROGRESS',
+      startDate: day('2026-01-04'),
+      endDate: day('2026-01-15'),
+      duration: 10,
+      actualStartDate: null,
+      actualEndDate: null,
+      progress: 25,
+      teamAssignments: [{ teamMember: 'Sara Ahmed', role: 'TEAM_LEADER', workingPercentage: 50 }],
+      taskCount: 40,
+      completedTasks: 10,
+    },
+  ],
+  costSummary: {
+    totalCost: 15250.5,
+    employeeCostTotal: 12000,
+    materialCostTotal: 3250.5,
+    totalEntries: 6,
+  },
+  costBreakdown: [
+    { phase: 'DESIGN', costType: 'EMPLOYEE', entries: 4, amount: 12000 },
+    { phase: 'DESIGN', costType: 'MATERIAL', entries: 2, amount: 3250.5 },
+  ],
+  modifications: [
+    {
+      modificationNumber: 1,
+      phase: 'DESIGN',
+      date: day('2026-01-10'),
+      description: 'Extra floor',
+      requestedBy: 'Omar Khalid',
+      status: 'IN_PROGRESS',
+      isExceptional: true,
+      daysGranted: 5,
+      daysUsed: 2,
+    },
+  ],
+  modificationAllowances: [],
+  tasks: Array.from({ length: 40 }, (_, index) => task(index + 1)),
+};
+
+/** Every string drawn, in order, and the finished file */
+const rendered = async () => {
+  const text = jest.spyOn(PDFDocument.prototype, 'text');
+  const doc = buildFollowUpReportPdf(report);
+  const chunks: Buffer[] = [];
+  const file = await new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+  return { drawn: text.mock.calls.map(([value]) => String(value)), file };
+};
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('buildFollowUpReportPdf', () => {
+  it('lays out the cover, each section and a numbered footer on every page', async () => {
+    const { drawn, file } = await rendered();
+
+    expect(file.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(drawn).toEqual(
+      expect.arrayContaining([
+        'Al Nakheel Villa  |  C-100',
+        '20/12/2025',
+        '1,250',
+        'Tasks Completed',
+        '10 / 40',
+        '25%',
+        '15,250.50',
+        'Phase Progress',
+        'Task List',
+        'Drawing set 40',
+        'Team Allocation',
+        'Sara Ahmed',
+        'Team Leader',
+        'Cost Breakdown',
+        '3,250.50',
+        'Modification Allowances',
+        'No records',
+        'Modification History',
+        'Extra floor (exceptional)',
+        'In Progress',
+      ])
+    );
+
+    const footers = drawn.filter(value => /^Page \d+ of \d+$/.test(value));
+    expect(footers.length).toBeGreaterThan(2);
+    expect(footers).toEqual(footers.map((_, index) => `Page ${index + 1} of ${footers.length}`));
+    expect(drawn.filter(value => value === 'Al Nakheel Villa | C-100')).toHaveLength(
+      footers.length
+    );
+  });
+
+  it('draws Arabic names word by word from right to left', async () => {
+    const { drawn } = await rendered();
+
+    const client = drawn.indexOf('البناء');
+    expect(client).toBeGreaterThan(-1);
+    expect(drawn[client + 1]).toBe('شركة');
+  });
+});
@@ -0,0 +1,66 @@
+const mockPrisma = {} as {
+  kPIRuleSet: Record<string, jest.Mock>;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logCreate: jest.fn() },
+}));
+
+import kpiRuleSetService, { KPIRuleSetInput } from '../../src/services/kpiRuleSetService';
+
+const input = (overrides: Partial<KPIRuleSetInput> = {}): KPIRuleSetInput => ({
+  name: 'Design team',
+  effectiveFrom: new Date('2026-01-01'),
+  factors: [{ code: 'DELAYED_DAYS', weight: 1, allowance: 2 }],
+  ...overrides,
+});
+
+describe('kpiRuleSetService.createDraft', () => {
+  beforeEach(() => {
+    mockPrisma.kPIRuleSet = {
+      findFirst: jest.fn().mockResolvedValue(null),
+      create: jest.fn(async ({ data }) => ({ id: 'rules-1', ...data })),
+    };
+  });
+
+  it('starts a new rule set at revision 1', async () => {
+    const ruleSet = await kpiRuleSetService.createDraft(input(), 'user-1', 'MANAGER');
+
+    expect(ruleSet).toMatchObject({ revision: 1, floor: 0, ceiling: 100 });
+  });
+
+  it('numbers a new draft after the latest revision of the same name', async () => {
+    mockPrisma.kPIRuleSet.findFirst.mockResolvedValue({ revision: 3 });
+
+    const ruleSet = await kpiRuleSetService.createDraft(input(), 'user-1', 'MANAGER');
+
+    expect(ruleSet.revision).toBe(4);
+  });
+
+  it.each([
+    [{ factors: [{ code: 'LATE_ARRIVAL' }] }, 'Factor code must be one of'],
+    [{ factors: [{ code: 'DELAYED_DAYS', weight: -1 }] }, 'Factor weight must be zero or more'],
+    [{ floor: 60, ceiling: 40 }, 'Floor and ceiling must be within 0-100'],
+    [
+      { roleVariants: { MANAGER: { floor: 10 } } },
+      'Role variants must be TEAM_LEADER or TEAM_MEMBER',
+    ],
+    [{ roleVariants: { TEAM_LEADER: { ceiling: 120 } } }, 'Floor and ceiling must be within 0-100'],
+    [{ gradeBands: [{ name: '', minScore: 50 }] }, 'Grade bands must be named'],
+  ])('rejects %j', async (overrides, message) => {
+    await expect(
+      kpiRuleSetService.createDraft(
+        input(overrides as Partial<KPIRuleSetInput>),
+        'user-1',
+        'MANAGER'
+      )
+    ).rejects.toThrow(message);
+    expect(mockPrisma.kPIRuleSet.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,489 @@
+import { ConfigurationCategory, KPIEntryStatus, KPIRuleSet } from '@prisma/client';
+
+const mockPrisma = {} as {
+  configurationItem: Record<string, jest.Mock>;
+  kPIEntry: Record<string, jest.Mock>;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logUpdate: jest.fn() },
+}));
+
+import {
+  DEFAULT_KPI_CATEGORIES,
+  DEFAULT_KPI_GRADE_BANDS,
+  KPIScoringRules,
+  kpiService,
+} from '../../src/services/kpiService';
+import scheduleBaselineService, {
+  ScheduleVarianceReport,
+} from '../../src/services/scheduleBaselineService';
+import workingCalendarService, { WorkingCalendar } from '../../src/services/workingCalendarService';
+
+const defaults: KPIScoringRules = {
+  categories: DEFAULT_KPI_CATEGORIES,
+  gradeBands: DEFAULT_KPI_GRADE_BANDS,
+};
+
+const withCategory = (code: string, changes: Record<string, unknown>): KPIScoringRules => ({
+  ...defaults,
+  categories: DEFAULT_KPI_CATEGORIES.map(category =>
+    category.code === code ? { ...category, ...changes } : category
+  ),
+});
+
+describe('kpiService.calculateScore', () => {
+  it('reproduces the original fixed formula by default', () => {
+    const result = kpiService.calculateScore({
+      delayedDays: 2,
+      clientModifications: 1,
+      technicalMistakes: 1,
+      gcModifications: 1,
+    });
+
+    expect(result).toEqual({
+      score: 85,
+      delayedReduction: 4,
+      replyReasonReduction: 11,
+      gradeBand: 'Very Good',
+    });
+  });
+
+  it('does not reduce for exceptional client modifications by default', () => {
+    expect(kpiService.calculateScore({ exceptionalClientModifications: 4 }).score).toBe(100);
+  });
+
+  it('only counts occurrences above the allowance', () => {
+    const rules = withCategory('CLIENT_MODIFICATION', { allowance: 2 });
+
+    expect(kpiService.calculateScore({ clientModifications: 2 }, rules).score).toBe(100);
+    expect(kpiService.calculateScore({ clientModifications: 5 }, rules).score).toBe(91);
+  });
+
+  it('limits a category to its cap', () => {
+    const rules = withCategory('DELAYED_DAYS', { cap: 10 });
+
+    const result = kpiService.calculateScore({ delayedDays: 30 }, rules);
+
+    expect(result.delayedReduction).toBe(10);
+    expect(result.score).toBe(90);
+  });
+
+  it('keeps the score between the floor and the ceiling', () => {
+    expect(kpiService.calculateScore({ technicalMistakes: 40 }).score).toBe(0);
+    expect(
+      kpiService.calculateScore({ technicalMistakes: 40 }, { ...defaults, floor: 20 }).score
+    ).toBe(20);
+    expect(kpiService.calculateScore({}, { ...defaults, ceiling: 95 }).score).toBe(95);
+  });
+
+  it('grades on the highest band the score reaches', () => {
+    expect(kpiService.calculateScore({ delayedDays: 5 }).gradeBand).toBe('Excellent');
+    expect(kpiService.calculateScore({ delayedDays: 6 }).gradeBand).toBe('Very Good');
+    expect(kpiService.calculateScore({ technicalMistakes: 9 }).gradeBand).toBe('Poor');
+  });
+
+  it('has no grade when no band is reached', () => {
+    const rules = { ...defaults, gradeBands: [{ name: 'Good', minScore: 70 }] };
+
+    expect(kpiService.calculateScore({ technicalMistakes: 10 }, rules).gradeBand).toBeNull();
+  });
+});
+
+describe('kpiService.getScoringRules', () => {
+  const item = (overrides: Record<string, unknown>) => ({
+    code: null,
+    value: null,
+    allowance: null,
+    isActive: true,
+    ...overrides,
+  });
+
+  it('keeps the defaults when nothing is configured', async () => {
+    mockPrisma.configurationItem = { findMany: jest.fn().mockResolvedValue([]) };
+
+    await expect(kpiService.getScoringRules()).resolves.toEqual(defaults);
+  });
+
+  it('overrides weights and allowances by code or by label', async () => {
+    mockPrisma.configurationItem = {
+      findMany: jest.fn().mockResolvedValue([
+        item({
+          category: ConfigurationCategory.KPI_WEIGHT,
+          code: 'DELAYED_DAYS',
+          name: 'Late days',
+          value: 1.5,
+        }),
+        item({
+          category: ConfigurationCategory.KPI_WEIGHT,
+          name: ' technical mistake ',
+          value: 8,
+          allowance: 1,
+        }),
+      ]),
+    };
+
+    const rules = await kpiService.getScoringRules();
+    const byCode = Object.fromEntries(rules.categories.map(category => [category.code, category]));
+
+    expect(byCode.DELAYED_DAYS).toMatchObject({ weight: 1.5, allowance: 0 });
+    expect(byCode.TECHNICAL_MISTAKE).toMatchObject({ weight: 8, allowance: 1 });
+    expect(byCode.GC_MODIFICATION).toMatchObject({ weight: 3, allowance: 0 });
+  });
+
+  it('replaces the default grade bands with the configured ones, highest first', async () => {
+    mockPrisma.configurationItem = {
+      findMany: jest
+        .fn()
+        .mockResolvedValue([
+          item({ category: ConfigurationCategory.KPI_GRADE_BAND, name: 'Pass', value: 50 }),
+          item({ category: ConfigurationCategory.KPI_GRADE_BAND, name: 'Distinction', value: 85 }),
+        ]),
+    };
+
+    const rules = await kpiService.getScoringRules();
+
+    expect(rules.gradeBands).toEqual([
+      { name: 'Distinction', minScore: 85 },
+      { name: 'Pass', minScore: 50 },
+    ]);
+    expect(kpiService.calculateScore({ technicalMistakes: 9 }, rules).gradeBand).toBe('Pass');
+    expect(kpiService.calculateScore({ technicalMistakes: 11 }, rules).gradeBand).toBeNull();
+  });
+});
+
+describe('kpiService.resolveScoring', () => {
+  const ruleSet = (overrides: Record<string, unknown>) =>
+    ({
+      id: 'rules-1',
+      effectiveFrom: new Date('2026-01-01'),
+      factors: [{ code: 'TECHNICAL_MISTAKE', weight: 10 }],
+      roleVariants: null,
+      gradeBands: null,
+      floor: 0,
+      ceiling: 100,
+      ...overrides,
+    }) as unknown as KPIRuleSet;
+
+  const context = (ruleSets: KPIRuleSet[], leaderKeys: string[] = []) => ({
+    baseline: defaults,
+    ruleSets,
+    leaderKeys: new Set(leaderKeys),
+  });
+
+  const entry = { employeeId: 'user-1', phaseId: 'phase-1', period: new Date('2026-03-01') };
+
+  it('keeps the baseline when no rule set is in effect yet', () => {
+    const scoring = kpiService.resolveScoring(
+      context([ruleSet({ effectiveFrom: new Date('2026-06-01') })]),
+      entry
+    );
+
+    expect(scoring).toEqual({ rules: defaults, ruleSetId: null, role: 'TEAM_MEMBER' });
+  });
+
+  it('uses the newest rule set in effect on the entry period', () => {
+    const scoring = kpiService.resolveScoring(
+      context([
+        ruleSet({ id: 'rules-2', effectiveFrom: new Date('2026-06-01') }),
+        ruleSet({ id: 'rules-1', effectiveFrom: new Date('2026-02-01') }),
+      ]),
+      entry
+    );
+
+    expect(scoring.ruleSetId).toBe('rules-1');
+    expect(kpiService.calculateScore({ technicalMistakes: 1 }, scoring.rules).score).toBe(90);
+  });
+
+  it('applies the team leader variant over the rule set for phase leaders', () => {
+    const scoring = kpiService.resolveScoring(
+      context(
+        [
+          ruleSet({
+            roleVariants: {
+              TEAM_LEADER: { factors: [{ code: 'TECHNICAL_MISTAKE', weight: 4 }], floor: 50 },
+            },
+          }),
+        ],
+        ['phase-1:user-1']
+      ),
+      entry
+    );
+
+    expect(scoring.role).toBe('TEAM_LEADER');
+    expect(kpiService.calculateScore({ technicalMistakes: 1 }, scoring.rules).score).toBe(96);
+    expect(kpiService.calculateScore({ technicalMistakes: 20 }, scoring.rules).score).toBe(50);
+  });
+
+  it("takes the rule set's grade bands over the baseline's", () => {
+    const scoring = kpiService.resolveScoring(
+      context([ruleSet({ gradeBands: [{ name: 'Pass', minScore: 40 }] })]),
+      entry
+    );
+
+    expect(scoring.rules.gradeBands).toEqual([{ name: 'Pass', minScore: 40 }]);
+  });
+});
+
+/** Score with the default rules and leave team leader grades alone */
+const stubScoring = () => {
+  jest
+    .spyOn(kpiService, 'loadScoringContext')
+    .mockResolvedValue({ baseline: defaults, ruleSets: [], leaderKeys: new Set() });
+  jest.spyOn(kpiService, 'updateTeamLeadersGrade').mockResolvedValue();
+};
+
+describe('kpiService.syncDelayedDays', () => {
+  const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+  // Planned to end Tuesday 24 February, now ending Thursday 5 March: two
+  // working days late in February and five in March
+  const variance = (baseline: boolean, delayedDays = 7) =>
+    ({
+      baseline: baseline ? { id: 'baseline-1' } : null,
+      phases: [
+        {
+          phaseId: 'phase-1',
+          plannedEndDate: day('2026-02-24'),
+          forecastEndDate: day('2026-03-05'),
+          delayedDays,
+        },
+      ],
+    }) as unknown as ScheduleVarianceReport;
+
+  const entry = (id: string, employeeId: string, period: string | null, delayedDays: number) => ({
+    id,
+    employeeId,
+    phaseId: 'phase-1',
+    period: period ? day(period) : null,
+    delayedDays,
+  });
+
+  /** user-1 leads phase-1, with Friday and Saturday off */
+  const setUp = (entries: Array<ReturnType<typeof entry>>) => {
+    mockPrisma.kPIEntry = {
+      findMany: jest.fn().mockResolvedValue(entries),
+      update: jest.fn(),
+    };
+    stubScoring();
+    jest.spyOn(kpiService, 'loadScoringContext').mockResolvedValue({
+      baseline: defaults,
+      ruleSets: [],
+      leaderKeys: new Set(['phase-1:user-1']),
+    });
+    jest
+      .spyOn(workingCalendarService, 'getProjectCalendar')
+      .mockResolvedValue(new WorkingCalendar([], [5, 6]));
+  };
+
+  const updated = () =>
+    Object.fromEntries(
+      mockPrisma.kPIEntry.update.mock.calls.map(([{ where, data }]) => [
+        where.id,
+        [data.delayedDays, data.score],
+      ])
+    );
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("gives the team leader each month's late days, once, and rescores", async () => {
+    jest.spyOn(scheduleBaselineService, 'getVariance').mockResolvedValue(variance(true));
+    setUp([
+      entry('entry-1', 'user-1', '2026-02-01', 0),
+      entry('entry-2', 'user-1', '2026-03-01', 7),
+      entry('entry-3', 'user-1', '2026-03-01', 7),
+      entry('entry-4', 'user-1', null, 7),
+    ]);
+
+    await expect(kpiService.syncDelayedDays('project-1')).resolves.toBe(3);
+
+    expect(updated()).toEqual({
+      'entry-1': [2, 96],
+      'entry-2': [5, 90],
+      'entry-3': [0, 100],
+    });
+    expect(kpiService.updateTeamLeadersGrade).toHaveBeenCalledWith('phase-1');
+  });
+
+  it("takes the phase's delay off members, whose own delays are detected", async () => {
+    jest.spyOn(scheduleBaselineService, 'getVariance').mockResolvedValue(variance(true));
+    setUp([entry('entry-1', 'user-2', '2026-03-01', 7), entry('entry-2', 'user-2', null, 0)]);
+
+    await expect(kpiService.syncDelayedDays('project-1')).resolves.toBe(1);
+
+    expect(updated()).toEqual({ 'entry-1': [0, 100] });
+    expect(mockPrisma.kPIEntry.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ status: KPIEntryStatus.CONFIRMED, detected: false }),
+      })
+    );
+  });
+
+  it('clears the delay once the phase is back on plan', async () => {
+    jest.spyOn(scheduleBaselineService, 'getVariance').mockResolvedValue(variance(true, 0));
+    setUp([entry('entry-1', 'user-1', '2026-03-01', 5)]);
+
+    await expect(kpiService.syncDelayedDays('project-1')).resolves.toBe(1);
+
+    expect(updated()).toEqual({ 'entry-1': [0, 100] });
+  });
+
+  it('leaves entries alone until a baseline is captured', async () => {
+    jest.spyOn(scheduleBaselineService, 'getVariance').mockResolvedValue(variance(false));
+    setUp([]);
+
+    await expect(kpiService.syncDelayedDays('project-1')).resolves.toBe(0);
+
+    expect(mockPrisma.kPIEntry.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('kpiService.saveDelayDraft', () => {
+  const delay = {
+    employeeId: 'user-1',
+    projectId: 'project-1',
+    phaseId: 'phase-1',
+    period: new Date('2026-03-01'),
+    delayedDays: 3,
+  };
+
+  const stored = (status: KPIEntryStatus, delayedDays: number) => ({
+    ...delay,
+    id: 'entry-1',
+    status,
+    delayedDays,
+  });
+
+  const setUp = (entries: unknown[], claimed = 1) => {
+    mockPrisma.kPIEntry = {
+      findMany: jest.fn().mockResolvedValue(entries),
+      create: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: claimed }),
+    };
+    stubScoring();
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('raises a scored draft for a new delay', async () => {
+    setUp([]);
+
+    await expect(kpiService.saveDelayDraft(delay)).resolves.toBe('created');
+
+    expect(mockPrisma.kPIEntry.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        status: KPIEntryStatus.DRAFT,
+        detected: true,
+        delayedDays: 3,
+        score: 94,
+      }),
+    });
+  });
+
+  it('grows a draft only from the figure it was read with', async () => {
+    setUp([stored(KPIEntryStatus.DRAFT, 2)]);
+
+    await expect(kpiService.saveDelayDraft(delay)).resolves.toBe('updated');
+
+    expect(mockPrisma.kPIEntry.updateMany).toHaveBeenCalledWith({
+      where: { id: 'entry-1', status: KPIEntryStatus.DRAFT, delayedDays: 2 },
+      data: expect.objectContaining({ delayedDays: 3, score: 94 }),
+    });
+  });
+
+  it('leaves a draft confirmed since it was read', async () => {
+    setUp([stored(KPIEntryStatus.DRAFT, 2)], 0);
+
+    await expect(kpiService.saveDelayDraft(delay)).resolves.toBe('unchanged');
+  });
+
+  it('leaves confirmed entries and shrinking delays alone', async () => {
+    setUp([stored(KPIEntryStatus.CONFIRMED, 1)]);
+    await expect(kpiService.saveDelayDraft(delay)).resolves.toBe('unchanged');
+
+    setUp([stored(KPIEntryStatus.DRAFT, 5)]);
+    await expect(kpiService.saveDelayDraft(delay)).resolves.toBe('unchanged');
+
+    expect(mockPrisma.kPIEntry.updateMany).not.toHaveBeenCalled();
+    expect(mockPrisma.kPIEntry.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('kpiService.confirmKPIEntry', () => {
+  const draft = {
+    id: 'entry-1',
+    employeeId: 'user-1',
+    phaseId: 'phase-1',
+    period: new Date('2026-03-01'),
+    status: KPIEntryStatus.DRAFT,
+    delayedDays: 2,
+    clientModifications: 0,
+    technicalMistakes: 0,
+    exceptionalClientModifications: 0,
+    gcModifications: 0,
+  };
+
+  const setUp = (claimed: number) => {
+    mockPrisma.kPIEntry = {
+      findUnique: jest.fn().mockResolvedValue(draft),
+      updateMany: jest.fn().mockResolvedValue({ count: claimed }),
+      findUniqueOrThrow: jest
+        .fn()
+        .mockResolvedValue({ ...draft, status: KPIEntryStatus.CONFIRMED }),
+    };
+    stubScoring();
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('confirms the draft as it was read, with the counts corrected', async () => {
+    setUp(1);
+
+    const entry = await kpiService.confirmKPIEntry(
+      'entry-1',
+      { technicalMistakes: 1 },
+      'manager-1',
+      'MANAGER'
+    );
+
+    expect(entry.status).toBe(KPIEntryStatus.CONFIRMED);
+    expect(mockPrisma.kPIEntry.updateMany).toHaveBeenCalledWith({
+      where: { id: 'entry-1', status: KPIEntryStatus.DRAFT, delayedDays: 2 },
+      data: expect.objectContaining({
+        technicalMistakes: 1,
+        score: 91,
+        status: KPIEntryStatus.CONFIRMED,
+        confirmedBy: 'manager-1',
+      }),
+    });
+    expect(kpiService.updateTeamLeadersGrade).toHaveBeenCalledWith('phase-1');
+  });
+
+  it('refuses a draft confirmed or grown since it was read', async () => {
+    setUp(0);
+
+    await expect(kpiService.confirmKPIEntry('entry-1', {}, 'manager-1', 'MANAGER')).rejects.toThrow(
+      'Version conflict'
+    );
+    expect(kpiService.updateTeamLeadersGrade).not.toHaveBeenCalled();
+  });
+
+  it('refuses an entry that is already confirmed', async () => {
+    setUp(1);
+    mockPrisma.kPIEntry.findUnique.mockResolvedValue({
+      ...draft,
+      status: KPIEntryStatus.CONFIRMED,
+    });
+
+    await expect(kpiService.confirmKPIEntry('entry-1', {}, 'manager-1', 'MANAGER')).rejects.toThrow(
+      'KPI entry is already confirmed'
+    );
+    expect(mockPrisma.kPIEntry.updateMany).not.toHaveBeenCalled();
+  });
+});
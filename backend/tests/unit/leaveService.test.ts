@@ -0,0 +1,182 @@
+import { LeaveStatus, LeaveType, UserRole } from '@prisma/client';
+
+const mockPrisma = {} as {
+  leave: Record<string, jest.Mock>;
+  task: Record<string, jest.Mock>;
+  user: Record<string, jest.Mock>;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logCreate: jest.fn(), logUpdate: jest.fn() },
+}));
+jest.mock('../../src/services/taskDependencyService', () => ({
+  __esModule: true,
+  default: { reschedule: jest.fn() },
+}));
+jest.mock('../../src/services/workingCalendarService', () => ({
+  ...jest.requireActual('../../src/services/workingCalendarService'),
+  __esModule: true,
+  default: { getCalendars: jest.fn(), getApprovedLeave: jest.fn() },
+}));
+
+import leaveService from '../../src/services/leaveService';
+import taskDependencyService from '../../src/services/taskDependencyService';
+import workingCalendarService, { WorkingCalendar } from '../../src/services/workingCalendarService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const task = (id: string, startDate: Date, endDate: Date) => ({
+  id,
+  code: id.toUpperCase(),
+  startDate,
+  endDate,
+  phase: { projectId: 'project-1', project: { region: null } },
+});
+
+/**
+ * Pending leave from Monday 2026-01-05 to Tuesday 2026-01-06, on a calendar
+ * with Friday and Saturday off, and the person's tasks running into it
+ */
+const setUp = (tasks: Array<ReturnType<typeof task>> = [], otherLeaveCount = 0) => {
+  const stored = {
+    id: 'leave-1',
+    userId: 'user-1',
+    type: LeaveType.ANNUAL,
+    status: LeaveStatus.PENDING as LeaveStatus,
+    startDate: day('2026-01-05'),
+    endDate: day('2026-01-06'),
+    requestedBy: 'user-1',
+    version: 1,
+  };
+
+  jest
+    .mocked(workingCalendarService.getCalendars)
+    .mockResolvedValue(new Map([[null, new WorkingCalendar([], [5, 6])]]));
+  jest
+    .mocked(workingCalendarService.getApprovedLeave)
+    .mockResolvedValue(new Map([['user-1', [stored]]]));
+
+  Object.assign(mockPrisma, {
+    leave: {
+      findUnique: jest.fn(async () => ({ ...stored })),
+      findUniqueOrThrow: jest.fn(async () => ({ ...stored })),
+      updateMany: jest.fn(async ({ where, data }) => {
+        if (where.version !== stored.version || where.status !== stored.status) {
+          return { count: 0 };
+        }
+        Object.assign(stored, data, { version: stored.version + 1 });
+        return { count: 1 };
+      }),
+      count: jest.fn(async () => otherLeaveCount),
+      create: jest.fn(async ({ data }) => ({ id: 'leave-2', ...data })),
+    },
+    task: {
+      findMany: jest.fn(async () => tasks),
+      update: jest.fn(async ({ where, data }) => ({
+        ...tasks.find(t => t.id === where.id),
+        ...data,
+      })),
+    },
+    user: { findUnique: jest.fn(async () => ({ id: 'user-1' })) },
+  });
+};
+
+describe('leaveService.create', () => {
+  const input = { type: LeaveType.ANNUAL, startDate: day('2026-01-05') };
+
+  it('records a single day of leave pending approval', async () => {
+    setUp();
+
+    const leave = await leaveService.create(input, 'user-1', UserRole.TEAM_MEMBER);
+
+    expect(leave).toMatchObject({
+      userId: 'user-1',
+      startDate: day('2026-01-05'),
+      endDate: day('2026-01-05'),
+      requestedBy: 'user-1',
+    });
+  });
+
+  it("only lets managers record someone else's leave", async () => {
+    setUp();
+
+    await expect(
+      leaveService.create({ ...input, userId: 'user-2' }, 'user-1', UserRole.TEAM_LEADER)
+    ).rejects.toThrow('You can only record your own leave');
+  });
+
+  it('refuses leave ending before it starts', async () => {
+    setUp();
+
+    await expect(
+      leaveService.create({ ...input, endDate: day('2026-01-04') }, 'user-1', UserRole.MANAGER)
+    ).rejects.toThrow('Leave end date must be on or after its start date');
+  });
+
+  it('refuses days already taken by other open leave', async () => {
+    setUp([], 1);
+
+    await expect(leaveService.create(input, 'user-1', UserRole.TEAM_MEMBER)).rejects.toThrow(
+      'Leave must be on days not already taken by other pending or approved leave'
+    );
+    expect(mockPrisma.leave.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('leaveService.approve', () => {
+  it("moves the person's tasks around the leave and reschedules the project", async () => {
+    setUp([
+      task('task-1', day('2026-01-04'), day('2026-01-07')),
+      task('task-2', day('2026-01-05'), day('2026-01-05')),
+    ]);
+
+    const { leave, tasks } = await leaveService.approve(
+      'leave-1',
+      1,
+      undefined,
+      'manager-1',
+      UserRole.MANAGER
+    );
+
+    expect(leave).toMatchObject({ status: LeaveStatus.APPROVED, decidedBy: 'manager-1' });
+    expect(tasks).toEqual([
+      { id: 'task-1', code: 'TASK-1', startDate: day('2026-01-04'), endDate: day('2026-01-11') },
+      { id: 'task-2', code: 'TASK-2', startDate: day('2026-01-07'), endDate: day('2026-01-07') },
+    ]);
+    expect(taskDependencyService.reschedule).toHaveBeenCalledTimes(1);
+    expect(taskDependencyService.reschedule).toHaveBeenCalledWith(
+      'project-1',
+      'manager-1',
+      UserRole.MANAGER
+    );
+  });
+
+  it('lets only one of two decisions made at the same version through', async () => {
+    setUp([task('task-1', day('2026-01-04'), day('2026-01-07'))]);
+
+    const results = await Promise.allSettled([
+      leaveService.approve('leave-1', 1, undefined, 'manager-1', UserRole.MANAGER),
+      leaveService.cancel('leave-1', 1, 'user-1', UserRole.TEAM_MEMBER),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('Version conflict');
+    expect(mockPrisma.task.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses leave that is no longer pending', async () => {
+    setUp();
+    await leaveService.reject('leave-1', 1, 'Busy month', 'manager-1', UserRole.MANAGER);
+
+    await expect(
+      leaveService.approve('leave-1', 2, undefined, 'manager-1', UserRole.MANAGER)
+    ).rejects.toThrow('Only pending leave can be changed this way');
+    expect(mockPrisma.task.findMany).not.toHaveBeenCalled();
+  });
+});
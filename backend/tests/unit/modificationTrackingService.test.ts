@@ -0,0 +1,279 @@
+import { ClientModification, ClientModificationStatus } from '@prisma/client';
+
+const mockPrisma = {} as {
+  phase: Record<string, jest.Mock>;
+  clientModification: Record<string, jest.Mock>;
+  $transaction: jest.Mock;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logCreate: jest.fn(), logUpdate: jest.fn() },
+}));
+
+import modificationTrackingService from '../../src/services/modificationTrackingService';
+
+const { REQUESTED, APPROVED, IN_PROGRESS, DONE, REJECTED } = ClientModificationStatus;
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const modification = (
+  modificationNumber: number,
+  fields: Partial<ClientModification> = {}
+): ClientModification => ({
+  id: `mod-${modificationNumber}`,
+  phaseId: 'phase-1',
+  modificationNumber,
+  requestDate: day(`2026-01-0${modificationNumber}`),
+  requestedBy: 'Omar Khalid',
+  description: `Change ${modificationNumber}`,
+  daysGranted: 0,
+  daysConsumed: 0,
+  status: APPROVED,
+  isExceptional: false,
+  createdBy: 'user-1',
+  createdAt: day('2026-01-01'),
+  updatedAt: day('2026-01-01'),
+  version: 1,
+  ...fields,
+});
+
+/**
+ * A design phase allowed two regular modifications of up to five days each,
+ * holding the given modifications; what is written is kept in memory
+ */
+const setUp = (modifications: ClientModification[]) => {
+  const state = { modifications: [...modifications] };
+  const phase = () => ({
+    id: 'phase-1',
+    name: 'DESIGN',
+    modificationAllowedTimes: 2,
+    modificationDaysPerTime: 5,
+    clientModifications: [...state.modifications],
+  });
+
+  Object.assign(mockPrisma, {
+    phase: { findUnique: jest.fn(async () => phase()) },
+    clientModification: {
+      findUnique: jest.fn(async ({ where }) => {
+        const found = state.modifications.find(existing => existing.id === where.id);
+        return found ? { ...found, phase: phase() } : null;
+      }),
+      create: jest.fn(async ({ data }) => {
+        const created = { ...modification(data.modificationNumber), ...data };
+        state.modifications.push(created);
+        return created;
+      }),
+      update: jest.fn(async ({ where, data }) => {
+        const index = state.modifications.findIndex(existing => existing.id === where.id);
+        const current = state.modifications[index];
+        state.modifications[index] = {
+          ...current,
+          ...data,
+          requestDate: data.requestDate ?? current.requestDate,
+          version: current.version + data.version.increment,
+        };
+        return state.modifications[index];
+      }),
+    },
+    $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma)),
+  });
+
+  return state;
+};
+
+const request = (fields: { isExceptional?: boolean; daysGranted?: number } = {}) => ({
+  requestDate: day('2026-01-20'),
+  requestedBy: 'Omar Khalid',
+  description: 'Move the kitchen',
+  ...fields,
+});
+
+describe('modificationTrackingService.createModification', () => {
+  it('numbers a regular modification after the last one while allowance is left', async () => {
+    // The rejected second request does not use up the allowance
+    const state = setUp([modification(1), modification(2, { status: REJECTED })]);
+
+    const created = await modificationTrackingService.createModification(
+      'phase-1',
+      request({ daysGranted: 5 }),
+      'user-1',
+      'MANAGER'
+    );
+
+    expect(created).toMatchObject({
+      modificationNumber: 3,
+      status: REQUESTED,
+      isExceptional: false,
+      daysGranted: 5,
+      createdBy: 'user-1',
+    });
+    expect(state.modifications).toHaveLength(3);
+  });
+
+  it('refuses a regular modification once the allowance is used up', async () => {
+    setUp([modification(1), modification(2, { status: DONE })]);
+
+    await expect(
+      modificationTrackingService.createModification('phase-1', request(), 'user-1', 'MANAGER')
+    ).rejects.toThrow(
+      'Modification limit reached: 2 of 2 allowed modifications used on this phase'
+    );
+    expect(mockPrisma.clientModification.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a regular modification granted more days than the allowance gives', async () => {
+    setUp([]);
+
+    await expect(
+      modificationTrackingService.createModification(
+        'phase-1',
+        request({ daysGranted: 6 }),
+        'user-1',
+        'MANAGER'
+      )
+    ).rejects.toThrow('Days granted must be at most 5 for a regular modification');
+  });
+
+  it('records an exceptional modification outside the allowance', async () => {
+    setUp([modification(1), modification(2)]);
+
+    const created = await modificationTrackingService.createModification(
+      'phase-1',
+      request({ isExceptional: true, daysGranted: 10 }),
+      'user-1',
+      'MANAGER'
+    );
+
+    expect(created).toMatchObject({ modificationNumber: 3, isExceptional: true, daysGranted: 10 });
+  });
+
+  it('refuses negative days', async () => {
+    setUp([]);
+
+    await expect(
+      modificationTrackingService.createModification(
+        'phase-1',
+        request({ daysGranted: -1 }),
+        'user-1',
+        'MANAGER'
+      )
+    ).rejects.toThrow('Days granted and consumed must be zero or more');
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('modificationTrackingService.updateModification', () => {
+  it.each([
+    [REQUESTED, APPROVED],
+    [REQUESTED, REJECTED],
+    [APPROVED, IN_PROGRESS],
+    [APPROVED, DONE],
+    [IN_PROGRESS, DONE],
+  ])('moves a modification from %s to %s', async (from, to) => {
+    const state = setUp([modification(1, { status: from })]);
+
+    await modificationTrackingService.updateModification(
+      'mod-1',
+      { status: to, version: 1 },
+      'user-1',
+      'MANAGER'
+    );
+
+    expect(state.modifications[0]).toMatchObject({ status: to, version: 2 });
+  });
+
+  it.each([
+    [REQUESTED, DONE],
+    [IN_PROGRESS, REJECTED],
+    [DONE, IN_PROGRESS],
+    [REJECTED, APPROVED],
+  ])('refuses to move a modification from %s to %s', async (from, to) => {
+    setUp([modification(1, { status: from })]);
+
+    await expect(
+      modificationTrackingService.updateModification(
+        'mod-1',
+        { status: to, version: 1 },
+        'user-1',
+        'MANAGER'
+      )
+    ).rejects.toThrow(`Cannot move a client modification from ${from} to ${to}`);
+    expect(mockPrisma.clientModification.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to make an exceptional modification regular once the allowance is used up', async () => {
+    setUp([modification(1), modification(2), modification(3, { isExceptional: true })]);
+
+    await expect(
+      modificationTrackingService.updateModification(
+        'mod-3',
+        { isExceptional: false, version: 1 },
+        'user-1',
+        'MANAGER'
+      )
+    ).rejects.toThrow(
+      'Modification limit reached: 2 of 2 allowed modifications used on this phase'
+    );
+  });
+
+  it('lets a regular modification keep its place in a full allowance', async () => {
+    const state = setUp([modification(1), modification(2)]);
+
+    await modificationTrackingService.updateModification(
+      'mod-2',
+      { daysConsumed: 3, version: 1 },
+      'user-1',
+      'MANAGER'
+    );
+
+    expect(state.modifications[1]).toMatchObject({ daysConsumed: 3, version: 2 });
+  });
+
+  it('refuses a stale version', async () => {
+    setUp([modification(1, { version: 2 })]);
+
+    await expect(
+      modificationTrackingService.updateModification(
+        'mod-1',
+        { status: DONE, version: 1 },
+        'user-1',
+        'MANAGER'
+      )
+    ).rejects.toThrow('Version conflict');
+  });
+});
+
+describe('modificationTrackingService.getPhaseModificationStats', () => {
+  it('counts exceptional modifications apart and leaves rejected ones out', async () => {
+    setUp([
+      modification(1, { daysGranted: 5, daysConsumed: 4 }),
+      modification(2, { status: REJECTED, daysGranted: 5 }),
+      modification(3, { isExceptional: true, daysGranted: 8, daysConsumed: 2 }),
+    ]);
+
+    const stats = await modificationTrackingService.getPhaseModificationStats('phase-1');
+
+    expect(stats).toMatchObject({
+      phaseName: 'DESIGN',
+      totalAllowed: 2,
+      totalUsed: 1,
+      remaining: 1,
+      daysPerTime: 5,
+      daysGranted: 13,
+      daysUsed: 6,
+      exceptionalCount: 1,
+      canModify: true,
+    });
+    expect(stats.modifications.map(entry => entry.phaseName)).toEqual([
+      'DESIGN',
+      'DESIGN',
+      'DESIGN',
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  findNameMatches,
+  nameSimilarity,
+  normalizeName,
+  resolveName,
+} from '../../src/utils/nameMatcher';
+
+const people = (...names: string[]) => names.map((name, index) => ({ id: `user-${index}`, name }));
+
+describe('nameSimilarity', () => {
+  it('ignores case and spacing', () => {
+    expect(normalizeName('  ali   HASSAN ')).toBe('ali hassan');
+    expect(nameSimilarity('  ali   HASSAN ', 'Ali Hassan')).toBe(1);
+  });
+
+  it('ignores hyphens, diacritics and the order of first and last names', () => {
+    expect(nameSimilarity('José Al-Rashid', 'Jose Al Rashid')).toBe(1);
+    expect(nameSimilarity('Hassan Ali', 'Ali Hassan')).toBe(1);
+  });
+
+  it('scores spelling differences by the edits they take', () => {
+    expect(nameSimilarity('Sara Ahmedd', 'Sara Ahmed')).toBeCloseTo(0.9);
+    expect(nameSimilarity('Amar Khaled', 'Omar Khalid')).toBeCloseTo(0.8);
+  });
+});
+
+describe('findNameMatches', () => {
+  it('keeps names from the 0.8 threshold up, best first', () => {
+    const matches = findNameMatches(
+      'Omar Khalid',
+      people('Amar Khaleb', 'Amar Khaled', 'Omar Khaled')
+    );
+
+    expect(matches.map(match => [match.name, match.exact])).toEqual([
+      ['Omar Khaled', false],
+      ['Amar Khaled', false],
+    ]);
+  });
+
+  it('takes a stricter threshold when asked', () => {
+    expect(findNameMatches('Omar Khalid', people('Amar Khaled'), 0.85)).toEqual([]);
+  });
+});
+
+describe('resolveName', () => {
+  it('picks an exact match however close the others are', () => {
+    expect(resolveName('Sara Ahmed', people('Sara Ahmad', 'Sara Ahmed'))).toMatchObject({
+      id: 'user-1',
+      exact: true,
+    });
+  });
+
+  it('picks the best match when it leads the next by the 0.05 margin', () => {
+    // 0.92 against 0.85
+    expect(resolveName('Mohammad Saleh', people('Mohamed Saleh', 'Mohammed Saleh'))).toMatchObject({
+      name: 'Mohammed Saleh',
+      exact: false,
+    });
+  });
+
+  it('refuses to pick between matches that are too close to call', () => {
+    // 0.90 against 0.89
+    expect(resolveName('Sara Ahmid', people('Sara Ahmidd', 'Sara Ahmed'))).toBeNull();
+    expect(resolveName('Muhammad Saleh', people('Mohammad Saleh', 'Muhammad Salih'))).toBeNull();
+  });
+
+  it('matches nobody below the threshold', () => {
+    expect(resolveName('Amar Khaleb', people('Omar Khalid'))).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+const mockPrisma = {} as {
+  phaseDefinition: Record<string, jest.Mock>;
+  phasePipelineStep: Record<string, jest.Mock>;
+  $transaction: jest.Mock;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logCreate: jest.fn(), logUpdate: jest.fn() },
+}));
+
+import phasePipelineService from '../../src/services/phasePipelineService';
+
+type Step = {
+  projectType: string | null;
+  phaseKey: string;
+  sequence: number;
+  defaultDuration: number | null;
+  autoStart: boolean;
+};
+
+/** Phase definitions and pipeline steps held in memory */
+const setUp = (keys: string[], steps: Step[] = []) => {
+  let stored = [...steps];
+  const byType = (where: { projectType?: string | null }) =>
+    stored
+      .filter(step => !('projectType' in where) || step.projectType === where.projectType)
+      .sort((a, b) => a.sequence - b.sequence);
+
+  Object.assign(mockPrisma, {
+    phaseDefinition: {
+      findMany: jest.fn(async () => keys.map(key => ({ key }))),
+      findUnique: jest.fn(async () => null),
+      create: jest.fn(async ({ data }) => ({ id: 'definition-1', ...data })),
+    },
+    phasePipelineStep: {
+      findMany: jest.fn(async ({ where }) => byType(where)),
+      deleteMany: jest.fn(async ({ where }) => {
+        stored = stored.filter(step => step.projectType !== where.projectType);
+      }),
+      createMany: jest.fn(async ({ data }) => {
+        stored.push(...data);
+      }),
+    },
+    $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma)),
+  });
+};
+
+const step = (projectType: string | null, phaseKey: string, sequence: number): Step => ({
+  projectType,
+  phaseKey,
+  sequence,
+  defaultDuration: null,
+  autoStart: true,
+});
+
+describe('phasePipelineService.getPipeline', () => {
+  it('uses Studies then Design until a pipeline is configured', async () => {
+    setUp(['STUDIES', 'DESIGN']);
+
+    const pipeline = await phasePipelineService.getPipeline('Villa');
+
+    expect(pipeline.map(entry => entry.name)).toEqual(['STUDIES', 'DESIGN']);
+  });
+
+  it("prefers the project type's own pipeline over the default one", async () => {
+    setUp(
+      ['STUDIES', 'DESIGN', 'PERMITS'],
+      [step(null, 'DESIGN', 1), step('Villa', 'STUDIES', 1), step('Villa', 'PERMITS', 2)]
+    );
+
+    await expect(phasePipelineService.getPipeline('Villa')).resolves.toMatchObject([
+      { name: 'STUDIES', sequence: 1 },
+      { name: 'PERMITS', sequence: 2 },
+    ]);
+    await expect(phasePipelineService.getPipeline('Tower')).resolves.toMatchObject([
+      { name: 'DESIGN', sequence: 1 },
+    ]);
+  });
+});
+
+describe('phasePipelineService.setPipeline', () => {
+  it('builds a pipeline from any defined phase', async () => {
+    setUp(['STUDIES', 'DESIGN', 'PERMITS']);
+
+    const steps = await phasePipelineService.setPipeline(
+      'Villa',
+      [{ name: 'PERMITS', defaultDuration: 10, autoStart: false }, { name: 'DESIGN' }],
+      'user-1',
+      'MANAGER'
+    );
+
+    expect(steps).toMatchObject([
+      { phaseKey: 'PERMITS', sequence: 1, defaultDuration: 10, autoStart: false },
+      { phaseKey: 'DESIGN', sequence: 2, defaultDuration: null, autoStart: true },
+    ]);
+  });
+
+  it('refuses phases that are not defined', async () => {
+    setUp(['STUDIES', 'DESIGN']);
+
+    await expect(
+      phasePipelineService.setPipeline('Villa', [{ name: 'PERMITS' }], 'user-1', 'MANAGER')
+    ).rejects.toThrow('Phase name must be one of STUDIES, DESIGN');
+    expect(mockPrisma.phasePipelineStep.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses a phase listed twice', async () => {
+    setUp(['STUDIES', 'DESIGN']);
+
+    await expect(
+      phasePipelineService.setPipeline(
+        null,
+        [{ name: 'STUDIES' }, { name: 'STUDIES' }],
+        'user-1',
+        'MANAGER'
+      )
+    ).rejects.toThrow('Phase STUDIES must be listed once');
+  });
+});
+
+describe('phasePipelineService.saveDefinition', () => {
+  it('adds a kind of phase', async () => {
+    setUp([]);
+
+    const definition = await phasePipelineService.saveDefinition(
+      'PERMITS',
+      { label: ' Permits ' },
+      'user-1',
+      'MANAGER'
+    );
+
+    expect(definition).toMatchObject({ key: 'PERMITS', label: 'Permits' });
+  });
+
+  it.each([
+    ['permits', 'Permits', 'Phase key must be upper case letters, digits and underscores'],
+    ['PERMITS', '  ', 'Phase label must be given'],
+  ])('refuses key %j with label %j', async (key, label, message) => {
+    setUp([]);
+
+    await expect(
+      phasePipelineService.saveDefinition(key, { label }, 'user-1', 'MANAGER')
+    ).rejects.toThrow(message);
+    expect(mockPrisma.phaseDefinition.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,177 @@
+import { UserRole } from '@prisma/client';
+
+const mockPrisma = {} as {
+  project: Record<string, jest.Mock>;
+  phase: Record<string, jest.Mock>;
+  task: Record<string, jest.Mock>;
+  $transaction: jest.Mock;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logCreate: jest.fn() },
+}));
+jest.mock('../../src/services/kpiService', () => ({ kpiService: {} }));
+jest.mock('../../src/services/scheduleBaselineService', () => ({
+  __esModule: true,
+  default: { capture: jest.fn() },
+}));
+jest.mock('../../src/services/phasePipelineService', () => ({
+  __esModule: true,
+  default: { getPipeline: jest.fn() },
+}));
+jest.mock('../../src/services/taskTemplateService', () => ({
+  __esModule: true,
+  default: { getActiveSet: jest.fn(), getDefaultSet: jest.fn(), getTemplatesForPhase: jest.fn() },
+}));
+jest.mock('../../src/services/workingCalendarService', () => ({
+  ...jest.requireActual('../../src/services/workingCalendarService'),
+  __esModule: true,
+  default: { getCalendar: jest.fn() },
+}));
+
+import ProjectService from '../../src/services/projectService';
+import phasePipelineService from '../../src/services/phasePipelineService';
+import taskTemplateService from '../../src/services/taskTemplateService';
+import workingCalendarService, { WorkingCalendar } from '../../src/services/workingCalendarService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const projectService = new ProjectService();
+
+/**
+ * A project from Sunday 4 to Thursday 22 January 2026, fifteen working days
+ * with Friday and Saturday off, whose set has five days of design tasks
+ */
+const setUp = () => {
+  const project = {
+    id: 'project-1',
+    projectType: 'Villa',
+    region: null,
+    startDate: day('2026-01-04'),
+    estimatedEndDate: day('2026-01-22'),
+    modificationAllowedTimes: 2,
+    modificationDaysPerTime: 5,
+  };
+
+  jest
+    .mocked(workingCalendarService.getCalendar)
+    .mockResolvedValue(new WorkingCalendar([], [5, 6]));
+  jest.mocked(phasePipelineService.getPipeline).mockResolvedValue([
+    { name: 'STUDIES', sequence: 1, defaultDuration: null, autoStart: true },
+    { name: 'DESIGN', sequence: 2, defaultDuration: null, autoStart: true },
+  ]);
+  jest.mocked(taskTemplateService.getActiveSet).mockResolvedValue({ id: 'set-1' } as never);
+  jest
+    .mocked(taskTemplateService.getTemplatesForPhase)
+    .mockImplementation(async (_setId, phaseName) =>
+      phaseName === 'DESIGN'
+        ? ([
+            { code: 'D-01', description: 'Concept', defaultDuration: 3 },
+            { code: 'D-02', description: 'Drawings', defaultDuration: 2 },
+          ] as never)
+        : []
+    );
+
+  Object.assign(mockPrisma, {
+    project: {
+      findUnique: jest.fn().mockResolvedValue(project),
+      create: jest.fn(async ({ data }) => ({ id: 'project-1', ...data })),
+    },
+    phase: { create: jest.fn(async ({ data }) => ({ id: `phase-${data.sequence}`, ...data })) },
+    task: { createMany: jest.fn() },
+    $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma)),
+  });
+};
+
+describe('ProjectService.createProject', () => {
+  const input = {
+    clientId: 'client-1',
+    name: 'Villa',
+    contractCode: 'REF.1.2',
+    startDate: day('2026-01-04'),
+    estimatedEndDate: day('2026-01-22'),
+  };
+
+  it('checks the chosen task template set before saving the project', async () => {
+    setUp();
+    jest
+      .mocked(taskTemplateService.getActiveSet)
+      .mockRejectedValue(new Error('Task template set must be active to create phases from it'));
+
+    await expect(
+      projectService.createProject(
+        { ...input, taskTemplateSetId: 'set-1' },
+        'user-1',
+        UserRole.MANAGER
+      )
+    ).rejects.toThrow('Task template set must be active to create phases from it');
+    expect(mockPrisma.project.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('ProjectService.createPhases', () => {
+  it('starts each phase the working day after the one before ends', async () => {
+    setUp();
+
+    const phases = await projectService.createPhases(
+      'project-1',
+      ['STUDIES', 'DESIGN'],
+      'user-1',
+      UserRole.MANAGER,
+      'set-1'
+    );
+
+    // Studies has no duration of its own and takes the ten days design leaves
+    expect(
+      phases.map(phase => [phase.name, phase.startDate, phase.duration, phase.estimatedEndDate])
+    ).toEqual([
+      ['STUDIES', day('2026-01-04'), 10, day('2026-01-15')],
+      ['DESIGN', day('2026-01-18'), 5, day('2026-01-22')],
+    ]);
+    expect(mockPrisma.task.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ phaseId: 'phase-2', code: 'D-01', duration: 3 }),
+        expect.objectContaining({ phaseId: 'phase-2', code: 'D-02', duration: 2 }),
+      ],
+    });
+  });
+
+  it('refuses a retired task template set before creating any phase', async () => {
+    setUp();
+    jest
+      .mocked(taskTemplateService.getActiveSet)
+      .mockRejectedValue(new Error('Task template set must be active to create phases from it'));
+
+    await expect(
+      projectService.createPhases('project-1', ['STUDIES'], 'user-1', UserRole.MANAGER, 'set-1')
+    ).rejects.toThrow('Task template set must be active to create phases from it');
+    expect(mockPrisma.phase.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('ProjectService.forceCompletePhase', () => {
+  it('refuses a phase changed since it was read before touching its tasks', async () => {
+    setUp();
+    Object.assign(mockPrisma.phase, {
+      findUnique: jest.fn(async () => ({ id: 'phase-1', status: 'IN_PROGRESS', version: 4 })),
+    });
+    Object.assign(mockPrisma.task, { findMany: jest.fn() });
+
+    await expect(
+      projectService.forceCompletePhase(
+        'phase-1',
+        { reason: 'Client signed off', openTasks: 'CANCEL', version: 3 },
+        'user-1',
+        UserRole.MANAGER
+      )
+    ).rejects.toThrow('Version conflict');
+    expect(mockPrisma.task.findMany).not.toHaveBeenCalled();
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+});
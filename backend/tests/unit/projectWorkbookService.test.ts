@@ -0,0 +1,264 @@
+import ExcelJS from 'exceljs';
+import { ImportBatchKind, ImportBatchStatus, UserRole } from '@prisma/client';
+
+const mockPrisma = {} as {
+  project: Record<string, jest.Mock>;
+  user: Record<string, jest.Mock>;
+  importBatch: Record<string, jest.Mock>;
+  projectRequirement: Record<string, jest.Mock>;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logCreate: jest.fn() },
+}));
+jest.mock('../../src/services/projectService', () => ({ __esModule: true, default: jest.fn() }));
+jest.mock('../../src/services/taskService', () => ({ __esModule: true, default: jest.fn() }));
+jest.mock('../../src/services/teamService', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/services/costService', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/services/requirementService', () => ({
+  __esModule: true,
+  default: {
+    createRequirement: jest.fn(),
+    updateRequirement: jest.fn(),
+    deleteRequirement: jest.fn(),
+    completeRequirement: jest.fn(),
+  },
+}));
+
+import projectWorkbookService, {
+  PROJECT_WORKBOOK_SHEETS,
+  WorkbookChange,
+} from '../../src/services/projectWorkbookService';
+import requirementService from '../../src/services/requirementService';
+
+const REQUIREMENTS = PROJECT_WORKBOOK_SHEETS.requirements;
+
+const requirement = (id: string, description: string, version = 1) => ({
+  id,
+  projectId: 'project-1',
+  description,
+  sortOrder: 0,
+  isCompleted: false,
+  version,
+});
+
+/** A project with only requirements, so the other sheets export empty */
+const setUpProject = (requirements: Array<ReturnType<typeof requirement>>) => {
+  const project = {
+    id: 'project-1',
+    contractCode: 'C-100',
+    phases: [],
+    costEntries: [],
+    projectRequirements: requirements,
+  };
+  Object.assign(mockPrisma, {
+    project: { findUnique: jest.fn(async () => project) },
+    user: { findMany: jest.fn(async () => []) },
+  });
+  return project;
+};
+
+/**
+ * A staged batch that keeps what it is created with, so the preview reads
+ * back the staged rows
+ */
+const setUpBatch = (changes: WorkbookChange[] = []) => {
+  const batch = {
+    id: 'batch-1',
+    kind: ImportBatchKind.PROJECT_WORKBOOK,
+    projectId: 'project-1',
+    contractCode: 'C-100',
+    fileName: 'C-100.xlsx',
+    status: ImportBatchStatus.STAGED as ImportBatchStatus,
+    result: {},
+    createdAt: new Date(),
+    committedAt: null,
+    rows: changes.map(change => ({ sheet: change.sheet, data: change, errors: null })),
+  };
+  Object.assign(mockPrisma, {
+    importBatch: {
+      create: jest.fn(async ({ data }) => {
+        batch.result = data.result;
+        batch.rows = data.rows.create.map((row: { data: unknown; errors?: unknown }) => ({
+          ...row,
+          errors: row.errors || null,
+        }));
+        return batch;
+      }),
+      findFirst: jest.fn(async () => ({ ...batch, rows: [...batch.rows] })),
+      updateMany: jest.fn(async ({ where, data }) => {
+        if (where.status !== batch.status) return { count: 0 };
+        Object.assign(batch, data);
+        return { count: 1 };
+      }),
+      update: jest.fn(async ({ data }) => Object.assign(batch, data)),
+    },
+  });
+  return batch;
+};
+
+const exported = async (requirements: Array<ReturnType<typeof requirement>>) => {
+  setUpProject(requirements);
+  const { workbook } = await projectWorkbookService.exportWorkbook('project-1');
+  return workbook;
+};
+
+const toBuffer = async (workbook: ExcelJS.Workbook) =>
+  Buffer.from(await workbook.xlsx.writeBuffer());
+
+const change = (action: WorkbookChange['action'], entityId: string | null): WorkbookChange => ({
+  sheet: REQUIREMENTS,
+  rowNumber: 2,
+  action,
+  entityId,
+  version: entityId ? 1 : null,
+  label: 'Soil report',
+  fields: [],
+  input: { description: 'Soil report', sortOrder: 0, completed: false },
+});
+
+describe('projectWorkbookService.stageWorkbook', () => {
+  it('flags rows changed by someone else since the export as conflicts', async () => {
+    const workbook = await exported([
+      requirement('req-1', 'Soil report'),
+      requirement('req-2', 'Site survey'),
+      requirement('req-3', 'Permit'),
+    ]);
+    const sheet = workbook.getWorksheet(REQUIREMENTS);
+    sheet.getRow(2).getCell(3).value = 'Soil report, signed';
+    sheet.getRow(3).getCell(6).value = 'Yes';
+    sheet.getRow(5).values = [null, null, 'Fire plan', 4, 'No', null];
+
+    // Edited in the app after the export, all but req-3's being left untouched in the file
+    setUpProject([
+      requirement('req-1', 'Soil report', 2),
+      requirement('req-2', 'Site survey', 2),
+      requirement('req-3', 'Permit', 2),
+    ]);
+    setUpBatch();
+
+    const preview = await projectWorkbookService.stageWorkbook(
+      'project-1',
+      'C-100.xlsx',
+      await toBuffer(workbook),
+      'user-1'
+    );
+
+    expect(preview.changes).toMatchObject([
+      { action: 'CREATE', rowNumber: 5, input: { description: 'Fire plan', sortOrder: 4 } },
+    ]);
+    expect(preview.issues).toMatchObject([
+      { rowNumber: 2, entityId: 'req-1', kind: 'CONFLICT' },
+      { rowNumber: 3, entityId: 'req-2', kind: 'CONFLICT' },
+    ]);
+    expect(preview.issues[0].message).toContain('version 1 in the workbook, 2 now');
+    expect(preview.sheets.find(sheet => sheet.sheet === REQUIREMENTS)).toMatchObject({
+      created: 1,
+      unchanged: 1,
+      conflicts: 2,
+    });
+  });
+
+  it('refuses rows repeated, invalid or from another project', async () => {
+    const workbook = await exported([requirement('req-1', 'Soil report')]);
+    const sheet = workbook.getWorksheet(REQUIREMENTS);
+    sheet.getRow(3).values = ['req-1', 1, 'Soil report again', 0, 'No', null];
+    sheet.getRow(4).values = ['req-9', 1, 'Elsewhere', 0, 'No', null];
+    sheet.getRow(5).values = [null, null, 'Half a step', 1.5, 'No', null];
+    setUpBatch();
+
+    const preview = await projectWorkbookService.stageWorkbook(
+      'project-1',
+      'C-100.xlsx',
+      await toBuffer(workbook),
+      'user-1'
+    );
+
+    expect(preview.changes).toEqual([]);
+    expect(preview.issues.map(issue => [issue.rowNumber, issue.kind, issue.message])).toEqual([
+      [3, 'ERROR', 'Row appears more than once in the sheet'],
+      [4, 'ERROR', 'Row no longer exists or does not belong to this project'],
+      [5, 'ERROR', 'Sort Order must be a whole number'],
+    ]);
+    expect(preview.canApply).toBe(false);
+  });
+
+  it("refuses another project's workbook", async () => {
+    const workbook = await exported([]);
+    setUpProject([]);
+    setUpBatch();
+
+    await expect(
+      projectWorkbookService.stageWorkbook('project-2', 'x.xlsx', await toBuffer(workbook), 'u')
+    ).rejects.toThrow('Invalid workbook: it belongs to a different project');
+  });
+});
+
+describe('projectWorkbookService.applyBatch', () => {
+  it('deletes a row only while it is at the version previewed', async () => {
+    setUpBatch([
+      { ...change('DELETE', 'req-1'), rowNumber: 2 },
+      { ...change('DELETE', 'req-2'), rowNumber: 3 },
+    ]);
+    Object.assign(mockPrisma, {
+      projectRequirement: {
+        findUnique: jest.fn(async ({ where }) => ({ version: where.id === 'req-1' ? 1 : 2 })),
+      },
+    });
+
+    const result = await projectWorkbookService.applyBatch(
+      'project-1',
+      'batch-1',
+      'user-1',
+      UserRole.MANAGER
+    );
+
+    expect(requirementService.deleteRequirement).toHaveBeenCalledTimes(1);
+    expect(requirementService.deleteRequirement).toHaveBeenCalledWith(
+      'req-1',
+      'user-1',
+      UserRole.MANAGER
+    );
+    expect(result.applied.find(entry => entry.sheet === REQUIREMENTS)?.deleted).toBe(1);
+    expect(result.conflicts).toMatchObject([{ rowNumber: 3, entityId: 'req-2' }]);
+  });
+
+  it('creates new rows once when two applies run together', async () => {
+    const batch = setUpBatch([change('CREATE', null)]);
+    jest.mocked(requirementService.createRequirement).mockResolvedValue({ id: 'req-1' } as never);
+
+    const results = await Promise.allSettled([
+      projectWorkbookService.applyBatch('project-1', 'batch-1', 'user-1', UserRole.MANAGER),
+      projectWorkbookService.applyBatch('project-1', 'batch-1', 'user-1', UserRole.MANAGER),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe(
+      'Project workbook cannot be applied as it is no longer staged'
+    );
+    expect(requirementService.createRequirement).toHaveBeenCalledTimes(1);
+    expect(batch.status).toBe(ImportBatchStatus.COMMITTED);
+  });
+
+  it('fails the batch rather than leaving it staged when an error escapes', async () => {
+    const batch = setUpBatch([change('CREATE', null)]);
+    jest.mocked(requirementService.createRequirement).mockResolvedValue({ id: 'req-1' } as never);
+    mockPrisma.importBatch.update.mockRejectedValueOnce(new Error('Connection lost'));
+
+    await expect(
+      projectWorkbookService.applyBatch('project-1', 'batch-1', 'user-1', UserRole.MANAGER)
+    ).rejects.toThrow('Connection lost');
+
+    expect(batch.status).toBe(ImportBatchStatus.FAILED);
+    await expect(
+      projectWorkbookService.applyBatch('project-1', 'batch-1', 'user-1', UserRole.MANAGER)
+    ).rejects.toThrow('Project workbook cannot be applied from status FAILED');
+    expect(requirementService.createRequirement).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,189 @@
+import { BaselineKind, PhaseStatus } from '@prisma/client';
+
+const mockPrisma = {} as {
+  project: Record<string, jest.Mock>;
+  scheduleBaseline: Record<string, jest.Mock>;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logCreate: jest.fn() },
+}));
+jest.mock('../../src/services/workingCalendarService', () => ({
+  ...jest.requireActual('../../src/services/workingCalendarService'),
+  __esModule: true,
+  default: { getCalendar: jest.fn() },
+}));
+
+import scheduleBaselineService from '../../src/services/scheduleBaselineService';
+import workingCalendarService, { WorkingCalendar } from '../../src/services/workingCalendarService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const phase = (id: string, status: PhaseStatus, estimatedEndDate: Date, changes = {}) => ({
+  id,
+  name: 'DESIGN',
+  status,
+  startDate: day('2026-01-01'),
+  estimatedEndDate,
+  duration: 5,
+  actualStartDate: null,
+  actualEndDate: null,
+  tasks: [],
+  ...changes,
+});
+
+const plannedPhase = (phaseId: string, startDate: Date, estimatedEndDate: Date) => ({
+  id: `planned-${phaseId}`,
+  baselineId: 'baseline-1',
+  phaseId,
+  name: 'DESIGN',
+  startDate,
+  estimatedEndDate,
+  duration: 5,
+});
+
+/**
+ * A project with Friday and Saturday off (2026-01-01 is a Thursday) and a
+ * latest baseline planning it to end on 2026-01-11
+ */
+const setUp = (phases: Array<ReturnType<typeof phase>>, baseline: unknown) => {
+  jest
+    .mocked(workingCalendarService.getCalendar)
+    .mockResolvedValue(new WorkingCalendar([], [5, 6]));
+
+  Object.assign(mockPrisma, {
+    project: {
+      findUnique: jest.fn(async () => ({
+        id: 'project-1',
+        region: null,
+        startDate: day('2026-01-01'),
+        estimatedEndDate: day('2026-01-11'),
+        phases,
+      })),
+    },
+    scheduleBaseline: {
+      findFirst: jest.fn(async () => baseline),
+      findUnique: jest.fn(async () => baseline),
+      create: jest.fn(async ({ data }) => ({
+        id: 'baseline-2',
+        ...data,
+        phases: data.phases.create,
+        tasks: data.tasks.create,
+      })),
+    },
+  });
+};
+
+const baseline = (phases: Array<ReturnType<typeof plannedPhase>>, projectId = 'project-1') => ({
+  id: 'baseline-1',
+  projectId,
+  name: 'Contract',
+  kind: BaselineKind.MANUAL,
+  createdAt: day('2025-12-20'),
+  estimatedEndDate: day('2026-01-11'),
+  phases,
+  tasks: [],
+});
+
+describe('scheduleBaselineService.getVariance', () => {
+  it('measures each phase against its plan in working days', async () => {
+    setUp(
+      [
+        phase('late', PhaseStatus.COMPLETED, day('2026-01-04'), {
+          actualStartDate: day('2026-01-01'),
+          actualEndDate: day('2026-01-06'),
+        }),
+        phase('early', PhaseStatus.IN_PROGRESS, day('2026-01-08')),
+        phase('added', PhaseStatus.PLANNED, day('2026-01-12')),
+      ],
+      baseline([
+        plannedPhase('late', day('2026-01-01'), day('2026-01-04')),
+        plannedPhase('early', day('2026-01-04'), day('2026-01-11')),
+      ])
+    );
+
+    const report = await scheduleBaselineService.getVariance('project-1');
+
+    expect(report.phases).toMatchObject([
+      {
+        phaseId: 'late',
+        forecastEndDate: day('2026-01-06'),
+        startVarianceDays: 0,
+        endVarianceDays: 2,
+        delayedDays: 2,
+      },
+      { phaseId: 'early', startVarianceDays: null, endVarianceDays: -1, delayedDays: 0 },
+      { phaseId: 'added', plannedEndDate: null, endVarianceDays: null, delayedDays: 0 },
+    ]);
+    expect(report.forecastEndDate).toEqual(day('2026-01-12'));
+    expect(report.endVarianceDays).toBe(1);
+  });
+
+  it('has no variance before a baseline is captured', async () => {
+    setUp([phase('phase-1', PhaseStatus.IN_PROGRESS, day('2026-01-08'))], null);
+
+    const report = await scheduleBaselineService.getVariance('project-1');
+
+    expect(report).toMatchObject({ baseline: null, plannedEndDate: null, endVarianceDays: null });
+    expect(report.phases[0].delayedDays).toBe(0);
+  });
+
+  it("refuses another project's baseline", async () => {
+    setUp([], baseline([], 'project-2'));
+
+    await expect(scheduleBaselineService.getVariance('project-1', 'baseline-1')).rejects.toThrow(
+      'Schedule baseline not found'
+    );
+  });
+});
+
+describe('scheduleBaselineService.capture', () => {
+  it("snapshots the project's phase and task dates", async () => {
+    setUp(
+      [
+        phase('phase-1', PhaseStatus.IN_PROGRESS, day('2026-01-08'), {
+          tasks: [
+            {
+              id: 'task-1',
+              code: 'D-1',
+              startDate: day('2026-01-01'),
+              endDate: day('2026-01-04'),
+              duration: 2,
+            },
+          ],
+        }),
+      ],
+      null
+    );
+
+    const captured = await scheduleBaselineService.capture(
+      'project-1',
+      { name: ' Re-plan ' },
+      'user-1',
+      'MANAGER'
+    );
+
+    expect(captured).toMatchObject({
+      name: 'Re-plan',
+      kind: BaselineKind.MANUAL,
+      estimatedEndDate: day('2026-01-11'),
+      phases: [{ phaseId: 'phase-1', estimatedEndDate: day('2026-01-08') }],
+      tasks: [{ taskId: 'task-1', phaseId: 'phase-1', endDate: day('2026-01-04') }],
+    });
+  });
+
+  it('refuses a baseline without a name', async () => {
+    setUp([], null);
+
+    await expect(
+      scheduleBaselineService.capture('project-1', { name: '  ' }, 'user-1', 'MANAGER')
+    ).rejects.toThrow('Baseline name must be given');
+    expect(mockPrisma.scheduleBaseline.create).not.toHaveBeenCalled();
+  });
+});
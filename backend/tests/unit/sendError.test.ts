@@ -0,0 +1,48 @@
+import { Response } from 'express';
+import { createSendError } from '../../src/utils/sendError';
+
+const response = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+const statusFor = (sendError: ReturnType<typeof createSendError>, message: string) => {
+  const res = response();
+  sendError(res as unknown as Response, new Error(message));
+  expect(res.json).toHaveBeenCalledWith({ error: message });
+  return res.status.mock.calls[0][0];
+};
+
+describe('createSendError', () => {
+  it('answers the common messages with their client error status', () => {
+    const sendError = createSendError();
+
+    expect(statusFor(sendError, 'Leave request not found')).toBe(404);
+    expect(statusFor(sendError, 'Version conflict')).toBe(409);
+    expect(statusFor(sendError, 'Days must be zero or more')).toBe(400);
+  });
+
+  it("adds the route's own phrases, checked after not found", () => {
+    const sendError = createSendError({
+      forbidden: ['You can only'],
+      conflict: ['Only '],
+      badRequest: ['Invalid workbook'],
+    });
+
+    expect(statusFor(sendError, 'You can only change your own leave')).toBe(403);
+    expect(statusFor(sendError, 'Only requested leave can be changed this way')).toBe(409);
+    expect(statusFor(sendError, 'Invalid workbook: missing the Tasks sheet')).toBe(400);
+    expect(statusFor(sendError, 'Only the phase not found')).toBe(404);
+  });
+
+  it('rethrows anything else for the error handler', () => {
+    const error = new Error('Connection lost');
+    const res = response();
+
+    expect(() =>
+      createSendError({ conflict: ['Only '] })(res as unknown as Response, error)
+    ).toThrow(error);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+});
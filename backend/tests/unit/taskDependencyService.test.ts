@@ -0,0 +1,266 @@
+import { TaskDependencyType, TaskStatus } from '@prisma/client';
+
+const mockPrisma = {} as {
+  task: Record<string, jest.Mock>;
+  taskDependency: Record<string, jest.Mock>;
+  phase: Record<string, jest.Mock>;
+  project: Record<string, jest.Mock>;
+  $transaction: jest.Mock;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logCreate: jest.fn(), logUpdate: jest.fn() },
+}));
+jest.mock('../../src/services/kpiService', () => ({
+  kpiService: { syncDelayedDays: jest.fn() },
+}));
+jest.mock('../../src/services/workingCalendarService', () => ({
+  ...jest.requireActual('../../src/services/workingCalendarService'),
+  __esModule: true,
+  default: { getProjectCalendar: jest.fn(), getApprovedLeave: jest.fn() },
+}));
+
+import taskDependencyService, { topologicalOrder } from '../../src/services/taskDependencyService';
+import workingCalendarService, { WorkingCalendar } from '../../src/services/workingCalendarService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+type Task = {
+  id: string;
+  code: string;
+  phaseId: string;
+  duration: number;
+  status: TaskStatus;
+  startDate: Date | null;
+  endDate: Date | null;
+  assignedTeamMemberId: string | null;
+};
+
+type Dependency = {
+  id: string;
+  predecessorId: string;
+  successorId: string;
+  type: TaskDependencyType;
+  lagDays: number;
+};
+
+const task = (id: string, duration: number, changes: Partial<Task> = {}): Task => ({
+  id,
+  code: id,
+  phaseId: 'phase-1',
+  duration,
+  status: TaskStatus.PLANNED,
+  startDate: null,
+  endDate: null,
+  assignedTeamMemberId: null,
+  ...changes,
+});
+
+const dependency = (
+  predecessorId: string,
+  successorId: string,
+  type: TaskDependencyType = TaskDependencyType.FS,
+  lagDays = 0
+): Dependency => ({
+  id: `${predecessorId}-${successorId}`,
+  predecessorId,
+  successorId,
+  type,
+  lagDays,
+});
+
+/**
+ * One phase of tasks and their dependencies held in memory, on a calendar
+ * with Friday and Saturday off (2026-01-01 is a Thursday); the phase and
+ * project are planned to end together
+ */
+const setUp = (
+  tasks: Task[],
+  dependencies: Dependency[],
+  leave: Record<string, Array<{ startDate: Date; endDate: Date }>> = {},
+  plannedEnd = day('2026-01-01')
+) => {
+  const project = { id: 'project-1', estimatedEndDate: plannedEnd };
+
+  jest
+    .mocked(workingCalendarService.getProjectCalendar)
+    .mockResolvedValue(new WorkingCalendar([], [5, 6]));
+  jest
+    .mocked(workingCalendarService.getApprovedLeave)
+    .mockResolvedValue(
+      new Map(
+        Object.entries(leave).map(([userId, periods]) => [
+          userId,
+          periods.map((period, index) => ({ id: `leave-${index}`, ...period })),
+        ])
+      )
+    );
+
+  Object.assign(mockPrisma, {
+    task: {
+      findMany: jest.fn(async ({ where }) =>
+        tasks
+          .filter(each => where.id.in.includes(each.id))
+          .map(each => ({ ...each, phase: { projectId: project.id } }))
+      ),
+      update: jest.fn(async ({ where, data }) => {
+        const stored = tasks.find(each => each.id === where.id);
+        Object.assign(stored, { startDate: data.startDate, endDate: data.endDate });
+        return stored;
+      }),
+    },
+    taskDependency: {
+      findMany: jest.fn(async () => dependencies),
+      findUnique: jest.fn(async () => null),
+      create: jest.fn(async ({ data }) => ({ id: 'dependency-new', ...data })),
+    },
+    phase: {
+      findMany: jest.fn(async () => [
+        { id: 'phase-1', estimatedEndDate: plannedEnd, tasks: tasks.map(each => ({ ...each })) },
+      ]),
+      update: jest.fn(),
+    },
+    project: {
+      findUnique: jest.fn(async () => ({ ...project })),
+      update: jest.fn(async ({ data }) => Object.assign(project, data)),
+    },
+    $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma)),
+  });
+
+  return { tasks, project };
+};
+
+describe('topologicalOrder', () => {
+  it('puts predecessors before their successors', () => {
+    const order = topologicalOrder(
+      ['c', 'b', 'a'],
+      [dependency('a', 'b'), dependency('b', 'c'), dependency('a', 'c')]
+    );
+
+    expect(order).toEqual(['a', 'b', 'c']);
+  });
+
+  it('refuses dependencies that go round in a loop', () => {
+    expect(() =>
+      topologicalOrder(
+        ['a', 'b', 'c'],
+        [dependency('a', 'b'), dependency('b', 'c'), dependency('c', 'a')]
+      )
+    ).toThrow('Task dependencies contain a cycle');
+  });
+});
+
+describe('taskDependencyService.reschedule', () => {
+  it('starts successors on the working days their predecessors allow', async () => {
+    const { tasks, project } = setUp(
+      [
+        task('a', 2, { startDate: day('2026-01-01'), endDate: day('2026-01-04') }),
+        task('b', 3),
+        task('c', 1),
+        task('d', 2),
+      ],
+      [
+        dependency('a', 'b'),
+        dependency('a', 'c', TaskDependencyType.SS, 1),
+        dependency('c', 'd', TaskDependencyType.FS, 2),
+      ]
+    );
+
+    const result = await taskDependencyService.reschedule('project-1', 'user-1', 'MANAGER');
+
+    const dates = Object.fromEntries(tasks.map(each => [each.id, [each.startDate, each.endDate]]));
+    expect(dates).toEqual({
+      a: [day('2026-01-01'), day('2026-01-04')],
+      b: [day('2026-01-05'), day('2026-01-07')],
+      c: [day('2026-01-04'), day('2026-01-04')],
+      d: [day('2026-01-07'), day('2026-01-08')],
+    });
+    expect(result.projectEstimatedEndDate).toEqual(day('2026-01-08'));
+    expect(project.estimatedEndDate).toEqual(day('2026-01-08'));
+  });
+
+  it("skips the assignee's approved leave", async () => {
+    const { tasks } = setUp(
+      [
+        task('a', 1, { startDate: day('2026-01-01'), endDate: day('2026-01-01') }),
+        task('b', 2, { assignedTeamMemberId: 'user-2' }),
+      ],
+      [dependency('a', 'b')],
+      { 'user-2': [{ startDate: day('2026-01-04'), endDate: day('2026-01-05') }] }
+    );
+
+    await taskDependencyService.reschedule('project-1', 'user-1', 'MANAGER');
+
+    expect(tasks[1]).toMatchObject({ startDate: day('2026-01-06'), endDate: day('2026-01-07') });
+  });
+
+  it('keeps the dates of completed work', async () => {
+    setUp(
+      [
+        task('a', 1, { startDate: day('2026-01-01'), endDate: day('2026-01-01') }),
+        task('b', 1, {
+          status: TaskStatus.COMPLETED,
+          startDate: day('2025-12-31'),
+          endDate: day('2025-12-31'),
+        }),
+      ],
+      [dependency('a', 'b')]
+    );
+
+    const result = await taskDependencyService.reschedule('project-1', 'user-1', 'MANAGER');
+
+    expect(result.tasks).toEqual([]);
+    expect(mockPrisma.task.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps the planned ends of a phase and project whose tasks finish early', async () => {
+    const { project } = setUp(
+      [task('a', 1, { startDate: day('2026-01-01'), endDate: day('2026-01-01') }), task('b', 2)],
+      [dependency('a', 'b')],
+      {},
+      day('2026-01-15')
+    );
+
+    const result = await taskDependencyService.reschedule('project-1', 'user-1', 'MANAGER');
+
+    expect(result.tasks).toHaveLength(1);
+    expect(result.phases).toEqual([]);
+    expect(result.projectEstimatedEndDate).toEqual(day('2026-01-15'));
+    expect(mockPrisma.phase.update).not.toHaveBeenCalled();
+    expect(mockPrisma.project.update).not.toHaveBeenCalled();
+    expect(project.estimatedEndDate).toEqual(day('2026-01-15'));
+  });
+});
+
+describe('taskDependencyService.addDependency', () => {
+  it('refuses a dependency that would close a loop', async () => {
+    setUp([task('a', 1), task('b', 1), task('c', 1)], [dependency('a', 'b'), dependency('b', 'c')]);
+
+    await expect(
+      taskDependencyService.addDependency(
+        { predecessorId: 'c', successorId: 'a' },
+        'user-1',
+        'MANAGER'
+      )
+    ).rejects.toThrow('Dependency would create a cycle');
+    expect(mockPrisma.taskDependency.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a task depending on itself', async () => {
+    setUp([task('a', 1)], []);
+
+    await expect(
+      taskDependencyService.addDependency(
+        { predecessorId: 'a', successorId: 'a' },
+        'user-1',
+        'MANAGER'
+      )
+    ).rejects.toThrow('A task cannot depend on itself');
+  });
+});
@@ -0,0 +1,85 @@
+import { UserRole } from '@prisma/client';
+
+const mockPrisma = {} as {
+  task: Record<string, jest.Mock>;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logUpdate: jest.fn(), logDelete: jest.fn() },
+}));
+jest.mock('../../src/services/taskDependencyService', () => ({
+  ...jest.requireActual('../../src/services/taskDependencyService'),
+  __esModule: true,
+  default: { reschedule: jest.fn() },
+}));
+
+import TaskService from '../../src/services/taskService';
+import taskDependencyService from '../../src/services/taskDependencyService';
+import logger from '../../src/utils/logger';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const taskService = new TaskService();
+
+/** A stored task whose project cannot be rescheduled */
+const setUp = () => {
+  const stored = {
+    id: 'task-1',
+    phaseId: 'phase-1',
+    duration: 2,
+    startDate: day('2026-01-04'),
+    endDate: day('2026-01-05'),
+    version: 1,
+    phase: { projectId: 'project-1' },
+  };
+  jest
+    .mocked(taskDependencyService.reschedule)
+    .mockRejectedValue(new Error('Task dependencies form a loop'));
+
+  Object.assign(mockPrisma, {
+    task: {
+      findUnique: jest.fn().mockResolvedValue(stored),
+      update: jest.fn(async ({ data }) => ({ ...stored, ...data, version: 2 })),
+      delete: jest.fn(),
+    },
+  });
+};
+
+describe('TaskService rescheduling', () => {
+  it('keeps a saved change when the reschedule after it fails', async () => {
+    setUp();
+
+    const task = await taskService.updateTask(
+      'task-1',
+      { startDate: day('2026-01-06'), endDate: day('2026-01-07'), version: 1 },
+      'user-1',
+      UserRole.MANAGER
+    );
+
+    expect(task).toMatchObject({ startDate: day('2026-01-06'), version: 2 });
+    expect(taskDependencyService.reschedule).toHaveBeenCalledWith(
+      'project-1',
+      'user-1',
+      UserRole.MANAGER
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      'Task saved but its project could not be rescheduled',
+      expect.objectContaining({ projectId: 'project-1', taskId: 'task-1' })
+    );
+  });
+
+  it('keeps a deletion when the reschedule after it fails', async () => {
+    setUp();
+
+    await expect(
+      taskService.deleteTask('task-1', 'user-1', UserRole.MANAGER)
+    ).resolves.toBeUndefined();
+    expect(mockPrisma.task.delete).toHaveBeenCalledWith({ where: { id: 'task-1' } });
+  });
+});
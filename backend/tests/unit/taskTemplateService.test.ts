@@ -0,0 +1,196 @@
+import { UserRole } from '@prisma/client';
+
+const mockPrisma = {} as {
+  taskTemplateSet: Record<string, jest.Mock>;
+  taskTemplate: Record<string, jest.Mock>;
+  phaseDefinition: Record<string, jest.Mock>;
+  $transaction: jest.Mock;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logCreate: jest.fn(), logUpdate: jest.fn(), logDelete: jest.fn() },
+}));
+jest.mock('../../src/services/phasePipelineService', () => ({
+  __esModule: true,
+  default: { getPipeline: jest.fn() },
+}));
+jest.mock('../../src/services/excelImportService', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import ExcelImportService from '../../src/services/excelImportService';
+import taskTemplateService from '../../src/services/taskTemplateService';
+
+const templateSet = (changes: Record<string, unknown> = {}) => ({
+  id: 'set-1',
+  name: 'Villas',
+  isDefault: false,
+  isActive: true,
+  version: 1,
+  ...changes,
+});
+
+/** One stored set and the templates of its codes, run through an inline transaction */
+const setUp = (set: ReturnType<typeof templateSet> | null, codes: string[] = []) => {
+  Object.assign(mockPrisma, {
+    taskTemplateSet: {
+      findUnique: jest.fn().mockResolvedValue(set),
+      create: jest.fn(async ({ data }) => ({ id: 'set-2', ...data })),
+      update: jest.fn(async ({ data }) => ({ ...set, ...data })),
+      updateMany: jest.fn(),
+    },
+    taskTemplate: {
+      findUnique: jest.fn(async ({ where }) =>
+        codes.includes(where.setId_code.code) ? { id: `template-${where.setId_code.code}` } : null
+      ),
+      create: jest.fn(async ({ data }) => ({ id: 'template-new', ...data })),
+      update: jest.fn(),
+    },
+    phaseDefinition: {
+      findMany: jest.fn().mockResolvedValue([
+        { key: 'STUDIES', label: 'Studies' },
+        { key: 'DESIGN', label: 'Design' },
+      ]),
+    },
+    $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma)),
+  });
+};
+
+describe('taskTemplateService.getActiveSet', () => {
+  it('returns a set still in use', async () => {
+    setUp(templateSet());
+
+    await expect(taskTemplateService.getActiveSet('set-1')).resolves.toMatchObject({
+      id: 'set-1',
+    });
+  });
+
+  it('refuses a missing set', async () => {
+    setUp(null);
+
+    await expect(taskTemplateService.getActiveSet('set-9')).rejects.toThrow(
+      'Task template set not found'
+    );
+  });
+
+  it('refuses a retired set', async () => {
+    setUp(templateSet({ isActive: false }));
+
+    await expect(taskTemplateService.getActiveSet('set-1')).rejects.toThrow(
+      'Task template set must be active to create phases from it'
+    );
+  });
+});
+
+describe('taskTemplateService.updateSet', () => {
+  it('makes a set the only default', async () => {
+    setUp(templateSet());
+
+    await taskTemplateService.updateSet(
+      'set-1',
+      { isDefault: true, version: 1 },
+      'user-1',
+      UserRole.MANAGER
+    );
+
+    expect(mockPrisma.taskTemplateSet.updateMany).toHaveBeenCalledWith({
+      where: { isDefault: true, id: { not: 'set-1' } },
+      data: { isDefault: false, version: { increment: 1 } },
+    });
+  });
+
+  it('refuses a change made against an older version', async () => {
+    setUp(templateSet({ version: 2 }));
+
+    await expect(
+      taskTemplateService.updateSet('set-1', { name: 'Towers', version: 1 }, 'u', UserRole.MANAGER)
+    ).rejects.toThrow('Version conflict');
+    expect(mockPrisma.taskTemplateSet.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('taskTemplateService.createTemplate', () => {
+  const input = { phaseName: 'DESIGN', code: 'D-01', description: 'Concept', defaultDuration: 5 };
+
+  it.each([0, -2])('refuses a default duration of %p days', async defaultDuration => {
+    setUp(templateSet());
+
+    await expect(
+      taskTemplateService.createTemplate(
+        'set-1',
+        { ...input, defaultDuration },
+        'u',
+        UserRole.MANAGER
+      )
+    ).rejects.toThrow('Default duration must be a positive number of days');
+  });
+
+  it('refuses a code the set already has', async () => {
+    setUp(templateSet(), ['D-01']);
+
+    await expect(
+      taskTemplateService.createTemplate('set-1', input, 'u', UserRole.MANAGER)
+    ).rejects.toThrow('Task template code already exists in this set');
+    expect(mockPrisma.taskTemplate.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('taskTemplateService.seedFromWorkbook', () => {
+  const taskRow = (taskCode: string, phase: string, durations: number[]) => ({
+    rowNumber: 2,
+    data: {
+      taskCode,
+      phase,
+      description: `Task ${taskCode}`,
+      durations: durations.map(duration => ({ duration })),
+    },
+  });
+
+  const parsing = (tasks: Array<ReturnType<typeof taskRow>>) =>
+    jest
+      .mocked(ExcelImportService)
+      .mockImplementation(() => ({ parseExcelFile: () => ({ tasks }) }) as never);
+
+  it("keeps the duration most projects use and refreshes the set's templates by code", async () => {
+    setUp(null, ['S-01']);
+    parsing([
+      taskRow('S-01', 'Studies', [10, 10, 5]),
+      taskRow('D-01', ' design ', [5, 10, 0]),
+      taskRow('X-01', 'Supervision', [3]),
+    ]);
+
+    const result = await taskTemplateService.seedFromWorkbook(
+      Buffer.from(''),
+      'Villas',
+      'user-1',
+      UserRole.MANAGER
+    );
+
+    expect(result).toMatchObject({ created: 1, updated: 1, skipped: 1 });
+    expect(mockPrisma.taskTemplate.update).toHaveBeenCalledWith({
+      where: { id: 'template-S-01' },
+      data: expect.objectContaining({ phaseName: 'STUDIES', defaultDuration: 10, isActive: true }),
+    });
+    // A tie goes to the longer duration
+    expect(mockPrisma.taskTemplate.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ code: 'D-01', phaseName: 'DESIGN', defaultDuration: 10 }),
+    });
+  });
+
+  it('refuses a workbook without task rows', async () => {
+    setUp(null);
+    parsing([]);
+
+    await expect(
+      taskTemplateService.seedFromWorkbook(Buffer.from(''), 'Villas', 'u', UserRole.MANAGER)
+    ).rejects.toThrow('Invalid workbook: no task rows found on the "Tasks" sheet');
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+});
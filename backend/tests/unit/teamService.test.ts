@@ -0,0 +1,385 @@
+import { AssignmentRole } from '@prisma/client';
+
+const mockPrisma = {} as {
+  assignment: Record<string, jest.Mock>;
+  phase: Record<string, jest.Mock>;
+  user: Record<string, jest.Mock>;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logCreate: jest.fn(), logUpdate: jest.fn() },
+}));
+jest.mock('../../src/services/workingCalendarService', () => ({
+  ...jest.requireActual('../../src/services/workingCalendarService'),
+  __esModule: true,
+  default: { getApprovedLeave: jest.fn(), getCalendar: jest.fn() },
+}));
+
+import teamService from '../../src/services/teamService';
+import workingCalendarService from '../../src/services/workingCalendarService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+type Stored = {
+  id: string;
+  teamMemberId: string;
+  workingPercentage: number;
+  startDate: Date;
+  endDate: Date | null;
+  version: number;
+};
+
+const assignment = (
+  id: string,
+  workingPercentage: number,
+  startDate: Date,
+  endDate: Date | null
+): Stored => ({ id, teamMemberId: 'user-1', workingPercentage, startDate, endDate, version: 1 });
+
+/** The member's other assignments, as the overlap query returns them, and their approved leave */
+const setUp = (assignments: Stored[], leave: Array<{ startDate: Date; endDate: Date }> = []) => {
+  jest
+    .mocked(workingCalendarService.getApprovedLeave)
+    .mockResolvedValue(
+      new Map([['user-1', leave.map((period, index) => ({ id: `leave-${index}`, ...period }))]])
+    );
+
+  Object.assign(mockPrisma, {
+    assignment: {
+      findMany: jest.fn(async ({ where }) =>
+        assignments
+          .filter(a => a.id !== where.id?.not)
+          .map(a => ({
+            ...a,
+            role: AssignmentRole.TEAM_MEMBER,
+            phase: { name: 'DESIGN', project: { name: `Project ${a.id}` } },
+          }))
+      ),
+      findUnique: jest.fn(async ({ where }) => assignments.find(a => a.id === where.id) || null),
+      update: jest.fn(async ({ where, data }) => ({
+        ...assignments.find(a => a.id === where.id),
+        ...data,
+      })),
+      create: jest.fn(async ({ data }) => ({ id: 'new', ...data })),
+    },
+    phase: { findUnique: jest.fn(async () => ({ id: 'phase-1', project: { id: 'project-1' } })) },
+    user: { findUnique: jest.fn(async () => ({ id: 'user-1', region: null })) },
+  });
+};
+
+describe('teamService.checkAllocation', () => {
+  it('allows assignments that follow one another to add up to more than 100%', async () => {
+    setUp([
+      assignment('a', 60, day('2026-01-01'), day('2026-01-15')),
+      assignment('b', 60, day('2026-01-16'), day('2026-01-31')),
+    ]);
+
+    const check = await teamService.checkAllocation(
+      'user-1',
+      40,
+      day('2026-01-01'),
+      day('2026-01-31')
+    );
+
+    expect(check).toMatchObject({
+      isOverallocated: false,
+      currentAllocation: 60,
+      proposedAllocation: 100,
+      conflicts: [],
+    });
+  });
+
+  it('finds the busiest day and the assignments running on it', async () => {
+    setUp([
+      assignment('a', 50, day('2026-01-01'), day('2026-01-20')),
+      assignment('b', 30, day('2026-01-10'), null),
+      assignment('c', 20, day('2026-01-25'), day('2026-01-31')),
+    ]);
+
+    const check = await teamService.checkAllocation(
+      'user-1',
+      30,
+      day('2026-01-05'),
+      day('2026-01-31')
+    );
+
+    expect(check).toMatchObject({
+      isOverallocated: true,
+      currentAllocation: 80,
+      proposedAllocation: 110,
+      peakDate: day('2026-01-10'),
+    });
+    expect(check.conflicts.map(conflict => conflict.id)).toEqual(['a', 'b']);
+    expect(check.warning).toContain('on 2026-01-10');
+  });
+
+  it('counts every later assignment against an open-ended one', async () => {
+    setUp([assignment('a', 70, day('2026-06-01'), null)]);
+
+    const check = await teamService.checkAllocation('user-1', 40, day('2026-01-01'));
+
+    expect(check).toMatchObject({ isOverallocated: true, peakDate: day('2026-06-01') });
+  });
+
+  it('lets a long assignment pause for a day of leave inside it', async () => {
+    setUp(
+      [assignment('a', 40, day('2026-01-01'), day('2026-03-31'))],
+      [{ startDate: day('2026-02-10'), endDate: day('2026-02-10') }]
+    );
+
+    const check = await teamService.checkAllocation(
+      'user-1',
+      60,
+      day('2026-01-01'),
+      day('2026-03-31')
+    );
+
+    expect(check).toMatchObject({
+      isOverallocated: false,
+      proposedAllocation: 100,
+      leaveDays: 1,
+      conflicts: [],
+      warning: null,
+    });
+  });
+
+  it('checks the first day back from leave', async () => {
+    setUp(
+      [assignment('a', 70, day('2026-01-12'), day('2026-01-31'))],
+      [{ startDate: day('2026-01-10'), endDate: day('2026-01-15') }]
+    );
+
+    const check = await teamService.checkAllocation(
+      'user-1',
+      40,
+      day('2026-01-12'),
+      day('2026-01-31')
+    );
+
+    expect(check).toMatchObject({
+      isOverallocated: true,
+      proposedAllocation: 110,
+      peakDate: day('2026-01-16'),
+      leaveDays: 4,
+    });
+    expect(check.conflicts.map(conflict => conflict.id)).toEqual(['a']);
+  });
+
+  it('does not flag an assignment that falls wholly on leave', async () => {
+    setUp(
+      [assignment('a', 100, day('2026-01-01'), day('2026-01-31'))],
+      [{ startDate: day('2026-01-10'), endDate: day('2026-01-15') }]
+    );
+
+    const check = await teamService.checkAllocation(
+      'user-1',
+      50,
+      day('2026-01-11'),
+      day('2026-01-14')
+    );
+
+    expect(check).toMatchObject({ isOverallocated: false, currentAllocation: 0, leaveDays: 4 });
+  });
+});
+
+describe('teamService.updateAssignment', () => {
+  it('makes an assignment open-ended when its end date is cleared', async () => {
+    setUp([
+      assignment('a', 50, day('2026-01-01'), day('2026-01-31')),
+      assignment('b', 60, day('2026-03-01'), null),
+    ]);
+
+    await expect(
+      teamService.updateAssignment('a', { endDate: null }, 'manager-1', 'MANAGER')
+    ).rejects.toThrow('exceed 100% (110%) on 2026-03-01');
+
+    await teamService.updateAssignment(
+      'a',
+      { endDate: null, overrideAllocation: true, overrideJustification: 'Ongoing support' },
+      'manager-1',
+      'MANAGER'
+    );
+
+    expect(mockPrisma.assignment.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ endDate: null, overAllocationOverride: true }),
+      })
+    );
+  });
+
+  it('keeps the end date when none is given', async () => {
+    setUp([
+      assignment('a', 50, day('2026-01-01'), day('2026-01-31')),
+      assignment('b', 60, day('2026-03-01'), null),
+    ]);
+
+    await teamService.updateAssignment('a', { workingPercentage: 40 }, 'manager-1', 'MANAGER');
+
+    expect(mockPrisma.assignment.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.not.objectContaining({ endDate: expect.anything() }),
+      })
+    );
+  });
+
+  it('refuses a start after the end the assignment keeps', async () => {
+    setUp([assignment('a', 50, day('2026-01-01'), day('2026-01-31'))]);
+
+    await expect(
+      teamService.updateAssignment('a', { startDate: day('2026-02-01') }, 'manager-1', 'MANAGER')
+    ).rejects.toThrow('endDate must be after startDate');
+    expect(mockPrisma.assignment.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('teamService allocation override', () => {
+  const input = {
+    phaseId: 'phase-1',
+    teamMemberId: 'user-1',
+    role: AssignmentRole.TEAM_MEMBER,
+    workingPercentage: 50,
+    startDate: day('2026-01-01'),
+    endDate: day('2026-01-31'),
+  };
+
+  beforeEach(() => setUp([assignment('a', 60, day('2026-01-01'), day('2026-01-31'))]));
+
+  it('refuses to go over 100% without an override', async () => {
+    await expect(teamService.assignTeamMember(input, 'manager-1', 'MANAGER')).rejects.toThrow(
+      'Team member allocation would exceed 100% (110%)'
+    );
+    expect(mockPrisma.assignment.create).not.toHaveBeenCalled();
+  });
+
+  it('only lets managers override', async () => {
+    await expect(
+      teamService.assignTeamMember(
+        { ...input, overrideAllocation: true, overrideJustification: 'Deadline' },
+        'leader-1',
+        'TEAM_LEADER'
+      )
+    ).rejects.toThrow('Only managers can override the allocation limit');
+  });
+
+  it('needs a justification to override', async () => {
+    await expect(
+      teamService.assignTeamMember(
+        { ...input, overrideAllocation: true, overrideJustification: '  ' },
+        'manager-1',
+        'MANAGER'
+      )
+    ).rejects.toThrow('A justification must be given to override the allocation limit');
+  });
+
+  it("records the manager's override with the peak it allows", async () => {
+    await teamService.assignTeamMember(
+      { ...input, overrideAllocation: true, overrideJustification: ' Deadline ' },
+      'manager-1',
+      'MANAGER'
+    );
+
+    expect(mockPrisma.assignment.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          overAllocationOverride: true,
+          overrideJustification: 'Deadline',
+          overridePeakAllocation: 110,
+          overriddenBy: 'manager-1',
+          overriddenAt: expect.any(Date),
+        }),
+      })
+    );
+  });
+
+  it('clears an earlier override once the assignment is back within the limit', async () => {
+    await teamService.updateAssignment('a', { workingPercentage: 40 }, 'manager-1', 'MANAGER');
+
+    expect(mockPrisma.assignment.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          overAllocationOverride: false,
+          overrideJustification: null,
+          overridePeakAllocation: null,
+          overriddenBy: null,
+        }),
+      })
+    );
+  });
+});
+
+describe('teamService.getOverAllocationOverrides', () => {
+  const overridden = (
+    id: string,
+    teamMemberId: string,
+    name: string,
+    peak: number | null,
+    overriddenBy: string | null = 'manager-1'
+  ) => ({
+    id,
+    teamMemberId,
+    teamMember: { name, email: `${teamMemberId}@example.com` },
+    phase: { name: 'DESIGN', project: { name: 'Villa' } },
+    role: AssignmentRole.TEAM_MEMBER,
+    workingPercentage: 50,
+    startDate: day('2026-01-01'),
+    endDate: null,
+    overridePeakAllocation: peak,
+    overrideJustification: 'Deadline',
+    overriddenBy,
+    overriddenAt: day('2025-12-20'),
+  });
+
+  it('groups active overrides per team member, most overridden first', async () => {
+    Object.assign(mockPrisma, {
+      assignment: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([
+            overridden('a', 'user-1', 'Ali', 120),
+            overridden('b', 'user-2', 'Sara', 110),
+            overridden('c', 'user-2', 'Sara', 130, null),
+          ]),
+      },
+      user: { findMany: jest.fn().mockResolvedValue([{ id: 'manager-1', name: 'Mona' }]) },
+    });
+
+    const rows = await teamService.getOverAllocationOverrides();
+
+    expect(rows).toMatchObject([
+      { teamMemberId: 'user-2', activeOverrides: 2, highestAllocation: 130 },
+      { teamMemberId: 'user-1', activeOverrides: 1, highestAllocation: 120 },
+    ]);
+    expect(rows[0].assignments).toMatchObject([
+      { id: 'b', peakAllocation: 110, overriddenByName: 'Mona' },
+      { id: 'c', peakAllocation: 130, overriddenByName: null },
+    ]);
+    expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: { in: ['manager-1'] } } })
+    );
+  });
+
+  it('breaks ties on the highest allocation and then the name', async () => {
+    Object.assign(mockPrisma, {
+      assignment: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([
+            overridden('a', 'user-1', 'Zaid', 110),
+            overridden('b', 'user-2', 'Badr', 110),
+            overridden('c', 'user-3', 'Huda', 140),
+          ]),
+      },
+      user: { findMany: jest.fn().mockResolvedValue([]) },
+    });
+
+    const rows = await teamService.getOverAllocationOverrides();
+
+    expect(rows.map(row => row.teamMemberName)).toEqual(['Huda', 'Badr', 'Zaid']);
+  });
+});
@@ -0,0 +1,148 @@
+import { TaskDependencyType } from '@prisma/client';
+
+const mockPrisma = {} as {
+  project: Record<string, jest.Mock>;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../src/services/auditLogService', () => ({
+  __esModule: true,
+  default: { logCreate: jest.fn() },
+}));
+jest.mock('../../src/services/kpiService', () => ({ kpiService: {} }));
+jest.mock('../../src/services/taskDependencyService', () => ({
+  ...jest.requireActual('../../src/services/taskDependencyService'),
+  __esModule: true,
+  default: { listForProject: jest.fn() },
+}));
+jest.mock('../../src/services/workingCalendarService', () => ({
+  ...jest.requireActual('../../src/services/workingCalendarService'),
+  __esModule: true,
+  default: { getCalendar: jest.fn() },
+}));
+
+import taskDependencyService from '../../src/services/taskDependencyService';
+import timelineService from '../../src/services/timelineService';
+import workingCalendarService, { WorkingCalendar } from '../../src/services/workingCalendarService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const task = (id: string, duration: number, startDate: Date | null = null) => ({
+  id,
+  code: id.toUpperCase(),
+  description: `Task ${id}`,
+  phaseId: 'phase-1',
+  status: 'PLANNED',
+  duration,
+  startDate,
+});
+
+const dependency = (
+  predecessorId: string,
+  successorId: string,
+  type: TaskDependencyType = TaskDependencyType.FS,
+  lagDays = 0
+) => ({ id: `${predecessorId}-${successorId}`, predecessorId, successorId, type, lagDays });
+
+/**
+ * A project starting on Thursday 2026-01-01 with Friday and Saturday off,
+ * its tasks in one phase
+ */
+const setUp = (
+  tasks: Array<ReturnType<typeof task>>,
+  dependencies: Array<ReturnType<typeof dependency>>
+) => {
+  jest
+    .mocked(workingCalendarService.getCalendar)
+    .mockResolvedValue(new WorkingCalendar([], [5, 6]));
+  jest.mocked(taskDependencyService.listForProject).mockResolvedValue(dependencies as never);
+
+  mockPrisma.project = {
+    findUnique: jest.fn(async () => ({
+      id: 'project-1',
+      name: 'Villa',
+      region: null,
+      startDate: day('2026-01-01'),
+      phases: [{ id: 'phase-1', name: 'DESIGN', tasks }],
+    })),
+  };
+};
+
+describe('timelineService.getCriticalPath', () => {
+  it('finds the chain of tasks without float', async () => {
+    setUp(
+      [task('a', 3, day('2026-01-01')), task('b', 2), task('c', 1), task('d', 1)],
+      [dependency('a', 'b'), dependency('a', 'c'), dependency('b', 'd'), dependency('c', 'd')]
+    );
+
+    const result = await timelineService.getCriticalPath('project-1');
+
+    expect(result.criticalPath).toEqual(['a', 'b', 'd']);
+    expect(result.duration).toBe(6);
+    expect(result.finishDate).toEqual(day('2026-01-08'));
+
+    const c = result.tasks.find(each => each.taskId === 'c');
+    expect(c).toMatchObject({
+      totalFloat: 1,
+      critical: false,
+      earlyStart: day('2026-01-06'),
+      lateStart: day('2026-01-07'),
+    });
+  });
+
+  it('lets a start-to-start successor run alongside its predecessor', async () => {
+    setUp(
+      [task('a', 3, day('2026-01-01')), task('b', 1)],
+      [dependency('a', 'b', TaskDependencyType.SS, 1)]
+    );
+
+    const result = await timelineService.getCriticalPath('project-1');
+
+    expect(result.tasks.find(each => each.taskId === 'b')).toMatchObject({
+      earlyStart: day('2026-01-04'),
+      totalFloat: 1,
+    });
+    expect(result.criticalPath).toEqual(['a']);
+  });
+
+  it('counts lag in working days', async () => {
+    setUp(
+      [task('a', 1, day('2026-01-01')), task('b', 1)],
+      [dependency('a', 'b', TaskDependencyType.FS, 2)]
+    );
+
+    const result = await timelineService.getCriticalPath('project-1');
+
+    expect(result.tasks.find(each => each.taskId === 'b')?.earlyStart).toEqual(day('2026-01-06'));
+    expect(result.criticalPath).toEqual(['a', 'b']);
+  });
+
+  it('has no finish for a project without tasks', async () => {
+    setUp([], []);
+
+    await expect(timelineService.getCriticalPath('project-1')).resolves.toMatchObject({
+      finishDate: null,
+      duration: 0,
+      criticalPath: [],
+    });
+  });
+
+  it('refuses dependencies that go round in a loop', async () => {
+    setUp([task('a', 1), task('b', 1)], [dependency('a', 'b'), dependency('b', 'a')]);
+
+    await expect(timelineService.getCriticalPath('project-1')).rejects.toThrow(
+      'Task dependencies contain a cycle'
+    );
+  });
+
+  it('refuses an unknown project', async () => {
+    setUp([], []);
+    mockPrisma.project.findUnique.mockResolvedValue(null);
+
+    await expect(timelineService.getCriticalPath('project-2')).rejects.toThrow('Project not found');
+  });
+});
@@ -0,0 +1,164 @@
+const mockPrisma = {} as {
+  regionCalendar: Record<string, jest.Mock>;
+  holiday: Record<string, jest.Mock>;
+};
+
+jest.mock('../../src/services/prismaClient', () => ({ prisma: mockPrisma }));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import workingCalendarService, { WorkingCalendar } from '../../src/services/workingCalendarService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+// 2026-01-01 is a Thursday; Friday and Saturday are the weekend
+const FRIDAY_SATURDAY = [5, 6];
+
+describe('WorkingCalendar.addWorkingDays', () => {
+  const calendar = new WorkingCalendar([], FRIDAY_SATURDAY);
+
+  it('skips the weekend', () => {
+    expect(calendar.addWorkingDays(day('2026-01-01'), 1)).toEqual(day('2026-01-04'));
+  });
+
+  it('moves backwards for negative days', () => {
+    expect(calendar.addWorkingDays(day('2026-01-04'), -1)).toEqual(day('2026-01-01'));
+  });
+
+  it('moves zero days onto the next working day', () => {
+    expect(calendar.addWorkingDays(day('2026-01-02'), 0)).toEqual(day('2026-01-04'));
+    expect(calendar.addWorkingDays(day('2026-01-05'), 0)).toEqual(day('2026-01-05'));
+  });
+
+  it('skips holidays', () => {
+    const withHoliday = new WorkingCalendar(
+      [{ startDate: day('2026-01-04'), endDate: day('2026-01-05') }],
+      FRIDAY_SATURDAY
+    );
+
+    expect(withHoliday.addWorkingDays(day('2026-01-01'), 1)).toEqual(day('2026-01-06'));
+  });
+});
+
+describe('WorkingCalendar counting', () => {
+  const calendar = new WorkingCalendar([], FRIDAY_SATURDAY);
+
+  it('counts working days with both ends included', () => {
+    expect(calendar.workingDaysBetween(day('2026-01-01'), day('2026-01-07'))).toBe(5);
+    expect(calendar.workingDaysBetween(day('2026-01-02'), day('2026-01-03'))).toBe(0);
+  });
+
+  it('gives the working day offset in either direction', () => {
+    expect(calendar.workingDayOffset(day('2026-01-01'), day('2026-01-05'))).toBe(2);
+    expect(calendar.workingDayOffset(day('2026-01-05'), day('2026-01-01'))).toBe(-2);
+    expect(calendar.workingDayOffset(day('2026-01-01'), day('2026-01-01'))).toBe(0);
+  });
+
+  it('counts the working days of a month', () => {
+    expect(calendar.workingDaysInMonth(day('2026-02-15'))).toBe(20);
+  });
+});
+
+describe('WorkingCalendar.withDaysOff', () => {
+  it('adds leave on top of the holidays it already has', () => {
+    const calendar = new WorkingCalendar(
+      [{ startDate: day('2026-01-04'), endDate: day('2026-01-04') }],
+      FRIDAY_SATURDAY
+    ).withDaysOff([{ startDate: day('2026-01-05'), endDate: day('2026-01-05') }]);
+
+    expect(calendar.isWorkingDay(day('2026-01-04'))).toBe(false);
+    expect(calendar.isWorkingDay(day('2026-01-05'))).toBe(false);
+    expect(calendar.addWorkingDays(day('2026-01-01'), 1)).toEqual(day('2026-01-06'));
+  });
+});
+
+describe('WorkingCalendar weekend', () => {
+  it('refuses a weekend covering the whole week', () => {
+    expect(() => new WorkingCalendar([], [0, 1, 2, 3, 4, 5, 6])).toThrow(
+      'Weekend days must leave at least one working day in the week'
+    );
+  });
+
+  it('refuses WEEKEND_DAYS covering the whole week', async () => {
+    const weekendDays = process.env.WEEKEND_DAYS;
+    process.env.WEEKEND_DAYS = '0,1,2,3,4,5,6';
+    try {
+      await jest.isolateModulesAsync(async () => {
+        await expect(import('../../src/config')).rejects.toThrow(
+          'WEEKEND_DAYS must be up to six days of the week from 0 (Sunday) to 6'
+        );
+      });
+    } finally {
+      if (weekendDays === undefined) delete process.env.WEEKEND_DAYS;
+      else process.env.WEEKEND_DAYS = weekendDays;
+    }
+  });
+});
+
+describe('workingCalendarService.getCalendars', () => {
+  const holiday = (region: string | null, date: string) => ({
+    region,
+    startDate: day(date),
+    endDate: day(date),
+  });
+
+  /**
+   * Jeddah keeps only Saturday off; Riyadh has no pattern of its own. The
+   * 4th is a holiday everywhere, the 5th in Riyadh and the 6th in Jeddah.
+   */
+  const setUp = () => {
+    Object.assign(mockPrisma, {
+      regionCalendar: {
+        findMany: jest.fn().mockResolvedValue([{ region: 'Jeddah', weekendDays: [6] }]),
+      },
+      holiday: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([
+            holiday(null, '2026-01-04'),
+            holiday('Riyadh', '2026-01-05'),
+            holiday('Jeddah', '2026-01-06'),
+          ]),
+      },
+    });
+  };
+
+  it("gives each region its own weekend and holidays on top of everyone's", async () => {
+    setUp();
+
+    const calendars = await workingCalendarService.getCalendars([
+      'Riyadh',
+      'Jeddah',
+      null,
+      'Riyadh',
+    ]);
+
+    expect([...calendars.keys()]).toEqual([null, 'Riyadh', 'Jeddah']);
+    const working = (region: string | null) =>
+      ['2026-01-02', '2026-01-04', '2026-01-05', '2026-01-06'].map(date =>
+        calendars.get(region).isWorkingDay(day(date))
+      );
+    expect(working(null)).toEqual([false, false, true, true]);
+    expect(working('Riyadh')).toEqual([false, false, false, true]);
+    expect(working('Jeddah')).toEqual([true, false, true, false]);
+    expect(mockPrisma.regionCalendar.findMany).toHaveBeenCalledWith({
+      where: { region: { in: ['Riyadh', 'Jeddah'] } },
+    });
+    expect(mockPrisma.holiday.findMany).toHaveBeenCalledWith({
+      where: { OR: [{ region: null }, { region: { in: ['Riyadh', 'Jeddah'] } }] },
+    });
+  });
+
+  it('reads only the holidays every region keeps for the company calendar', async () => {
+    setUp();
+
+    const calendar = await workingCalendarService.getCalendar(undefined);
+
+    expect(calendar.isWorkingDay(day('2026-01-04'))).toBe(false);
+    expect(calendar.isWorkingDay(day('2026-01-05'))).toBe(true);
+    expect(mockPrisma.regionCalendar.findMany).not.toHaveBeenCalled();
+    expect(mockPrisma.holiday.findMany).toHaveBeenCalledWith({ where: { OR: [{ region: null }] } });
+  });
+});
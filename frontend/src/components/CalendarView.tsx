@@ -8,7 +8,9 @@ interface CalendarEvent {
   start: Date;
   end: Date;
   resourceId: string;
-  resourceType: 'PROJECT' | 'PHASE' | 'TASK';
+  resourceType: 'PROJECT' | 'PHASE' | 'TASK' | 'LEAVE';
+  // Leave only: PENDING until a manager approves it
+  status?: 'PENDING' | 'APPROVED';
 }
 
 interface CalendarViewProps {
@@ -44,11 +46,11 @@ export default function CalendarView({ year, month }: CalendarViewProps) {
 
       if (view === 'month') {
         const response = await api.get(`/timeline/calendar/${currentYear}/${currentMonth}`);
-        setEvents(response.data || []);
+        setEvents(response.events || []);
       } else {
         // Load events for the whole month for week view
         const response = await api.get(`/timeline/calendar/${currentYear}/${currentMonth}`);
-        setEvents(response.data || []);
+        setEvents(response.events || []);
       }
 
       setLoading(false);
@@ -106,6 +108,26 @@ export default function CalendarView({ year, month }: CalendarViewProps) {
     return Math.ceil((dayOfWeek + date.getDate() - 1) / 7);
   };
 
+  const getEventStyle = (event: CalendarEvent): string => {
+    switch (event.resourceType) {
+      case 'PROJECT':
+        return 'border-blue-300 bg-blue-50';
+      case 'PHASE':
+        return 'border-green-300 bg-green-50';
+      case 'LEAVE':
+        return event.status === 'PENDING'
+          ? 'border-purple-300 border-dashed bg-white italic'
+          : 'border-purple-400 bg-purple-50';
+      default:
+        return 'border-orange-300 bg-orange-50';
+    }
+  };
+
+  const getEventLabel = (event: CalendarEvent): string => {
+    if (event.resourceType !== 'LEAVE') return event.resourceType;
+    return event.status === 'PENDING' ? 'LEAVE (PENDING)' : 'LEAVE';
+  };
+
   const isToday = (date: Date): boolean => {
     const today = new Date();
     return date.toDateString() === today.toDateString();
@@ -275,17 +297,13 @@ export default function CalendarView({ year, month }: CalendarViewProps) {
                   {dayEvents.slice(0, 2).map((event, idx) => (
                     <div
                       key={idx}
-                      className={`text-xs p-1 rounded border-l-2 ${
-                        event.resourceType === 'PROJECT' ? 'border-blue-300 bg-blue-50' :
-                        event.resourceType === 'PHASE' ? 'border-green-300 bg-green-50' :
-                        'border-orange-300 bg-orange-50'
-                      }`}
+                      className={`text-xs p-1 rounded border-l-2 ${getEventStyle(event)}`}
                     >
                       <div className="font-medium text-gray-800 truncate">
                         {event.title}
                       </div>
                       <div className="text-xs text-gray-500">
-                        {event.resourceType}
+                        {getEventLabel(event)}
                       </div>
                     </div>
                   ))}
@@ -305,7 +323,7 @@ export default function CalendarView({ year, month }: CalendarViewProps) {
       {/* Event Legend */}
       <div className="mt-6 bg-white rounded-lg shadow-md p-4">
         <h3 className="text-sm font-semibold text-gray-900 mb-3">Event Types</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div className="flex items-center">
             <div className="w-3 h-3 rounded border-2 border-blue-300 bg-blue-50 mr-2"></div>
             <span className="text-sm text-gray-700">Project</span>
@@ -318,6 +336,10 @@ export default function CalendarView({ year, month }: CalendarViewProps) {
             <div className="w-3 h-3 rounded border-2 border-orange-300 bg-orange-50 mr-2"></div>
             <span className="text-sm text-gray-700">Task</span>
           </div>
+          <div className="flex items-center">
+            <div className="w-3 h-3 rounded border-2 border-purple-400 bg-purple-50 mr-2"></div>
+            <span className="text-sm text-gray-700">Leave (dashed while pending)</span>
+          </div>
         </div>
       </div>
 
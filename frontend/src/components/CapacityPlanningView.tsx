@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import type { ApiError } from '../services/api';
+
+interface CapacityMonth {
+  month: string;
+  availableFte: number;
+  leaveFte: number;
+  committedFte: number;
+  tentativeFte: number;
+  demandFte: number;
+  shortfallFte: number;
+  utilization: number | null;
+}
+
+interface CapacityGroup {
+  position: string | null;
+  region: string | null;
+  headcount: number;
+  months: CapacityMonth[];
+}
+
+interface CapacityShortfall {
+  month: string;
+  position: string | null;
+  region: string | null;
+  shortfallFte: number;
+}
+
+interface CapacityPlan {
+  months: string[];
+  groups: CapacityGroup[];
+  totals: CapacityMonth[];
+  shortfalls: CapacityShortfall[];
+}
+
+interface CapacityPlanningViewProps {
+  positions?: string[];
+  regions?: string[];
+}
+
+const formatMonth = (month: string): string =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+const getCellColor = (month: CapacityMonth): string => {
+  if (month.shortfallFte > 0) return 'bg-red-100 text-red-800';
+  if (month.utilization !== null && month.utilization >= 90) return 'bg-yellow-50 text-yellow-800';
+  return 'text-gray-700';
+};
+
+export default function CapacityPlanningView({ positions = [], regions = [] }: CapacityPlanningViewProps) {
+  const [plan, setPlan] = useState<CapacityPlan | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+  const [months, setMonths] = useState<number>(12);
+  const [position, setPosition] = useState<string>('');
+  const [region, setRegion] = useState<string>('');
+
+  useEffect(() => {
+    loadCapacityPlan();
+  }, [months, position, region]);
+
+  const loadCapacityPlan = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await api.get<CapacityPlan>('/capacity', {
+        params: {
+          months,
+          position: position || undefined,
+          region: region || undefined,
+        },
+      });
+      setPlan(response);
+      setLoading(false);
+    } catch (err) {
+      setError(
+        (err as ApiError).response?.data?.error || 'Failed to load capacity plan. Please try again.'
+      );
+      setLoading(false);
+    }
+  };
+
+  const groupLabel = (group: { position: string | null; region: string | null }): string =>
+    `${group.position || 'No position'} · ${group.region || 'No region'}`;
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 bg-white rounded-lg shadow-md">
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Capacity Planning</h2>
+          <p className="text-gray-600">
+            Planned load against headcount per month, in full-time equivalents
+          </p>
+        </div>
+
+        <div className="flex space-x-3">
+          <select
+            aria-label="Position"
+            value={position}
+            onChange={(e) => setPosition(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">All positions</option>
+            {positions.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Region"
+            value={region}
+            onChange={(e) => setRegion(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">All regions</option>
+            {regions.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Months"
+            value={months}
+            onChange={(e) => setMonths(parseInt(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value={6}>6 months</option>
+            <option value={12}>12 months</option>
+            <option value={24}>24 months</option>
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+          <p className="ml-4 text-lg text-gray-600">Loading capacity plan...</p>
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900">Error</h3>
+          <p className="mt-2 text-gray-600">{error}</p>
+          <button
+            onClick={loadCapacityPlan}
+            className="mt-4 px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Retry
+          </button>
+        </div>
+      ) : plan && plan.groups.length === 0 ? (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900">No Capacity Data</h3>
+          <p className="mt-2 text-gray-600">There are no active team members or planned assignments to show.</p>
+        </div>
+      ) : plan && (
+        <>
+          {/* Forecast Shortfalls */}
+          <div className={`mb-6 p-4 rounded-lg ${plan.shortfalls.length ? 'bg-red-50' : 'bg-green-50'}`}>
+            {plan.shortfalls.length === 0 ? (
+              <p className="text-sm font-medium text-green-700">No shortfalls forecast for this period</p>
+            ) : (
+              <>
+                <p className="text-sm font-semibold text-red-700 mb-2">
+                  Forecast shortfalls ({plan.shortfalls.length})
+                </p>
+                <ul className="text-sm text-red-700 space-y-1">
+                  {plan.shortfalls.map((shortfall) => (
+                    <li key={`${shortfall.month}-${shortfall.position}-${shortfall.region}`} data-testid="capacity-shortfall">
+                      {formatMonth(shortfall.month)}: {groupLabel(shortfall)} short by {shortfall.shortfallFte} FTE
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+
+          {/* Demand vs Supply Table */}
+          <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Position · Region
+                  </th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Headcount
+                  </th>
+                  {plan.months.map((month) => (
+                    <th key={month} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {formatMonth(month)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+
+              <tbody className="bg-white divide-y divide-gray-200">
+                {[...plan.groups, { position: 'Total', region: null, headcount: null, months: plan.totals }].map((group) => (
+                  <tr key={groupLabel(group)} className={group.headcount === null ? 'bg-gray-50 font-semibold' : ''}>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {group.headcount === null ? 'Total' : groupLabel(group)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+                      {group.headcount ?? plan.groups.reduce((sum, g) => sum + g.headcount, 0)}
+                    </td>
+                    {group.months.map((month) => (
+                      <td
+                        key={month.month}
+                        className={`px-4 py-3 whitespace-nowrap text-sm ${getCellColor(month)}`}
+                        title={`Committed ${month.committedFte} + tentative ${month.tentativeFte} of ${month.availableFte} available, ${month.leaveFte} on leave`}
+                      >
+                        <div>{month.demandFte} / {month.availableFte}</div>
+                        {month.tentativeFte > 0 && (
+                          <div className="text-xs text-gray-500">incl. {month.tentativeFte} tentative</div>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="mt-3 text-xs text-gray-500">
+            Each cell shows demand / available FTE. Available FTE leaves out approved leave; tentative demand comes from assignments on projects that are still planned.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
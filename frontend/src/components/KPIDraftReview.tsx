@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Button,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert
+} from '@mui/material';
+import { api } from '../services/api';
+import type { ApiError } from '../services/api';
+
+export interface KPIDraft {
+  id: string;
+  employeeId: string;
+  projectId: string;
+  phaseId: string;
+  period: string | null;
+  delayedDays: number;
+  score: number | string | null;
+  employee: { id: string; name: string };
+  project: { id: string; name: string };
+  phase: { id: string; name: string };
+}
+
+export interface DelayDetectionResult {
+  overdueTasks: number;
+  overduePhases: number;
+  drafts: { created: number; updated: number; unchanged: number };
+}
+
+export interface KPIDraftReviewProps {
+  projectId?: string;
+}
+
+const formatPeriod = (period: string | null): string =>
+  period
+    ? new Date(period).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    : '—';
+
+export const KPIDraftReview: React.FC<KPIDraftReviewProps> = ({ projectId }) => {
+  const [drafts, setDrafts] = useState<KPIDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Delayed days the manager corrected before confirming, by draft id
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDrafts();
+  }, [projectId]);
+
+  const fetchDrafts = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await api.get<KPIDraft[]>('/kpis/drafts', {
+        params: { projectId: projectId || undefined },
+      });
+      setDrafts(data || []);
+    } catch (err) {
+      setError((err as ApiError).response?.data?.error || 'Failed to load draft KPI entries');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runDetection = async () => {
+    setError(null);
+    setNotice(null);
+
+    try {
+      const result = await api.post<DelayDetectionResult>('/kpis/detect-delays');
+      setNotice(
+        `Found ${result.overdueTasks} overdue tasks and ${result.overduePhases} overdue phases: ` +
+          `${result.drafts.created} drafts created, ${result.drafts.updated} updated`
+      );
+      await fetchDrafts();
+    } catch (err) {
+      setError((err as ApiError).response?.data?.error || 'Failed to run delay detection');
+    }
+  };
+
+  const confirmDraft = async (draft: KPIDraft) => {
+    const edited = edits[draft.id];
+    const delayedDays = edited === undefined ? draft.delayedDays : Number(edited);
+    if (!Number.isInteger(delayedDays) || delayedDays < 0) {
+      setError('Delayed days must be a non-negative whole number');
+      return;
+    }
+
+    setSaving(draft.id);
+    setError(null);
+
+    try {
+      await api.post(`/kpis/${draft.id}/confirm`, { delayedDays });
+      setDrafts(current => current.filter(d => d.id !== draft.id));
+    } catch (err) {
+      setError((err as ApiError).response?.data?.error || 'Failed to confirm KPI entry');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const discardDraft = async (draft: KPIDraft) => {
+    setSaving(draft.id);
+    setError(null);
+
+    try {
+      await api.delete(`/kpis/${draft.id}`);
+      setDrafts(current => current.filter(d => d.id !== draft.id));
+    } catch (err) {
+      setError((err as ApiError).response?.data?.error || 'Failed to discard KPI entry');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {notice && (
+        <Alert severity="info" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h5">
+          Delay Drafts
+        </Typography>
+
+        <Box display="flex" gap={2}>
+          <Button variant="contained" onClick={runDetection}>
+            Detect Delays Now
+          </Button>
+          <Button variant="outlined" onClick={fetchDrafts}>
+            Refresh
+          </Button>
+        </Box>
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight={200}>
+          <Typography>Loading drafts...</Typography>
+        </Box>
+      ) : (
+        <Card>
+          <CardContent>
+            <Typography variant="body2" color="textSecondary" mb={2}>
+              Drafts are raised for overdue tasks and phases and only count towards scores once confirmed.
+            </Typography>
+
+            <TableContainer>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Employee</TableCell>
+                    <TableCell>Project</TableCell>
+                    <TableCell>Phase</TableCell>
+                    <TableCell>Period</TableCell>
+                    <TableCell>Delayed Days</TableCell>
+                    <TableCell>Score</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {drafts.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} align="center">
+                        <Typography variant="body2" color="textSecondary">
+                          No drafts waiting for review
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    drafts.map((draft) => (
+                      <TableRow key={draft.id}>
+                        <TableCell>{draft.employee.name}</TableCell>
+                        <TableCell>{draft.project.name}</TableCell>
+                        <TableCell>{draft.phase.name}</TableCell>
+                        <TableCell>{formatPeriod(draft.period)}</TableCell>
+                        <TableCell>
+                          <TextField
+                            type="number"
+                            size="small"
+                            value={edits[draft.id] ?? String(draft.delayedDays)}
+                            onChange={(e) => setEdits({ ...edits, [draft.id]: e.target.value })}
+                            inputProps={{ min: 0, 'aria-label': `Delayed days for ${draft.employee.name}` }}
+                            sx={{ width: 100 }}
+                          />
+                        </TableCell>
+                        <TableCell>{draft.score !== null ? `${Number(draft.score)}%` : '—'}</TableCell>
+                        <TableCell align="right">
+                          <Box display="flex" gap={1} justifyContent="flex-end">
+                            <Button
+                              size="small"
+                              variant="contained"
+                              disabled={saving === draft.id}
+                              onClick={() => confirmDraft(draft)}
+                            >
+                              Confirm
+                            </Button>
+                            <Button
+                              size="small"
+                              color="error"
+                              disabled={saving === draft.id}
+                              onClick={() => discardDraft(draft)}
+                            >
+                              Discard
+                            </Button>
+                          </Box>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </CardContent>
+        </Card>
+      )}
+    </Box>
+  );
+};
+
+export default KPIDraftReview;
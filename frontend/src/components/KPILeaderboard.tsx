@@ -0,0 +1,351 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Button,
+  MenuItem,
+  TextField,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Collapse,
+  Alert
+} from '@mui/material';
+import { api } from '../services/api';
+import type { ApiError } from '../services/api';
+
+export interface KPIFactorChange {
+  code: string;
+  label: string;
+  reduction: number;
+  previousReduction: number | null;
+  scoreImpact: number | null;
+}
+
+export interface KPILeaderboardRow {
+  rank: number;
+  quartile: number;
+  employeeId: string;
+  employeeName: string;
+  region: string | null;
+  position: string | null;
+  entries: number;
+  averageScore: number;
+  gradeBand: string | null;
+  previousRank: number | null;
+  previousAverageScore: number | null;
+  scoreDelta: number | null;
+  rankChange: number | null;
+  factors: KPIFactorChange[];
+  mainDriver: string | null;
+}
+
+export interface KPILeaderboardData {
+  period: { startDate: string; endDate: string };
+  previousPeriod: { startDate: string; endDate: string };
+  quartiles: { lower: number | null; median: number | null; upper: number | null };
+  rows: KPILeaderboardRow[];
+}
+
+export interface KPILeaderboardProps {
+  regions?: string[];
+  positions?: string[];
+}
+
+const toDateInput = (date: Date): string => date.toISOString().split('T')[0];
+
+// Quarterly reviews are the usual use, so open on the current quarter
+const currentQuarter = (): { startDate: string; endDate: string } => {
+  const now = new Date();
+  const firstMonth = Math.floor(now.getUTCMonth() / 3) * 3;
+  return {
+    startDate: toDateInput(new Date(Date.UTC(now.getUTCFullYear(), firstMonth, 1))),
+    endDate: toDateInput(new Date(Date.UTC(now.getUTCFullYear(), firstMonth + 3, 0))),
+  };
+};
+
+const formatDelta = (value: number | null): string => {
+  if (value === null) return '—';
+  return value > 0 ? `+${value}` : `${value}`;
+};
+
+const getQuartileColor = (quartile: number): 'success' | 'info' | 'warning' | 'error' => {
+  switch (quartile) {
+    case 1:
+      return 'success';
+    case 2:
+      return 'info';
+    case 3:
+      return 'warning';
+    default:
+      return 'error';
+  }
+};
+
+export const KPILeaderboard: React.FC<KPILeaderboardProps> = ({ regions = [], positions = [] }) => {
+  const [leaderboard, setLeaderboard] = useState<KPILeaderboardData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState<string>(currentQuarter().startDate);
+  const [endDate, setEndDate] = useState<string>(currentQuarter().endDate);
+  const [region, setRegion] = useState<string>('');
+  const [position, setPosition] = useState<string>('');
+  const [phaseType, setPhaseType] = useState<string>('');
+  const [expandedEmployee, setExpandedEmployee] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchLeaderboard();
+  }, [startDate, endDate, region, position, phaseType]);
+
+  const fetchLeaderboard = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await api.get<KPILeaderboardData>('/kpis/leaderboard', {
+        params: {
+          startDate,
+          endDate,
+          region: region || undefined,
+          position: position || undefined,
+          phaseType: phaseType || undefined,
+        },
+      });
+      setLeaderboard(data);
+    } catch (err) {
+      setError((err as ApiError).response?.data?.error || 'Failed to load KPI leaderboard');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const factorLabel = (row: KPILeaderboardRow): string =>
+    row.factors.find(factor => factor.code === row.mainDriver)?.label || '—';
+
+  const rows = leaderboard?.rows || [];
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h5">
+          KPI Leaderboard
+        </Typography>
+
+        <Box display="flex" gap={2}>
+          <TextField
+            type="date"
+            label="From"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            size="small"
+            InputLabelProps={{ shrink: true }}
+          />
+
+          <TextField
+            type="date"
+            label="To"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            size="small"
+            InputLabelProps={{ shrink: true }}
+          />
+
+          <TextField
+            select
+            label="Region"
+            value={region}
+            onChange={(e) => setRegion(e.target.value)}
+            size="small"
+            sx={{ minWidth: 150 }}
+          >
+            <MenuItem value="">All Regions</MenuItem>
+            {regions.map(name => (
+              <MenuItem key={name} value={name}>{name}</MenuItem>
+            ))}
+          </TextField>
+
+          <TextField
+            select
+            label="Position"
+            value={position}
+            onChange={(e) => setPosition(e.target.value)}
+            size="small"
+            sx={{ minWidth: 150 }}
+          >
+            <MenuItem value="">All Positions</MenuItem>
+            {positions.map(name => (
+              <MenuItem key={name} value={name}>{name}</MenuItem>
+            ))}
+          </TextField>
+
+          <TextField
+            select
+            label="Phase"
+            value={phaseType}
+            onChange={(e) => setPhaseType(e.target.value)}
+            size="small"
+            sx={{ minWidth: 130 }}
+          >
+            <MenuItem value="">All Phases</MenuItem>
+            <MenuItem value="STUDIES">Studies</MenuItem>
+            <MenuItem value="DESIGN">Design</MenuItem>
+            <MenuItem value="TECHNICAL">Technical</MenuItem>
+          </TextField>
+
+          <Button variant="outlined" onClick={fetchLeaderboard}>
+            Refresh
+          </Button>
+        </Box>
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight={300}>
+          <Typography>Loading leaderboard...</Typography>
+        </Box>
+      ) : leaderboard && (
+        <>
+          <Grid container spacing={3} mb={3}>
+            {([
+              ['Lower Quartile', leaderboard.quartiles.lower],
+              ['Median', leaderboard.quartiles.median],
+              ['Upper Quartile', leaderboard.quartiles.upper],
+            ] as Array<[string, number | null]>).map(([label, value]) => (
+              <Grid key={label} size={{ xs: 12, sm: 4 }}>
+                <Card>
+                  <CardContent>
+                    <Typography variant="body2" color="textSecondary">
+                      {label}
+                    </Typography>
+                    <Typography variant="h4">
+                      {value !== null ? `${value}%` : '—'}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+
+          <Card>
+            <CardContent>
+              <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+                <Typography variant="h6">
+                  Rankings
+                </Typography>
+                <Typography variant="body2" color="textSecondary">
+                  Compared with {leaderboard.previousPeriod.startDate.split('T')[0]} – {leaderboard.previousPeriod.endDate.split('T')[0]}
+                </Typography>
+              </Box>
+
+              <TableContainer>
+                <Table>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Rank</TableCell>
+                      <TableCell>Employee</TableCell>
+                      <TableCell>Region</TableCell>
+                      <TableCell>Position</TableCell>
+                      <TableCell>Quartile</TableCell>
+                      <TableCell>Score</TableCell>
+                      <TableCell>Grade</TableCell>
+                      <TableCell>Change</TableCell>
+                      <TableCell>Rank Change</TableCell>
+                      <TableCell>Main Driver</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {rows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={10} align="center">
+                          <Typography variant="body2" color="textSecondary">
+                            No KPI entries found for this period
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      rows.map((row) => (
+                        <React.Fragment key={row.employeeId}>
+                          <TableRow
+                            hover
+                            sx={{ cursor: 'pointer' }}
+                            onClick={() =>
+                              setExpandedEmployee(expandedEmployee === row.employeeId ? null : row.employeeId)
+                            }
+                          >
+                            <TableCell>{row.rank}</TableCell>
+                            <TableCell>
+                              <Typography variant="body1" fontWeight="medium">
+                                {row.employeeName}
+                              </Typography>
+                            </TableCell>
+                            <TableCell>{row.region || '—'}</TableCell>
+                            <TableCell>{row.position || '—'}</TableCell>
+                            <TableCell>
+                              <Chip label={`Q${row.quartile}`} size="small" color={getQuartileColor(row.quartile)} />
+                            </TableCell>
+                            <TableCell>{row.averageScore}%</TableCell>
+                            <TableCell>{row.gradeBand || '—'}</TableCell>
+                            <TableCell>
+                              <Typography
+                                variant="body2"
+                                color={row.scoreDelta === null || row.scoreDelta === 0 ? 'textSecondary' : row.scoreDelta > 0 ? 'success.main' : 'error.main'}
+                              >
+                                {formatDelta(row.scoreDelta)}
+                              </Typography>
+                            </TableCell>
+                            <TableCell>{formatDelta(row.rankChange)}</TableCell>
+                            <TableCell>{factorLabel(row)}</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell colSpan={10} sx={{ py: 0, borderBottom: expandedEmployee === row.employeeId ? undefined : 'none' }}>
+                              <Collapse in={expandedEmployee === row.employeeId} unmountOnExit>
+                                <Table size="small" sx={{ my: 1 }}>
+                                  <TableHead>
+                                    <TableRow>
+                                      <TableCell>Factor</TableCell>
+                                      <TableCell>Reduction</TableCell>
+                                      <TableCell>Previous</TableCell>
+                                      <TableCell>Score Impact</TableCell>
+                                    </TableRow>
+                                  </TableHead>
+                                  <TableBody>
+                                    {row.factors.map((factor) => (
+                                      <TableRow key={factor.code}>
+                                        <TableCell>{factor.label}</TableCell>
+                                        <TableCell>{factor.reduction}</TableCell>
+                                        <TableCell>{factor.previousReduction ?? '—'}</TableCell>
+                                        <TableCell>{formatDelta(factor.scoreImpact)}</TableCell>
+                                      </TableRow>
+                                    ))}
+                                  </TableBody>
+                                </Table>
+                              </Collapse>
+                            </TableCell>
+                          </TableRow>
+                        </React.Fragment>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default KPILeaderboard;
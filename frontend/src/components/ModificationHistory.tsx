@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   Box,
   Card,
@@ -12,6 +12,11 @@ import {
   Alert,
   CircularProgress,
   Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
 } from '@mui/material';
 import AccessTimeIcon from '@mui/icons-material/AccessTime';
 import DescriptionIcon from '@mui/icons-material/Description';
@@ -20,12 +25,29 @@ import apiClient from '../services/api';
 
 export interface ModificationRecord {
   id: string;
-  projectId: string;
+  phaseId: string;
+  phaseName: string;
   modificationNumber: number;
+  requestDate: string;
+  requestedBy: string;
   description: string;
-  createdAt: string;
-  createdBy: string | null;
-  daysUsed?: number;
+  daysGranted: number;
+  daysConsumed: number;
+  status: string;
+  isExceptional: boolean;
+}
+
+export interface PhaseModificationStats {
+  phaseId: string;
+  phaseName: string;
+  totalAllowed: number;
+  totalUsed: number;
+  remaining: number;
+  daysPerTime: number;
+  daysGranted: number;
+  daysUsed: number;
+  exceptionalCount: number;
+  canModify: boolean;
 }
 
 export interface ModificationStats {
@@ -33,12 +55,14 @@ export interface ModificationStats {
   totalAllowed: number;
   totalUsed: number;
   remaining: number;
-  daysPerTime: number;
   daysUsed: number;
   canModify: boolean;
+  phases: PhaseModificationStats[];
   modifications: ModificationRecord[];
 }
 
+const formatPhase = (name: string): string => name.charAt(0) + name.slice(1).toLowerCase();
+
 interface ModificationHistoryProps {
   projectId: string;
 }
@@ -54,11 +78,11 @@ const ModificationHistory: React.FC<ModificationHistoryProps> = ({ projectId })
         setLoading(true);
         setError(null);
 
-        const response = await apiClient.get<ModificationStats>(
+        const data = await apiClient.get<ModificationStats>(
           `/projects/${projectId}/modifications`
         );
 
-        setStats(response.data);
+        setStats(data);
       } catch (err) {
         console.error('Failed to load modifications:', err);
         setError('Failed to load modification history');
@@ -107,8 +131,8 @@ const ModificationHistory: React.FC<ModificationHistoryProps> = ({ projectId })
           Modification History
         </Typography>
 
-<Grid container spacing={2} sx={{ mb: 2 }}>
-          <Grid xs={6} sm={3}>
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid size={{ xs: 6, sm: 3 }}>
             <Box>
               <Typography variant="caption" color="textSecondary">
                 Used
@@ -118,7 +142,7 @@ const ModificationHistory: React.FC<ModificationHistoryProps> = ({ projectId })
               </Typography>
             </Box>
           </Grid>
-          <Grid xs={6} sm={3}>
+          <Grid size={{ xs: 6, sm: 3 }}>
             <Box>
               <Typography variant="caption" color="textSecondary">
                 Remaining
@@ -128,7 +152,7 @@ const ModificationHistory: React.FC<ModificationHistoryProps> = ({ projectId })
               </Typography>
             </Box>
           </Grid>
-          <Grid xs={6} sm={3}>
+          <Grid size={{ xs: 6, sm: 3 }}>
             <Box>
               <Typography variant="caption" color="textSecondary">
                 Days Used
@@ -138,7 +162,7 @@ const ModificationHistory: React.FC<ModificationHistoryProps> = ({ projectId })
               </Typography>
             </Box>
           </Grid>
-          <Grid xs={6} sm={3}>
+          <Grid size={{ xs: 6, sm: 3 }}>
             <Box>
               <Typography variant="caption" color="textSecondary">
                 Status
@@ -174,10 +198,47 @@ const ModificationHistory: React.FC<ModificationHistoryProps> = ({ projectId })
 
         <Typography variant="body2" color="textSecondary" gutterBottom>
           {stats.canModify
-            ? `You can make ${stats.remaining} more modification(s) (${stats.daysPerTime} days each)`
+            ? `You can make ${stats.remaining} more modification(s) across the project's phases`
             : 'Modification limit reached. Contact administrator for exceptions.'}
         </Typography>
 
+        {stats.phases.length > 0 && (
+          <Table size="small" sx={{ mt: 1 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Phase</TableCell>
+                <TableCell align="right">Used</TableCell>
+                <TableCell align="right">Remaining</TableCell>
+                <TableCell align="right">Days / Modification</TableCell>
+                <TableCell align="right">Days Granted</TableCell>
+                <TableCell align="right">Days Used</TableCell>
+                <TableCell align="right">Exceptional</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {stats.phases.map((phase) => (
+                <TableRow key={phase.phaseId}>
+                  <TableCell>{formatPhase(phase.phaseName)}</TableCell>
+                  <TableCell align="right">
+                    {phase.totalUsed} / {phase.totalAllowed}
+                  </TableCell>
+                  <TableCell align="right">
+                    <Chip
+                      label={phase.remaining}
+                      color={phase.canModify ? 'success' : 'error'}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell align="right">{phase.daysPerTime}</TableCell>
+                  <TableCell align="right">{phase.daysGranted}</TableCell>
+                  <TableCell align="right">{phase.daysUsed}</TableCell>
+                  <TableCell align="right">{phase.exceptionalCount}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
         {stats.modifications.length > 0 && (
           <>
             <Divider sx={{ my: 2 }} />
@@ -197,23 +258,24 @@ const ModificationHistory: React.FC<ModificationHistoryProps> = ({ projectId })
                   >
                     <Box sx={{ display: 'flex', alignItems: 'center', width: '100%' }}>
                       <Chip
-                        label={`#${mod.modificationNumber}`}
+                        label={`${formatPhase(mod.phaseName)} #${mod.modificationNumber}`}
                         size="small"
                         variant="outlined"
                         sx={{ mr: 1 }}
                       />
+                      {mod.isExceptional && (
+                        <Chip label="Exceptional" size="small" color="warning" sx={{ mr: 1 }} />
+                      )}
                       <Typography variant="body2" color="textSecondary" sx={{ flexGrow: 1 }}>
-                        {new Date(mod.createdAt).toLocaleDateString('en-US', {
+                        {new Date(mod.requestDate).toLocaleDateString('en-US', {
                           year: 'numeric',
                           month: 'short',
                           day: 'numeric',
                         })}
                       </Typography>
-                      {mod.daysUsed !== undefined && (
-                        <Typography variant="caption" color="textSecondary">
-                          {mod.daysUsed} days
-                        </Typography>
-                      )}
+                      <Typography variant="caption" color="textSecondary">
+                        {mod.daysConsumed} / {mod.daysGranted} days
+                      </Typography>
                     </Box>
                     <ListItemText
                       primary={mod.description}
@@ -222,16 +284,13 @@ const ModificationHistory: React.FC<ModificationHistoryProps> = ({ projectId })
                           <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
                             <PersonIcon sx={{ fontSize: 14 }} />
                             <Typography variant="caption" color="textSecondary">
-                              {mod.createdBy || 'Unknown'}
+                              {mod.requestedBy}
                             </Typography>
                           </Box>
                           <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
                             <AccessTimeIcon sx={{ fontSize: 14 }} />
                             <Typography variant="caption" color="textSecondary">
-                              {new Date(mod.createdAt).toLocaleTimeString('en-US', {
-                                hour: '2-digit',
-                                minute: '2-digit',
-                              })}
+                              {mod.status.replace('_', ' ')}
                             </Typography>
                           </Box>
                         </Box>
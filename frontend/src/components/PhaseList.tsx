@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
     Box,
     Card,
@@ -9,53 +9,144 @@ import {
     AccordionSummary,
     AccordionDetails,
     CircularProgress,
-    Button
+    Button,
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    TextField,
+    RadioGroup,
+    Radio,
+    FormControl,
+    FormLabel,
+    FormControlLabel,
+    Checkbox,
+    Alert
 } from '@mui/material';
 import { ExpandMore as ExpandMoreIcon } from '@mui/icons-material';
 import TaskList from './TaskList';
 import apiClient from '../services/api';
+import type { ApiError } from '../services/api';
+import { useAuthStore } from '../state/authStore';
+
+interface PhaseTask {
+    id: string;
+    code: string;
+    description: string;
+    status: string;
+}
 
 interface Phase {
     id: string;
     name: string;
     status: string;
     progress: number;
+    version?: number;
+    tasks?: PhaseTask[];
 }
 
 interface PhaseListProps {
     projectId: string;
 }
 
+type OpenTaskAction = 'CARRY_OVER' | 'CANCEL' | 'LEAVE_OPEN';
+
 const STATUS_REF = {
     PLANNED: { color: 'default' },
     IN_PROGRESS: { color: 'primary' },
     COMPLETED: { color: 'success' },
 };
 
+const OPEN_TASK_OPTIONS: Array<{ value: OpenTaskAction; label: string }> = [
+    { value: 'CARRY_OVER', label: 'Carry them over to the next phase' },
+    { value: 'CANCEL', label: 'Cancel them' },
+    { value: 'LEAVE_OPEN', label: 'Leave them open on this phase' },
+];
+
+// Every item must be ticked before a phase can be forced to complete
+const CHECKLIST = [
+    'I have reviewed the open tasks listed above',
+    'The phase deliverables have been accepted',
+    'The team leader has been informed',
+];
+
+const isOpen = (task: PhaseTask) => task.status !== 'COMPLETED' && task.status !== 'CANCELLED';
+
 export default function PhaseList({ projectId }: PhaseListProps) {
     const [phases, setPhases] = useState<Phase[]>([]);
     const [loading, setLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    // Force-complete dialog state
+    const [forcing, setForcing] = useState<Phase | null>(null);
+    const [reason, setReason] = useState('');
+    const [openTasks, setOpenTasks] = useState<OpenTaskAction>('CARRY_OVER');
+    const [checked, setChecked] = useState<boolean[]>(CHECKLIST.map(() => false));
+    const [submitting, setSubmitting] = useState(false);
+    const [forceError, setForceError] = useState<string | null>(null);
+
+    const user = useAuthStore(state => state.user);
+    // FR-035: only managers may complete a phase with unfinished tasks
+    const isManager = user?.role === 'MANAGER';
+
+    const loadPhases = useCallback(async () => {
+        try {
+            setLoading(true);
+            setLoadError(null);
+            const data = await apiClient.get<Phase[]>(`/projects/${projectId}/phases`);
+            setPhases(data);
+        } catch {
+            setLoadError('Failed to load phases');
+        } finally {
+            setLoading(false);
+        }
+    }, [projectId]);
 
     useEffect(() => {
-        const loadPhases = async () => {
-            try {
-                setLoading(true);
-                const data = await apiClient.get<Phase[]>(`/projects/${projectId}/phases`);
-                setPhases(data);
-            } catch (err) {
-                console.error('Failed to load phases', err);
-            } finally {
-                setLoading(false);
-            }
-        };
         loadPhases();
-    }, [projectId]);
+    }, [loadPhases]);
+
+    const openForceDialog = (phase: Phase) => {
+        setForcing(phase);
+        setReason('');
+        setOpenTasks('CARRY_OVER');
+        setChecked(CHECKLIST.map(() => false));
+        setForceError(null);
+    };
+
+    const handleForceComplete = async () => {
+        if (!forcing) return;
+
+        setSubmitting(true);
+        setForceError(null);
+        try {
+            await apiClient.post(`/phases/${forcing.id}/force-complete`, {
+                reason: reason.trim(),
+                openTasks,
+                version: forcing.version,
+            });
+            setForcing(null);
+            await loadPhases();
+        } catch (err) {
+            setForceError((err as ApiError).response?.data?.error || 'Failed to force-complete phase');
+        } finally {
+            setSubmitting(false);
+        }
+    };
 
     if (loading) return <CircularProgress />;
 
+    const forcingOpenTasks = (forcing?.tasks || []).filter(isOpen);
+    const canConfirm = reason.trim().length > 0 && checked.every(Boolean) && !submitting;
+
     return (
         <Box sx={{ mt: 4 }}>
             <Typography variant="h5" sx={{ mb: 3 }}>Project Phases</Typography>
+            {loadError && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                    {loadError}
+                </Alert>
+            )}
             {phases.map((phase) => (
                 <Accordion key={phase.id} defaultExpanded={phase.status === 'IN_PROGRESS'}>
                     <AccordionSummary expandIcon={<ExpandMoreIcon />}>
@@ -76,10 +167,105 @@ export default function PhaseList({ projectId }: PhaseListProps) {
                         </Box>
                     </AccordionSummary>
                     <AccordionDetails>
+                        {isManager && phase.status !== 'COMPLETED' && (
+                            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 2 }}>
+                                <Button
+                                    variant="outlined"
+                                    color="warning"
+                                    size="small"
+                                    onClick={() => openForceDialog(phase)}
+                                >
+                                    Force Complete
+                                </Button>
+                            </Box>
+                        )}
                         <TaskList phaseId={phase.id} />
                     </AccordionDetails>
                 </Accordion>
             ))}
+
+            <Dialog open={!!forcing} onClose={() => setForcing(null)} maxWidth="sm" fullWidth>
+                <DialogTitle>Force complete {forcing?.name}</DialogTitle>
+                <DialogContent>
+                    {forceError && (
+                        <Alert severity="error" sx={{ mb: 2 }}>
+                            {forceError}
+                        </Alert>
+                    )}
+
+                    <Card variant="outlined" sx={{ mb: 2 }}>
+                        <CardContent>
+                            <Typography variant="subtitle2" gutterBottom>
+                                {forcingOpenTasks.length} open task(s)
+                            </Typography>
+                            {forcingOpenTasks.map(task => (
+                                <Typography key={task.id} variant="body2" color="text.secondary">
+                                    {task.code} – {task.description}
+                                </Typography>
+                            ))}
+                        </CardContent>
+                    </Card>
+
+                    <TextField
+                        label="Reason"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        required
+                        fullWidth
+                        multiline
+                        minRows={3}
+                        sx={{ mb: 2 }}
+                    />
+
+                    <FormControl sx={{ mb: 2 }}>
+                        <FormLabel id="open-tasks-label">Open tasks</FormLabel>
+                        <RadioGroup
+                            aria-labelledby="open-tasks-label"
+                            value={openTasks}
+                            onChange={(e) => setOpenTasks(e.target.value as OpenTaskAction)}
+                        >
+                            {OPEN_TASK_OPTIONS.map(option => (
+                                <FormControlLabel
+                                    key={option.value}
+                                    value={option.value}
+                                    control={<Radio />}
+                                    label={option.label}
+                                />
+                            ))}
+                        </RadioGroup>
+                    </FormControl>
+
+                    <Box sx={{ display: 'flex', flexDirection: 'column' }}>
+                        {CHECKLIST.map((item, index) => (
+                            <FormControlLabel
+                                key={item}
+                                control={
+                                    <Checkbox
+                                        checked={checked[index]}
+                                        onChange={(e) =>
+                                            setChecked(prev =>
+                                                prev.map((value, i) => (i === index ? e.target.checked : value))
+                                            )
+                                        }
+                                    />
+                                }
+                                label={item}
+                            />
+                        ))}
+                    </Box>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setForcing(null)}>Cancel</Button>
+                    <Button
+                        variant="contained"
+                        color="warning"
+                        onClick={handleForceComplete}
+                        disabled={!canConfirm}
+                    >
+                        Force Complete
+                    </Button>
+                </DialogActions>
+            </Dialog>
         </Box>
     );
 }
@@ -47,6 +47,7 @@ const ProjectFilter: React.FC<ProjectFilterProps> = ({
     { value: '', label: 'All Phases' },
     { value: 'STUDIES', label: 'STUDIES' },
     { value: 'DESIGN', label: 'DESIGN' },
+    { value: 'TECHNICAL', label: 'TECHNICAL' },
   ],
   clientOptions = [],
 }) => {
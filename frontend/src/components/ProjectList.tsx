@@ -58,6 +58,7 @@ const PHASE_OPTIONS = [
   { value: '', label: 'All Phases' },
   { value: 'STUDIES', label: 'STUDIES' },
   { value: 'DESIGN', label: 'DESIGN' },
+  { value: 'TECHNICAL', label: 'TECHNICAL' },
 ] as const;
 
 const STATUS_COLORS: Record<string, string> = {
@@ -61,6 +61,12 @@ export default function ReportViewer({ reportId, reportType, employeeId, project
     }
   };
 
+  // Project follow-up reports are rendered on demand; other report types are stored by id
+  const downloadEndpoint = (format: 'pdf' | 'excel'): string =>
+    reportType === 'project' && projectId
+      ? `/reports/project/${projectId}/follow-up/${format}`
+      : `/reports/${reportId}/${format}`;
+
   const handleDownloadPDF = async () => {
     if (!report) {
       return;
@@ -70,12 +76,12 @@ export default function ReportViewer({ reportId, reportType, employeeId, project
     setDownloadProgress(0);
 
     try {
-      const response = await api.get(`/reports/${reportId}/pdf`, {
+      const blob = await api.get<Blob>(downloadEndpoint('pdf'), {
         responseType: 'blob'
       });
 
       // Create download link
-      const url = window.URL.createObjectURL(new Blob([response.data], { type: 'application/pdf' }));
+      const url = window.URL.createObjectURL(new Blob([blob], { type: 'application/pdf' }));
       const link = document.createElement('a');
       link.href = url;
       link.download = `${reportType}-report-${reportId}.pdf`;
@@ -99,12 +105,12 @@ export default function ReportViewer({ reportId, reportType, employeeId, project
     setDownloadProgress(0);
 
     try {
-      const response = await api.get(`/reports/${reportId}/excel`, {
+      const blob = await api.get<Blob>(downloadEndpoint('excel'), {
         responseType: 'blob'
       });
 
       // Create download link
-      const url = window.URL.createObjectURL(new Blob([response.data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }));
+      const url = window.URL.createObjectURL(new Blob([blob], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }));
       const link = document.createElement('a');
       link.href = url;
       link.download = `${reportType}-report-${reportId}.xlsx`;
@@ -29,7 +29,7 @@ export interface TaskFormData {
     code: string;
     description: string;
     duration: number;
-    status: 'PLANNED' | 'IN_PROGRESS' | 'COMPLETED';
+    status: 'PLANNED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
     assignedTeamMemberId?: string;
 }
 
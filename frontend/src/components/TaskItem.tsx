@@ -16,7 +16,7 @@ export interface Task {
     code: string;
     description: string;
     duration: number;
-    status: 'PLANNED' | 'IN_PROGRESS' | 'COMPLETED';
+    status: 'PLANNED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
     assignedTeamMemberId?: string | null;
     startDate?: string | null;
     endDate?: string | null;
@@ -36,6 +36,7 @@ const STATUS_COLORS = {
     PLANNED: 'default',
     IN_PROGRESS: 'primary',
     COMPLETED: 'success',
+    CANCELLED: 'default',
 } as const;
 
 export default function TaskItem({ task, onEdit, onDelete }: TaskItemProps) {
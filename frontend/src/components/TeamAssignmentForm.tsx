@@ -16,6 +16,26 @@ interface Phase {
   status: string;
 }
 
+type QualificationMatch = 'NOT_REQUIRED' | 'QUALIFIED' | 'EXPIRING' | 'EXPIRED' | 'MISSING';
+
+interface RankedCandidate {
+  rank: number;
+  teamMemberId: string;
+  name: string;
+  position: string | null;
+  region: string | null;
+  score: number;
+  licenseType: QualificationMatch;
+  projectType: QualificationMatch;
+  qualified: boolean;
+  currentAllocation: number;
+  leaveDays: number;
+  isOverallocated: boolean;
+  regionMatch: boolean | null;
+  kpiScore: number | null;
+  kpiEntries: number;
+}
+
 interface TeamAssignmentFormProps {
   projectId: string;
   teamMember: TeamMember;
@@ -23,8 +43,28 @@ interface TeamAssignmentFormProps {
   currentAllocation: number;
   onSuccess?: () => void;
   onCancel?: () => void;
+  // Switch the form to a suggested candidate
+  onSelectCandidate?: (teamMemberId: string) => void;
 }
 
+const MATCH_STYLES: Record<QualificationMatch, string> = {
+  NOT_REQUIRED: '',
+  QUALIFIED: 'bg-green-100 text-green-800',
+  EXPIRING: 'bg-yellow-100 text-yellow-800',
+  EXPIRED: 'bg-red-100 text-red-800',
+  MISSING: 'bg-gray-100 text-gray-600',
+};
+
+const MATCH_LABELS: Record<QualificationMatch, string> = {
+  NOT_REQUIRED: '',
+  QUALIFIED: 'qualified',
+  EXPIRING: 'expires during phase',
+  EXPIRED: 'expired',
+  MISSING: 'missing',
+};
+
+const MAX_SUGGESTIONS = 5;
+
 export default function TeamAssignmentForm({
   projectId,
   teamMember,
@@ -32,6 +72,7 @@ export default function TeamAssignmentForm({
   currentAllocation,
   onSuccess,
   onCancel,
+  onSelectCandidate,
 }: TeamAssignmentFormProps) {
   const [phaseId, setPhaseId] = useState('');
   const [role, setRole] = useState<string>('TEAM_MEMBER');
@@ -39,10 +80,12 @@ export default function TeamAssignmentForm({
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
   const [overrideAllocation, setOverrideAllocation] = useState<boolean>(false);
+  const [overrideJustification, setOverrideJustification] = useState<string>('');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [successMessage, setSuccessMessage] = useState<string>('');
   const [warning, setWarning] = useState<string>('');
+  const [suggestions, setSuggestions] = useState<RankedCandidate[]>([]);
 
   useEffect(() => {
     // Set default start date to today
@@ -63,6 +106,33 @@ export default function TeamAssignmentForm({
     }
   }, [workingPercentage, currentAllocation, overrideAllocation]);
 
+  useEffect(() => {
+    if (!phaseId || !workingPercentage || workingPercentage <= 0 || workingPercentage > 100) {
+      setSuggestions([]);
+      return;
+    }
+    loadSuggestions();
+  }, [phaseId, workingPercentage, startDate, endDate]);
+
+  // Suggestions are advisory: without them the form still works
+  const loadSuggestions = async () => {
+    try {
+      const response = await api.get(`/assignments/candidates/${phaseId}`, {
+        params: {
+          workingPercentage,
+          startDate: startDate || undefined,
+          endDate: endDate || undefined,
+        },
+      });
+      setSuggestions((response?.candidates || []).slice(0, MAX_SUGGESTIONS));
+    } catch (error) {
+      setSuggestions([]);
+    }
+  };
+
+  // Going beyond 100% is recorded against the manager with their reason (FR-032)
+  const isOverridden = overrideAllocation && currentAllocation + workingPercentage > 100;
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -78,6 +148,9 @@ export default function TeamAssignmentForm({
     if (!startDate) {
       newErrors.startDate = 'Start date is required';
     }
+    if (isOverridden && !overrideJustification.trim()) {
+      newErrors.overrideJustification = 'A justification is required to override the allocation limit';
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -109,6 +182,10 @@ export default function TeamAssignmentForm({
         workingPercentage,
         startDate,
         endDate: endDate || null,
+        ...(isOverridden && {
+          overrideAllocation: true,
+          overrideJustification: overrideJustification.trim(),
+        }),
       };
 
       await api.post('/assignments', payload);
@@ -164,13 +241,13 @@ export default function TeamAssignmentForm({
       )}
 
       {/* Warning Message */}
-      {warning && (
+      {(warning || isOverridden) && (
         <div className="mb-4 p-4 bg-yellow-100 border border-yellow-400 text-yellow-700 rounded-lg">
           <div className="flex items-start">
             <span className="mr-2 text-xl">⚠️</span>
             <div>
               <p className="font-semibold">Over-Allocation Warning</p>
-              <p className="text-sm">{warning}</p>
+              {warning && <p className="text-sm">{warning}</p>}
 
               {/* Override Checkbox */}
               {currentAllocation + workingPercentage > 100 && (
@@ -186,6 +263,28 @@ export default function TeamAssignmentForm({
                   </span>
                 </label>
               )}
+
+              {isOverridden && (
+                <div className="mt-3">
+                  <label htmlFor="overrideJustification" className="block text-sm font-medium">
+                    Justification *
+                  </label>
+                  <textarea
+                    id="overrideJustification"
+                    value={overrideJustification}
+                    onChange={(e) => setOverrideJustification(e.target.value)}
+                    rows={2}
+                    className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 ${
+                      errors.overrideJustification ? 'border-red-500 focus:ring-red-500 focus:border-red-500' : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+                    }`}
+                    placeholder="Why this person needs to go beyond 100%"
+                  />
+                  {errors.overrideJustification && (
+                    <p className="mt-1 text-sm text-red-600">{errors.overrideJustification}</p>
+                  )}
+                  <p className="mt-1 text-xs">The override and its justification are recorded in the audit log.</p>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -318,6 +417,78 @@ export default function TeamAssignmentForm({
           )}
         </div>
 
+        {/* Ranked Suggestions */}
+        {suggestions.length > 0 && (
+          <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <h3 className="text-sm font-semibold text-gray-900">Suggested Team Members</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              Ranked by license and project type qualification, free time over these dates, region and KPI history
+            </p>
+            <ul className="divide-y divide-gray-200">
+              {suggestions.map((candidate) => (
+                <li
+                  key={candidate.teamMemberId}
+                  data-testid="candidate-suggestion"
+                  className={`py-2 flex items-start justify-between ${
+                    candidate.teamMemberId === teamMember.id ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      #{candidate.rank} {candidate.name}
+                      {(candidate.position || candidate.region) && (
+                        <span className="ml-1 font-normal text-gray-500">
+                          ({[candidate.position, candidate.region].filter(Boolean).join(' · ')})
+                        </span>
+                      )}
+                    </p>
+                    <div className="mt-1 flex flex-wrap gap-1 text-xs">
+                      {candidate.licenseType !== 'NOT_REQUIRED' && (
+                        <span className={`px-2 py-0.5 rounded ${MATCH_STYLES[candidate.licenseType]}`}>
+                          License {MATCH_LABELS[candidate.licenseType]}
+                        </span>
+                      )}
+                      {candidate.projectType !== 'NOT_REQUIRED' && (
+                        <span className={`px-2 py-0.5 rounded ${MATCH_STYLES[candidate.projectType]}`}>
+                          Project type {MATCH_LABELS[candidate.projectType]}
+                        </span>
+                      )}
+                      <span className={`px-2 py-0.5 rounded ${candidate.isOverallocated ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}`}>
+                        Allocated {candidate.currentAllocation}%
+                      </span>
+                      {candidate.leaveDays > 0 && (
+                        <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                          {candidate.leaveDays} {candidate.leaveDays === 1 ? 'day' : 'days'} on leave
+                        </span>
+                      )}
+                      <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                        {candidate.kpiScore !== null ? `KPI ${candidate.kpiScore}` : 'No KPI history'}
+                      </span>
+                      {candidate.regionMatch === false && (
+                        <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-700">Other region</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="ml-4 text-right">
+                    <p className="text-sm font-bold text-gray-900">{candidate.score}</p>
+                    {candidate.teamMemberId === teamMember.id ? (
+                      <p className="text-xs text-blue-600">Selected</p>
+                    ) : onSelectCandidate && (
+                      <button
+                        type="button"
+                        onClick={() => onSelectCandidate(candidate.teamMemberId)}
+                        className="text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        Assign instead
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Buttons */}
         <div className="flex justify-end space-x-4">
           {onCancel && (
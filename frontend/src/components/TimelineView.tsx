@@ -39,6 +39,25 @@ interface ProjectData {
   }>;
 }
 
+interface CriticalPathTask {
+  taskId: string;
+  code: string;
+  earlyStart: string;
+  earlyFinish: string;
+  lateStart: string;
+  lateFinish: string;
+  totalFloat: number;
+  critical: boolean;
+}
+
+interface CriticalPathData {
+  projectId: string;
+  finishDate: string | null;
+  duration: number;
+  tasks: CriticalPathTask[];
+  criticalPath: string[];
+}
+
 interface TimelineViewProps {
   projectId?: string;
   teamMemberId?: string;
@@ -58,6 +77,8 @@ export default function TimelineView({
   const [selectedProject, setSelectedProject] = useState<ProjectData | null>(null);
   const [expandedPhases, setExpandedPhases] = useState<Set<string>>(new Set());
   const [showConflictsOnly, setShowConflictsOnly] = useState<boolean>(false);
+  const [criticalPaths, setCriticalPaths] = useState<Record<string, CriticalPathData>>({});
+  const [showCriticalPath, setShowCriticalPath] = useState<boolean>(true);
 
   useEffect(() => {
     loadTimelineData();
@@ -75,7 +96,7 @@ export default function TimelineView({
       if (endDate) filters.endDate = endDate;
 
       const response = await api.get('/timeline', { params: filters });
-      const timelineData = response.data || [];
+      const timelineData = response?.timeline || [];
 
       // Build project data structure
       const projectMap = new Map<string, ProjectData>();
@@ -136,14 +157,36 @@ export default function TimelineView({
         }
       });
 
-      setProjects(Array.from(projectMap.values()));
+      const loadedProjects = Array.from(projectMap.values());
+      setProjects(loadedProjects);
       setLoading(false);
+      loadCriticalPaths(loadedProjects);
     } catch (err: any) {
       setError('Failed to load timeline data. Please try again.');
       setLoading(false);
     }
   };
 
+  // A project without a critical path (e.g. no tasks yet) simply isn't highlighted
+  const loadCriticalPaths = async (loadedProjects: ProjectData[]) => {
+    const results = await Promise.allSettled(
+      loadedProjects.map(project =>
+        api.get<CriticalPathData>(`/timeline/projects/${project.projectId}/critical-path`)
+      )
+    );
+
+    const paths: Record<string, CriticalPathData> = {};
+    results.forEach(result => {
+      if (result.status === 'fulfilled' && result.value) {
+        paths[result.value.projectId] = result.value;
+      }
+    });
+    setCriticalPaths(paths);
+  };
+
+  const getCriticalTask = (projectId: string, taskId: string): CriticalPathTask | undefined =>
+    criticalPaths[projectId]?.tasks.find(t => t.taskId === taskId);
+
   const togglePhase = (phaseId: string) => {
     const newExpanded = new Set(expandedPhases);
     if (newExpanded.has(phaseId)) {
@@ -291,6 +334,19 @@ export default function TimelineView({
           >
             Show Conflicts Only
           </button>
+
+          <button
+            onClick={() => setShowCriticalPath(!showCriticalPath)}
+            aria-label="Toggle critical path"
+            aria-pressed={showCriticalPath}
+            className={`px-4 py-2 border rounded-lg text-sm font-medium ${
+              showCriticalPath
+                ? 'bg-orange-600 text-white hover:bg-orange-700'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            Highlight Critical Path
+          </button>
         </div>
       </div>
 
@@ -307,6 +363,21 @@ export default function TimelineView({
                 </div>
               </div>
 
+              {/* Critical Path */}
+              {showCriticalPath && criticalPaths[project.projectId]?.criticalPath.length > 0 && (
+                <div className="mt-3 text-sm text-blue-100">
+                  Critical path:{' '}
+                  {criticalPaths[project.projectId].criticalPath
+                    .map(taskId => getCriticalTask(project.projectId, taskId)?.code)
+                    .join(' → ')}
+                  {criticalPaths[project.projectId].finishDate && (
+                    <span className="ml-2">
+                      (finishes {new Date(criticalPaths[project.projectId].finishDate as string).toLocaleDateString()})
+                    </span>
+                  )}
+                </div>
+              )}
+
               {/* Conflict Warnings */}
               {project.conflicts.length > 0 && (
                 <div className="mt-3 bg-red-100 bg-opacity-50 px-4 py-2 rounded-lg">
@@ -341,6 +412,9 @@ export default function TimelineView({
                   const progress = calculatePhaseProgress(phase);
                   const isExpanded = expandedPhases.has(phase.phaseId);
                   const phaseColor = getPhaseColor(phase.status);
+                  const onCriticalPath = showCriticalPath && phase.tasks.some(
+                    t => getCriticalTask(project.projectId, t.taskId)?.critical
+                  );
 
                   return (
                     <React.Fragment key={phase.phaseId}>
@@ -370,6 +444,11 @@ export default function TimelineView({
                               <span className="ml-2 text-sm text-gray-600">
                                 {phase.status}
                               </span>
+                              {onCriticalPath && (
+                                <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
+                                  On critical path
+                                </span>
+                              )}
                             </div>
                           </div>
 
@@ -435,28 +514,47 @@ export default function TimelineView({
                               <h5 className="text-sm font-semibold text-gray-900 mb-2">
                                 Tasks ({phase.tasks.length})
                               </h5>
-                              {phase.tasks.map((task, idx) => (
-                                <div
-                                  key={idx}
-                                  className={`flex items-center py-2 border-b border-gray-200 last:border-0 ${
-                                    task.status === 'COMPLETED'
-                                      ? 'bg-green-50'
-                                      : task.status === 'IN_PROGRESS'
-                                      ? 'bg-blue-50'
-                                      : 'bg-gray-50'
-                                  }`}
-                                >
-                                  <div className="flex-1">
-                                    <span className="text-sm text-gray-900">{task.description}</span>
-                                    <span className="text-xs text-gray-500 block mt-1">
-                                      {task.assignedTo}
-                                    </span>
-                                  </div>
-                                  <div className="ml-4 text-xs font-medium text-gray-600">
-                                    {task.status}
+                              {phase.tasks.map((task, idx) => {
+                                const schedule = getCriticalTask(project.projectId, task.taskId);
+                                const isCritical = showCriticalPath && !!schedule?.critical;
+
+                                return (
+                                  <div
+                                    key={idx}
+                                    data-testid={isCritical ? 'critical-task' : undefined}
+                                    className={`flex items-center py-2 border-b border-gray-200 last:border-0 ${
+                                      isCritical
+                                        ? 'bg-red-50 border-l-4 border-l-red-500 pl-2'
+                                        : task.status === 'COMPLETED'
+                                        ? 'bg-green-50'
+                                        : task.status === 'IN_PROGRESS'
+                                        ? 'bg-blue-50'
+                                        : 'bg-gray-50'
+                                    }`}
+                                  >
+                                    <div className="flex-1">
+                                      <span className="text-sm text-gray-900">{task.description}</span>
+                                      <span className="text-xs text-gray-500 block mt-1">
+                                        {task.assignedTo}
+                                      </span>
+                                    </div>
+                                    {schedule && (
+                                      <div className="ml-4 text-xs text-gray-600">
+                                        {isCritical ? (
+                                          <span className="px-2 py-0.5 rounded font-medium bg-red-100 text-red-800">
+                                            Critical
+                                          </span>
+                                        ) : (
+                                          <span>Float: {schedule.totalFloat} days</span>
+                                        )}
+                                      </div>
+                                    )}
+                                    <div className="ml-4 text-xs font-medium text-gray-600">
+                                      {task.status}
+                                    </div>
                                   </div>
-                                </div>
-                              ))}
+                                );
+                              })}
                             </div>
                           </div>
                         )}
@@ -498,6 +596,7 @@ export default function TimelineView({
         <div className="mt-4 text-sm text-gray-600">
           <p>💡 Tip: Click on a phase to expand/collapse details</p>
           <p>💡 Tip: Use "Show Conflicts Only" to focus on scheduling issues</p>
+          <p>💡 Tip: Critical tasks have no float; any slip moves the project finish date</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,82 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { render, screen, waitFor } from '@testing-library/react';
+import CalendarView from '../../src/components/CalendarView';
+import { api } from '../../src/services/api';
+
+vi.mock('../../src/services/api', () => ({
+  api: {
+    get: vi.fn(),
+  },
+}));
+
+const mockCalendar = {
+  year: 2026,
+  month: 3,
+  eventCount: 3,
+  events: [
+    {
+      id: 'task-task-1',
+      title: 'Site survey',
+      start: '2026-03-08T00:00:00.000Z',
+      end: '2026-03-19T00:00:00.000Z',
+      resourceId: 'task-1',
+      resourceType: 'TASK',
+    },
+    {
+      id: 'leave-leave-1',
+      title: 'Ahmed Ali: Annual leave',
+      start: '2026-03-10T00:00:00.000Z',
+      end: '2026-03-12T00:00:00.000Z',
+      allDay: true,
+      resourceId: 'user-1',
+      resourceType: 'LEAVE',
+      status: 'APPROVED',
+    },
+    {
+      id: 'leave-leave-2',
+      title: 'Sara Omar: Sick leave',
+      start: '2026-03-24T00:00:00.000Z',
+      end: '2026-03-24T00:00:00.000Z',
+      allDay: true,
+      resourceId: 'user-2',
+      resourceType: 'LEAVE',
+      status: 'PENDING',
+    },
+  ],
+};
+
+describe('CalendarView leave', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.get).mockResolvedValue(mockCalendar);
+  });
+
+  it('shows approved leave on each day away', async () => {
+    render(<CalendarView year={2026} month={3} />);
+
+    await waitFor(() => {
+      expect(screen.getAllByText('Ahmed Ali: Annual leave').length).toBeGreaterThan(0);
+    });
+    expect(screen.getAllByText('LEAVE').length).toBeGreaterThan(0);
+    expect(api.get).toHaveBeenCalledWith('/timeline/calendar/2026/3');
+  });
+
+  it('marks leave still waiting for approval', async () => {
+    render(<CalendarView year={2026} month={3} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Sara Omar: Sick leave')).toBeInTheDocument();
+    });
+    expect(screen.getByText('LEAVE (PENDING)')).toBeInTheDocument();
+  });
+
+  it('lists leave in the legend', async () => {
+    render(<CalendarView year={2026} month={3} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Leave (dashed while pending)')).toBeInTheDocument();
+    });
+  });
+});
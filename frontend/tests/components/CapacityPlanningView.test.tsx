@@ -0,0 +1,129 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { render, screen, waitFor, fireEvent, within } from '@testing-library/react';
+import CapacityPlanningView from '../../src/components/CapacityPlanningView';
+import { api } from '../../src/services/api';
+
+vi.mock('../../src/services/api', () => ({
+  api: {
+    get: vi.fn(),
+  },
+}));
+
+const month = (
+  name: string,
+  availableFte: number,
+  committedFte: number,
+  tentativeFte: number
+) => {
+  const demandFte = committedFte + tentativeFte;
+  return {
+    month: name,
+    availableFte,
+    leaveFte: 0,
+    committedFte,
+    tentativeFte,
+    demandFte,
+    shortfallFte: Math.max(0, demandFte - availableFte),
+    utilization: availableFte ? (demandFte / availableFte) * 100 : null,
+  };
+};
+
+describe('CapacityPlanningView Component', () => {
+  const mockPlan = {
+    months: ['2026-03', '2026-04'],
+    groups: [
+      {
+        position: 'Architect',
+        region: 'Riyadh',
+        headcount: 2,
+        months: [month('2026-03', 2, 1.5, 0), month('2026-04', 2, 2, 0.5)],
+      },
+      {
+        position: 'Engineer',
+        region: 'Jeddah',
+        headcount: 1,
+        months: [month('2026-03', 1, 0.5, 0), month('2026-04', 1, 0.5, 0)],
+      },
+    ],
+    totals: [month('2026-03', 3, 2, 0), month('2026-04', 3, 2.5, 0.5)],
+    shortfalls: [{ month: '2026-04', position: 'Architect', region: 'Riyadh', shortfallFte: 0.5 }],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.get).mockResolvedValue(mockPlan);
+  });
+
+  it('requests twelve months of capacity by default', async () => {
+    render(<CapacityPlanningView />);
+
+    await waitFor(() => {
+      expect(api.get).toHaveBeenCalledWith('/capacity', {
+        params: { months: 12, position: undefined, region: undefined },
+      });
+    });
+  });
+
+  it('shows demand against supply for each position and region', async () => {
+    render(<CapacityPlanningView />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Architect · Riyadh')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Engineer · Jeddah')).toBeInTheDocument();
+    const architectRow = screen.getByText('Architect · Riyadh').closest('tr') as HTMLElement;
+    expect(within(architectRow).getByText('2.5 / 2')).toBeInTheDocument();
+    expect(within(architectRow).getByText('incl. 0.5 tentative')).toBeInTheDocument();
+    expect(screen.getByText('Total')).toBeInTheDocument();
+  });
+
+  it('lists forecast shortfalls', async () => {
+    render(<CapacityPlanningView />);
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('capacity-shortfall')).toHaveLength(1);
+    });
+    expect(screen.getByTestId('capacity-shortfall')).toHaveTextContent(
+      'Architect · Riyadh short by 0.5 FTE'
+    );
+  });
+
+  it('filters by position', async () => {
+    render(<CapacityPlanningView positions={['Architect', 'Engineer']} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Architect · Riyadh')).toBeInTheDocument();
+    });
+    fireEvent.change(screen.getByLabelText('Position'), { target: { value: 'Engineer' } });
+
+    await waitFor(() => {
+      expect(api.get).toHaveBeenLastCalledWith('/capacity', {
+        params: { months: 12, position: 'Engineer', region: undefined },
+      });
+    });
+  });
+
+  it('says so when no shortfall is forecast', async () => {
+    vi.mocked(api.get).mockResolvedValue({ ...mockPlan, shortfalls: [] });
+
+    render(<CapacityPlanningView />);
+
+    await waitFor(() => {
+      expect(screen.getByText('No shortfalls forecast for this period')).toBeInTheDocument();
+    });
+  });
+
+  it('shows the error returned by the server', async () => {
+    vi.mocked(api.get).mockRejectedValue({
+      response: { data: { error: 'months must be a whole number from 1 to 36' } },
+    });
+
+    render(<CapacityPlanningView />);
+
+    await waitFor(() => {
+      expect(screen.getByText('months must be a whole number from 1 to 36')).toBeInTheDocument();
+    });
+  });
+});
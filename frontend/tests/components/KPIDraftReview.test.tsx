@@ -0,0 +1,125 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import KPIDraftReview from '../../src/components/KPIDraftReview';
+import { api } from '../../src/services/api';
+
+vi.mock('../../src/services/api', () => ({
+  api: {
+    get: vi.fn(),
+    post: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+describe('KPIDraftReview Component', () => {
+  const mockDrafts = [
+    {
+      id: 'kpi-1',
+      employeeId: 'user-1',
+      projectId: 'project-1',
+      phaseId: 'phase-1',
+      period: '2026-03-01T00:00:00.000Z',
+      delayedDays: 4,
+      score: '92',
+      employee: { id: 'user-1', name: 'Alice Johnson' },
+      project: { id: 'project-1', name: 'Villa Project' },
+      phase: { id: 'phase-1', name: 'DESIGN' },
+    },
+    {
+      id: 'kpi-2',
+      employeeId: 'user-2',
+      projectId: 'project-1',
+      phaseId: 'phase-1',
+      period: '2026-03-01T00:00:00.000Z',
+      delayedDays: 6,
+      score: '88',
+      employee: { id: 'user-2', name: 'Bob Smith' },
+      project: { id: 'project-1', name: 'Villa Project' },
+      phase: { id: 'phase-1', name: 'DESIGN' },
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.get).mockResolvedValue(mockDrafts);
+    vi.mocked(api.post).mockResolvedValue({});
+    vi.mocked(api.delete).mockResolvedValue(undefined);
+  });
+
+  it('lists the drafts waiting for review', async () => {
+    render(<KPIDraftReview projectId="project-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Alice Johnson')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Bob Smith')).toBeInTheDocument();
+    expect(screen.getAllByText('March 2026')).toHaveLength(2);
+    expect(api.get).toHaveBeenCalledWith('/kpis/drafts', { params: { projectId: 'project-1' } });
+  });
+
+  it('confirms a draft with the corrected delayed days', async () => {
+    render(<KPIDraftReview />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Delayed days for Alice Johnson')).toBeInTheDocument();
+    });
+    fireEvent.change(screen.getByLabelText('Delayed days for Alice Johnson'), {
+      target: { value: '2' },
+    });
+    fireEvent.click(screen.getAllByText('Confirm')[0]);
+
+    await waitFor(() => {
+      expect(api.post).toHaveBeenCalledWith('/kpis/kpi-1/confirm', { delayedDays: 2 });
+    });
+    await waitFor(() => {
+      expect(screen.queryByText('Alice Johnson')).not.toBeInTheDocument();
+    });
+  });
+
+  it('discards a draft', async () => {
+    render(<KPIDraftReview />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Bob Smith')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getAllByText('Discard')[1]);
+
+    await waitFor(() => {
+      expect(api.delete).toHaveBeenCalledWith('/kpis/kpi-2');
+    });
+  });
+
+  it('runs delay detection on demand and reports what it found', async () => {
+    vi.mocked(api.post).mockResolvedValue({
+      overdueTasks: 3,
+      overduePhases: 1,
+      drafts: { created: 2, updated: 1, unchanged: 0 },
+    });
+
+    render(<KPIDraftReview />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Alice Johnson')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText('Detect Delays Now'));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText('Found 3 overdue tasks and 1 overdue phases: 2 drafts created, 1 updated')
+      ).toBeInTheDocument();
+    });
+    expect(api.post).toHaveBeenCalledWith('/kpis/detect-delays');
+  });
+
+  it('shows an empty state when there is nothing to review', async () => {
+    vi.mocked(api.get).mockResolvedValue([]);
+
+    render(<KPIDraftReview />);
+
+    await waitFor(() => {
+      expect(screen.getByText('No drafts waiting for review')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import KPILeaderboard from '../../src/components/KPILeaderboard';
+import { api } from '../../src/services/api';
+
+vi.mock('../../src/services/api', () => ({
+  api: {
+    get: vi.fn(),
+  },
+}));
+
+const factors = (delayed: number, previousDelayed: number | null) => [
+  {
+    code: 'DELAYED_DAYS',
+    label: 'Delayed (Days)',
+    reduction: delayed,
+    previousReduction: previousDelayed,
+    scoreImpact: previousDelayed === null ? null : previousDelayed - delayed,
+  },
+  {
+    code: 'TECHNICAL_MISTAKE',
+    label: 'Technical Mistake',
+    reduction: 0,
+    previousReduction: previousDelayed === null ? null : 0,
+    scoreImpact: previousDelayed === null ? null : 0,
+  },
+];
+
+describe('KPILeaderboard Component', () => {
+  const mockLeaderboard = {
+    period: { startDate: '2026-01-01T00:00:00.000Z', endDate: '2026-03-31T00:00:00.000Z' },
+    previousPeriod: { startDate: '2025-10-01T00:00:00.000Z', endDate: '2025-12-31T00:00:00.000Z' },
+    quartiles: { lower: 85, median: 90, upper: 92.5 },
+    rows: [
+      {
+        rank: 1,
+        quartile: 1,
+        employeeId: 'user-1',
+        employeeName: 'Alice Johnson',
+        region: 'Riyadh',
+        position: 'Architect',
+        entries: 2,
+        averageScore: 95,
+        gradeBand: 'Excellent',
+        previousRank: 2,
+        previousAverageScore: 85,
+        scoreDelta: 10,
+        rankChange: 1,
+        factors: factors(5, 15),
+        mainDriver: 'DELAYED_DAYS',
+      },
+      {
+        rank: 2,
+        quartile: 3,
+        employeeId: 'user-2',
+        employeeName: 'Bob Smith',
+        region: 'Jeddah',
+        position: 'Engineer',
+        entries: 1,
+        averageScore: 80,
+        gradeBand: 'Very Good',
+        previousRank: null,
+        previousAverageScore: null,
+        scoreDelta: null,
+        rankChange: null,
+        factors: factors(20, null),
+        mainDriver: null,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.get).mockResolvedValue(mockLeaderboard);
+  });
+
+  it('requests the leaderboard for the current quarter', async () => {
+    render(<KPILeaderboard />);
+
+    await waitFor(() => {
+      expect(api.get).toHaveBeenCalledWith(
+        '/kpis/leaderboard',
+        expect.objectContaining({
+          params: expect.objectContaining({
+            startDate: expect.stringMatching(/^\d{4}-(01|04|07|10)-01$/),
+          }),
+        })
+      );
+    });
+  });
+
+  it('renders ranked employees with quartiles and grades', async () => {
+    render(<KPILeaderboard />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Alice Johnson')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Bob Smith')).toBeInTheDocument();
+    expect(screen.getByText('Q1')).toBeInTheDocument();
+    expect(screen.getByText('Q3')).toBeInTheDocument();
+    expect(screen.getByText('Excellent')).toBeInTheDocument();
+  });
+
+  it('shows the quartile thresholds', async () => {
+    render(<KPILeaderboard />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Median')).toBeInTheDocument();
+    });
+    expect(screen.getByText('90%')).toBeInTheDocument();
+    expect(screen.getByText('92.5%')).toBeInTheDocument();
+  });
+
+  it('shows the change from the previous period and its main driver', async () => {
+    render(<KPILeaderboard />);
+
+    await waitFor(() => {
+      expect(screen.getByText('+10')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Delayed (Days)')).toBeInTheDocument();
+  });
+
+  it('expands the factor breakdown for an employee', async () => {
+    render(<KPILeaderboard />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Alice Johnson')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText('Alice Johnson'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Technical Mistake')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Score Impact')).toBeInTheDocument();
+  });
+
+  it('shows an empty state when nobody has entries in the period', async () => {
+    vi.mocked(api.get).mockResolvedValue({ ...mockLeaderboard, rows: [] });
+
+    render(<KPILeaderboard />);
+
+    await waitFor(() => {
+      expect(screen.getByText('No KPI entries found for this period')).toBeInTheDocument();
+    });
+  });
+
+  it('shows the error returned by the server', async () => {
+    vi.mocked(api.get).mockRejectedValue({
+      response: { data: { error: 'startDate must be before endDate' } },
+    });
+
+    render(<KPILeaderboard />);
+
+    await waitFor(() => {
+      expect(screen.getByText('startDate must be before endDate')).toBeInTheDocument();
+    });
+  });
+});
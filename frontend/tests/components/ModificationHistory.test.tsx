@@ -0,0 +1,124 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import ModificationHistory from '../../src/components/ModificationHistory';
+import apiClient from '../../src/services/api';
+
+vi.mock('../../src/services/api', () => ({
+  default: {
+    get: vi.fn(),
+  },
+}));
+
+describe('ModificationHistory Component', () => {
+  const mockStats = {
+    projectId: 'project-1',
+    totalAllowed: 5,
+    totalUsed: 3,
+    remaining: 2,
+    daysUsed: 9,
+    canModify: true,
+    phases: [
+      {
+        phaseId: 'phase-1',
+        phaseName: 'STUDIES',
+        totalAllowed: 3,
+        totalUsed: 3,
+        remaining: 0,
+        daysPerTime: 5,
+        daysGranted: 12,
+        daysUsed: 9,
+        exceptionalCount: 1,
+        canModify: false,
+      },
+      {
+        phaseId: 'phase-2',
+        phaseName: 'DESIGN',
+        totalAllowed: 2,
+        totalUsed: 0,
+        remaining: 2,
+        daysPerTime: 7,
+        daysGranted: 0,
+        daysUsed: 0,
+        exceptionalCount: 0,
+        canModify: true,
+      },
+    ],
+    modifications: [
+      {
+        id: 'mod-1',
+        phaseId: 'phase-1',
+        phaseName: 'STUDIES',
+        modificationNumber: 1,
+        requestDate: '2026-02-10T00:00:00.000Z',
+        requestedBy: 'Client Representative',
+        description: 'Move the main entrance',
+        daysGranted: 4,
+        daysConsumed: 3,
+        status: 'DONE',
+        isExceptional: false,
+      },
+      {
+        id: 'mod-2',
+        phaseId: 'phase-1',
+        phaseName: 'STUDIES',
+        modificationNumber: 2,
+        requestDate: '2026-03-01T00:00:00.000Z',
+        requestedBy: 'Client Owner',
+        description: 'Add a basement floor',
+        daysGranted: 8,
+        daysConsumed: 6,
+        status: 'IN_PROGRESS',
+        isExceptional: true,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(apiClient.get).mockResolvedValue(mockStats);
+  });
+
+  it('requests the project modification stats', async () => {
+    render(<ModificationHistory projectId="project-1" />);
+
+    await waitFor(() => {
+      expect(apiClient.get).toHaveBeenCalledWith('/projects/project-1/modifications');
+    });
+  });
+
+  it('shows each phase with its own allowance', async () => {
+    render(<ModificationHistory projectId="project-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Studies')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Design')).toBeInTheDocument();
+    expect(screen.getByText('3 / 3')).toBeInTheDocument();
+    expect(screen.getByText('0 / 2')).toBeInTheDocument();
+    expect(screen.getByText('7')).toBeInTheDocument();
+  });
+
+  it('lists modifications with their phase and exceptional flag', async () => {
+    render(<ModificationHistory projectId="project-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Move the main entrance')).toBeInTheDocument();
+    });
+    const item = screen.getByText('Add a basement floor').closest('li') as HTMLElement;
+    expect(within(item).getByText('Studies #2')).toBeInTheDocument();
+    expect(within(item).getByText('Exceptional')).toBeInTheDocument();
+    expect(within(item).getByText('6 / 8 days')).toBeInTheDocument();
+  });
+
+  it('shows an error when the stats fail to load', async () => {
+    vi.mocked(apiClient.get).mockRejectedValue(new Error('Network error'));
+
+    render(<ModificationHistory projectId="project-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Failed to load modification history')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import PhaseList from '../../src/components/PhaseList';
+import apiClient from '../../src/services/api';
+import { useAuthStore } from '../../src/state/authStore';
+
+vi.mock('../../src/services/api', () => ({
+  default: {
+    get: vi.fn(),
+    post: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/state/authStore', () => ({
+  useAuthStore: vi.fn(),
+}));
+
+vi.mock('../../src/components/TaskList', () => ({
+  default: () => <div>Task list</div>,
+}));
+
+const mockPhases = [
+  {
+    id: 'phase-1',
+    name: 'STUDIES',
+    status: 'IN_PROGRESS',
+    progress: 50,
+    version: 3,
+    tasks: [
+      { id: 'task-1', code: 'ST-01', description: 'Site survey', status: 'COMPLETED' },
+      { id: 'task-2', code: 'ST-02', description: 'Soil report', status: 'IN_PROGRESS' },
+    ],
+  },
+  {
+    id: 'phase-2',
+    name: 'DESIGN',
+    status: 'COMPLETED',
+    progress: 100,
+    version: 2,
+    tasks: [],
+  },
+];
+
+type AuthState = ReturnType<typeof useAuthStore.getState>;
+
+const asRole = (role: AuthState['user']['role']) => {
+  vi.mocked(useAuthStore).mockImplementation((selector: (state: AuthState) => unknown) =>
+    selector({ user: { role } } as AuthState)
+  );
+};
+
+const openDialog = async () => {
+  render(<PhaseList projectId="project-1" />);
+  await waitFor(() => {
+    expect(screen.getByText('STUDIES')).toBeInTheDocument();
+  });
+  fireEvent.click(screen.getByRole('button', { name: 'Force Complete' }));
+};
+
+describe('PhaseList Component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    asRole('MANAGER');
+    vi.mocked(apiClient.get).mockResolvedValue(mockPhases);
+    vi.mocked(apiClient.post).mockResolvedValue({});
+  });
+
+  it('offers managers a force complete on phases that are not completed', async () => {
+    render(<PhaseList projectId="project-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('STUDIES')).toBeInTheDocument();
+    });
+    expect(screen.getAllByRole('button', { name: 'Force Complete' })).toHaveLength(1);
+  });
+
+  it('does not offer force complete to team leaders', async () => {
+    asRole('TEAM_LEADER');
+
+    render(<PhaseList projectId="project-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('STUDIES')).toBeInTheDocument();
+    });
+    expect(screen.queryByRole('button', { name: 'Force Complete' })).not.toBeInTheDocument();
+  });
+
+  it('lists the open tasks in the confirmation dialog', async () => {
+    await openDialog();
+
+    expect(screen.getByText('1 open task(s)')).toBeInTheDocument();
+    expect(screen.getByText(/Soil report/)).toBeInTheDocument();
+    expect(screen.queryByText(/Site survey/)).not.toBeInTheDocument();
+  });
+
+  it('needs a reason and the whole checklist before confirming', async () => {
+    await openDialog();
+
+    const confirm = screen.getAllByRole('button', { name: 'Force Complete' }).at(-1)!;
+    expect(confirm).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText(/Reason/), { target: { value: 'Client accepted' } });
+    expect(confirm).toBeDisabled();
+
+    screen.getAllByRole('checkbox').forEach(checkbox => fireEvent.click(checkbox));
+    expect(confirm).toBeEnabled();
+  });
+
+  it('sends the reason and the open task choice', async () => {
+    await openDialog();
+
+    fireEvent.change(screen.getByLabelText(/Reason/), { target: { value: 'Client accepted' } });
+    fireEvent.click(screen.getByLabelText('Cancel them'));
+    screen.getAllByRole('checkbox').forEach(checkbox => fireEvent.click(checkbox));
+    fireEvent.click(screen.getAllByRole('button', { name: 'Force Complete' }).at(-1)!);
+
+    await waitFor(() => {
+      expect(apiClient.post).toHaveBeenCalledWith('/phases/phase-1/force-complete', {
+        reason: 'Client accepted',
+        openTasks: 'CANCEL',
+        version: 3,
+      });
+    });
+  });
+
+  it('shows why a force complete was refused', async () => {
+    vi.mocked(apiClient.post).mockRejectedValue({
+      response: { data: { error: 'Phase has changed since it was loaded' } },
+    });
+    await openDialog();
+
+    fireEvent.change(screen.getByLabelText(/Reason/), { target: { value: 'Client accepted' } });
+    screen.getAllByRole('checkbox').forEach(checkbox => fireEvent.click(checkbox));
+    fireEvent.click(screen.getAllByRole('button', { name: 'Force Complete' }).at(-1)!);
+
+    await waitFor(() => {
+      expect(screen.getByText('Phase has changed since it was loaded')).toBeInTheDocument();
+    });
+  });
+
+  it('tells the user when the phases cannot be loaded', async () => {
+    vi.mocked(apiClient.get).mockRejectedValue(new Error('Network error'));
+
+    render(<PhaseList projectId="project-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Failed to load phases')).toBeInTheDocument();
+    });
+  });
+});
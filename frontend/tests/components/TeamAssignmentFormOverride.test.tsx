@@ -0,0 +1,78 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import TeamAssignmentForm from '../../src/components/TeamAssignmentForm';
+import { api } from '../../src/services/api';
+
+vi.mock('../../src/services/api', () => ({
+  api: {
+    get: vi.fn(),
+    post: vi.fn(),
+  },
+}));
+
+describe('TeamAssignmentForm allocation override', () => {
+  const teamMember = { id: 'user-1', name: 'John Doe', email: 'john@example.com', role: 'TEAM_MEMBER' };
+  const phases = [
+    { id: 'phase-1', name: 'STUDIES', startDate: '2025-01-01', duration: 90, status: 'IN_PROGRESS' },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.get).mockResolvedValue({ phaseId: 'phase-1', candidates: [] });
+  });
+
+  const renderOverAllocated = () => {
+    render(
+      <TeamAssignmentForm projectId="proj-1" teamMember={teamMember} phases={phases} currentAllocation={85} />
+    );
+    fireEvent.change(screen.getByLabelText(/phase/i), { target: { value: 'phase-1' } });
+    fireEvent.change(screen.getByLabelText(/allocation \(%\)/i), { target: { value: '20' } });
+  };
+
+  it('only lets an over-allocation be submitted once it is overridden', () => {
+    renderOverAllocated();
+    expect(screen.getByRole('button', { name: 'Assign' })).toBeDisabled();
+
+    fireEvent.click(screen.getByLabelText(/override allocation limit/i));
+
+    expect(screen.getByRole('button', { name: 'Assign' })).not.toBeDisabled();
+  });
+
+  it('requires a justification when overriding', async () => {
+    renderOverAllocated();
+    fireEvent.click(screen.getByLabelText(/override allocation limit/i));
+    fireEvent.click(screen.getByRole('button', { name: 'Assign' }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/a justification is required/i)).toBeInTheDocument();
+    });
+    expect(api.post).not.toHaveBeenCalled();
+  });
+
+  it('sends the override with its justification', async () => {
+    vi.mocked(api.post).mockResolvedValue({ id: 'new-assignment-id' });
+
+    renderOverAllocated();
+    fireEvent.change(screen.getByLabelText(/start date/i), { target: { value: '2025-04-01' } });
+    fireEvent.click(screen.getByLabelText(/override allocation limit/i));
+    fireEvent.change(screen.getByLabelText(/justification/i), {
+      target: { value: '  Covering for a colleague on leave ' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Assign' }));
+
+    await waitFor(() => {
+      expect(api.post).toHaveBeenCalledWith('/assignments', {
+        phaseId: 'phase-1',
+        teamMemberId: 'user-1',
+        role: 'TEAM_MEMBER',
+        workingPercentage: 20,
+        startDate: '2025-04-01',
+        endDate: null,
+        overrideAllocation: true,
+        overrideJustification: 'Covering for a colleague on leave',
+      });
+    });
+  });
+});
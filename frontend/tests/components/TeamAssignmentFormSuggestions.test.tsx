@@ -0,0 +1,136 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import TeamAssignmentForm from '../../src/components/TeamAssignmentForm';
+import { api } from '../../src/services/api';
+
+vi.mock('../../src/services/api', () => ({
+  api: {
+    get: vi.fn(),
+    post: vi.fn(),
+  },
+}));
+
+const candidate = (overrides: Record<string, unknown>) => ({
+  position: 'Engineer',
+  region: 'Riyadh',
+  licenseType: 'QUALIFIED',
+  projectType: 'QUALIFIED',
+  qualified: true,
+  currentAllocation: 0,
+  leaveDays: 0,
+  isOverallocated: false,
+  regionMatch: true,
+  kpiScore: 90,
+  kpiEntries: 3,
+  ...overrides,
+});
+
+describe('TeamAssignmentForm suggestions', () => {
+  const teamMember = { id: 'user-2', name: 'Sara Omar', email: 'sara@example.com', role: 'TEAM_MEMBER' };
+  const phases = [
+    { id: 'phase-1', name: 'DESIGN', startDate: '2026-04-01', duration: 40, status: 'PLANNED' },
+  ];
+
+  const mockRanking = {
+    phaseId: 'phase-1',
+    licenseType: 'Class A',
+    projectType: 'Villa',
+    candidates: [
+      candidate({ rank: 1, teamMemberId: 'user-1', name: 'Ali Hassan', score: 88.5, projectType: 'EXPIRING' }),
+      candidate({ rank: 2, teamMemberId: 'user-2', name: 'Sara Omar', score: 78, currentAllocation: 80, isOverallocated: true }),
+      candidate({
+        rank: 3,
+        teamMemberId: 'user-3',
+        name: 'Badr Saleh',
+        region: 'Jeddah',
+        score: 40,
+        licenseType: 'EXPIRED',
+        projectType: 'MISSING',
+        qualified: false,
+        regionMatch: false,
+        kpiScore: null,
+        kpiEntries: 0,
+      }),
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.get).mockResolvedValue(mockRanking);
+  });
+
+  const selectPhase = () => {
+    fireEvent.change(screen.getByLabelText(/phase/i), { target: { value: 'phase-1' } });
+  };
+
+  it('asks for candidates once a phase is chosen', async () => {
+    render(
+      <TeamAssignmentForm projectId="project-1" teamMember={teamMember} phases={phases} currentAllocation={0} />
+    );
+    expect(api.get).not.toHaveBeenCalled();
+
+    selectPhase();
+
+    await waitFor(() => {
+      expect(api.get).toHaveBeenCalledWith('/assignments/candidates/phase-1', {
+        params: expect.objectContaining({ workingPercentage: 10 }),
+      });
+    });
+  });
+
+  it('shows the ranked candidates with their qualifications', async () => {
+    render(
+      <TeamAssignmentForm projectId="project-1" teamMember={teamMember} phases={phases} currentAllocation={0} />
+    );
+    selectPhase();
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('candidate-suggestion')).toHaveLength(3);
+    });
+    expect(screen.getByText('#1 Ali Hassan')).toBeInTheDocument();
+    expect(screen.getByText('Project type expires during phase')).toBeInTheDocument();
+    expect(screen.getByText('License expired')).toBeInTheDocument();
+    expect(screen.getByText('Allocated 80%')).toBeInTheDocument();
+    expect(screen.getByText('No KPI history')).toBeInTheDocument();
+    expect(screen.getByText('Other region')).toBeInTheDocument();
+  });
+
+  it('marks the team member being assigned and offers the others', async () => {
+    const onSelectCandidate = vi.fn();
+    render(
+      <TeamAssignmentForm
+        projectId="project-1"
+        teamMember={teamMember}
+        phases={phases}
+        currentAllocation={0}
+        onSelectCandidate={onSelectCandidate}
+      />
+    );
+    selectPhase();
+
+    await waitFor(() => {
+      expect(screen.getByText('Selected')).toBeInTheDocument();
+    });
+    expect(screen.getAllByText('Assign instead')).toHaveLength(2);
+
+    fireEvent.click(screen.getAllByText('Assign instead')[0]);
+    expect(onSelectCandidate).toHaveBeenCalledWith('user-1');
+  });
+
+  it('keeps the form usable when suggestions cannot be loaded', async () => {
+    vi.mocked(api.get).mockRejectedValue(new Error('Network error'));
+
+    render(
+      <TeamAssignmentForm projectId="project-1" teamMember={teamMember} phases={phases} currentAllocation={0} />
+    );
+    selectPhase();
+
+    await waitFor(() => {
+      expect(api.get).toHaveBeenCalled();
+    });
+    expect(screen.queryByText('Suggested Team Members')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Assign' })).toBeInTheDocument();
+  });
+});
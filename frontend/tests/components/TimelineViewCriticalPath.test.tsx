@@ -0,0 +1,108 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import TimelineView from '../../src/components/TimelineView';
+import { api } from '../../src/services/api';
+
+vi.mock('../../src/services/api', () => ({
+  api: {
+    get: vi.fn(),
+  },
+}));
+
+const mockTimeline = {
+  timeline: [
+    {
+      projectId: 'project-1',
+      projectName: 'Riyadh Villa',
+      startDate: '2026-03-01',
+      estimatedEndDate: '2026-03-31',
+      phases: [
+        {
+          phaseId: 'phase-1',
+          phaseName: 'STUDIES',
+          startDate: '2026-03-01',
+          endDate: null,
+          status: 'IN_PROGRESS',
+          tasks: [
+            { taskId: 'task-1', description: 'Site survey', status: 'IN_PROGRESS', assignedTo: 'Ahmed' },
+            { taskId: 'task-2', description: 'Soil report', status: 'PLANNED', assignedTo: 'Sara' },
+          ],
+        },
+      ],
+      teamAssignments: [],
+    },
+  ],
+};
+
+const mockCriticalPath = {
+  projectId: 'project-1',
+  finishDate: '2026-03-10',
+  duration: 7,
+  criticalPath: ['task-1'],
+  tasks: [
+    {
+      taskId: 'task-1',
+      code: 'ST-01',
+      earlyStart: '2026-03-01',
+      earlyFinish: '2026-03-10',
+      lateStart: '2026-03-01',
+      lateFinish: '2026-03-10',
+      totalFloat: 0,
+      critical: true,
+    },
+    {
+      taskId: 'task-2',
+      code: 'ST-02',
+      earlyStart: '2026-03-01',
+      earlyFinish: '2026-03-02',
+      lateStart: '2026-03-04',
+      lateFinish: '2026-03-05',
+      totalFloat: 3,
+      critical: false,
+    },
+  ],
+};
+
+const openPhase = async () => {
+  render(<TimelineView projectId="project-1" />);
+  await waitFor(() => {
+    expect(screen.getByText(/Critical path: ST-01/)).toBeInTheDocument();
+  });
+  fireEvent.click(screen.getByText('STUDIES'));
+};
+
+describe('TimelineView critical path', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.get).mockImplementation((url: string) =>
+      Promise.resolve(url.endsWith('/critical-path') ? mockCriticalPath : mockTimeline)
+    );
+  });
+
+  it('loads the critical path of each project', async () => {
+    await openPhase();
+
+    expect(api.get).toHaveBeenCalledWith('/timeline/projects/project-1/critical-path');
+    expect(screen.getByText('On critical path')).toBeInTheDocument();
+  });
+
+  it('highlights critical tasks and shows the float of the others', async () => {
+    await openPhase();
+
+    const critical = screen.getAllByTestId('critical-task');
+    expect(critical).toHaveLength(1);
+    expect(critical[0]).toHaveTextContent('Site survey');
+    expect(screen.getByText('Float: 3 days')).toBeInTheDocument();
+  });
+
+  it('can turn the highlighting off', async () => {
+    await openPhase();
+
+    fireEvent.click(screen.getByLabelText('Toggle critical path'));
+
+    expect(screen.queryByTestId('critical-task')).not.toBeInTheDocument();
+    expect(screen.queryByText(/Critical path: ST-01/)).not.toBeInTheDocument();
+  });
+});